@@ -0,0 +1,410 @@
+// app.ts
+import cors, { type CorsOptions } from 'cors'
+import { createHash } from 'crypto'
+import dotenv from 'dotenv'
+import express, { type ErrorRequestHandler, type Response } from 'express'
+import multer from 'multer'
+import { createAuth } from './auth/index.js'
+import type {
+  ApiError,
+  DebugResponse,
+  HealthResponse,
+  PinBatchResponse,
+  PinImageResponse,
+  PinnedBatchItem,
+  PinnedImage,
+  PinnedMetadata,
+} from './contract/api.js'
+import { openApiRoutes } from './contract/openapi.js'
+import {
+  MetadataFieldsSchema,
+  parseRequest,
+  PinBatchFormSchema,
+  PinImageFormSchema,
+  PinMetadataRequestSchema,
+} from './contract/schemas.js'
+import { createGateway } from './gateway/index.js'
+import { createLimits } from './limits/index.js'
+import { arc3MediaFields, createMediaPolicy, MEDIA_METADATA_KEYS, type PreparedMedia } from './media/index.js'
+import { createPinInventory } from './pins/index.js'
+import { createRegistry } from './registry/index.js'
+import { createStorageProvider } from './storage/index.js'
+import { createVault } from './vault/index.js'
+
+// Load local .env for dev. In Vercel, env vars come from platform.
+dotenv.config()
+
+const app = express()
+
+// Behind Vercel (or another proxy) the client IP comes from X-Forwarded-For; needed for per-IP limits
+if (process.env.VERCEL || process.env.TRUST_PROXY === 'true') app.set('trust proxy', true)
+
+// --- DEBUG: log every request (shows up in Vercel logs)
+app.use((req, _res, next) => {
+  console.log(`[REQ] ${req.method} ${req.url} origin=${req.headers.origin || 'none'}`)
+  next()
+})
+
+/**
+ * CORS
+ * Optional: set ALLOWED_ORIGINS in Vercel env as comma-separated list
+ * Example:
+ *   ALLOWED_ORIGINS=https://tokenize-rwa-template.vercel.app,http://localhost:5173
+ */
+const explicitAllowed = (process.env.ALLOWED_ORIGINS || '')
+  .split(',')
+  .map((s) => s.trim())
+  .filter(Boolean)
+
+function isAllowedOrigin(origin: string) {
+  if (explicitAllowed.includes('*')) return true
+  if (explicitAllowed.includes(origin)) return true
+  if (origin === 'http://localhost:5173') return true
+
+  try {
+    const host = new URL(origin).hostname
+    return host.endsWith('.vercel.app') || host.endsWith('.app.github.dev')
+  } catch {
+    return false
+  }
+}
+
+const corsOptions: CorsOptions = {
+  origin: (origin, cb) => {
+    if (!origin) return cb(null, true)
+    if (isAllowedOrigin(origin)) return cb(null, true)
+    return cb(new Error(`CORS blocked for origin: ${origin}`))
+  },
+  methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization'],
+  exposedHeaders: ['Retry-After'],
+  credentials: false,
+  optionsSuccessStatus: 204,
+}
+
+// Apply CORS to all routes
+app.use(cors(corsOptions))
+
+app.options('*', cors(corsOptions))
+
+app.use(express.json())
+
+// Storage provider (Pinata, Kubo, filesystem or memory; see storage/index.ts)
+const storage = createStorageProvider()
+console.log(`Storage provider: ${storage.name}`)
+
+// Optional: test credentials at cold start
+;(async () => {
+  if (!storage.testAuthentication) return
+  try {
+    const auth = await storage.testAuthentication()
+    console.log(`${storage.name} auth OK:`, auth || 'ok')
+  } catch (e) {
+    console.error(`${storage.name} authentication FAILED. Check env vars.`, e)
+  }
+})()
+
+// Shared catalog of pins and mints (SQLite; see registry/index.ts)
+const registry = createRegistry()
+
+// Wallet-signature auth (see auth/index.ts); pin endpoints require a bearer token
+const auth = createAuth()
+auth.routes(app)
+const { requireAuth } = auth
+
+// Per-address / per-IP rate limits and daily byte quotas for the pin endpoints (see limits/index.ts)
+const limits = createLimits()
+limits.routes(app, requireAuth)
+const limited = [requireAuth, limits.rateLimit, limits.byteQuota]
+
+// Upload policy: sniffed MIME allowlist, per-type size limits, GPS stripping, thumbnails (see media/index.ts)
+const mediaPolicy = createMediaPolicy()
+
+// Uploads
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: mediaPolicy.maxUploadBytes },
+})
+
+// Encrypted document vault: ciphertext pinning and key release to recipients (see vault/index.ts)
+const vault = createVault(storage, process.env, registry.recordPin, registry.metadataReferences)
+vault.routes(app, {
+  upload: [...limited, upload.single('file')],
+  key: [requireAuth, limits.rateLimit],
+})
+
+// Asset registry: list / search / detail, and mint registration (verified against algod)
+registry.routes(app, [limits.rateLimit])
+
+// Pin inventory, unpin and garbage collection of orphaned pins (see pins/index.ts)
+const pins = createPinInventory(storage, registry, limits.isAdmin)
+pins.routes(app, requireAuth)
+pins.schedule()
+
+// ipfs:// content for the frontend: gateway list with fallback and a disk cache (see gateway/index.ts)
+createGateway(storage).routes(app, [limits.rateLimit])
+
+// OpenAPI document generated from the request/response schemas (see contract/)
+openApiRoutes(app)
+
+app.get('/health', (_req, res: Response<HealthResponse>) => {
+  res.set('Cache-Control', 'no-store')
+  res.status(200).json({ ok: true, ts: Date.now() })
+})
+
+// DEBUG ROUTE
+app.get('/api/debug', (req, res: Response<DebugResponse>) => {
+  res.status(200).json({
+    ok: true,
+    message: 'Reached Express',
+    url: req.url,
+    origin: req.headers.origin || null,
+  })
+})
+
+type MetadataFields = ReturnType<typeof MetadataFieldsSchema.parse>
+
+function buildMetadata(
+  { metaName, metaDescription, externalUrl, properties }: MetadataFields,
+  imageUrl: string,
+  mediaFields: Record<string, string> = {},
+) {
+  return {
+    name: metaName,
+    description: metaDescription,
+    image: imageUrl,
+    ...mediaFields,
+    ...(externalUrl ? { external_url: externalUrl } : {}),
+    properties,
+  }
+}
+
+/**
+ * Pin metadata JSON and describe it for ARC-3 / ARC-19 minting.
+ * ARC-3: the on-chain metadata hash is sha256 of the exact JSON bytes, so we serialize once
+ * and pin those bytes as a file (JSON pinning APIs re-serialize server-side)
+ */
+async function pinMetadata(metadata: ReturnType<typeof buildMetadata>, address: string): Promise<PinnedMetadata> {
+  const metadataJson = JSON.stringify(metadata)
+  const metadataBytes = Buffer.from(metadataJson, 'utf8')
+  const metadataHash = createHash('sha256').update(metadataBytes).digest('base64')
+
+  const { cid } = await storage.pinFile(metadataBytes, { fileName: 'metadata.json', name: `${metadata.name} Metadata` })
+  registry.recordPin({
+    cid,
+    kind: 'metadata',
+    name: metadata.name,
+    mimetype: 'application/json',
+    size: metadataBytes.length,
+    address,
+    metadataJson,
+  })
+
+  return {
+    metadataUrl: `ipfs://${cid}`,
+    metadataCid: cid,
+    metadataJson,
+    metadataHash,
+  }
+}
+
+/**
+ * Pin a prepared upload (and its thumbnail, when `withThumbnail`).
+ * Returns the fields for the API response and the ARC-3 media fields for its metadata.
+ */
+async function pinUpload(
+  prepared: PreparedMedia,
+  {
+    fileName,
+    name,
+    withThumbnail,
+    address,
+  }: { fileName: string; name: string; withThumbnail: boolean; address: string },
+): Promise<{ image: PinnedImage; mediaFields: Record<string, string> }> {
+  const { cid } = await storage.pinFile(prepared.bytes, { fileName, name })
+  registry.recordPin({
+    cid,
+    kind: 'image',
+    name: fileName,
+    mimetype: prepared.mimetype,
+    size: prepared.bytes.length,
+    address,
+  })
+  const url = `ipfs://${cid}`
+  const image: PinnedImage = {
+    imageUrl: url,
+    imageCid: cid,
+    imageMimetype: prepared.mimetype,
+    imageIntegrity: prepared.integrity,
+    gpsRemoved: prepared.gpsRemoved,
+  }
+  if (!withThumbnail || !prepared.thumbnail) {
+    return { image, mediaFields: arc3MediaFields({ ...prepared, url, thumbnail: undefined }) }
+  }
+
+  const { cid: thumbnailCid } = await storage.pinFile(prepared.thumbnail.bytes, {
+    fileName: 'thumbnail.webp',
+    name: `${name} Thumbnail`,
+  })
+  registry.recordPin({
+    cid: thumbnailCid,
+    kind: 'thumbnail',
+    name: 'thumbnail.webp',
+    mimetype: prepared.thumbnail.mimetype,
+    size: prepared.thumbnail.bytes.length,
+    address,
+  })
+  const thumbnail = { ...prepared.thumbnail, url: `ipfs://${thumbnailCid}` }
+  return {
+    image: { ...image, thumbnailUrl: thumbnail.url, thumbnailCid },
+    mediaFields: arc3MediaFields({ ...prepared, url, thumbnail }),
+  }
+}
+
+function pinErrorMessage(error: unknown): string {
+  const { response, message } = (error ?? {}) as { response?: { data?: { error?: string } | string }; message?: string }
+  const data = response?.data
+  return (typeof data === 'object' ? data?.error : data) || message || 'Failed to pin to IPFS.'
+}
+
+const PinImageFields = PinImageFormSchema.omit({ file: true })
+
+app.post(
+  '/api/pin-image',
+  ...limited,
+  upload.single('file'),
+  async (req, res: Response<PinImageResponse | ApiError>) => {
+    try {
+      const file = req.file
+      if (!file) return res.status(400).json({ error: 'No file uploaded' })
+
+      const form = parseRequest(PinImageFields, req.body)
+      if ('error' in form) return res.status(400).json(form)
+      const { standard, ...fields } = form.data
+
+      const prepared = await mediaPolicy.prepare(file.buffer)
+      if ('error' in prepared) return res.status(prepared.status).json({ error: prepared.error })
+
+      // ARC-69 keeps its metadata in the transaction note, so only the image is pinned
+      const arc69 = standard === 'arc69'
+      const address = req.auth!.address
+      const { image, mediaFields } = await pinUpload(prepared, {
+        fileName: file.originalname || 'upload',
+        name: file.originalname || `${fields.metaName} Image`,
+        withThumbnail: !arc69,
+        address,
+      })
+      if (arc69) return res.status(200).json(image)
+
+      const metadata = buildMetadata(fields, image.imageUrl, mediaFields)
+      return res.status(200).json({ ...image, ...(await pinMetadata(metadata, address)) })
+    } catch (error) {
+      return res.status(500).json({ error: pinErrorMessage(error) })
+    }
+  },
+)
+
+/**
+ * Collection minting: pin several images (and their metadata) in one request
+ * Multipart: files[] plus `items` (JSON array, one { metaName, properties } per file, same order);
+ * metaDescription / externalUrl / standard are shared by every item.
+ * Keep batches small: serverless bodies are capped (~4.5MB on Vercel).
+ */
+const MAX_BATCH_FILES = 16
+
+const PinBatchFields = PinBatchFormSchema.omit({ files: true })
+
+app.post(
+  '/api/pin-batch',
+  ...limited,
+  upload.array('files', MAX_BATCH_FILES),
+  async (req, res: Response<PinBatchResponse | ApiError>) => {
+    try {
+      const files = Array.isArray(req.files) ? req.files : []
+      if (files.length === 0) return res.status(400).json({ error: 'No files uploaded' })
+
+      const form = parseRequest(PinBatchFields, req.body)
+      if ('error' in form) return res.status(400).json(form)
+      const { items, metaDescription, externalUrl, standard } = form.data
+      if (items.length !== files.length) {
+        return res.status(400).json({ error: 'items must be a JSON array with one entry per file' })
+      }
+
+      // Shared fields first, so each item can override them
+      const itemFields = []
+      for (const item of items) {
+        const fields = parseRequest(MetadataFieldsSchema, { metaDescription, externalUrl, ...item })
+        if ('error' in fields) return res.status(400).json(fields)
+        itemFields.push(fields.data)
+      }
+
+      // Check every file before pinning any, so a bad file does not leave half a batch pinned
+      const preparedFiles: PreparedMedia[] = []
+      for (const file of files) {
+        const prepared = await mediaPolicy.prepare(file.buffer)
+        if ('error' in prepared) {
+          return res.status(prepared.status).json({ error: `${file.originalname}: ${prepared.error}` })
+        }
+        preparedFiles.push(prepared)
+      }
+
+      const arc69 = standard === 'arc69'
+      const address = req.auth!.address
+      const pinned: PinnedBatchItem[] = []
+      // Sequential on purpose: hosted pinning services rate-limit bursts of uploads
+      for (const [i, file] of files.entries()) {
+        const fields = itemFields[i]
+        const { image, mediaFields } = await pinUpload(preparedFiles[i], {
+          fileName: file.originalname || `item-${i + 1}`,
+          name: file.originalname || `${fields.metaName} Image`,
+          withThumbnail: !arc69,
+          address,
+        })
+
+        const item = { fileName: file.originalname, ...image }
+        const metadata = buildMetadata(fields, image.imageUrl, mediaFields)
+        pinned.push(arc69 ? item : { ...item, ...(await pinMetadata(metadata, address)) })
+      }
+
+      return res.status(200).json({ items: pinned })
+    } catch (error) {
+      return res.status(500).json({ error: pinErrorMessage(error) })
+    }
+  },
+)
+
+/**
+ * Re-pin metadata for an already pinned image (ARC-19 metadata updates)
+ * Body (JSON): { image: "ipfs://…", media, metaName, metaDescription, externalUrl, properties }
+ * `media` carries the ARC-3 media fields of the current metadata (image_integrity, thumbnail, …)
+ */
+app.post('/api/pin-metadata', ...limited, async (req, res: Response<PinnedMetadata | ApiError>) => {
+  try {
+    const body = parseRequest(PinMetadataRequestSchema, req.body)
+    if ('error' in body) return res.status(400).json(body)
+    const { image, media = {}, ...fields } = body.data
+
+    const mediaFields = Object.fromEntries(
+      MEDIA_METADATA_KEYS.filter((key) => media[key]).map((key) => [key, media[key]]),
+    )
+
+    return res.status(200).json(await pinMetadata(buildMetadata(fields, image, mediaFields), req.auth!.address))
+  } catch (error) {
+    return res.status(500).json({ error: pinErrorMessage(error) })
+  }
+})
+
+// Catch-all 404 (so we KNOW Express is being hit)
+app.use((req, res) => {
+  console.log(`[MISS] ${req.method} ${req.url}`)
+  res.status(404).json({ error: 'NOT_FOUND_IN_EXPRESS', method: req.method, url: req.url })
+})
+
+// Upload errors (e.g. over the size cap) as JSON instead of Express' HTML error page
+const uploadErrors: ErrorRequestHandler = (err, _req, res, next) => {
+  if (!(err instanceof multer.MulterError)) return next(err)
+  return res.status(err.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({ error: err.message })
+}
+app.use(uploadErrors)
+
+export default app
@@ -0,0 +1,117 @@
+// auth/index.ts
+import algosdk from 'algosdk'
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import type { Express, RequestHandler, Response } from 'express'
+import type { ApiError, AuthChallengeResponse, AuthVerifyResponse } from '../contract/api.js'
+import { AuthChallengeRequestSchema, AuthVerifyRequestSchema, parseRequest } from '../contract/schemas.js'
+import { verifyLoginTransaction } from './signedTxn.js'
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      /** Set by requireAuth */
+      auth?: { address: string }
+    }
+  }
+}
+
+type Sealed = { sub: string; exp: number; nonce?: string }
+
+const CHALLENGE_TTL_SECONDS = 5 * 60
+const DEFAULT_TOKEN_TTL_SECONDS = 15 * 60
+
+/**
+ * Wallet-signature login for the mint server
+ *
+ * 1. POST /api/auth/challenge { address }      -> { challenge, expiresAt }
+ * 2. The client signs a 0-ALGO self-payment (see auth/signedTxn.ts) with `challenge` as its note
+ * 3. POST /api/auth/verify { address, challenge, signedTxn (base64) } -> { token, expiresAt }
+ * 4. Protected endpoints take `Authorization: Bearer <token>`
+ *
+ * Challenges and tokens are HMAC-signed with AUTH_SECRET, so any instance can check them
+ * (serverless). Used challenges are remembered per instance until they expire.
+ */
+export function createAuth(env: NodeJS.ProcessEnv = process.env) {
+  const configured = env.AUTH_SECRET?.trim()
+  if (!configured) console.warn('AUTH_SECRET is not set: using a random secret (tokens end with this process).')
+  const secret = configured || randomBytes(32).toString('hex')
+  const tokenTtl =
+    Number(env.AUTH_TOKEN_TTL_SECONDS) > 0 ? Number(env.AUTH_TOKEN_TTL_SECONDS) : DEFAULT_TOKEN_TTL_SECONDS
+
+  const usedChallenges = new Map<string, number>()
+
+  const sign = (kind: string, payload: string) =>
+    createHmac('sha256', secret).update(`${kind}.${payload}`).digest('base64url')
+
+  function seal(kind: string, data: Sealed): string {
+    const payload = Buffer.from(JSON.stringify(data)).toString('base64url')
+    return `${payload}.${sign(kind, payload)}`
+  }
+
+  // Payload of a sealed value, or null when tampered with or expired
+  function open(kind: string, value: string): Sealed | null {
+    const [payload, mac] = value.split('.')
+    if (!payload || !mac) return null
+    const expected = Buffer.from(sign(kind, payload))
+    const actual = Buffer.from(mac)
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null
+    try {
+      const data = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as Sealed
+      return typeof data?.exp === 'number' && data.exp * 1000 > Date.now() ? data : null
+    } catch {
+      return null
+    }
+  }
+
+  function forgetExpiredChallenges() {
+    const now = Date.now()
+    for (const [challenge, exp] of usedChallenges) if (exp * 1000 <= now) usedChallenges.delete(challenge)
+  }
+
+  function routes(app: Express) {
+    app.post('/api/auth/challenge', (req, res: Response<AuthChallengeResponse | ApiError>) => {
+      const body = parseRequest(AuthChallengeRequestSchema, req.body)
+      if ('error' in body) return res.status(400).json(body)
+      const { address } = body.data
+
+      const exp = Math.floor(Date.now() / 1000) + CHALLENGE_TTL_SECONDS
+      const sealed = seal('challenge', { sub: address, exp, nonce: randomBytes(16).toString('hex') })
+      return res.status(200).json({ challenge: `mint-server-login:${sealed}`, expiresAt: exp * 1000 })
+    })
+
+    app.post('/api/auth/verify', (req, res: Response<AuthVerifyResponse | ApiError>) => {
+      const body = parseRequest(AuthVerifyRequestSchema, req.body)
+      if ('error' in body) return res.status(400).json(body)
+      const { address, challenge, signedTxn } = body.data
+
+      const data = open('challenge', challenge.replace(/^mint-server-login:/, ''))
+      if (!data || data.sub !== address)
+        return res.status(401).json({ error: 'Challenge is invalid or expired; request a new one' })
+
+      forgetExpiredChallenges()
+      if (usedChallenges.has(challenge))
+        return res.status(401).json({ error: 'Challenge was already used; request a new one' })
+
+      const error = verifyLoginTransaction(Buffer.from(signedTxn, 'base64'), address, challenge)
+      if (error) return res.status(401).json({ error })
+
+      usedChallenges.set(challenge, data.exp)
+      const exp = Math.floor(Date.now() / 1000) + tokenTtl
+      return res.status(200).json({ token: seal('token', { sub: address, exp }), address, expiresAt: exp * 1000 })
+    })
+  }
+
+  /**
+   * Express middleware: 401 unless a valid bearer token is sent; sets req.auth = { address }
+   */
+  const requireAuth: RequestHandler = (req, res, next) => {
+    const header = req.headers.authorization || ''
+    const data = header.startsWith('Bearer ') ? open('token', header.slice('Bearer '.length).trim()) : null
+    if (!data) return res.status(401).json({ error: 'Sign in with your wallet first (missing or expired token)' })
+    req.auth = { address: data.sub }
+    return next()
+  }
+
+  return { routes, requireAuth }
+}
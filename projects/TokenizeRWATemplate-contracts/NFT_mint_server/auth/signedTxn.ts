@@ -0,0 +1,51 @@
+// auth/signedTxn.ts
+import algosdk from 'algosdk'
+import { createPublicKey, verify } from 'crypto'
+
+/**
+ * Rounds of the login transaction. Round 1 is long gone on every public network,
+ * so a signed login transaction can never be submitted (it only proves key ownership).
+ */
+export const AUTH_TXN_ROUND = 1n
+
+function ed25519Verify(message: Uint8Array, signature: Uint8Array, publicKey: Uint8Array): boolean {
+  const key = createPublicKey({
+    key: { kty: 'OKP', crv: 'Ed25519', x: Buffer.from(publicKey).toString('base64url') },
+    format: 'jwk',
+  })
+  return verify(null, message, key, signature)
+}
+
+/**
+ * Check a signed login transaction: a 0-ALGO payment from `address` to itself, valid only in
+ * AUTH_TXN_ROUND, whose note is exactly `challenge`, signed by the address' own key.
+ * Returns an error message, or null when the signature proves control of `address`.
+ * Rekeyed accounts are not supported (their signer key is not the address key).
+ */
+export function verifyLoginTransaction(signedTxnBytes: Uint8Array, address: string, challenge: string): string | null {
+  let stxn: algosdk.SignedTransaction
+  try {
+    stxn = algosdk.decodeSignedTransaction(signedTxnBytes)
+  } catch {
+    return 'signedTxn is not a signed Algorand transaction'
+  }
+
+  const { txn } = stxn
+  if (!stxn.sig) return 'Login transaction must be signed with a single key'
+  if (stxn.sgnr) return 'Rekeyed accounts cannot sign in'
+  if (txn.type !== 'pay') return 'Login transaction must be a payment'
+  if (txn.sender.toString() !== address) return 'Login transaction sender does not match the address'
+  if (txn.payment?.receiver.toString() !== address || txn.payment.amount !== 0n) {
+    return 'Login transaction must be a 0-ALGO payment to yourself'
+  }
+  if (txn.payment.closeRemainderTo) return 'Login transaction must not close the account'
+  if (txn.rekeyTo) return 'Login transaction must not rekey the account'
+  if (txn.firstValid !== AUTH_TXN_ROUND || txn.lastValid !== AUTH_TXN_ROUND) {
+    return `Login transaction must only be valid in round ${AUTH_TXN_ROUND}`
+  }
+  if (Buffer.from(txn.note ?? []).toString('utf8') !== challenge)
+    return 'Login transaction note does not match the challenge'
+
+  const publicKey = algosdk.Address.fromString(address).publicKey
+  return ed25519Verify(txn.bytesToSign(), stxn.sig, publicKey) ? null : 'Invalid signature'
+}
@@ -0,0 +1,259 @@
+// contract/api.ts
+
+/**
+ * HTTP API of the mint server, shared with the frontend
+ *
+ * The frontend imports these types (type-only, through the `@mint-server/*` path alias) for its
+ * typed client, and contract/schemas.ts holds the runtime schemas that must match them: they
+ * validate requests here and generate the OpenAPI document (GET /api/openapi.json).
+ * Changing a type breaks whichever side no longer matches at compile time.
+ *
+ * Keep this file free of imports: it is compiled by both projects.
+ */
+
+/** Body of every non-2xx response */
+export type ApiError = { error: string }
+
+/** 429 body (rate limit or daily upload quota); Retry-After carries the same seconds */
+export type RateLimitError = ApiError & { limit: string; retryAfter: number }
+
+export type NftStandard = 'arc3' | 'arc19' | 'arc69'
+
+// --- Auth
+
+export type AuthChallengeRequest = { address: string }
+export type AuthChallengeResponse = { challenge: string; expiresAt: number }
+
+export type AuthVerifyRequest = {
+  address: string
+  challenge: string
+  /** base64 signed 0-ALGO self-payment with the challenge as note */
+  signedTxn: string
+}
+export type AuthVerifyResponse = { token: string; address: string; expiresAt: number }
+
+// --- Pinning
+
+/**
+ * Metadata fields of the pin endpoints; everything else in the pinned JSON is filled in by the server
+ */
+export type MetadataFields = {
+  metaName?: string
+  metaDescription?: string
+  /** http(s) only */
+  externalUrl?: string
+  properties?: Record<string, unknown>
+}
+
+/** Multipart body of POST /api/pin-image (`properties` as a JSON string) */
+export type PinImageForm = Omit<MetadataFields, 'properties'> & {
+  file: Blob
+  properties?: string
+  /** ARC-69 pins only the image */
+  standard?: NftStandard
+}
+
+/** Multipart body of POST /api/pin-batch; description, external link and standard are shared */
+export type PinBatchForm = Pick<MetadataFields, 'metaDescription' | 'externalUrl'> & {
+  files: Blob[]
+  /** JSON array of MetadataFields, one per file in the same order */
+  items: string
+  standard?: NftStandard
+}
+
+/** JSON body of POST /api/pin-metadata: new metadata for an image that is already pinned */
+export type PinMetadataRequest = MetadataFields & {
+  /** ipfs:// or http(s) URL of the image */
+  image: string
+  /** ARC-3 media fields of the current metadata (image_integrity, thumbnail, …) */
+  media?: Record<string, string>
+}
+
+/**
+ * Pinned upload. The MIME type is sniffed by the server; images have had EXIF GPS tags removed
+ * (`gpsRemoved`) and get a pinned WebP thumbnail (not for ARC-69).
+ */
+export type PinnedImage = {
+  imageUrl: string
+  imageCid: string
+  imageMimetype: string
+  /** ARC-3 integrity string: sha256-<base64> */
+  imageIntegrity: string
+  gpsRemoved: boolean
+  thumbnailUrl?: string
+  thumbnailCid?: string
+}
+
+/** Pinned metadata: the exact JSON that was pinned, its CID and sha256 (base64) */
+export type PinnedMetadata = {
+  metadataUrl: string
+  metadataCid: string
+  metadataJson: string
+  metadataHash: string
+}
+
+/** POST /api/pin-image: the metadata fields are missing for ARC-69 */
+export type PinImageResponse = PinnedImage & Partial<PinnedMetadata>
+
+export type PinnedBatchItem = PinImageResponse & { fileName: string }
+export type PinBatchResponse = { items: PinnedBatchItem[] }
+
+// --- Document vault
+
+/** Multipart body of POST /api/vault/documents */
+export type VaultDocumentForm = {
+  /** Ciphertext (encrypted in the browser) */
+  file: Blob
+  /** base64 AES-256 document key */
+  key: string
+  /** JSON array of addresses allowed to get the key (the uploader is always added) */
+  recipients?: string
+}
+export type VaultDocumentResponse = { cid: string; url: string; envelope: string; recipients: string[] }
+
+/** `assetId` on `network`: the asset whose metadata lists the document (recipients must hold it) */
+export type VaultKeyRequest = { envelope: string; network: string; assetId: string | number }
+export type VaultKeyResponse = { key: string; cid: string }
+
+// --- Asset registry
+
+export type RegistryNetwork = 'mainnet' | 'testnet' | 'localnet'
+export type AssetStandard = NftStandard | 'asa'
+
+/** Asset as read from algod when it was registered, with its metadata JSON when pinned here */
+export type RegistryAsset = {
+  network: RegistryNetwork
+  assetId: string
+  name: string
+  unitName: string
+  url: string
+  /** Base units, as a decimal string */
+  total: string
+  decimals: number
+  creator: string
+  manager: string | null
+  reserve: string | null
+  standard: AssetStandard
+  metadataCid: string | null
+  metadata: Record<string, unknown> | null
+  txId: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export type AssetPage = { assets: RegistryAsset[]; total: number; limit: number; offset: number }
+
+export type AssetListQuery = { network?: string; creator?: string; limit?: string; offset?: string }
+export type AssetSearchQuery = { q: string; network?: string; limit?: string; offset?: string }
+export type AssetDetailQuery = { network?: string }
+
+/** Networks other than RegistryNetwork are refused (400) */
+export type RegisterAssetRequest = { network: string; assetId: string | number; txId?: string }
+
+// --- IPFS gateway proxy
+
+/** `path` is the rest of the URL: a file inside a directory CID */
+export type IpfsParams = { cid: string }
+export type IpfsPathParams = IpfsParams & { path: string }
+
+// --- Pin inventory
+
+export type PinKind = 'image' | 'thumbnail' | 'metadata' | 'document'
+
+/**
+ * A file this server pinned. `referenced`: a registered (algod-verified) asset points at it,
+ * through its URL / reserve or from its pinned metadata JSON. Unreferenced pins are orphans.
+ */
+export type PinInventoryItem = {
+  cid: string
+  kind: PinKind
+  name: string | null
+  mimetype: string | null
+  size: number | null
+  /** Wallet that pinned it first (null for pins recorded without a login) */
+  address: string | null
+  /** Every wallet that pinned the same bytes; each of them may still need them */
+  uploaders: string[]
+  createdAt: string
+  /** Last time the same bytes were pinned again */
+  pinnedAt: string
+  referenced: boolean
+}
+
+export type PinPage = { pins: PinInventoryItem[]; total: number; limit: number; offset: number }
+
+/** Admins see every wallet's pins (or `address`'s); everyone else only their own */
+export type PinListQuery = {
+  address?: string
+  kind?: string
+  referenced?: string
+  limit?: string
+  offset?: string
+}
+export type PinParams = { cid: string }
+export type UnpinResponse = { cid: string; unpinned: true }
+
+/** Defaults: the configured PIN_GC_MIN_AGE_DAYS, and unpinning for real */
+export type PinGcRequest = { olderThanDays?: number; dryRun?: boolean }
+export type PinGcReport = {
+  /** Orphans pinned before this time were collected */
+  olderThan: string
+  dryRun: boolean
+  unpinned: string[]
+  /** Unregistered, but an asset its uploader created on-chain still points at it */
+  kept: string[]
+  /** Not unpinned: the on-chain check or the unpin failed (retried on the next run) */
+  failed: { cid: string; error: string }[]
+}
+
+// --- Operations
+
+export type UsageLimits = {
+  windowSeconds: number
+  requestsPerAddress: number
+  requestsPerIp: number
+  dailyBytesPerAddress: number
+  dailyBytesPerIp: number
+}
+export type UsageCounters = { windowRequests: number; requestsToday: number; bytesToday: number }
+
+/** GET /api/admin/usage: open window and today's (UTC) counters per address and IP */
+export type UsageReport = {
+  limits: UsageLimits
+  day: string
+  addresses: (UsageCounters & { address: string })[]
+  ips: (UsageCounters & { ip: string })[]
+}
+
+export type HealthResponse = { ok: true; ts: number }
+export type DebugResponse = { ok: true; message: string; url: string; origin: string | null }
+
+/**
+ * Every endpoint, keyed by "METHOD /path". `json`, `form` and `query` describe the request
+ * (`auth`: needs a bearer token from /api/auth/verify) and `response` the 200 body
+ * (JSON, except the IPFS content served as Blob).
+ */
+export interface MintServerEndpoints {
+  'GET /health': { response: HealthResponse }
+  'GET /api/debug': { response: DebugResponse }
+  'GET /api/openapi.json': { response: Record<string, unknown> }
+  'POST /api/auth/challenge': { json: AuthChallengeRequest; response: AuthChallengeResponse }
+  'POST /api/auth/verify': { json: AuthVerifyRequest; response: AuthVerifyResponse }
+  'GET /api/admin/usage': { auth: true; response: UsageReport }
+  'POST /api/admin/pins/gc': { auth: true; json: PinGcRequest; response: PinGcReport }
+  'POST /api/pin-image': { auth: true; form: PinImageForm; response: PinImageResponse }
+  'POST /api/pin-batch': { auth: true; form: PinBatchForm; response: PinBatchResponse }
+  'POST /api/pin-metadata': { auth: true; json: PinMetadataRequest; response: PinnedMetadata }
+  'POST /api/vault/documents': { auth: true; form: VaultDocumentForm; response: VaultDocumentResponse }
+  'POST /api/vault/key': { auth: true; json: VaultKeyRequest; response: VaultKeyResponse }
+  'GET /api/assets': { query: AssetListQuery; response: AssetPage }
+  'GET /api/assets/search': { query: AssetSearchQuery; response: AssetPage }
+  'GET /api/assets/:id': { params: { id: string }; query: AssetDetailQuery; response: RegistryAsset }
+  'POST /api/assets': { json: RegisterAssetRequest; response: RegistryAsset }
+  'GET /api/ipfs/:cid': { params: IpfsParams; response: Blob }
+  'GET /api/ipfs/:cid/*': { params: IpfsPathParams; response: Blob }
+  'GET /api/pins': { auth: true; query: PinListQuery; response: PinPage }
+  'DELETE /api/pins/:cid': { auth: true; params: PinParams; response: UnpinResponse }
+}
+
+export type MintServerEndpoint = keyof MintServerEndpoints
@@ -0,0 +1,277 @@
+// contract/openapi.ts
+import type { Express } from 'express'
+import { z } from 'zod'
+import type { MintServerEndpoint, MintServerEndpoints } from './api.js'
+import * as s from './schemas.js'
+
+type Tag = 'meta' | 'auth' | 'pinning' | 'vault' | 'assets' | 'ipfs' | 'admin'
+
+/**
+ * Documentation of one endpoint. The schema slots are typed from MintServerEndpoints, so an
+ * endpoint missing here, or a schema that disagrees with contract/api.ts, does not compile.
+ */
+type Operation<T> = {
+  summary: string
+  tag: Tag
+  response: z.ZodType<T extends { response: infer R } ? R : never>
+  /** Media type of the 200 body when it is not JSON */
+  content?: string
+  /** Error statuses besides the 500 every endpoint can return */
+  errors?: number[]
+  json?: T extends { json: infer J } ? z.ZodType<unknown, J> : never
+  form?: T extends { form: infer F } ? z.ZodObject & z.ZodType<unknown, F> : never
+  query?: T extends { query: infer Q } ? z.ZodObject & z.ZodType<unknown, Q> : never
+  params?: T extends { params: infer P } ? z.ZodObject & z.ZodType<unknown, P> : never
+} & (T extends { auth: true } ? { auth: true } : { auth?: never })
+
+export const OPERATIONS: { [E in MintServerEndpoint]: Operation<MintServerEndpoints[E]> } = {
+  'GET /health': { summary: 'Liveness check', tag: 'meta', response: s.HealthResponseSchema },
+  'GET /api/debug': { summary: 'Echo of the request as Express saw it', tag: 'meta', response: s.DebugResponseSchema },
+  'GET /api/openapi.json': {
+    summary: 'This document',
+    tag: 'meta',
+    response: z.record(z.string(), z.unknown()),
+  },
+  'POST /api/auth/challenge': {
+    summary: 'Login challenge to sign with the wallet',
+    tag: 'auth',
+    json: s.AuthChallengeRequestSchema,
+    response: s.AuthChallengeResponseSchema,
+    errors: [400],
+  },
+  'POST /api/auth/verify': {
+    summary: 'Exchange the signed challenge for a bearer token',
+    tag: 'auth',
+    json: s.AuthVerifyRequestSchema,
+    response: s.AuthVerifyResponseSchema,
+    errors: [400, 401],
+  },
+  'GET /api/admin/usage': {
+    summary: 'Rate limit and upload quota counters (ADMIN_ADDRESSES only)',
+    tag: 'admin',
+    auth: true,
+    response: s.UsageReportSchema,
+    errors: [401, 403],
+  },
+  'POST /api/admin/pins/gc': {
+    summary: 'Unpin orphans older than olderThanDays now (ADMIN_ADDRESSES only)',
+    tag: 'admin',
+    auth: true,
+    json: s.PinGcRequestSchema,
+    response: s.PinGcReportSchema,
+    errors: [400, 401, 403],
+  },
+  'POST /api/pin-image': {
+    summary: 'Pin an image and its metadata JSON (only the image for ARC-69)',
+    tag: 'pinning',
+    auth: true,
+    form: s.PinImageFormSchema,
+    response: s.PinImageResponseSchema,
+    errors: [400, 401, 411, 413, 415, 429],
+  },
+  'POST /api/pin-batch': {
+    summary: 'Pin a collection: one image and metadata JSON per file',
+    tag: 'pinning',
+    auth: true,
+    form: s.PinBatchFormSchema,
+    response: s.PinBatchResponseSchema,
+    errors: [400, 401, 411, 413, 415, 429],
+  },
+  'POST /api/pin-metadata': {
+    summary: 'Pin new metadata JSON for an image that is already pinned',
+    tag: 'pinning',
+    auth: true,
+    json: s.PinMetadataRequestSchema,
+    response: s.PinnedMetadataSchema,
+    errors: [400, 401, 411, 429],
+  },
+  'POST /api/vault/documents': {
+    summary: 'Pin an encrypted document and seal its key for the recipients',
+    tag: 'vault',
+    auth: true,
+    form: s.VaultDocumentFormSchema,
+    response: s.VaultDocumentResponseSchema,
+    errors: [400, 401, 411, 413, 429, 503],
+  },
+  'POST /api/vault/key': {
+    summary: 'Release a document key to its uploader or a recipient holding the asset whose metadata lists it',
+    tag: 'vault',
+    auth: true,
+    json: s.VaultKeyRequestSchema,
+    response: s.VaultKeyResponseSchema,
+    errors: [400, 401, 403, 429, 502, 503],
+  },
+  'GET /api/assets': {
+    summary: 'Registered assets, newest first',
+    tag: 'assets',
+    query: s.AssetListQuerySchema,
+    response: s.AssetPageSchema,
+    errors: [400],
+  },
+  'GET /api/assets/search': {
+    summary: 'Search name, unit, URL, creator, CID and metadata JSON',
+    tag: 'assets',
+    query: s.AssetSearchQuerySchema,
+    response: s.AssetPageSchema,
+    errors: [400],
+  },
+  'GET /api/assets/:id': {
+    summary: 'One registered asset',
+    tag: 'assets',
+    params: s.AssetParamsSchema,
+    query: s.AssetDetailQuerySchema,
+    response: s.RegistryAssetSchema,
+    errors: [400, 404],
+  },
+  'POST /api/assets': {
+    summary: 'Register a mint; the asset is read from algod',
+    tag: 'assets',
+    json: s.RegisterAssetRequestSchema,
+    response: s.RegistryAssetSchema,
+    errors: [400, 404, 429, 502],
+  },
+  'GET /api/ipfs/:cid': {
+    summary: 'IPFS content through the gateway list, cached on disk (type sniffed, ETag, immutable)',
+    tag: 'ipfs',
+    params: s.IpfsParamsSchema,
+    content: '*/*',
+    response: z.file(),
+    errors: [400, 404, 413, 429, 502],
+  },
+  'GET /api/ipfs/:cid/*': {
+    summary: 'A file inside a directory CID, as GET /api/ipfs/{cid}',
+    tag: 'ipfs',
+    params: s.IpfsPathParamsSchema,
+    content: '*/*',
+    response: z.file(),
+    errors: [400, 404, 413, 429, 502],
+  },
+  'GET /api/pins': {
+    summary: 'Pins this server created, flagged when a registered asset references them',
+    tag: 'pinning',
+    auth: true,
+    query: s.PinListQuerySchema,
+    response: s.PinPageSchema,
+    errors: [400, 401],
+  },
+  'DELETE /api/pins/:cid': {
+    summary: 'Unpin an orphan (its only uploader or an admin)',
+    tag: 'pinning',
+    auth: true,
+    params: s.PinParamsSchema,
+    response: s.UnpinResponseSchema,
+    errors: [400, 401, 403, 404, 409],
+  },
+}
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: 'Invalid request',
+  401: 'Missing, invalid or expired bearer token',
+  403: 'Not allowed for this address',
+  404: 'Not found',
+  409: 'Still referenced by a registered asset',
+  411: 'Content-Length is required',
+  413: 'Upload (or proxied content) too large',
+  415: 'Unsupported file type',
+  429: 'Rate limit or daily upload quota reached (see Retry-After)',
+  500: 'Unexpected error (e.g. the storage provider failed)',
+  502: 'algod lookup failed, or no IPFS gateway answered',
+  503: 'Feature not configured on this server',
+}
+
+type JsonSchema = Record<string, unknown>
+
+/**
+ * OpenAPI 3.1 document for OPERATIONS. Named schemas (`.meta({ id })`) end up in `$defs` of
+ * each converted schema and are moved to components; request schemas are described as clients
+ * send them (before transforms).
+ */
+export function createOpenApiDocument() {
+  const components: Record<string, JsonSchema> = {}
+
+  function toJsonSchema(schema: z.ZodType): JsonSchema {
+    const { $schema: _, $defs, ...json } = z.toJSONSchema(schema, { io: 'input', unrepresentable: 'any' })
+    const local = (value: unknown) =>
+      JSON.parse(JSON.stringify(value).replaceAll('"#/$defs/', '"#/components/schemas/')) as JsonSchema
+    for (const [id, def] of Object.entries($defs ?? {})) components[id] = local(def)
+    return local(json)
+  }
+
+  function parameters(schema: z.ZodObject | undefined, where: 'query' | 'path') {
+    if (!schema) return []
+    const json = toJsonSchema(schema) as { properties: Record<string, JsonSchema>; required?: string[] }
+    return Object.entries(json.properties).map(([name, property]) => ({
+      name,
+      in: where,
+      required: where === 'path' || !!json.required?.includes(name),
+      schema: property,
+    }))
+  }
+
+  const errorSchema = toJsonSchema(s.ApiErrorSchema)
+  const rateLimitSchema = toJsonSchema(s.RateLimitErrorSchema)
+
+  const paths: Record<string, Record<string, unknown>> = {}
+  for (const [endpoint, operation] of Object.entries(OPERATIONS) as [string, Operation<unknown>][]) {
+    const [method, route] = endpoint.split(' ')
+    const path = route.replace(/:(\w+)/g, '{$1}').replace('*', '{path}')
+    const body = operation.json ? 'application/json' : operation.form ? 'multipart/form-data' : null
+
+    paths[path] ??= {}
+    paths[path][method.toLowerCase()] = {
+      summary: operation.summary,
+      tags: [operation.tag],
+      ...(operation.auth ? { security: [{ bearer: [] }] } : {}),
+      parameters: [...parameters(operation.params, 'path'), ...parameters(operation.query, 'query')],
+      ...(body
+        ? {
+            requestBody: {
+              required: true,
+              content: { [body]: { schema: toJsonSchema(operation.json ?? operation.form!) } },
+            },
+          }
+        : {}),
+      responses: {
+        200: {
+          description: 'OK',
+          content: { [operation.content ?? 'application/json']: { schema: toJsonSchema(operation.response) } },
+        },
+        ...Object.fromEntries(
+          [...(operation.errors ?? []), 500].map((status) => [
+            status,
+            {
+              description: ERROR_DESCRIPTIONS[status],
+              content: { 'application/json': { schema: status === 429 ? rateLimitSchema : errorSchema } },
+            },
+          ]),
+        ),
+      },
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'TokenizeRWA NFT mint server',
+      version: '1.0.0',
+      description:
+        'Pins RWA media and ARC-3 / ARC-19 / ARC-69 metadata to IPFS, keeps encrypted documents and a registry of minted assets.',
+    },
+    paths,
+    components: {
+      schemas: components,
+      securitySchemes: { bearer: { type: 'http', scheme: 'bearer', description: 'Token from POST /api/auth/verify' } },
+    },
+  }
+}
+
+/**
+ * GET /api/openapi.json (built once, on first request)
+ */
+export function openApiRoutes(app: Express) {
+  let document: ReturnType<typeof createOpenApiDocument> | undefined
+  app.get('/api/openapi.json', (_req, res) => {
+    document ??= createOpenApiDocument()
+    res.status(200).json(document)
+  })
+}
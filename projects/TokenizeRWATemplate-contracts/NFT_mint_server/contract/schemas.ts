@@ -0,0 +1,399 @@
+// contract/schemas.ts
+import algosdk from 'algosdk'
+import { z } from 'zod'
+import type * as api from './api.js'
+
+/**
+ * Runtime schemas for the types in contract/api.ts: request schemas validate (and normalise)
+ * what the handlers receive, response schemas document what they send. Schemas with an `id`
+ * become named components of the OpenAPI document (see contract/openapi.ts).
+ */
+
+export const REGISTRY_NETWORKS = ['mainnet', 'testnet', 'localnet'] as const satisfies api.RegistryNetwork[]
+
+const network = z.enum(REGISTRY_NETWORKS, { error: `network must be one of: ${REGISTRY_NETWORKS.join(', ')}` })
+const assetId = z
+  .union([z.string(), z.number()], { error: 'assetId must be a positive integer' })
+  .transform(Number)
+  .refine((n) => Number.isSafeInteger(n) && n > 0, 'assetId must be a positive integer')
+
+const DEFAULT_NAME = 'NFT Example'
+const DEFAULT_DESCRIPTION = 'Pinned via TokenizeRWA template'
+
+// Trimmed text; empty or missing falls back to `fallback`
+const textOr = (fallback: string) =>
+  z
+    .string()
+    .trim()
+    .optional()
+    .meta({ default: fallback })
+    .transform((v) => v || fallback)
+
+// JSON value sent as a text field of a multipart request; empty means missing
+const jsonText = <T extends z.ZodType>(schema: T, message: string) =>
+  z
+    .string({ error: message })
+    .transform((text, ctx) => {
+      if (!text.trim()) return undefined
+      try {
+        return JSON.parse(text) as unknown
+      } catch {
+        ctx.addIssue({ code: 'custom', message })
+        return z.NEVER
+      }
+    })
+    .meta({ description: 'JSON-encoded', contentMediaType: 'application/json' })
+    .pipe(schema)
+
+const address = (message: string) =>
+  z
+    .string({ error: message })
+    .trim()
+    .refine((value) => algosdk.isValidAddress(value), message)
+
+const properties = z.record(z.string(), z.unknown())
+const standard = z.enum(['arc3', 'arc19', 'arc69']).meta({ id: 'NftStandard' }) satisfies z.ZodType<api.NftStandard>
+
+const metadataText = {
+  metaName: textOr(DEFAULT_NAME),
+  metaDescription: textOr(DEFAULT_DESCRIPTION),
+  externalUrl: z
+    .string()
+    .trim()
+    .optional()
+    .transform((v) => v ?? '')
+    .refine((v) => !v || /^https?:\/\//i.test(v), 'externalUrl must be an http(s) URL'),
+}
+
+export const ApiErrorSchema = z.object({ error: z.string() }).meta({ id: 'ApiError' }) satisfies z.ZodType<api.ApiError>
+
+export const RateLimitErrorSchema = ApiErrorSchema.extend({
+  limit: z.string().meta({ description: 'address-requests, ip-requests, address-bytes or ip-bytes' }),
+  retryAfter: z.number().int(),
+}).meta({ id: 'RateLimitError' }) satisfies z.ZodType<api.RateLimitError>
+
+// --- Auth
+
+export const AuthChallengeRequestSchema = z.object({
+  address: address('address must be a valid Algorand address'),
+})
+
+export const AuthChallengeResponseSchema = z.object({
+  challenge: z.string(),
+  expiresAt: z.number().meta({ description: 'ms since epoch' }),
+}) satisfies z.ZodType<api.AuthChallengeResponse>
+
+export const AuthVerifyRequestSchema = z.object({
+  address: z.string().trim(),
+  challenge: z.string(),
+  signedTxn: z.string().meta({ description: 'base64 signed 0-ALGO self-payment with the challenge as note' }),
+})
+
+export const AuthVerifyResponseSchema = z.object({
+  token: z.string(),
+  address: z.string(),
+  expiresAt: z.number().meta({ description: 'ms since epoch' }),
+}) satisfies z.ZodType<api.AuthVerifyResponse>
+
+// --- Pinning
+
+export const MetadataFieldsSchema = z
+  .object({ ...metadataText, properties: properties.optional().transform((v) => v ?? {}) })
+  .meta({ id: 'MetadataFields' })
+
+export const PinImageFormSchema = z.object({
+  file: z.file(),
+  ...metadataText,
+  properties: jsonText(properties.optional(), 'properties must be a JSON object')
+    .optional()
+    .transform((v) => v ?? {}),
+  standard: standard.optional(),
+})
+
+export const PinBatchFormSchema = z.object({
+  files: z.array(z.file()),
+  items: jsonText(z.array(z.record(z.string(), z.unknown())), 'items must be a JSON array with one entry per file'),
+  metaDescription: z.string().optional(),
+  externalUrl: z.string().optional(),
+  standard: standard.optional(),
+})
+
+export const PinMetadataRequestSchema = MetadataFieldsSchema.extend({
+  image: z
+    .string()
+    .trim()
+    .refine((v) => /^(ipfs|https?):\/\//i.test(v), 'image must be an ipfs:// or http(s) URL'),
+  media: z.record(z.string(), z.string()).optional(),
+})
+
+export const PinnedImageSchema = z
+  .object({
+    imageUrl: z.string(),
+    imageCid: z.string(),
+    imageMimetype: z.string(),
+    imageIntegrity: z.string(),
+    gpsRemoved: z.boolean(),
+    thumbnailUrl: z.string().optional(),
+    thumbnailCid: z.string().optional(),
+  })
+  .meta({ id: 'PinnedImage' }) satisfies z.ZodType<api.PinnedImage>
+
+export const PinnedMetadataSchema = z
+  .object({
+    metadataUrl: z.string(),
+    metadataCid: z.string(),
+    metadataJson: z.string().meta({ description: 'The exact bytes that were pinned (ARC-3 hashes them)' }),
+    metadataHash: z.string().meta({ description: 'base64 sha256 of metadataJson' }),
+  })
+  .meta({ id: 'PinnedMetadata' }) satisfies z.ZodType<api.PinnedMetadata>
+
+export const PinImageResponseSchema = PinnedImageSchema.extend(PinnedMetadataSchema.partial().shape).meta({
+  id: 'PinImageResponse',
+  description: 'Metadata fields are missing for ARC-69',
+}) satisfies z.ZodType<api.PinImageResponse>
+
+export const PinBatchResponseSchema = z.object({
+  items: z.array(PinImageResponseSchema.extend({ fileName: z.string() })),
+}) satisfies z.ZodType<api.PinBatchResponse>
+
+// --- Document vault
+
+const KEY_BYTES = 32
+
+export const VaultDocumentFormSchema = z.object({
+  file: z.file(),
+  key: z
+    .string({ error: 'key must be a base64 AES-256 key' })
+    .refine((v) => Buffer.from(v, 'base64').length === KEY_BYTES, 'key must be a base64 AES-256 key'),
+  recipients: jsonText(
+    z.array(
+      z
+        .string()
+        .trim()
+        .refine((a) => algosdk.isValidAddress(a), {
+          error: (issue) => `recipients must be Algorand addresses (got ${String(issue.input)})`,
+        }),
+    ),
+    'recipients must be a JSON array of addresses',
+  )
+    .optional()
+    .transform((v) => v ?? []),
+})
+
+export const VaultDocumentResponseSchema = z.object({
+  cid: z.string(),
+  url: z.string(),
+  envelope: z.string().meta({ description: 'Document key and recipients, sealed by this server' }),
+  recipients: z.array(z.string()),
+}) satisfies z.ZodType<api.VaultDocumentResponse>
+
+export const VaultKeyRequestSchema = z.object({
+  envelope: z.string({ error: 'Document envelope is invalid or was sealed by another server' }),
+  network,
+  assetId: assetId.meta({ description: 'Asset whose metadata lists the document; recipients must currently hold it' }),
+})
+
+export const VaultKeyResponseSchema = z.object({
+  key: z.string().meta({ description: 'base64 AES-256 document key' }),
+  cid: z.string(),
+}) satisfies z.ZodType<api.VaultKeyResponse>
+
+// --- Asset registry
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 200
+
+const limit = z
+  .string()
+  .optional()
+  .meta({ description: `Page size (1-${MAX_LIMIT})`, default: String(DEFAULT_LIMIT) })
+  .transform((v) => Math.min(MAX_LIMIT, Math.max(1, Number.parseInt(v ?? '', 10) || DEFAULT_LIMIT)))
+const offset = z
+  .string()
+  .optional()
+  .transform((v) => Math.max(0, Number.parseInt(v ?? '', 10) || 0))
+
+export const AssetListQuerySchema = z.object({
+  network: network.optional(),
+  creator: z.string().optional(),
+  limit,
+  offset,
+})
+
+export const AssetSearchQuerySchema = z.object({
+  q: z.string({ error: 'q is required' }).trim().min(1, 'q is required'),
+  network: network.optional(),
+  limit,
+  offset,
+})
+
+export const AssetDetailQuerySchema = z.object({ network: network.optional() })
+
+export const AssetParamsSchema = z.object({
+  id: z.string().regex(/^\d+$/, 'id must be a numeric asset id'),
+})
+
+export const RegisterAssetRequestSchema = z.object({
+  network,
+  assetId,
+  txId: z
+    .string()
+    .trim()
+    .optional()
+    .transform((v) => v || null),
+})
+
+export const RegistryAssetSchema = z
+  .object({
+    network,
+    assetId: z.string(),
+    name: z.string(),
+    unitName: z.string(),
+    url: z.string(),
+    total: z.string().meta({ description: 'Base units, as a decimal string' }),
+    decimals: z.number().int(),
+    creator: z.string(),
+    manager: z.string().nullable(),
+    reserve: z.string().nullable(),
+    standard: z.enum(['arc3', 'arc19', 'arc69', 'asa']),
+    metadataCid: z.string().nullable(),
+    metadata: z.record(z.string(), z.unknown()).nullable(),
+    txId: z.string().nullable(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+  })
+  .meta({ id: 'RegistryAsset' }) satisfies z.ZodType<api.RegistryAsset>
+
+export const AssetPageSchema = z
+  .object({
+    assets: z.array(RegistryAssetSchema),
+    total: z.number().int(),
+    limit: z.number().int(),
+    offset: z.number().int(),
+  })
+  .meta({ id: 'AssetPage' }) satisfies z.ZodType<api.AssetPage>
+
+// --- IPFS gateway proxy
+
+// CIDv0 (base58btc) or CIDv1 in base32, the forms gateways and ARC-19 URLs use
+const CID = /^(Qm[1-9A-HJ-NP-Za-km-z]{44}|b[a-z2-7]{50,})$/
+
+export const IpfsParamsSchema = z.object({
+  cid: z.string().regex(CID, 'cid must be an IPFS CID (v0 or base32 v1)'),
+}) satisfies z.ZodType<api.IpfsParams>
+
+export const IpfsPathParamsSchema = IpfsParamsSchema.extend({
+  path: z
+    .string()
+    .refine(
+      (p) => p.split('/').every((s) => s && s !== '.' && s !== '..'),
+      'path must not have empty, . or .. segments',
+    )
+    .meta({ description: 'File inside a directory CID' }),
+}) satisfies z.ZodType<api.IpfsPathParams>
+
+// --- Pin inventory
+
+const pinKind = z.enum(['image', 'thumbnail', 'metadata', 'document'], {
+  error: 'kind must be one of: image, thumbnail, metadata, document',
+})
+
+export const PinListQuerySchema = z.object({
+  address: z.string().trim().optional().meta({ description: 'Admins only: pins of this wallet' }),
+  kind: pinKind.optional(),
+  referenced: z
+    .enum(['true', 'false'], { error: 'referenced must be true or false' })
+    .optional()
+    .meta({ description: 'false lists orphans only' })
+    .transform((v) => (v === undefined ? undefined : v === 'true')),
+  limit,
+  offset,
+})
+
+export const PinParamsSchema = IpfsParamsSchema satisfies z.ZodType<api.PinParams>
+
+export const PinInventoryItemSchema = z
+  .object({
+    cid: z.string(),
+    kind: pinKind,
+    name: z.string().nullable(),
+    mimetype: z.string().nullable(),
+    size: z.number().int().nullable(),
+    address: z.string().nullable(),
+    uploaders: z.array(z.string()),
+    createdAt: z.string(),
+    pinnedAt: z.string(),
+    referenced: z.boolean().meta({ description: 'A registered asset points at it (not an orphan)' }),
+  })
+  .meta({ id: 'PinInventoryItem' }) satisfies z.ZodType<api.PinInventoryItem>
+
+export const PinPageSchema = z.object({
+  pins: z.array(PinInventoryItemSchema),
+  total: z.number().int(),
+  limit: z.number().int(),
+  offset: z.number().int(),
+}) satisfies z.ZodType<api.PinPage>
+
+export const UnpinResponseSchema = z.object({
+  cid: z.string(),
+  unpinned: z.literal(true),
+}) satisfies z.ZodType<api.UnpinResponse>
+
+export const PinGcRequestSchema = z.object({
+  olderThanDays: z
+    .number({ error: 'olderThanDays must be a positive number' })
+    .positive('olderThanDays must be a positive number')
+    .optional(),
+  dryRun: z.boolean({ error: 'dryRun must be a boolean' }).optional(),
+})
+
+export const PinGcReportSchema = z.object({
+  olderThan: z.string(),
+  dryRun: z.boolean(),
+  unpinned: z.array(z.string()),
+  kept: z.array(z.string()).meta({ description: 'Unregistered, but still referenced by an asset on-chain' }),
+  failed: z.array(z.object({ cid: z.string(), error: z.string() })),
+}) satisfies z.ZodType<api.PinGcReport>
+
+// --- Operations
+
+const counters = { windowRequests: z.number(), requestsToday: z.number(), bytesToday: z.number() }
+
+export const UsageReportSchema = z.object({
+  limits: z.object({
+    windowSeconds: z.number(),
+    requestsPerAddress: z.number(),
+    requestsPerIp: z.number(),
+    dailyBytesPerAddress: z.number(),
+    dailyBytesPerIp: z.number(),
+  }),
+  day: z.string().meta({ description: 'UTC day (YYYY-MM-DD)' }),
+  addresses: z.array(z.object({ address: z.string(), ...counters })),
+  ips: z.array(z.object({ ip: z.string(), ...counters })),
+}) satisfies z.ZodType<api.UsageReport>
+
+export const HealthResponseSchema = z.object({
+  ok: z.literal(true),
+  ts: z.number(),
+}) satisfies z.ZodType<api.HealthResponse>
+
+export const DebugResponseSchema = z.object({
+  ok: z.literal(true),
+  message: z.string(),
+  url: z.string(),
+  origin: z.string().nullable(),
+}) satisfies z.ZodType<api.DebugResponse>
+
+/**
+ * Validate a request part; `{ error }` carries the first problem, ready to send as a 400 body.
+ * Messages written for a field start with its name; zod's own get the field path in front.
+ */
+export function parseRequest<S extends z.ZodType>(schema: S, value: unknown): { data: z.output<S> } | api.ApiError {
+  const result = schema.safeParse(value ?? {})
+  if (result.success) return { data: result.data }
+  const [issue] = result.error.issues
+  const field = issue.path.map(String).join('.')
+  return {
+    error: field && !issue.message.startsWith(String(issue.path[0])) ? `${field}: ${issue.message}` : issue.message,
+  }
+}
@@ -0,0 +1,87 @@
+// gateway/cache.ts
+import { createHash } from 'crypto'
+import { mkdir, readdir, readFile, rm, stat, utimes, writeFile } from 'fs/promises'
+import path from 'path'
+
+export type CachedContent = { bytes: Buffer; contentType: string; etag: string }
+
+const ENTRY_NAME = /^[0-9a-f]{64}$/
+
+/**
+ * Disk cache for gateway responses. IPFS content never changes, so entries are only dropped to
+ * stay under `maxBytes`: least recently used first (across restarts, by file mtime).
+ * Each entry is `<sha256(key)>` with the bytes plus `<sha256(key)>.json` with type and ETag.
+ */
+export function createDiskCache({ dir, maxBytes }: { dir: string; maxBytes: number }) {
+  // entry name -> size, least recently used first
+  const entries = new Map<string, number>()
+  let total = 0
+  let loaded: Promise<void> | undefined
+
+  const nameOf = (key: string) => createHash('sha256').update(key).digest('hex')
+  const fileOf = (name: string) => path.join(dir, name)
+
+  function load() {
+    loaded ??= (async () => {
+      await mkdir(dir, { recursive: true })
+      const names = (await readdir(dir)).filter((name) => ENTRY_NAME.test(name))
+      const files = await Promise.all(names.map(async (name) => ({ name, ...(await stat(fileOf(name))) })))
+      for (const { name, size } of files.sort((a, b) => a.mtimeMs - b.mtimeMs)) {
+        entries.set(name, size)
+        total += size
+      }
+    })()
+    return loaded
+  }
+
+  async function remove(name: string) {
+    total -= entries.get(name) ?? 0
+    entries.delete(name)
+    await rm(fileOf(name), { force: true })
+    await rm(`${fileOf(name)}.json`, { force: true })
+  }
+
+  async function get(key: string): Promise<CachedContent | null> {
+    await load()
+    const name = nameOf(key)
+    const size = entries.get(name)
+    if (size === undefined) return null
+    try {
+      const [bytes, meta] = await Promise.all([readFile(fileOf(name)), readFile(`${fileOf(name)}.json`, 'utf8')])
+      entries.delete(name)
+      entries.set(name, size)
+      const now = new Date()
+      await utimes(fileOf(name), now, now)
+      return { bytes, ...(JSON.parse(meta) as Omit<CachedContent, 'bytes'>) }
+    } catch {
+      await remove(name)
+      return null
+    }
+  }
+
+  async function set(key: string, { bytes, contentType, etag }: CachedContent) {
+    if (bytes.length > maxBytes) return
+    await load()
+    const name = nameOf(key)
+    if (entries.has(name)) await remove(name)
+    await writeFile(`${fileOf(name)}.json`, JSON.stringify({ contentType, etag }))
+    await writeFile(fileOf(name), bytes)
+    entries.set(name, bytes.length)
+    total += bytes.length
+
+    for (const oldest of entries.keys()) {
+      if (total <= maxBytes) break
+      await remove(oldest)
+    }
+  }
+
+  return {
+    get,
+    set,
+    /** Bytes currently cached */
+    size: async () => {
+      await load()
+      return total
+    },
+  }
+}
@@ -0,0 +1,192 @@
+// gateway/index.ts
+import { createHash } from 'crypto'
+import type { Express, Request, RequestHandler, Response } from 'express'
+import type { ApiError } from '../contract/api.js'
+import { IpfsParamsSchema, IpfsPathParamsSchema, parseRequest } from '../contract/schemas.js'
+import { sniffMimeType } from '../media/sniff.js'
+import { rawCidV1 } from '../storage/cid.js'
+import type { StorageProvider } from '../storage/index.js'
+import { type CachedContent, createDiskCache } from './cache.js'
+
+const MB = 1024 * 1024
+
+export const DEFAULT_GATEWAYS = ['https://ipfs.io', 'https://dweb.link', 'https://gateway.pinata.cloud']
+
+function positiveNumber(value: string | undefined, fallback: number): number {
+  const n = Number(value)
+  return Number.isFinite(n) && n > 0 ? n : fallback
+}
+
+// "https://ipfs.io", "https://ipfs.io/" and "https://ipfs.io/ipfs/" all mean https://ipfs.io/ipfs/<cid>
+const gatewayPrefix = (url: string) => `${url.replace(/\/+$/, '').replace(/\/ipfs$/, '')}/ipfs/`
+
+export function readGatewayConfig(env: NodeJS.ProcessEnv = process.env) {
+  return {
+    gateways: (env.IPFS_GATEWAYS || DEFAULT_GATEWAYS.join(','))
+      .split(',')
+      .map((s) => s.trim())
+      .filter(Boolean)
+      .map(gatewayPrefix),
+    timeoutMs: positiveNumber(env.IPFS_GATEWAY_TIMEOUT_SECONDS, 15) * 1000,
+    cacheDir: env.IPFS_CACHE_DIR?.trim() || (env.VERCEL ? '/tmp/ipfs-cache' : '.data/ipfs-cache'),
+    cacheBytes: positiveNumber(env.IPFS_CACHE_MAX_MB, 512) * MB,
+    maxItemBytes: positiveNumber(env.IPFS_PROXY_MAX_ITEM_MB, 50) * MB,
+  }
+}
+
+class GatewayError extends Error {
+  constructor(
+    readonly status: 404 | 413 | 502,
+    message: string,
+  ) {
+    super(message)
+  }
+}
+
+/**
+ * Content type of IPFS bytes: magic bytes first (gateways guess from the file name at best),
+ * then the gateway's header, then JSON (metadata is usually pinned without a name)
+ */
+function contentTypeOf(bytes: Buffer, upstream: string | null): string {
+  const sniffed = sniffMimeType(bytes)
+  if (sniffed) return sniffed
+  if (upstream && !upstream.startsWith('application/octet-stream')) return upstream
+  try {
+    JSON.parse(bytes.toString('utf8'))
+    return 'application/json; charset=utf-8'
+  } catch {
+    return 'application/octet-stream'
+  }
+}
+
+async function readLimited(response: globalThis.Response, maxBytes: number): Promise<Buffer> {
+  if (Number(response.headers.get('content-length')) > maxBytes) throw new GatewayError(413, 'Content is too large')
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of response.body ?? []) {
+    size += chunk.length
+    if (size > maxBytes) throw new GatewayError(413, 'Content is too large')
+    chunks.push(Buffer.from(chunk))
+  }
+  return Buffer.concat(chunks)
+}
+
+// Raw-codec sha2-256 CIDv1s (`bafkrei…`) are the digest of the bytes themselves, so gateway
+// answers for them can be checked; dag-pb CIDs (Qm…, bafybei…) hash UnixFS blocks instead
+const isVerifiable = (key: string) => key.startsWith('bafkrei') && !key.includes('/')
+
+/**
+ * GET /api/ipfs/:cid/* - read-through proxy for ipfs:// URLs, so the frontend does not depend
+ * on one public gateway. Content is looked up in the disk cache, then the storage provider
+ * (local providers hold pins nothing else can resolve), then IPFS_GATEWAYS in order; a gateway
+ * that fails or times out (IPFS_GATEWAY_TIMEOUT_SECONDS) falls through to the next one.
+ * Bytes for raw-codec CIDs are checked against the CID before they are served or cached; a
+ * gateway that answers with anything else is skipped like one that is down.
+ * Responses carry a sniffed Content-Type and an ETag and are cached for good by browsers.
+ *
+ * IPFS_CACHE_DIR / IPFS_CACHE_MAX_MB bound the disk cache; IPFS_PROXY_MAX_ITEM_MB refuses
+ * larger content (413).
+ */
+export function createGateway(
+  storage: StorageProvider,
+  env: NodeJS.ProcessEnv = process.env,
+  fetchImpl: typeof fetch = fetch,
+) {
+  const config = readGatewayConfig(env)
+  const cache = createDiskCache({ dir: config.cacheDir, maxBytes: config.cacheBytes })
+  // Concurrent requests for the same content share one upstream fetch
+  const inflight = new Map<string, Promise<CachedContent>>()
+
+  function content(bytes: Buffer, upstreamType: string | null): CachedContent {
+    return {
+      bytes,
+      contentType: contentTypeOf(bytes, upstreamType),
+      etag: `"${createHash('sha256').update(bytes).digest('base64url')}"`,
+    }
+  }
+
+  async function fromGateways(key: string): Promise<CachedContent> {
+    // Gateways answer 404 when they could not find the content in time; others may just be down
+    let notFound = 0
+    for (const gateway of config.gateways) {
+      try {
+        const response = await fetchImpl(`${gateway}${key}`, { signal: AbortSignal.timeout(config.timeoutMs) })
+        if (response.status === 404) notFound++
+        if (!response.ok) continue
+        const bytes = await readLimited(response, config.maxItemBytes)
+        if (isVerifiable(key) && rawCidV1(bytes) !== key) {
+          console.warn(`IPFS gateway ${gateway} answered ${key} with content that does not match the CID`)
+          continue
+        }
+        return content(bytes, response.headers.get('content-type'))
+      } catch (error) {
+        if (error instanceof GatewayError) throw error
+        // Timeout or network error: try the next gateway
+      }
+    }
+    if (notFound > 0) throw new GatewayError(404, `${key} was not found on IPFS`)
+    throw new GatewayError(502, `Could not fetch ${key} from any IPFS gateway`)
+  }
+
+  async function resolve(cid: string, path: string): Promise<CachedContent> {
+    const key = path ? `${cid}/${path}` : cid
+    const cached = await cache.get(key)
+    if (cached) return cached
+
+    const local = !path && (await storage.getFile?.(cid))
+    if (local) return content(local, null)
+
+    let pending = inflight.get(key)
+    if (!pending) {
+      pending = fromGateways(key)
+        .then(async (fetched) => {
+          await cache.set(key, fetched).catch((error) => console.warn('IPFS cache write failed:', error))
+          return fetched
+        })
+        .finally(() => inflight.delete(key))
+      inflight.set(key, pending)
+    }
+    return pending
+  }
+
+  async function serve(req: Request, res: Response<Buffer | ApiError>, params: { cid: string; path?: string }) {
+    try {
+      const { bytes, contentType, etag } = await resolve(params.cid, params.path ?? '')
+      res.set({
+        'Content-Type': contentType,
+        ETag: etag,
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        // Pinned HTML/SVG must not run scripts on this origin
+        'Content-Security-Policy': 'sandbox',
+        'X-Content-Type-Options': 'nosniff',
+      })
+      // Content behind a CID never changes, so a matching ETag is always current (even with no-cache)
+      const ifNoneMatch = req.headers['if-none-match']?.split(',').map((tag) => tag.trim())
+      if (ifNoneMatch?.includes(etag) || ifNoneMatch?.includes('*')) return res.status(304).end()
+      return res.status(200).send(bytes)
+    } catch (error) {
+      if (error instanceof GatewayError) return res.status(error.status).json({ error: error.message })
+      console.error('IPFS gateway error:', error)
+      return res.status(500).json({ error: 'Failed to read from IPFS' })
+    }
+  }
+
+  return {
+    routes(app: Express, guards: RequestHandler[] = []) {
+      app.get('/api/ipfs/:cid', ...guards, async (req, res: Response<Buffer | ApiError>) => {
+        const params = parseRequest(IpfsParamsSchema, req.params)
+        if ('error' in params) return res.status(400).json(params)
+        return serve(req, res, params.data)
+      })
+
+      app.get('/api/ipfs/:cid/*', ...guards, async (req, res: Response<Buffer | ApiError>) => {
+        const params = parseRequest(IpfsPathParamsSchema, {
+          ...req.params,
+          path: (req.params as Record<string, string>)[0],
+        })
+        if ('error' in params) return res.status(400).json(params)
+        return serve(req, res, params.data)
+      })
+    },
+  }
+}
@@ -0,0 +1,190 @@
+// limits/index.ts
+import type { Express, Request, RequestHandler, Response } from 'express'
+import type { ApiError, RateLimitError, UsageCounters, UsageReport } from '../contract/api.js'
+
+type Subject = { kind: 'address' | 'ip'; key: string; requests: number; bytes: number }
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MB = 1024 * 1024
+
+// Drop stale counters once a map grows past this many keys
+const PRUNE_THRESHOLD = 10_000
+
+function positiveNumber(value: string | undefined, fallback: number): number {
+  const n = Number(value)
+  return Number.isFinite(n) && n > 0 ? n : fallback
+}
+
+export function readLimitsConfig(env: NodeJS.ProcessEnv = process.env) {
+  return {
+    windowSeconds: positiveNumber(env.RATE_LIMIT_WINDOW_SECONDS, 60),
+    requestsPerAddress: positiveNumber(env.RATE_LIMIT_PER_ADDRESS, 20),
+    requestsPerIp: positiveNumber(env.RATE_LIMIT_PER_IP, 60),
+    dailyBytesPerAddress: positiveNumber(env.DAILY_QUOTA_MB_PER_ADDRESS, 100) * MB,
+    dailyBytesPerIp: positiveNumber(env.DAILY_QUOTA_MB_PER_IP, 250) * MB,
+    adminAddresses: (env.ADMIN_ADDRESSES || '')
+      .split(',')
+      .map((s) => s.trim())
+      .filter(Boolean),
+  }
+}
+
+/**
+ * Per-address and per-IP limits for the pin endpoints (mount after requireAuth):
+ * - rateLimit: at most N requests per fixed window
+ * - byteQuota: at most N bytes of request bodies per UTC day (charged from Content-Length
+ *   before the upload is parsed, so rejected uploads never reach the storage provider)
+ * Exceeding either returns 429 with Retry-After. Counters live in memory, so each
+ * (serverless) instance enforces its own share.
+ */
+export function createLimits(env: NodeJS.ProcessEnv = process.env, now = () => Date.now()) {
+  const config = readLimitsConfig(env)
+  const windowMs = config.windowSeconds * 1000
+
+  // key -> counter for the current rate window
+  const windows = new Map<string, { start: number; count: number }>()
+  // key -> counters for the current UTC day
+  const days = new Map<string, { day: number; bytes: number; requests: number }>()
+
+  const dayOf = (ms: number) => Math.floor(ms / DAY_MS)
+
+  function prune<V>(map: Map<string, V>, isStale: (value: V) => boolean) {
+    if (map.size < PRUNE_THRESHOLD) return
+    for (const [key, value] of map) if (isStale(value)) map.delete(key)
+  }
+
+  function windowFor(key: string) {
+    const t = now()
+    prune(windows, (w) => t - w.start >= windowMs)
+    let w = windows.get(key)
+    if (!w || t - w.start >= windowMs) {
+      w = { start: t, count: 0 }
+      windows.set(key, w)
+    }
+    return w
+  }
+
+  function dayFor(key: string) {
+    const today = dayOf(now())
+    prune(days, (d) => d.day !== today)
+    let d = days.get(key)
+    if (!d || d.day !== today) {
+      d = { day: today, bytes: 0, requests: 0 }
+      days.set(key, d)
+    }
+    return d
+  }
+
+  function tooMany(res: Response<RateLimitError>, limit: string, retryAfterSeconds: number, error: string) {
+    const retryAfter = Math.max(1, Math.ceil(retryAfterSeconds))
+    res.set('Retry-After', String(retryAfter))
+    return res.status(429).json({ error, limit, retryAfter })
+  }
+
+  // Anonymous requests (public endpoints) are only limited per IP
+  function subjects(req: Request): Subject[] {
+    const ip: Subject = {
+      kind: 'ip',
+      key: `ip:${req.ip}`,
+      requests: config.requestsPerIp,
+      bytes: config.dailyBytesPerIp,
+    }
+    if (!req.auth?.address) return [ip]
+    return [
+      {
+        kind: 'address',
+        key: `address:${req.auth.address}`,
+        requests: config.requestsPerAddress,
+        bytes: config.dailyBytesPerAddress,
+      },
+      ip,
+    ]
+  }
+
+  const rateLimit: RequestHandler = (req, res, next) => {
+    const checks = subjects(req).map((s) => ({ ...s, window: windowFor(s.key) }))
+    const exceeded = checks.find((c) => c.window.count >= c.requests)
+    if (exceeded) {
+      const retryAfter = (exceeded.window.start + windowMs - now()) / 1000
+      return tooMany(
+        res,
+        `${exceeded.kind}-requests`,
+        retryAfter,
+        `Too many requests: ${exceeded.requests} per ${config.windowSeconds}s per ${exceeded.kind}`,
+      )
+    }
+    for (const c of checks) c.window.count += 1
+    return next()
+  }
+
+  const byteQuota: RequestHandler = (req, res, next) => {
+    const length = Number(req.headers['content-length'])
+    if (!Number.isFinite(length) || length < 0) return res.status(411).json({ error: 'Content-Length is required' })
+
+    const checks = subjects(req).map((s) => ({ ...s, day: dayFor(s.key) }))
+    const exceeded = checks.find((c) => c.day.bytes + length > c.bytes)
+    if (exceeded) {
+      const retryAfter = ((dayOf(now()) + 1) * DAY_MS - now()) / 1000
+      return tooMany(
+        res,
+        `${exceeded.kind}-bytes`,
+        retryAfter,
+        `Daily upload quota of ${Math.round(exceeded.bytes / MB)}MB per ${exceeded.kind} reached`,
+      )
+    }
+    for (const c of checks) {
+      c.day.bytes += length
+      c.day.requests += 1
+    }
+    return next()
+  }
+
+  /**
+   * Current counters: requests in the open window and bytes charged today, per address and IP
+   */
+  function usage(): UsageReport {
+    const t = now()
+    const today = dayOf(t)
+    const rows = new Map<string, UsageCounters & { kind: string; id: string }>()
+    const row = (key: string) => {
+      let r = rows.get(key)
+      if (!r) {
+        const [kind, ...rest] = key.split(':')
+        r = { kind, id: rest.join(':'), windowRequests: 0, requestsToday: 0, bytesToday: 0 }
+        rows.set(key, r)
+      }
+      return r
+    }
+    for (const [key, w] of windows) if (t - w.start < windowMs) row(key).windowRequests = w.count
+    for (const [key, d] of days) {
+      if (d.day !== today) continue
+      row(key).requestsToday = d.requests
+      row(key).bytesToday = d.bytes
+    }
+
+    const { adminAddresses, ...limits } = config
+    const all = [...rows.values()].sort((a, b) => b.bytesToday - a.bytesToday)
+    return {
+      limits,
+      day: new Date(today * DAY_MS).toISOString().slice(0, 10),
+      addresses: all.filter((r) => r.kind === 'address').map(({ kind, id, ...r }) => ({ address: id, ...r })),
+      ips: all.filter((r) => r.kind === 'ip').map(({ kind, id, ...r }) => ({ ip: id, ...r })),
+    }
+  }
+
+  /** Listed in ADMIN_ADDRESSES */
+  const isAdmin = (address: string) => config.adminAddresses.includes(address)
+
+  /**
+   * GET /api/admin/usage for addresses listed in ADMIN_ADDRESSES (403 for everyone else)
+   */
+  function routes(app: Express, requireAuth: RequestHandler) {
+    app.get('/api/admin/usage', requireAuth, (req, res: Response<UsageReport | ApiError>) => {
+      if (!isAdmin(req.auth!.address)) return res.status(403).json({ error: 'Admin only' })
+      res.set('Cache-Control', 'no-store')
+      return res.status(200).json(usage())
+    })
+  }
+
+  return { rateLimit, byteQuota, usage, isAdmin, routes }
+}
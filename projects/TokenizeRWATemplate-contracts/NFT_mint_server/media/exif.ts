@@ -0,0 +1,212 @@
+// media/exif.ts
+
+const GPS_IFD_TAG = 0x8825
+
+// Bytes per value for each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 }
+
+/**
+ * Blank the GPS IFD of a TIFF/EXIF block in place: the values it points to, its entries and
+ * its count. Offsets and lengths stay the same, so the surrounding file needs no rewriting.
+ * Returns true when GPS data was found.
+ */
+function scrubTiffGps(tiff: Buffer): boolean {
+  if (tiff.length < 8) return false
+  const order = tiff.toString('latin1', 0, 2)
+  if (order !== 'II' && order !== 'MM') return false
+  const le = order === 'II'
+  const u16 = (o: number) => (le ? tiff.readUInt16LE(o) : tiff.readUInt16BE(o))
+  const u32 = (o: number) => (le ? tiff.readUInt32LE(o) : tiff.readUInt32BE(o))
+  const inBounds = (start: number, length: number) => start >= 0 && start + length <= tiff.length
+
+  const ifd0 = u32(4)
+  if (!inBounds(ifd0, 2)) return false
+  let gpsIfd: number | undefined
+  for (let i = 0, n = u16(ifd0); i < n; i++) {
+    const entry = ifd0 + 2 + i * 12
+    if (!inBounds(entry, 12)) return false
+    if (u16(entry) === GPS_IFD_TAG) gpsIfd = u32(entry + 8)
+  }
+  if (gpsIfd === undefined || !inBounds(gpsIfd, 2)) return false
+
+  const count = u16(gpsIfd)
+  for (let i = 0; i < count; i++) {
+    const entry = gpsIfd + 2 + i * 12
+    if (!inBounds(entry, 12)) break
+    const size = (TYPE_SIZES[u16(entry + 2)] || 0) * u32(entry + 4)
+    const valueOffset = u32(entry + 8)
+    if (size > 4 && inBounds(valueOffset, size)) tiff.fill(0, valueOffset, valueOffset + size)
+  }
+  tiff.fill(0, gpsIfd, Math.min(tiff.length, gpsIfd + 2 + count * 12))
+  return true
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff
+  for (const b of bytes) crc = CRC_TABLE[(crc ^ b) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+const EXIF_HEADER = 'Exif\0\0'
+
+// EXIF lives in APP1 segments before the image data
+function jpegTiffBlocks(bytes: Buffer): Buffer[] {
+  const blocks: Buffer[] = []
+  let offset = 2
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1]
+    if (marker === 0xda || marker === 0xd9) break // start of scan / end of image
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2
+      continue
+    }
+    const length = bytes.readUInt16BE(offset + 2)
+    const data = bytes.subarray(offset + 4, offset + 2 + length)
+    if (marker === 0xe1 && data.toString('latin1', 0, 6) === EXIF_HEADER) blocks.push(data.subarray(6))
+    offset += 2 + length
+  }
+  return blocks
+}
+
+// PNG keeps EXIF in an eXIf chunk, whose CRC has to be recomputed after scrubbing
+function scrubPng(bytes: Buffer): boolean {
+  let found = false
+  let offset = 8
+  while (offset + 12 <= bytes.length) {
+    const length = bytes.readUInt32BE(offset)
+    const type = bytes.toString('latin1', offset + 4, offset + 8)
+    if (
+      type === 'eXIf' &&
+      offset + 12 + length <= bytes.length &&
+      scrubTiffGps(bytes.subarray(offset + 8, offset + 8 + length))
+    ) {
+      bytes.writeUInt32BE(crc32(bytes.subarray(offset + 4, offset + 8 + length)), offset + 8 + length)
+      found = true
+    }
+    if (type === 'IEND') break
+    offset += 12 + length
+  }
+  return found
+}
+
+// WebP: RIFF chunks, EXIF in an `EXIF` chunk (sometimes with the JPEG-style header)
+function webpTiffBlocks(bytes: Buffer): Buffer[] {
+  const blocks: Buffer[] = []
+  let offset = 12
+  while (offset + 8 <= bytes.length) {
+    const type = bytes.toString('latin1', offset, offset + 4)
+    const length = bytes.readUInt32LE(offset + 4)
+    if (type === 'EXIF') {
+      const data = bytes.subarray(offset + 8, offset + 8 + length)
+      blocks.push(data.toString('latin1', 0, 6) === EXIF_HEADER ? data.subarray(6) : data)
+    }
+    offset += 8 + length + (length % 2)
+  }
+  return blocks
+}
+
+// ISO-BMFF boxes ([size][type][payload]) in bytes[start, end); size 1 = 64-bit size, 0 = to the end
+function boxes(bytes: Buffer, start: number, end: number) {
+  const found: { type: string; start: number; end: number }[] = []
+  let offset = start
+  while (offset + 8 <= end) {
+    let size = bytes.readUInt32BE(offset)
+    let header = 8
+    if (size === 1 && offset + 16 <= end) {
+      size = Number(bytes.readBigUInt64BE(offset + 8))
+      header = 16
+    } else if (size === 0) size = end - offset
+    if (size < header || offset + size > end) break
+    found.push({ type: bytes.toString('latin1', offset + 4, offset + 8), start: offset + header, end: offset + size })
+    offset += size
+  }
+  return found
+}
+
+// AVIF (ISO-BMFF): EXIF is an item of type `Exif` in the `meta` box, located through `iloc`
+// (file offsets, or offsets into `idat`); its payload starts with the offset of the TIFF header
+function avifTiffBlocks(bytes: Buffer): Buffer[] {
+  const meta = boxes(bytes, 0, bytes.length).find((box) => box.type === 'meta')
+  if (!meta) return []
+  // meta, iinf, infe and iloc are full boxes: 1 byte version, 3 bytes flags
+  const children = boxes(bytes, meta.start + 4, meta.end)
+  const iinf = children.find((box) => box.type === 'iinf')
+  const iloc = children.find((box) => box.type === 'iloc')
+  const idat = children.find((box) => box.type === 'idat')
+  if (!iinf || !iloc) return []
+
+  const exifItems = new Set<number>()
+  const entriesStart = iinf.start + 4 + (bytes[iinf.start] === 0 ? 2 : 4)
+  for (const infe of boxes(bytes, entriesStart, iinf.end)) {
+    const version = bytes[infe.start]
+    if (infe.type !== 'infe' || version < 2) continue
+    const idSize = version === 2 ? 2 : 4
+    if (infe.start + 4 + idSize + 6 > infe.end) continue
+    const id = bytes.readUIntBE(infe.start + 4, idSize)
+    if (bytes.toString('latin1', infe.start + 4 + idSize + 2, infe.start + 4 + idSize + 6) === 'Exif') exifItems.add(id)
+  }
+  if (!exifItems.size) return []
+
+  const version = bytes[iloc.start]
+  let offset = iloc.start + 4
+  const uint = (size: number) => {
+    const value = size === 0 ? 0 : size === 8 ? Number(bytes.readBigUInt64BE(offset)) : bytes.readUIntBE(offset, size)
+    offset += size
+    return value
+  }
+  if (offset + 2 > iloc.end) return []
+  const [offsetSize, lengthSize, baseOffsetSize] = [bytes[offset] >> 4, bytes[offset] & 15, bytes[offset + 1] >> 4]
+  const indexSize = version === 1 || version === 2 ? bytes[offset + 1] & 15 : 0
+  offset += 2
+
+  const blocks: Buffer[] = []
+  try {
+    const itemCount = uint(version < 2 ? 2 : 4)
+    for (let i = 0; i < itemCount; i++) {
+      const id = uint(version < 2 ? 2 : 4)
+      const constructionMethod = version === 1 || version === 2 ? uint(2) & 15 : 0
+      uint(2) // data_reference_index
+      const base = uint(baseOffsetSize)
+      const extentCount = uint(2)
+      for (let e = 0; e < extentCount; e++) {
+        uint(indexSize)
+        const start = base + uint(offsetSize) + (constructionMethod === 1 && idat ? idat.start : 0)
+        const length = uint(lengthSize)
+        if (!exifItems.has(id) || e > 0 || constructionMethod > 1 || start + length > bytes.length) continue
+        const data = bytes.subarray(start, start + (length || bytes.length - start))
+        if (data.length >= 4) blocks.push(data.subarray(4 + data.readUInt32BE(0)))
+      }
+    }
+  } catch {
+    // Truncated iloc: scrub what was found
+  }
+  return blocks
+}
+
+/**
+ * Copy of an image with its EXIF GPS tags blanked (JPEG, PNG, WebP, AVIF); pixels and every
+ * other tag are untouched. Other formats are returned as they are.
+ */
+export function stripGps(bytes: Uint8Array, mimetype: string): { bytes: Buffer; removed: boolean } {
+  const copy = Buffer.from(bytes)
+  let removed = false
+  if (mimetype === 'image/png') removed = scrubPng(copy)
+  else {
+    const blocks =
+      mimetype === 'image/jpeg'
+        ? jpegTiffBlocks(copy)
+        : mimetype === 'image/webp'
+          ? webpTiffBlocks(copy)
+          : mimetype === 'image/avif'
+            ? avifTiffBlocks(copy)
+            : []
+    for (const block of blocks) removed = scrubTiffGps(block) || removed
+  }
+  return { bytes: copy, removed }
+}
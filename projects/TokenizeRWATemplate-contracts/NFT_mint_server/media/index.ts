@@ -0,0 +1,160 @@
+// media/index.ts
+import { createHash } from 'crypto'
+import sharp from 'sharp'
+import { stripGps } from './exif.js'
+import { sniffMimeType } from './sniff.js'
+
+const MB = 1024 * 1024
+
+export const MEDIA_TYPES = {
+  image: ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/avif'],
+  video: ['video/mp4', 'video/webm', 'video/quicktime'],
+  pdf: ['application/pdf'],
+}
+
+export type MediaCategory = keyof typeof MEDIA_TYPES
+
+type Thumbnail = { bytes: Buffer; mimetype: string; integrity: string }
+
+/**
+ * Upload that passed the policy, ready to pin
+ */
+export type PreparedMedia = {
+  bytes: Buffer
+  mimetype: string
+  category: MediaCategory | undefined
+  integrity: string
+  gpsRemoved: boolean
+  thumbnail?: Thumbnail
+}
+
+export type RefusedMedia = { status: 413 | 415; error: string }
+
+const THUMBNAIL_SIZE = 512
+const THUMBNAIL_MIMETYPE = 'image/webp'
+
+// ARC-3 media fields copied through when metadata is re-pinned for an existing image
+export const MEDIA_METADATA_KEYS = [
+  'image_integrity',
+  'image_mimetype',
+  'animation_url',
+  'animation_url_integrity',
+  'animation_url_mimetype',
+  'thumbnail',
+  'thumbnail_integrity',
+  'thumbnail_mimetype',
+]
+
+function positiveNumber(value: string | undefined, fallback: number): number {
+  const n = Number(value)
+  return Number.isFinite(n) && n > 0 ? n : fallback
+}
+
+const categoryOf = (mimetype: string) =>
+  (Object.keys(MEDIA_TYPES) as MediaCategory[]).find((c) => MEDIA_TYPES[c].includes(mimetype))
+
+/**
+ * ARC-3 integrity string (SRI style): sha256-<base64>
+ */
+export function integrityOf(bytes: Uint8Array): string {
+  return `sha256-${createHash('sha256').update(bytes).digest('base64')}`
+}
+
+export function readMediaPolicy(env: NodeJS.ProcessEnv = process.env) {
+  const allowed = (env.ALLOWED_UPLOAD_TYPES || '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean)
+  return {
+    allowed: allowed.length ? allowed : Object.values(MEDIA_TYPES).flat(),
+    maxBytes: {
+      image: positiveNumber(env.MAX_IMAGE_MB, 10) * MB,
+      video: positiveNumber(env.MAX_VIDEO_MB, 25) * MB,
+      pdf: positiveNumber(env.MAX_PDF_MB, 10) * MB,
+    },
+  }
+}
+
+/**
+ * Upload policy for the pin endpoints:
+ * - the MIME type is sniffed from magic bytes and must be on the allowlist (ALLOWED_UPLOAD_TYPES)
+ * - size limit per kind of media (MAX_IMAGE_MB / MAX_VIDEO_MB / MAX_PDF_MB)
+ * - photos lose their EXIF GPS tags before pinning, and images get a WebP thumbnail
+ * prepare() returns { error, status } when an upload is refused.
+ */
+export function createMediaPolicy(env: NodeJS.ProcessEnv = process.env) {
+  const policy = readMediaPolicy(env)
+
+  async function prepare(buffer: Buffer): Promise<PreparedMedia | RefusedMedia> {
+    const sniffed = sniffMimeType(buffer)
+    if (!sniffed || !policy.allowed.includes(sniffed)) {
+      return {
+        status: 415,
+        error: `Unsupported file type${sniffed ? ` (${sniffed})` : ''}. Allowed: ${policy.allowed.join(', ')}`,
+      }
+    }
+    const category = categoryOf(sniffed)
+    const maxBytes = category ? policy.maxBytes[category] : Math.min(...Object.values(policy.maxBytes))
+    if (buffer.length > maxBytes) {
+      return { status: 413, error: `${sniffed} uploads are limited to ${Math.round(maxBytes / MB)}MB` }
+    }
+
+    const { bytes, removed } = stripGps(buffer, sniffed)
+    const media: PreparedMedia = {
+      bytes,
+      mimetype: sniffed,
+      category,
+      integrity: integrityOf(bytes),
+      gpsRemoved: removed,
+    }
+    if (category !== 'image') return media
+
+    try {
+      // rotate() applies the EXIF orientation; sharp drops all metadata from the output
+      const thumbnail = await sharp(bytes)
+        .rotate()
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .webp({ quality: 80 })
+        .toBuffer()
+      return {
+        ...media,
+        thumbnail: { bytes: thumbnail, mimetype: THUMBNAIL_MIMETYPE, integrity: integrityOf(thumbnail) },
+      }
+    } catch {
+      return { status: 415, error: `The ${sniffed} file could not be decoded` }
+    }
+  }
+
+  return {
+    allowed: policy.allowed,
+    // multer's hard cap; prepare() applies the per-type limits
+    maxUploadBytes: Math.max(...Object.values(policy.maxBytes)),
+    prepare,
+  }
+}
+
+/**
+ * ARC-3 media fields for a pinned upload. Video and PDF are also referenced as animation_url,
+ * the ARC-3 field for non-image media.
+ */
+export function arc3MediaFields({
+  url,
+  mimetype,
+  integrity,
+  category,
+  thumbnail,
+}: Pick<PreparedMedia, 'mimetype' | 'integrity' | 'category'> & {
+  url: string
+  thumbnail?: Pick<Thumbnail, 'mimetype' | 'integrity'> & { url: string }
+}): Record<string, string> {
+  return {
+    image_integrity: integrity,
+    image_mimetype: mimetype,
+    ...(category !== 'image'
+      ? { animation_url: url, animation_url_integrity: integrity, animation_url_mimetype: mimetype }
+      : {}),
+    ...(thumbnail
+      ? { thumbnail: thumbnail.url, thumbnail_integrity: thumbnail.integrity, thumbnail_mimetype: thumbnail.mimetype }
+      : {}),
+  }
+}
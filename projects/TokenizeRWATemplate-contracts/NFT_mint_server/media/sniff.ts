@@ -0,0 +1,42 @@
+// media/sniff.ts
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  bytes.length >= offset + signature.length && signature.every((b, i) => bytes[offset + i] === b)
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  Buffer.from(bytes.subarray(start, end)).toString('latin1')
+
+// ISO base media (`ftyp` box) major brands
+const FTYP_BRANDS: Record<string, string> = {
+  avif: 'image/avif',
+  avis: 'image/avif',
+  heic: 'image/heic',
+  heix: 'image/heic',
+  mif1: 'image/heic',
+  qt: 'video/quicktime',
+  isom: 'video/mp4',
+  iso2: 'video/mp4',
+  iso5: 'video/mp4',
+  mp41: 'video/mp4',
+  mp42: 'video/mp4',
+  avc1: 'video/mp4',
+  dash: 'video/mp4',
+  M4V: 'video/mp4',
+}
+
+/**
+ * Real MIME type of an upload from its leading bytes (the client-declared type is not trusted).
+ * Returns undefined for anything unrecognised, including text formats such as SVG or HTML.
+ */
+export function sniffMimeType(bytes: Uint8Array): string | undefined {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png'
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg'
+  if (ascii(bytes, 0, 6) === 'GIF87a' || ascii(bytes, 0, 6) === 'GIF89a') return 'image/gif'
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 12) === 'WEBP') return 'image/webp'
+  if (ascii(bytes, 0, 5) === '%PDF-') return 'application/pdf'
+  if (ascii(bytes, 4, 8) === 'ftyp') return FTYP_BRANDS[ascii(bytes, 8, 12).trim()]
+  // EBML header: WebM declares its doctype near the start (other Matroska files are not allowed)
+  if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3]))
+    return ascii(bytes, 4, 64).includes('webm') ? 'video/webm' : undefined
+  return undefined
+}
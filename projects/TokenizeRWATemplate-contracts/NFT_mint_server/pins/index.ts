@@ -0,0 +1,186 @@
+// pins/index.ts
+import type { Express, RequestHandler, Response } from 'express'
+import type { ApiError, PinGcReport, PinGcRequest, PinPage, UnpinResponse } from '../contract/api.js'
+import { parseRequest, PinGcRequestSchema, PinListQuerySchema, PinParamsSchema } from '../contract/schemas.js'
+import { assetCid, type CreatedAssetsLookup, createCreatedAssetsLookup, REGISTRY_NETWORKS } from '../registry/algod.js'
+import type { createRegistry } from '../registry/index.js'
+import type { StorageProvider } from '../storage/index.js'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+type PinRegistry = Pick<
+  ReturnType<typeof createRegistry>,
+  'getPin' | 'listPins' | 'orphanedPins' | 'metadataReferences' | 'forgetPin'
+>
+
+function positiveNumber(value: string | undefined, fallback: number): number {
+  const n = Number(value)
+  return Number.isFinite(n) && n > 0 ? n : fallback
+}
+
+export function readPinGcConfig(env: NodeJS.ProcessEnv = process.env) {
+  return {
+    minAgeDays: positiveNumber(env.PIN_GC_MIN_AGE_DAYS, 7),
+    // Unset or 0: no scheduled runs (POST /api/admin/pins/gc still works)
+    intervalHours: positiveNumber(env.PIN_GC_INTERVAL_HOURS, 0),
+    // Networks whose indexer is asked before unpinning (localnet only when listed explicitly)
+    networks: (env.PIN_GC_NETWORKS || 'mainnet,testnet')
+      .split(',')
+      .map((n) => n.trim().toLowerCase())
+      .filter((n): n is (typeof REGISTRY_NETWORKS)[number] => (REGISTRY_NETWORKS as readonly string[]).includes(n)),
+  }
+}
+
+/**
+ * Inventory of the pins this server created (recorded in the registry) and their cleanup.
+ * A failed mint (upload succeeded, then the asset was never created) leaves pins no registered
+ * asset references: orphans. Admins, and the uploader of a CID no other wallet pinned, can unpin
+ * them one by one, and the garbage collector unpins orphans last pinned more than
+ * PIN_GC_MIN_AGE_DAYS ago, every PIN_GC_INTERVAL_HOURS (a long-running server only; on Vercel
+ * call the admin endpoint from a cron). Referenced pins are never unpinned.
+ *
+ * Registration is best-effort (it can fail, custom networks are refused, older mints were never
+ * registered), so before unpinning, the collector also asks the indexer of every PIN_GC_NETWORKS
+ * network for the assets each uploader of the pin created: a pin one of them points at (directly,
+ * or through metadata this server pinned) is kept, and a pin that cannot be checked is left for
+ * the next run.
+ */
+export function createPinInventory(
+  storage: StorageProvider,
+  registry: PinRegistry,
+  isAdmin: (address: string) => boolean,
+  env: NodeJS.ProcessEnv = process.env,
+  now = () => Date.now(),
+  lookupCreatedAssets: CreatedAssetsLookup = createCreatedAssetsLookup(env),
+) {
+  const config = readPinGcConfig(env)
+  let collecting: Promise<PinGcReport> | undefined
+
+  async function unpin(cid: string) {
+    await storage.unpin(cid)
+    registry.forgetPin(cid)
+  }
+
+  // CIDs the assets `address` created point at, on every checked network
+  async function onChainCids(address: string) {
+    const cids = new Set<string>()
+    for (const network of config.networks) {
+      for (const asset of await lookupCreatedAssets(network, address)) {
+        const cid = assetCid(asset)
+        if (!cid) continue
+        cids.add(cid)
+        for (const referenced of registry.metadataReferences(cid)) cids.add(referenced)
+      }
+    }
+    return cids
+  }
+
+  /**
+   * Unpin orphans older than `olderThanDays` that no asset on-chain points at, one at a time;
+   * failures are reported and retried on the next run
+   */
+  async function collectGarbage({ olderThanDays = config.minAgeDays, dryRun = false }: PinGcRequest = {}) {
+    const olderThan = new Date(now() - olderThanDays * DAY_MS).toISOString()
+    const report: PinGcReport = { olderThan, dryRun, unpinned: [], kept: [], failed: [] }
+    // One indexer pass per uploader and run
+    const checked = new Map<string, Promise<Set<string>>>()
+    for (const { cid, uploaders } of registry.orphanedPins(olderThan)) {
+      try {
+        if (!uploaders.length) throw new Error('Unknown uploader: cannot check the assets it created')
+        let used = false
+        for (const address of uploaders) {
+          if (!checked.has(address)) checked.set(address, onChainCids(address))
+          used ||= (await checked.get(address)!).has(cid)
+        }
+        if (used) {
+          report.kept.push(cid)
+          continue
+        }
+        if (!dryRun) await unpin(cid)
+        report.unpinned.push(cid)
+      } catch (error) {
+        report.failed.push({ cid, error: (error as Error)?.message || String(error) })
+      }
+    }
+    return report
+  }
+
+  /**
+   * Run collectGarbage every PIN_GC_INTERVAL_HOURS (no-op when unset); returns a stop function
+   */
+  function schedule() {
+    if (!config.intervalHours) return () => {}
+    const timer = setInterval(async () => {
+      if (collecting) return
+      try {
+        collecting = collectGarbage()
+        const { unpinned, kept, failed } = await collecting
+        if (unpinned.length || kept.length || failed.length)
+          console.log(
+            `Pin GC: unpinned ${unpinned.length} orphan(s), kept ${kept.length} used on-chain, ${failed.length} failed`,
+          )
+      } catch (error) {
+        console.error('Pin GC failed:', error)
+      } finally {
+        collecting = undefined
+      }
+    }, config.intervalHours * HOUR_MS)
+    // Do not keep the process alive just for the collector
+    timer.unref()
+    return () => clearInterval(timer)
+  }
+
+  /**
+   * GET /api/pins, DELETE /api/pins/:cid and POST /api/admin/pins/gc (all behind requireAuth)
+   */
+  function routes(app: Express, requireAuth: RequestHandler) {
+    app.get('/api/pins', requireAuth, (req, res: Response<PinPage | ApiError>) => {
+      const query = parseRequest(PinListQuerySchema, req.query)
+      if ('error' in query) return res.status(400).json(query)
+
+      const { address } = req.auth!
+      const admin = isAdmin(address)
+      if (!admin && query.data.address && query.data.address !== address) {
+        return res.status(403).json({ error: 'Only admins can list the pins of other addresses' })
+      }
+      res.set('Cache-Control', 'no-store')
+      return res.status(200).json(registry.listPins({ ...query.data, address: admin ? query.data.address : address }))
+    })
+
+    app.delete('/api/pins/:cid', requireAuth, async (req, res: Response<UnpinResponse | ApiError>) => {
+      const params = parseRequest(PinParamsSchema, req.params)
+      if ('error' in params) return res.status(400).json(params)
+      const { cid } = params.data
+
+      const pin = registry.getPin(cid)
+      if (!pin) return res.status(404).json({ error: 'This server has no record of pinning that CID' })
+      const { address } = req.auth!
+      if (!isAdmin(address)) {
+        if (!pin.uploaders.includes(address)) {
+          return res.status(403).json({ error: 'Only the uploader or an admin can unpin this' })
+        }
+        if (pin.uploaders.length > 1) {
+          return res.status(403).json({ error: 'Other wallets pinned the same content; only an admin can unpin it' })
+        }
+      }
+      if (pin.referenced) return res.status(409).json({ error: 'A registered asset still references this pin' })
+
+      try {
+        await unpin(cid)
+        return res.status(200).json({ cid, unpinned: true })
+      } catch (error) {
+        return res.status(500).json({ error: `Failed to unpin: ${(error as Error)?.message || error}` })
+      }
+    })
+
+    app.post('/api/admin/pins/gc', requireAuth, async (req, res: Response<PinGcReport | ApiError>) => {
+      if (!isAdmin(req.auth!.address)) return res.status(403).json({ error: 'Admin only' })
+      const body = parseRequest(PinGcRequestSchema, req.body ?? {})
+      if ('error' in body) return res.status(400).json(body)
+      return res.status(200).json(await collectGarbage(body.data))
+    })
+  }
+
+  return { collectGarbage, schedule, routes }
+}
@@ -0,0 +1,204 @@
+// registry/algod.ts
+import algosdk from 'algosdk'
+import type { AssetStandard, RegistryNetwork } from '../contract/api.js'
+import { REGISTRY_NETWORKS } from '../contract/schemas.js'
+import { cidV0FromDigest, cidV1FromDigest } from '../storage/cid.js'
+
+/**
+ * Asset params as stored in the registry
+ */
+export type AssetParams = {
+  name: string
+  unitName: string
+  url: string
+  total: string
+  decimals: number
+  creator: string
+  manager: string | null
+  reserve: string | null
+}
+
+export type AssetLookup = (network: RegistryNetwork, assetId: number) => Promise<AssetParams | null>
+
+/** Assets an account created that still exist; an unknown account has none */
+export type CreatedAssetsLookup = (network: RegistryNetwork, address: string) => Promise<AssetParams[]>
+
+/** Current balance (base units) of an asset in an account; 0n when the account is not opted in */
+export type HoldingLookup = (network: RegistryNetwork, address: string, assetId: number) => Promise<bigint>
+
+// Public algod endpoints per frontend network id; override with ALGOD_URL_<NETWORK> / ALGOD_TOKEN_<NETWORK>
+const DEFAULT_ALGOD: Record<RegistryNetwork, { url: string; token: string }> = {
+  mainnet: { url: 'https://mainnet-api.algonode.cloud', token: '' },
+  testnet: { url: 'https://testnet-api.algonode.cloud', token: '' },
+  localnet: { url: 'http://localhost:4001', token: 'a'.repeat(64) },
+}
+
+// Public indexer endpoints per frontend network id; override with INDEXER_URL_<NETWORK> / INDEXER_TOKEN_<NETWORK>
+const DEFAULT_INDEXER: Record<RegistryNetwork, { url: string; token: string }> = {
+  mainnet: { url: 'https://mainnet-idx.algonode.cloud', token: '' },
+  testnet: { url: 'https://testnet-idx.algonode.cloud', token: '' },
+  localnet: { url: 'http://localhost:8980', token: 'a'.repeat(64) },
+}
+
+const CREATED_ASSETS_PAGE_LIMIT = 1000
+
+export { REGISTRY_NETWORKS }
+
+// One algod client per network, created on first use
+function algodClients(env: NodeJS.ProcessEnv) {
+  const clients = new Map<RegistryNetwork, algosdk.Algodv2>()
+
+  return function clientFor(network: RegistryNetwork) {
+    let client = clients.get(network)
+    if (!client) {
+      const key = network.toUpperCase()
+      const { url, token } = DEFAULT_ALGOD[network]
+      client = new algosdk.Algodv2(env[`ALGOD_TOKEN_${key}`] ?? token, env[`ALGOD_URL_${key}`] || url, '')
+      clients.set(network, client)
+    }
+    return client
+  }
+}
+
+type ChainAssetParams = {
+  name?: string
+  unitName?: string
+  url?: string
+  total: bigint
+  decimals: number | bigint
+  creator: string
+  manager?: string
+  reserve?: string
+}
+
+function toAssetParams(p: ChainAssetParams): AssetParams {
+  return {
+    name: p.name ?? '',
+    unitName: p.unitName ?? '',
+    url: p.url ?? '',
+    total: String(p.total),
+    decimals: Number(p.decimals),
+    creator: String(p.creator),
+    manager: p.manager ? String(p.manager) : null,
+    reserve: p.reserve ? String(p.reserve) : null,
+  }
+}
+
+// One indexer client per network, created on first use
+function indexerClients(env: NodeJS.ProcessEnv) {
+  const clients = new Map<RegistryNetwork, algosdk.Indexer>()
+
+  return function clientFor(network: RegistryNetwork) {
+    let client = clients.get(network)
+    if (!client) {
+      const key = network.toUpperCase()
+      const { url, token } = DEFAULT_INDEXER[network]
+      client = new algosdk.Indexer(env[`INDEXER_TOKEN_${key}`] ?? token, env[`INDEXER_URL_${key}`] || url, '')
+      clients.set(network, client)
+    }
+    return client
+  }
+}
+
+function isNotFound(error: unknown) {
+  const { status, response } = (error ?? {}) as { status?: number; response?: { status?: number } }
+  return status === 404 || response?.status === 404
+}
+
+/**
+ * On-chain lookup used to verify registered mints: (network, assetId) -> asset params,
+ * or null when the asset does not exist (or was destroyed)
+ */
+export function createAlgodLookup(env: NodeJS.ProcessEnv = process.env): AssetLookup {
+  const clientFor = algodClients(env)
+
+  return async function lookupAsset(network, assetId) {
+    try {
+      const asset = await clientFor(network).getAssetByID(assetId).do()
+      return asset.params ? toAssetParams(asset.params) : null
+    } catch (error) {
+      if (isNotFound(error)) return null
+      throw error
+    }
+  }
+}
+
+/**
+ * Indexer lookup of the assets an account created, used before the pin garbage collector
+ * unpins anything (the registry only knows the mints that were registered)
+ */
+export function createCreatedAssetsLookup(env: NodeJS.ProcessEnv = process.env): CreatedAssetsLookup {
+  const clientFor = indexerClients(env)
+
+  return async function lookupCreatedAssets(network, address) {
+    const assets: AssetParams[] = []
+    let nextToken: string | undefined
+    try {
+      do {
+        let query = clientFor(network).lookupAccountCreatedAssets(address).limit(CREATED_ASSETS_PAGE_LIMIT)
+        if (nextToken) query = query.nextToken(nextToken)
+        const page = await query.do()
+        assets.push(...page.assets.map((asset) => toAssetParams(asset.params)))
+        nextToken = page.assets.length > 0 ? page.nextToken : undefined
+      } while (nextToken)
+    } catch (error) {
+      if (isNotFound(error)) return []
+      throw error
+    }
+    return assets
+  }
+}
+
+/**
+ * On-chain holding lookup used before releasing vault keys: (network, address, assetId) -> balance
+ */
+export function createHoldingLookup(env: NodeJS.ProcessEnv = process.env): HoldingLookup {
+  const clientFor = algodClients(env)
+
+  return async function lookupHolding(network, address, assetId) {
+    try {
+      const info = await clientFor(network).accountAssetInformation(address, assetId).do()
+      return info.assetHolding?.amount ?? 0n
+    } catch (error) {
+      if (isNotFound(error)) return 0n
+      throw error
+    }
+  }
+}
+
+const ARC19_TEMPLATE = /^template-ipfs:\/\/\{ipfscid:(0|1):(raw|dag-pb):reserve:sha2-256\}/
+const CODECS: Record<string, number> = { raw: 0x55, 'dag-pb': 0x70 }
+
+/**
+ * Metadata standard from the asset URL / name (same rules as the frontend)
+ */
+export function assetStandard({ url, name }: Pick<AssetParams, 'url' | 'name'>): AssetStandard {
+  if (ARC19_TEMPLATE.test(url) || url.startsWith('template-ipfs://')) return 'arc19'
+  if (url.endsWith('#arc3') || name === 'arc3' || name.endsWith('@arc3')) return 'arc3'
+  if (/#[ivaph]$/.test(url)) return 'arc69'
+  return 'asa'
+}
+
+/**
+ * CID of an `ipfs://CID[/path][#fragment]` URL, or null for anything else
+ */
+export function ipfsUrlCid(url: string): string | null {
+  const ipfs = url.match(/^ipfs:\/\/(?:ipfs\/)?([a-zA-Z0-9]+)/)
+  return ipfs ? ipfs[1] : null
+}
+
+/**
+ * CID the asset points at: ARC-19 resolves it from the reserve address (CIDv0 `Qm…` or CIDv1,
+ * like the frontend's resolveArc19Url), otherwise it is read from an ipfs:// URL.
+ * Null for anything else.
+ */
+export function assetCid({ url, reserve }: Pick<AssetParams, 'url' | 'reserve'>): string | null {
+  const template = url.match(ARC19_TEMPLATE)
+  if (!template) return ipfsUrlCid(url)
+  if (!reserve) return null
+
+  const [, version, codec] = template
+  const digest = Buffer.from(algosdk.decodeAddress(reserve).publicKey)
+  if (version === '0') return codec === 'dag-pb' ? cidV0FromDigest(digest) : null
+  return cidV1FromDigest(CODECS[codec], digest)
+}
@@ -0,0 +1,476 @@
+// registry/index.ts
+import Database from 'better-sqlite3'
+import type { Express, RequestHandler, Response } from 'express'
+import { mkdirSync } from 'fs'
+import { dirname } from 'path'
+import type {
+  ApiError,
+  AssetPage,
+  AssetStandard,
+  PinInventoryItem,
+  PinKind,
+  PinPage,
+  RegistryAsset,
+  RegistryNetwork,
+} from '../contract/api.js'
+import {
+  AssetDetailQuerySchema,
+  AssetListQuerySchema,
+  AssetParamsSchema,
+  AssetSearchQuerySchema,
+  parseRequest,
+  RegisterAssetRequestSchema,
+} from '../contract/schemas.js'
+import { assetCid, assetStandard, createAlgodLookup, ipfsUrlCid, type AssetLookup } from './algod.js'
+
+export type PinRecord = {
+  cid: string
+  kind: PinKind
+  name?: string | null
+  mimetype?: string | null
+  size?: number | null
+  address?: string | null
+  metadataJson?: string | null
+}
+
+export type RecordPin = (pin: PinRecord) => void
+
+type PinRow = {
+  cid: string
+  kind: PinKind
+  name: string | null
+  mimetype: string | null
+  size: number | null
+  address: string | null
+  created_at: string
+  pinned_at: string | null
+  referenced: 0 | 1
+  uploaders: string
+}
+
+type AssetRow = {
+  network: RegistryNetwork
+  asset_id: number
+  name: string
+  unit_name: string
+  url: string
+  total: string
+  decimals: number
+  creator: string
+  manager: string | null
+  reserve: string | null
+  standard: AssetStandard
+  metadata_cid: string | null
+  txid: string | null
+  created_at: string
+  updated_at: string
+  metadata_json: string | null
+}
+
+// Applied in order; PRAGMA user_version records how many have run
+const MIGRATIONS = [
+  `CREATE TABLE pins (
+     cid TEXT PRIMARY KEY,
+     kind TEXT NOT NULL,
+     name TEXT,
+     mimetype TEXT,
+     size INTEGER,
+     address TEXT,
+     metadata_json TEXT,
+     created_at TEXT NOT NULL
+   );
+   CREATE TABLE assets (
+     network TEXT NOT NULL,
+     asset_id INTEGER NOT NULL,
+     name TEXT NOT NULL,
+     unit_name TEXT NOT NULL,
+     url TEXT NOT NULL,
+     total TEXT NOT NULL,
+     decimals INTEGER NOT NULL,
+     creator TEXT NOT NULL,
+     manager TEXT,
+     reserve TEXT,
+     standard TEXT NOT NULL,
+     metadata_cid TEXT,
+     txid TEXT,
+     created_at TEXT NOT NULL,
+     updated_at TEXT NOT NULL,
+     PRIMARY KEY (network, asset_id)
+   );
+   CREATE INDEX assets_creator ON assets (creator);
+   CREATE INDEX assets_metadata_cid ON assets (metadata_cid);`,
+  // Re-pinning the same bytes counts as fresh for garbage collection
+  `ALTER TABLE pins ADD COLUMN pinned_at TEXT;
+   UPDATE pins SET pinned_at = created_at;
+   CREATE INDEX pins_address ON pins (address);`,
+  // Everyone who pinned the same bytes, not just the first uploader kept in pins.address
+  `CREATE TABLE pin_uploaders (
+     cid TEXT NOT NULL,
+     address TEXT NOT NULL,
+     pinned_at TEXT NOT NULL,
+     PRIMARY KEY (cid, address)
+   );
+   CREATE INDEX pin_uploaders_address ON pin_uploaders (address);
+   INSERT INTO pin_uploaders (cid, address, pinned_at)
+     SELECT cid, address, COALESCE(pinned_at, created_at) FROM pins WHERE address IS NOT NULL;`,
+]
+
+/**
+ * CIDs a registered asset depends on: the one its URL / reserve points at, and every ipfs://
+ * URL inside that metadata JSON when it was pinned here (image, thumbnail, documents, ...)
+ */
+const REFERENCED = `WITH referenced (cid) AS (
+  SELECT metadata_cid FROM assets WHERE metadata_cid IS NOT NULL
+  UNION
+  SELECT ipfs_cid(tree.value) FROM assets
+    JOIN pins AS metadata ON metadata.cid = assets.metadata_cid AND metadata.kind = 'metadata',
+    json_tree(metadata.metadata_json) AS tree
+  WHERE tree.type = 'text' AND ipfs_cid(tree.value) IS NOT NULL
+)`
+
+function openDatabase(path: string) {
+  if (path !== ':memory:') mkdirSync(dirname(path), { recursive: true })
+  const db = new Database(path)
+  db.pragma('journal_mode = WAL')
+  db.function('ipfs_cid', { deterministic: true }, (value) => (typeof value === 'string' ? ipfsUrlCid(value) : null))
+  const applied = db.pragma('user_version', { simple: true }) as number
+  for (const [i, sql] of MIGRATIONS.entries()) {
+    if (i < applied) continue
+    db.transaction(() => {
+      db.exec(sql)
+      db.pragma(`user_version = ${i + 1}`)
+    })()
+  }
+  return db
+}
+
+function toPin(row: PinRow): PinInventoryItem {
+  return {
+    cid: row.cid,
+    kind: row.kind,
+    name: row.name,
+    mimetype: row.mimetype,
+    size: row.size,
+    address: row.address,
+    uploaders: JSON.parse(row.uploaders) as string[],
+    createdAt: row.created_at,
+    pinnedAt: row.pinned_at ?? row.created_at,
+    referenced: row.referenced === 1,
+  }
+}
+
+function toAsset(row: AssetRow | undefined): RegistryAsset | null {
+  if (!row) return null
+  let metadata: Record<string, unknown> | null = null
+  try {
+    metadata = row.metadata_json ? JSON.parse(row.metadata_json) : null
+  } catch {
+    metadata = null
+  }
+  return {
+    network: row.network,
+    assetId: String(row.asset_id),
+    name: row.name,
+    unitName: row.unit_name,
+    url: row.url,
+    total: row.total,
+    decimals: row.decimals,
+    creator: row.creator,
+    manager: row.manager,
+    reserve: row.reserve,
+    standard: row.standard,
+    metadataCid: row.metadata_cid,
+    metadata,
+    txId: row.txid,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+/**
+ * Shared catalog of everything pinned and minted through this server (SQLite)
+ * - pins are recorded by the pin endpoints (recordPin)
+ * - mints are registered by the frontend with POST /api/assets { network, assetId, txId };
+ *   the server reads the asset from algod, so catalog entries always match the chain
+ * - the asset's metadata JSON is joined in when its CID was pinned here
+ * - pins no registered asset references are orphans (see pins/index.ts for unpin and GC)
+ *
+ * REGISTRY_DB_PATH picks the database file (default .data/registry.db; ":memory:" keeps nothing).
+ */
+export function createRegistry(
+  env: NodeJS.ProcessEnv = process.env,
+  lookupAsset: AssetLookup = createAlgodLookup(env),
+) {
+  const path = env.REGISTRY_DB_PATH?.trim() || (env.VERCEL ? '/tmp/registry.db' : '.data/registry.db')
+  if (env.VERCEL && !env.REGISTRY_DB_PATH)
+    console.warn('Asset registry uses /tmp on Vercel: entries do not survive cold starts.')
+  const db = openDatabase(path)
+
+  const insertPin = db.prepare(
+    `INSERT INTO pins (cid, kind, name, mimetype, size, address, metadata_json, created_at, pinned_at)
+     VALUES (@cid, @kind, @name, @mimetype, @size, @address, @metadataJson, @now, @now)
+     ON CONFLICT (cid) DO UPDATE SET pinned_at = excluded.pinned_at`,
+  )
+  const insertUploader = db.prepare(
+    `INSERT INTO pin_uploaders (cid, address, pinned_at) VALUES (@cid, @address, @now)
+     ON CONFLICT (cid, address) DO UPDATE SET pinned_at = excluded.pinned_at`,
+  )
+  const upsertAsset = db.prepare(
+    `INSERT INTO assets (network, asset_id, name, unit_name, url, total, decimals, creator, manager, reserve,
+                         standard, metadata_cid, txid, created_at, updated_at)
+     VALUES (@network, @assetId, @name, @unitName, @url, @total, @decimals, @creator, @manager, @reserve,
+             @standard, @metadataCid, @txId, @now, @now)
+     ON CONFLICT (network, asset_id) DO UPDATE SET
+       name = excluded.name, unit_name = excluded.unit_name, url = excluded.url, total = excluded.total,
+       decimals = excluded.decimals, manager = excluded.manager, reserve = excluded.reserve,
+       standard = excluded.standard, metadata_cid = excluded.metadata_cid,
+       txid = COALESCE(assets.txid, excluded.txid), updated_at = excluded.updated_at`,
+  )
+  const selectAssets = `SELECT assets.*, pins.metadata_json FROM assets
+                        LEFT JOIN pins ON pins.cid = assets.metadata_cid AND pins.kind = 'metadata'`
+
+  /**
+   * Remember a pinned file; the first upload of a CID wins, later ones refresh `pinned_at` and
+   * add their address to the CID's uploaders
+   */
+  const recordPin: RecordPin = ({
+    cid,
+    kind,
+    name = null,
+    mimetype = null,
+    size = null,
+    address = null,
+    metadataJson = null,
+  }) => {
+    const now = new Date().toISOString()
+    db.transaction(() => {
+      insertPin.run({ cid, kind, name, mimetype, size, address, metadataJson, now })
+      if (address) insertUploader.run({ cid, address, now })
+    })()
+  }
+
+  const selectPins = `${REFERENCED}
+    SELECT pins.*, pins.cid IN (SELECT cid FROM referenced) AS referenced,
+      (SELECT json_group_array(address) FROM pin_uploaders WHERE pin_uploaders.cid = pins.cid) AS uploaders
+    FROM pins`
+
+  function getPin(cid: string) {
+    const row = db.prepare(`${selectPins} WHERE pins.cid = ?`).get(cid) as PinRow | undefined
+    return row ? toPin(row) : null
+  }
+
+  /**
+   * Page of pins, newest first; `address` matches any of a pin's uploaders, `referenced: false`
+   * lists orphans only
+   */
+  function listPins({
+    address,
+    kind,
+    referenced,
+    limit,
+    offset,
+  }: {
+    address?: string
+    kind?: PinKind
+    referenced?: boolean
+    limit: number
+    offset: number
+  }): PinPage {
+    const where: string[] = []
+    const args: string[] = []
+    if (address) {
+      where.push('pins.cid IN (SELECT cid FROM pin_uploaders WHERE address = ?)')
+      args.push(address)
+    }
+    if (kind) {
+      where.push('pins.kind = ?')
+      args.push(kind)
+    }
+    if (referenced !== undefined) where.push(`pins.cid ${referenced ? 'IN' : 'NOT IN'} (SELECT cid FROM referenced)`)
+    const clause = where.length ? ` WHERE ${where.join(' AND ')}` : ''
+    const { n: total } = db.prepare(`${REFERENCED} SELECT COUNT(*) AS n FROM pins${clause}`).get(...args) as {
+      n: number
+    }
+    const rows = db
+      .prepare(`${selectPins}${clause} ORDER BY pins.created_at DESC, pins.cid LIMIT ? OFFSET ?`)
+      .all(...args, limit, offset) as PinRow[]
+    return { pins: rows.map(toPin), total, limit, offset }
+  }
+
+  /**
+   * Unreferenced pins last pinned before `before` (ISO time), oldest first
+   */
+  function orphanedPins(before: string) {
+    const rows = db
+      .prepare(
+        `${selectPins} WHERE pins.cid NOT IN (SELECT cid FROM referenced) AND pins.pinned_at < ? ORDER BY pins.pinned_at`,
+      )
+      .all(before) as PinRow[]
+    return rows.map(toPin)
+  }
+
+  /**
+   * CIDs referenced by the metadata JSON pinned as `metadataCid` (images, thumbnails, documents);
+   * empty when this server did not pin that metadata
+   */
+  function metadataReferences(metadataCid: string) {
+    const rows = db
+      .prepare(
+        `SELECT DISTINCT ipfs_cid(tree.value) AS cid FROM pins, json_tree(pins.metadata_json) AS tree
+        WHERE pins.cid = ? AND pins.kind = 'metadata' AND tree.type = 'text' AND ipfs_cid(tree.value) IS NOT NULL`,
+      )
+      .all(metadataCid) as { cid: string }[]
+    return rows.map((row) => row.cid)
+  }
+
+  /**
+   * Drop a pin from the inventory (after the storage provider unpinned it)
+   */
+  function forgetPin(cid: string) {
+    db.transaction(() => {
+      db.prepare('DELETE FROM pin_uploaders WHERE cid = ?').run(cid)
+      db.prepare('DELETE FROM pins WHERE cid = ?').run(cid)
+    })()
+  }
+
+  function getAsset(assetId: number, network?: RegistryNetwork) {
+    const row = network
+      ? db.prepare(`${selectAssets} WHERE assets.asset_id = ? AND assets.network = ?`).get(assetId, network)
+      : db.prepare(`${selectAssets} WHERE assets.asset_id = ? ORDER BY assets.updated_at DESC`).get(assetId)
+    return toAsset(row as AssetRow | undefined)
+  }
+
+  /**
+   * Page of assets, newest first; `q` matches name, unit, URL, creator, CID and the metadata JSON
+   */
+  function listAssets({
+    network,
+    creator,
+    q,
+    limit,
+    offset,
+  }: {
+    network?: RegistryNetwork
+    creator?: string
+    q?: string
+    limit: number
+    offset: number
+  }): AssetPage {
+    const where: string[] = []
+    const args: string[] = []
+    if (network) {
+      where.push('assets.network = ?')
+      args.push(network)
+    }
+    if (creator) {
+      where.push('assets.creator = ?')
+      args.push(creator)
+    }
+    if (q) {
+      const like = `%${q.replace(/[\\%_]/g, (c) => `\\${c}`)}%`
+      const columns = [
+        'assets.name',
+        'assets.unit_name',
+        'assets.url',
+        'assets.creator',
+        'assets.metadata_cid',
+        'pins.metadata_json',
+      ]
+      where.push(`(${columns.map((c) => `${c} LIKE ? ESCAPE '\\'`).join(' OR ')})`)
+      args.push(...columns.map(() => like))
+    }
+    const clause = where.length ? ` WHERE ${where.join(' AND ')}` : ''
+    const { n: total } = db
+      .prepare(
+        `SELECT COUNT(*) AS n FROM assets LEFT JOIN pins ON pins.cid = assets.metadata_cid AND pins.kind = 'metadata'${clause}`,
+      )
+      .get(...args) as { n: number }
+    const rows = db
+      .prepare(`${selectAssets}${clause} ORDER BY assets.created_at DESC, assets.asset_id DESC LIMIT ? OFFSET ?`)
+      .all(...args, limit, offset) as AssetRow[]
+    return { assets: rows.map((row) => toAsset(row)!), total, limit, offset }
+  }
+
+  /**
+   * Read the asset from algod and store it; returns { error, status } when it can't be verified
+   */
+  async function registerAsset({
+    network,
+    assetId,
+    txId,
+  }: {
+    network: RegistryNetwork
+    assetId: number
+    txId?: string | null
+  }): Promise<{ asset: RegistryAsset } | { status: number; error: string }> {
+    const params = await lookupAsset(network, assetId)
+    if (!params) return { status: 404, error: `Asset ${assetId} does not exist on ${network}` }
+    upsertAsset.run({
+      network,
+      assetId,
+      ...params,
+      standard: assetStandard(params),
+      metadataCid: assetCid(params),
+      txId: txId || null,
+      now: new Date().toISOString(),
+    })
+    return { asset: getAsset(assetId, network)! }
+  }
+
+  function routes(app: Express, guards: RequestHandler[] = []) {
+    app.get('/api/assets', (req, res: Response<AssetPage | ApiError>) => {
+      const query = parseRequest(AssetListQuerySchema, req.query)
+      if ('error' in query) return res.status(400).json(query)
+      res.set('Cache-Control', 'no-store')
+      return res.status(200).json(listAssets(query.data))
+    })
+
+    // Before /:id so "search" is not read as an asset id
+    app.get('/api/assets/search', (req, res: Response<AssetPage | ApiError>) => {
+      const query = parseRequest(AssetSearchQuerySchema, req.query)
+      if ('error' in query) return res.status(400).json(query)
+      res.set('Cache-Control', 'no-store')
+      return res.status(200).json(listAssets(query.data))
+    })
+
+    app.get('/api/assets/:id', (req, res: Response<RegistryAsset | ApiError>) => {
+      const params = parseRequest(AssetParamsSchema, req.params)
+      if ('error' in params) return res.status(400).json(params)
+      const query = parseRequest(AssetDetailQuerySchema, req.query)
+      if ('error' in query) return res.status(400).json(query)
+
+      const asset = getAsset(Number(params.data.id), query.data.network)
+      if (!asset) return res.status(404).json({ error: 'Asset is not in the registry' })
+      res.set('Cache-Control', 'no-store')
+      return res.status(200).json(asset)
+    })
+
+    app.post('/api/assets', ...guards, async (req, res: Response<RegistryAsset | ApiError>) => {
+      const body = parseRequest(RegisterAssetRequestSchema, req.body)
+      if ('error' in body) return res.status(400).json(body)
+
+      try {
+        const result = await registerAsset(body.data)
+        if ('error' in result) return res.status(result.status).json({ error: result.error })
+        return res.status(200).json(result.asset)
+      } catch (error) {
+        const message = (error as Error)?.message || String(error)
+        return res.status(502).json({ error: `Could not read the asset from ${body.data.network}: ${message}` })
+      }
+    })
+  }
+
+  return {
+    recordPin,
+    getPin,
+    listPins,
+    orphanedPins,
+    metadataReferences,
+    forgetPin,
+    registerAsset,
+    getAsset,
+    listAssets,
+    routes,
+    close: () => db.close(),
+  }
+}
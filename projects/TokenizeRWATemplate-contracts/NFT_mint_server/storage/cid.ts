@@ -0,0 +1,61 @@
+// storage/cid.ts
+import { createHash } from 'crypto'
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567'
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz'
+
+function base32(bytes: Uint8Array): string {
+  let out = ''
+  let buffer = 0
+  let bits = 0
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(buffer << (5 - bits)) & 31]
+  return out
+}
+
+function base58(bytes: Uint8Array): string {
+  let n = 0n
+  for (const byte of bytes) n = n * 256n + BigInt(byte)
+  let out = ''
+  while (n > 0n) {
+    out = BASE58_ALPHABET[Number(n % 58n)] + out
+    n /= 58n
+  }
+  for (const byte of bytes) {
+    if (byte !== 0) break
+    out = `1${out}`
+  }
+  return out
+}
+
+/**
+ * CIDv0 string (`Qm…`, always dag-pb) for a sha2-256 digest, as Pinata returns them
+ */
+export function cidV0FromDigest(digest: Uint8Array): string {
+  // <multihash sha2-256 0x12><length 32><digest>, base58btc without a multibase prefix
+  return base58(Buffer.concat([Buffer.from([0x12, 0x20]), digest]))
+}
+
+/**
+ * CIDv1 string for a sha2-256 digest with the given multicodec (0x55 raw, 0x70 dag-pb)
+ */
+export function cidV1FromDigest(codec: number, digest: Uint8Array): string {
+  // <version 1><codec><multihash sha2-256 0x12><length 32><digest>
+  return `b${base32(Buffer.concat([Buffer.from([0x01, codec, 0x12, 0x20]), digest]))}`
+}
+
+/**
+ * CIDv1 (raw codec, sha2-256) of the bytes, base32 encoded (`bafkrei…`)
+ * Matches `ipfs add --cid-version=1 --raw-leaves` for files up to one chunk (256KiB);
+ * larger files are chunked by real IPFS nodes and get a different (dag-pb) CID.
+ */
+export function rawCidV1(bytes: Uint8Array): string {
+  return cidV1FromDigest(0x55, createHash('sha256').update(bytes).digest())
+}
@@ -0,0 +1,56 @@
+// storage/index.ts
+import { createKuboProvider } from './kubo.js'
+import { createLocalProvider } from './local.js'
+import { createPinataProvider } from './pinata.js'
+
+export type PinOptions = { fileName?: string; name?: string }
+
+/**
+ * Storage provider used by the pin endpoints
+ */
+export interface StorageProvider {
+  name: string
+  pinFile(bytes: Buffer, options?: PinOptions): Promise<{ cid: string }>
+  /** Drop a pin (pin inventory / garbage collection); CIDs that are not pinned are not an error */
+  unpin(cid: string): Promise<void>
+  /** Cold-start credentials check */
+  testAuthentication?(): Promise<unknown>
+  /** Local providers only */
+  getFile?(cid: string): Promise<Buffer | null>
+}
+
+export const STORAGE_PROVIDERS = ['pinata', 'kubo', 'filesystem', 'memory']
+
+/**
+ * Pick the provider from STORAGE_PROVIDER. When unset, Pinata is used if credentials are
+ * configured. The in-memory stand-in publishes nothing, so it is only picked implicitly under
+ * test (NODE_ENV=test or CI set); anywhere else a missing configuration stops the server
+ * instead of handing out CIDs nobody can fetch.
+ */
+export function createStorageProvider(env: NodeJS.ProcessEnv = process.env): StorageProvider {
+  const hasPinataCredentials = !!(env.PINATA_JWT?.trim() || env.PINATA_API_KEY?.trim())
+  const underTest = env.NODE_ENV === 'test' || !!env.CI
+  const choice =
+    (env.STORAGE_PROVIDER || '').trim().toLowerCase() || (hasPinataCredentials ? 'pinata' : underTest ? 'memory' : '')
+  if (!choice) {
+    throw new Error(
+      'No storage provider configured: set Pinata credentials or STORAGE_PROVIDER (pinata, kubo, filesystem, or memory for offline dev)',
+    )
+  }
+
+  switch (choice) {
+    case 'pinata':
+      return createPinataProvider({ jwt: env.PINATA_JWT, apiKey: env.PINATA_API_KEY, apiSecret: env.PINATA_API_SECRET })
+    case 'kubo':
+      return createKuboProvider({
+        apiUrl: env.KUBO_API_URL || undefined,
+        authorization: env.KUBO_API_AUTH || undefined,
+      })
+    case 'filesystem':
+      return createLocalProvider({ dir: env.STORAGE_DIR || '.ipfs-store' })
+    case 'memory':
+      return createLocalProvider()
+    default:
+      throw new Error(`Unknown STORAGE_PROVIDER "${choice}" (expected one of: ${STORAGE_PROVIDERS.join(', ')})`)
+  }
+}
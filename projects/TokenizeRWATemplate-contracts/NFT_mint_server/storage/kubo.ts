@@ -0,0 +1,51 @@
+// storage/kubo.ts
+import type { StorageProvider } from './index.js'
+
+/**
+ * Pins through a Kubo (go-ipfs) node's HTTP RPC API, e.g. a local `ipfs daemon`.
+ * `apiUrl` is the RPC base (default port 5001); `authorization` is sent as-is when the
+ * API sits behind a proxy that needs it.
+ */
+export function createKuboProvider({
+  apiUrl = 'http://127.0.0.1:5001',
+  authorization,
+}: { apiUrl?: string; authorization?: string } = {}): StorageProvider {
+  const base = apiUrl.replace(/\/$/, '')
+  const headers: Record<string, string> = authorization ? { Authorization: authorization } : {}
+
+  async function rpc(pathAndQuery: string, body?: FormData) {
+    const response = await fetch(`${base}/api/v0/${pathAndQuery}`, { method: 'POST', headers, body })
+    if (!response.ok) {
+      throw new Error(`Kubo ${pathAndQuery.split('?')[0]} failed: ${response.status} ${await response.text()}`)
+    }
+    return response
+  }
+
+  return {
+    name: 'kubo',
+
+    async pinFile(bytes, { fileName } = {}) {
+      const form = new FormData()
+      form.append('file', new Blob([Uint8Array.from(bytes)]), fileName || 'upload')
+      // CIDv1 + raw leaves: the same CIDs the filesystem/memory stand-in computes for small files
+      const response = await rpc('add?pin=true&cid-version=1&raw-leaves=true', form)
+      const added = (await response.json()) as { Hash?: string }
+      if (!added?.Hash) throw new Error('Kubo add returned no hash')
+      return { cid: added.Hash }
+    },
+
+    async unpin(cid) {
+      try {
+        await rpc(`pin/rm?arg=${encodeURIComponent(cid)}`)
+      } catch (error) {
+        if (!/not pinned/.test((error as Error).message)) throw error
+      }
+    },
+
+    async testAuthentication() {
+      const response = await rpc('id')
+      const { ID } = (await response.json()) as { ID: string }
+      return `Kubo node ${ID}`
+    },
+  }
+}
@@ -0,0 +1,54 @@
+// storage/local.ts
+import { mkdir, readFile, rm, writeFile } from 'fs/promises'
+import path from 'path'
+import { rawCidV1 } from './cid.js'
+import type { StorageProvider } from './index.js'
+
+/**
+ * Offline stand-in for an IPFS pinning service: computes the CID locally and keeps the bytes
+ * in memory, or under `dir` when given (one file per CID plus `<cid>.json` with its name).
+ * Nothing is published, so ipfs:// URLs only resolve through this server.
+ */
+export function createLocalProvider({ dir }: { dir?: string } = {}): StorageProvider &
+  Required<Pick<StorageProvider, 'getFile'>> {
+  const files = new Map<string, { name: string; size: number; pinnedAt: string; bytes: Buffer }>()
+
+  return {
+    name: dir ? 'filesystem' : 'memory',
+
+    async pinFile(bytes, { name } = {}) {
+      const cid = rawCidV1(bytes)
+      const entry = { name: name || cid, size: bytes.length, pinnedAt: new Date().toISOString() }
+
+      if (dir) {
+        await mkdir(dir, { recursive: true })
+        await writeFile(path.join(dir, cid), bytes)
+        await writeFile(path.join(dir, `${cid}.json`), JSON.stringify(entry))
+      } else {
+        files.set(cid, { ...entry, bytes: Buffer.from(bytes) })
+      }
+      return { cid }
+    },
+
+    async unpin(cid) {
+      if (!/^[a-z0-9]+$/i.test(cid)) return
+      if (!dir) {
+        files.delete(cid)
+        return
+      }
+      await rm(path.join(dir, cid), { force: true })
+      await rm(path.join(dir, `${cid}.json`), { force: true })
+    },
+
+    /** Bytes of a pinned CID, or null when this provider does not have it */
+    async getFile(cid) {
+      if (!/^[a-z0-9]+$/i.test(cid)) return null
+      if (!dir) return files.get(cid)?.bytes ?? null
+      try {
+        return await readFile(path.join(dir, cid))
+      } catch {
+        return null
+      }
+    },
+  }
+}
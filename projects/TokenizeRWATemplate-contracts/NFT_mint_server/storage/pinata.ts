@@ -0,0 +1,60 @@
+// storage/pinata.ts
+import pinataSDK from '@pinata/sdk'
+import { Readable } from 'stream'
+import type { StorageProvider } from './index.js'
+
+// The SDK is CommonJS whose typings declare an ES default export: at runtime the import is the class itself
+const PinataClient = pinataSDK as unknown as typeof pinataSDK.default
+type PinataClient = InstanceType<typeof PinataClient>
+
+// The SDK rejects with Pinata's `error` body ({ reason, details }), a string or an Error
+function isNotPinned(error: unknown): boolean {
+  const { reason, details, message } = (typeof error === 'object' && error ? error : {}) as Record<string, unknown>
+  const text = [reason, details, message, typeof error === 'string' ? error : ''].join(' ')
+  return /CURRENT_USER_HAS_NOT_PINNED_CID|not pinned/i.test(text)
+}
+
+/**
+ * Pins through Pinata. Uses the JWT when set, otherwise the legacy API key/secret pair.
+ * `client` can be passed to reuse (or replace) the SDK instance.
+ */
+export function createPinataProvider({
+  jwt,
+  apiKey,
+  apiSecret,
+  client,
+}: {
+  jwt?: string
+  apiKey?: string
+  apiSecret?: string
+  client?: Pick<PinataClient, 'pinFileToIPFS' | 'unpin' | 'testAuthentication'>
+} = {}): StorageProvider {
+  const pinata =
+    client ||
+    (jwt && jwt.trim().length > 0
+      ? new PinataClient({ pinataJWTKey: jwt })
+      : new PinataClient(apiKey || '', apiSecret || ''))
+
+  return {
+    name: 'pinata',
+
+    async pinFile(bytes, { fileName, name } = {}) {
+      // Pinata's SDK takes the upload's file name from the stream's `path`
+      const stream = Object.assign(Readable.from(bytes), { path: fileName || 'upload' })
+      const result = await pinata.pinFileToIPFS(stream, { pinataMetadata: { name: name || fileName || 'upload' } })
+      return { cid: result.IpfsHash }
+    },
+
+    async unpin(cid) {
+      try {
+        await pinata.unpin(cid)
+      } catch (error) {
+        if (!isNotPinned(error)) throw error
+      }
+    },
+
+    async testAuthentication() {
+      return pinata.testAuthentication()
+    },
+  }
+}
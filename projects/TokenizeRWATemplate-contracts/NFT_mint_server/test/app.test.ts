@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict'
+import { createHash } from 'node:crypto'
+import { after, before, describe, it } from 'node:test'
+import type { Server } from 'node:http'
+import algosdk from 'algosdk'
+import type { PinBatchResponse, PinImageResponse } from '../contract/api.js'
+import { imageBytes, listen, signIn } from './helpers.js'
+
+// Offline: pin into memory instead of a real IPFS service, and keep the registry in memory
+process.env.STORAGE_PROVIDER = 'memory'
+process.env.REGISTRY_DB_PATH = ':memory:'
+const { default: app } = await import('../app.js')
+
+let server: Server
+let base: string
+let headers: Record<string, string>
+let png: Buffer
+
+before(async () => {
+  ;({ server, base } = await listen(app))
+  png = await imageBytes('png')
+  headers = { Authorization: `Bearer ${await signIn(base, algosdk.generateAccount())}` }
+})
+
+after(() => server.close())
+
+function imageForm(fields: Record<string, string> = {}) {
+  const form = new FormData()
+  form.append('file', new Blob([png], { type: 'image/png' }), 'item.png')
+  for (const [key, value] of Object.entries(fields)) form.append(key, value)
+  return form
+}
+
+describe('POST /api/pin-image', () => {
+  it('should require a wallet login', async () => {
+    const response = await fetch(`${base}/api/pin-image`, { method: 'POST', body: imageForm() })
+    assert.equal(response.status, 401)
+  })
+
+  it('should pin the image and ARC-3 metadata with its sha256', async () => {
+    const response = await fetch(`${base}/api/pin-image`, {
+      method: 'POST',
+      headers,
+      body: imageForm({ metaName: 'Gold bar', properties: JSON.stringify({ rwa: { serial_number: 'GB-1' } }) }),
+    })
+    assert.equal(response.status, 200)
+    const body = (await response.json()) as PinImageResponse
+
+    assert.match(body.imageUrl, /^ipfs:\/\/bafkrei/)
+    assert.equal(body.metadataUrl, `ipfs://${body.metadataCid}`)
+    const metadata = JSON.parse(body.metadataJson!)
+    assert.equal(metadata.name, 'Gold bar')
+    assert.equal(metadata.image, body.imageUrl)
+    assert.equal(metadata.image_mimetype, 'image/png')
+    assert.equal(metadata.image_integrity, `sha256-${createHash('sha256').update(png).digest('base64')}`)
+    assert.equal(metadata.thumbnail, body.thumbnailUrl)
+    assert.equal(metadata.thumbnail_mimetype, 'image/webp')
+    assert.equal(body.metadataHash, createHash('sha256').update(body.metadataJson!).digest('base64'))
+  })
+
+  it('should pin only the image for ARC-69', async () => {
+    const response = await fetch(`${base}/api/pin-image`, {
+      method: 'POST',
+      headers,
+      body: imageForm({ standard: 'arc69' }),
+    })
+    const body = (await response.json()) as PinImageResponse
+    assert.equal(body.imageMimetype, 'image/png')
+    assert.equal(body.metadataUrl, undefined)
+  })
+
+  it('should sniff the real type and refuse files outside the allowlist', async () => {
+    const form = new FormData()
+    form.append('file', new Blob(['<svg onload="alert(1)"/>'], { type: 'image/png' }), 'item.png')
+    const response = await fetch(`${base}/api/pin-image`, { method: 'POST', headers, body: form })
+    assert.equal(response.status, 415)
+  })
+
+  it('should reject non-http external URLs', async () => {
+    const response = await fetch(`${base}/api/pin-image`, {
+      method: 'POST',
+      headers,
+      body: imageForm({ externalUrl: 'javascript:alert(1)' }),
+    })
+    assert.equal(response.status, 400)
+  })
+})
+
+describe('POST /api/pin-batch', () => {
+  it('should pin one metadata document per file', async () => {
+    const form = new FormData()
+    form.append('files', new Blob([png], { type: 'image/png' }), '1.png')
+    form.append('files', new Blob([await imageBytes('jpeg')], { type: 'image/jpeg' }), '2.png')
+    form.append('items', JSON.stringify([{ metaName: 'Fleet #1' }, { metaName: 'Fleet #2' }]))
+
+    const response = await fetch(`${base}/api/pin-batch`, { method: 'POST', headers, body: form })
+    const { items } = (await response.json()) as PinBatchResponse
+
+    assert.deepEqual(
+      items.map((i) => [i.fileName, JSON.parse(i.metadataJson!).name]),
+      [
+        ['1.png', 'Fleet #1'],
+        ['2.png', 'Fleet #2'],
+      ],
+    )
+  })
+})
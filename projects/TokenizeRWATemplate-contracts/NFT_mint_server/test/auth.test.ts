@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict'
+import type { Server } from 'node:http'
+import { after, before, describe, it } from 'node:test'
+import algosdk from 'algosdk'
+import express from 'express'
+import { createAuth } from '../auth/index.js'
+import { verifyLoginTransaction } from '../auth/signedTxn.js'
+import type { AuthChallengeResponse } from '../contract/api.js'
+import { listen, postJson, signIn, signLoginTxn } from './helpers.js'
+
+const account = algosdk.generateAccount()
+const address = account.addr.toString()
+const other = algosdk.generateAccount()
+
+describe('verifyLoginTransaction', () => {
+  const check = (signedTxn: string, challenge = 'hello') =>
+    verifyLoginTransaction(Buffer.from(signedTxn, 'base64'), address, challenge)
+
+  it('should accept a 0-ALGO self-payment carrying the challenge', () => {
+    assert.equal(check(signLoginTxn(account, 'hello')), null)
+  })
+
+  it('should reject other notes, signers and submittable transactions', () => {
+    assert.match(check(signLoginTxn(account, 'other')) ?? '', /note/)
+    assert.match(check(signLoginTxn(other, 'hello')) ?? '', /sender/)
+    assert.match(check(signLoginTxn(account, 'hello', { amount: 1 })) ?? '', /0-ALGO/)
+    const submittable = signLoginTxn(account, 'hello', {
+      suggestedParams: { fee: 0n, minFee: 1000n, firstValid: 1000n, lastValid: 2000n, genesisHash: new Uint8Array(32) },
+    })
+    assert.match(check(submittable) ?? '', /round/)
+  })
+})
+
+describe('auth routes', () => {
+  let server: Server
+  let base: string
+
+  before(async () => {
+    const app = express()
+    app.use(express.json())
+    const auth = createAuth({ AUTH_SECRET: 'test-secret' })
+    auth.routes(app)
+    app.get('/protected', auth.requireAuth, (req, res) => res.json(req.auth))
+    ;({ server, base } = await listen(app))
+  })
+
+  after(() => server.close())
+
+  it('should issue a token that unlocks protected routes', async () => {
+    const token = await signIn(base, account)
+    const response = await fetch(`${base}/protected`, { headers: { Authorization: `Bearer ${token}` } })
+    assert.equal(response.status, 200)
+    assert.deepEqual(await response.json(), { address })
+  })
+
+  it('should reject missing and tampered tokens', async () => {
+    assert.equal((await fetch(`${base}/protected`)).status, 401)
+    const token = await signIn(base, account)
+    const tampered = `${token.slice(0, -2)}xx`
+    assert.equal((await fetch(`${base}/protected`, { headers: { Authorization: `Bearer ${tampered}` } })).status, 401)
+  })
+
+  it('should not accept a challenge twice or for another address', async () => {
+    const { challenge } = (await (
+      await postJson(`${base}/api/auth/challenge`, { address })
+    ).json()) as AuthChallengeResponse
+    const body = { address, challenge, signedTxn: signLoginTxn(account, challenge) }
+    assert.equal((await postJson(`${base}/api/auth/verify`, body)).status, 200)
+    assert.equal((await postJson(`${base}/api/auth/verify`, body)).status, 401)
+
+    const otherAddress = other.addr.toString()
+    const forOther = { address: otherAddress, challenge, signedTxn: signLoginTxn(other, challenge) }
+    assert.equal((await postJson(`${base}/api/auth/verify`, forOther)).status, 401)
+  })
+
+  it('should reject invalid addresses', async () => {
+    assert.equal((await postJson(`${base}/api/auth/challenge`, { address: 'nope' })).status, 400)
+  })
+})
@@ -0,0 +1,149 @@
+import assert from 'node:assert/strict'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { after, before, describe, it } from 'node:test'
+import express from 'express'
+import { createDiskCache } from '../gateway/cache.js'
+import { createGateway } from '../gateway/index.js'
+import { rawCidV1 } from '../storage/cid.js'
+import { createLocalProvider } from '../storage/local.js'
+import { imageBytes, listen } from './helpers.js'
+
+const METADATA = Buffer.from(JSON.stringify({ name: 'Gold bar', image: 'ipfs://img' }))
+const METADATA_CID = rawCidV1(METADATA)
+const DIRECTORY_CID = 'bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi'
+const LARGE = Buffer.alloc(2000, 'x')
+const LARGE_CID = rawCidV1(LARGE)
+const DOCUMENT = Buffer.from('title deed')
+const DOCUMENT_CID = rawCidV1(DOCUMENT)
+
+describe('IPFS gateway proxy', () => {
+  const storage = createLocalProvider()
+  const upstream: string[] = []
+  let png: Buffer
+  let broken: Server
+  let gateway: Server
+  let server: Server
+  let base: string
+  let cacheDir: string
+
+  const start = async (handler: Parameters<typeof createServer>[1]) => {
+    const s = createServer(handler)
+    await new Promise<void>((resolve) => s.listen(0, '127.0.0.1', resolve))
+    return { s, url: `http://127.0.0.1:${(s.address() as AddressInfo).port}` }
+  }
+
+  before(async () => {
+    png = await imageBytes('png')
+    cacheDir = await mkdtemp(path.join(tmpdir(), 'ipfs-cache-'))
+
+    // Down, except that it answers one raw CID with bytes that do not hash to it
+    const first = await start((req, res) => {
+      if (req.url === `/ipfs/${DOCUMENT_CID}`) return res.writeHead(200).end('forged deed')
+      return res.writeHead(500).end()
+    })
+    // Answers like a gateway without content sniffing: everything is octet-stream
+    const second = await start((req, res) => {
+      upstream.push(req.url ?? '')
+      const files: Record<string, Buffer> = {
+        [`/ipfs/${METADATA_CID}`]: METADATA,
+        [`/ipfs/${DIRECTORY_CID}/1.png`]: png,
+        [`/ipfs/${LARGE_CID}`]: LARGE,
+        [`/ipfs/${DOCUMENT_CID}`]: DOCUMENT,
+      }
+      const body = files[req.url ?? '']
+      if (!body) return res.writeHead(404).end()
+      return res.writeHead(200, { 'Content-Type': 'application/octet-stream' }).end(body)
+    })
+    broken = first.s
+    gateway = second.s
+
+    const app = express()
+    createGateway(storage, {
+      IPFS_GATEWAYS: `${first.url}/ipfs/, ${second.url}`,
+      IPFS_CACHE_DIR: cacheDir,
+      IPFS_PROXY_MAX_ITEM_MB: '0.001',
+    }).routes(app)
+    ;({ server, base } = await listen(app))
+  })
+
+  after(async () => {
+    server.close()
+    broken.close()
+    gateway.close()
+    await rm(cacheDir, { recursive: true, force: true })
+  })
+
+  it('should fall back to the next gateway and sniff the content type', async () => {
+    const response = await fetch(`${base}/api/ipfs/${METADATA_CID}`)
+    assert.equal(response.status, 200)
+    assert.equal(response.headers.get('content-type'), 'application/json; charset=utf-8')
+    assert.match(response.headers.get('cache-control') ?? '', /immutable/)
+    assert.deepEqual(Buffer.from(await response.arrayBuffer()), METADATA)
+  })
+
+  it('should serve files inside directory CIDs from the cache with ETags', async () => {
+    const url = `${base}/api/ipfs/${DIRECTORY_CID}/1.png`
+    const first = await fetch(url)
+    assert.equal(first.headers.get('content-type'), 'image/png')
+    const etag = first.headers.get('etag') ?? ''
+    assert.ok(etag)
+
+    const again = await fetch(url, { headers: { 'If-None-Match': etag } })
+    assert.equal(again.status, 304)
+    assert.equal(upstream.filter((u) => u.endsWith('/1.png')).length, 1)
+  })
+
+  it('should skip a gateway whose bytes do not match a raw CID and never cache them', async () => {
+    const response = await fetch(`${base}/api/ipfs/${DOCUMENT_CID}`)
+    assert.equal(await response.text(), 'title deed')
+    assert.equal(
+      (await createDiskCache({ dir: cacheDir, maxBytes: 1024 }).get(DOCUMENT_CID))?.bytes.toString(),
+      'title deed',
+    )
+  })
+
+  it('should serve local pins without asking the gateways', async () => {
+    const { cid } = await storage.pinFile(Buffer.from('local only'))
+    const response = await fetch(`${base}/api/ipfs/${cid}`)
+    assert.equal(await response.text(), 'local only')
+    assert.ok(!upstream.some((u) => u.includes(cid)))
+  })
+
+  it('should answer 404, 413 and 400 for missing, oversize and invalid requests', async () => {
+    assert.equal((await fetch(`${base}/api/ipfs/${DIRECTORY_CID}/missing.png`)).status, 404)
+    assert.equal((await fetch(`${base}/api/ipfs/${LARGE_CID}`)).status, 413)
+    assert.equal((await fetch(`${base}/api/ipfs/not-a-cid`)).status, 400)
+    assert.equal((await fetch(`${base}/api/ipfs/${DIRECTORY_CID}/a//b`)).status, 400)
+  })
+})
+
+describe('createDiskCache', () => {
+  let dir: string
+
+  before(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'ipfs-cache-'))
+  })
+
+  after(() => rm(dir, { recursive: true, force: true }))
+
+  it('should evict the least recently used entries past the size limit', async () => {
+    const cache = createDiskCache({ dir, maxBytes: 25 })
+    const entry = (text: string) => ({ bytes: Buffer.from(text), contentType: 'text/plain', etag: `"${text}"` })
+
+    await cache.set('a', entry('aaaaaaaaaa'))
+    await cache.set('b', entry('bbbbbbbbbb'))
+    assert.equal((await cache.get('a'))?.etag, '"aaaaaaaaaa"')
+    await cache.set('c', entry('cccccccccc'))
+
+    assert.equal(await cache.get('b'), null)
+    assert.ok(await cache.get('a'))
+    assert.equal(await cache.size(), 20)
+
+    // A new instance picks the entries up from disk
+    assert.equal((await createDiskCache({ dir, maxBytes: 25 }).get('c'))?.contentType, 'text/plain')
+  })
+})
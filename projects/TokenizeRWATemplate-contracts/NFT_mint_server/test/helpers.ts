@@ -0,0 +1,79 @@
+import type { Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import algosdk from 'algosdk'
+import type { Express } from 'express'
+import sharp from 'sharp'
+import { AUTH_TXN_ROUND } from '../auth/signedTxn.js'
+import type { AuthChallengeResponse, AuthVerifyResponse } from '../contract/api.js'
+
+const SUGGESTED_PARAMS = {
+  fee: 0n,
+  minFee: 1000n,
+  flatFee: false,
+  firstValid: AUTH_TXN_ROUND,
+  lastValid: AUTH_TXN_ROUND,
+  genesisID: 'testnet-v1.0',
+  genesisHash: Buffer.from('SGO1GKSzyE7IEPItTxCByw9x8FmnrCDexi9/cOUJOiI=', 'base64'),
+}
+
+/**
+ * Signed login transaction (base64) for `challenge`; `overrides` tweak the payment fields
+ */
+export function signLoginTxn(
+  account: algosdk.Account,
+  challenge: string,
+  overrides: Partial<algosdk.PaymentTransactionParams & algosdk.CommonTransactionParams> = {},
+) {
+  const txn = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+    sender: account.addr,
+    receiver: account.addr,
+    amount: 0,
+    note: new TextEncoder().encode(challenge),
+    suggestedParams: SUGGESTED_PARAMS,
+    ...overrides,
+  })
+  return Buffer.from(txn.signTxn(account.sk)).toString('base64')
+}
+
+export async function postJson(url: string, body: unknown, headers: Record<string, string> = {}) {
+  return fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  })
+}
+
+/**
+ * Start `app` on a free local port
+ */
+export async function listen(app: Express): Promise<{ server: Server; base: string }> {
+  const server = await new Promise<Server>((resolve) => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening))
+  })
+  return { server, base: `http://127.0.0.1:${(server.address() as AddressInfo).port}` }
+}
+
+/**
+ * Full challenge/response login against a running server; returns the bearer token
+ */
+export async function signIn(base: string, account: algosdk.Account): Promise<string> {
+  const address = account.addr.toString()
+  const { challenge } = (await (
+    await postJson(`${base}/api/auth/challenge`, { address })
+  ).json()) as AuthChallengeResponse
+  const response = await postJson(`${base}/api/auth/verify`, {
+    address,
+    challenge,
+    signedTxn: signLoginTxn(account, challenge),
+  })
+  const { token } = (await response.json()) as AuthVerifyResponse
+  return token
+}
+
+/**
+ * Small real image (uploads are sniffed and decoded); `exif` is passed to sharp's withExif
+ */
+export async function imageBytes(format: 'png' | 'jpeg' | 'webp' | 'avif' = 'png', exif?: sharp.Exif) {
+  const image = sharp({ create: { width: 32, height: 24, channels: 3, background: '#0d9488' } }).toFormat(format)
+  return exif ? image.withExif(exif).toBuffer() : image.toBuffer()
+}
@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict'
+import type { Server } from 'node:http'
+import { after, before, describe, it } from 'node:test'
+import express, { type RequestHandler } from 'express'
+import type { RateLimitError, UsageReport } from '../contract/api.js'
+import { createLimits } from '../limits/index.js'
+import { listen } from './helpers.js'
+
+const ADMIN = 'ADMIN'
+
+describe('limits', () => {
+  let server: Server
+  let base: string
+  let clock = Date.UTC(2026, 0, 1, 12)
+
+  before(async () => {
+    const limits = createLimits(
+      {
+        RATE_LIMIT_WINDOW_SECONDS: '60',
+        RATE_LIMIT_PER_ADDRESS: '2',
+        RATE_LIMIT_PER_IP: '100',
+        DAILY_QUOTA_MB_PER_ADDRESS: '0.001',
+        ADMIN_ADDRESSES: ADMIN,
+      },
+      () => clock,
+    )
+    // Stand-in for requireAuth: the caller's address comes from a header
+    const fakeAuth: RequestHandler = (req, _res, next) => {
+      req.auth = { address: String(req.headers['x-address']) }
+      next()
+    }
+    const app = express()
+    limits.routes(app, fakeAuth)
+    app.post('/pin', fakeAuth, limits.rateLimit, limits.byteQuota, (_req, res) => res.json({ ok: true }))
+    ;({ server, base } = await listen(app))
+  })
+
+  after(() => server.close())
+
+  const pin = (address: string, bytes = 10) =>
+    fetch(`${base}/pin`, { method: 'POST', headers: { 'x-address': address }, body: 'x'.repeat(bytes) })
+
+  it('should return 429 with Retry-After once an address uses up its window', async () => {
+    assert.equal((await pin('A')).status, 200)
+    assert.equal((await pin('A')).status, 200)
+    const limited = await pin('A')
+    assert.equal(limited.status, 429)
+    assert.equal(limited.headers.get('retry-after'), '60')
+    assert.equal(((await limited.json()) as RateLimitError).limit, 'address-requests')
+    assert.equal((await pin('B')).status, 200)
+
+    clock += 60_000
+    assert.equal((await pin('A')).status, 200)
+  })
+
+  it('should enforce the daily byte quota until the next UTC day', async () => {
+    assert.equal((await pin('C', 1000)).status, 200)
+    const limited = await pin('C', 100)
+    assert.equal(limited.status, 429)
+    assert.equal(((await limited.json()) as RateLimitError).limit, 'address-bytes')
+    assert.ok(Number(limited.headers.get('retry-after')) <= 12 * 60 * 60)
+
+    clock += 24 * 60 * 60 * 1000
+    assert.equal((await pin('C', 100)).status, 200)
+  })
+
+  it('should show usage to admins only', async () => {
+    assert.equal((await fetch(`${base}/api/admin/usage`, { headers: { 'x-address': 'A' } })).status, 403)
+    const response = await fetch(`${base}/api/admin/usage`, { headers: { 'x-address': ADMIN } })
+    const usage = (await response.json()) as UsageReport
+    assert.equal(usage.limits.requestsPerAddress, 2)
+    assert.deepEqual(
+      usage.addresses.map((a) => [a.address, a.requestsToday, a.bytesToday]),
+      [['C', 1, 100]],
+    )
+    assert.equal(usage.ips.length, 1)
+  })
+})
@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import sharp from 'sharp'
+import { arc3MediaFields, createMediaPolicy, type PreparedMedia, type RefusedMedia } from '../media/index.js'
+import { stripGps } from '../media/exif.js'
+import { sniffMimeType } from '../media/sniff.js'
+import { imageBytes } from './helpers.js'
+
+const GPS_EXIF = { IFD0: { Copyright: 'ACME' }, IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '51/1 30/1 0/1' } }
+// 51/1 as a little-endian TIFF rational
+const LATITUDE_DEGREES = Buffer.from([0x33, 0, 0, 0, 1, 0, 0, 0])
+
+describe('sniffMimeType', () => {
+  it('should detect types from magic bytes, not the file name or declared type', async () => {
+    assert.equal(sniffMimeType(await imageBytes('png')), 'image/png')
+    assert.equal(sniffMimeType(await imageBytes('jpeg')), 'image/jpeg')
+    assert.equal(sniffMimeType(await imageBytes('webp')), 'image/webp')
+    assert.equal(sniffMimeType(Buffer.from('%PDF-1.7\n')), 'application/pdf')
+    assert.equal(sniffMimeType(Buffer.from('\0\0\0\x18ftypmp42\0\0\0\0')), 'video/mp4')
+    assert.equal(sniffMimeType(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>')), undefined)
+  })
+})
+
+describe('stripGps', () => {
+  for (const format of ['jpeg', 'png', 'webp', 'avif'] as const) {
+    it(`should blank GPS tags and keep the rest of a ${format}`, async () => {
+      const original = await imageBytes(format, GPS_EXIF)
+      assert.ok(original.includes(LATITUDE_DEGREES))
+
+      const { bytes, removed } = stripGps(original, `image/${format}`)
+      assert.equal(removed, true)
+      assert.ok(!bytes.includes(LATITUDE_DEGREES))
+      assert.ok(bytes.includes('ACME'))
+      assert.equal((await sharp(bytes).metadata()).width, 32)
+    })
+  }
+
+  it('should leave images without GPS untouched', async () => {
+    const original = await imageBytes('jpeg')
+    const { bytes, removed } = stripGps(original, 'image/jpeg')
+    assert.equal(removed, false)
+    assert.ok(bytes.equals(original))
+  })
+})
+
+describe('createMediaPolicy', () => {
+  const policy = createMediaPolicy({ MAX_PDF_MB: '0.001' })
+  const status = async (bytes: Buffer, p = policy) => ((await p.prepare(bytes)) as RefusedMedia).status
+
+  it('should prepare images with integrity and a thumbnail', async () => {
+    const prepared = (await policy.prepare(await imageBytes('jpeg', GPS_EXIF))) as PreparedMedia
+    assert.equal(prepared.mimetype, 'image/jpeg')
+    assert.equal(prepared.gpsRemoved, true)
+    assert.match(prepared.integrity, /^sha256-[A-Za-z0-9+/]+=*$/)
+    assert.equal(sniffMimeType(prepared.thumbnail!.bytes), 'image/webp')
+  })
+
+  it('should refuse unknown types, oversize files and undecodable images', async () => {
+    assert.equal(await status(Buffer.from('plain text')), 415)
+    assert.equal(await status(Buffer.from(`%PDF-${'x'.repeat(2000)}`)), 413)
+    assert.equal(await status(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2])), 415)
+  })
+
+  it('should honour ALLOWED_UPLOAD_TYPES', async () => {
+    const pngOnly = createMediaPolicy({ ALLOWED_UPLOAD_TYPES: 'image/png' })
+    assert.equal(await status(await imageBytes('jpeg'), pngOnly), 415)
+  })
+})
+
+describe('arc3MediaFields', () => {
+  it('should reference video and PDF as animation_url as well', () => {
+    const fields = arc3MediaFields({ url: 'ipfs://v', mimetype: 'video/mp4', integrity: 'sha256-x', category: 'video' })
+    assert.equal(fields.animation_url, 'ipfs://v')
+    assert.equal(fields.image_mimetype, 'video/mp4')
+    assert.equal(fields.thumbnail, undefined)
+  })
+})
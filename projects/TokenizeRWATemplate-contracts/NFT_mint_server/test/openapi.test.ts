@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict'
+import type { Server } from 'node:http'
+import { after, before, describe, it } from 'node:test'
+import { OPERATIONS } from '../contract/openapi.js'
+import { AssetPageSchema, HealthResponseSchema, PinImageFormSchema, parseRequest } from '../contract/schemas.js'
+import { listen } from './helpers.js'
+
+process.env.STORAGE_PROVIDER = 'memory'
+process.env.REGISTRY_DB_PATH = ':memory:'
+const { default: app } = await import('../app.js')
+
+type Layer = { route?: { path: string; methods: Record<string, boolean> } }
+
+describe('OpenAPI document', () => {
+  let server: Server
+  let base: string
+
+  before(async () => {
+    ;({ server, base } = await listen(app))
+  })
+
+  after(() => server.close())
+
+  it('should document every route the app serves', () => {
+    const stack: Layer[] = app._router.stack
+    // CORS preflight is answered for every path and is not an operation
+    const routes = stack.flatMap(({ route }) =>
+      route && route.path !== '*'
+        ? Object.keys(route.methods).map((method) => `${method.toUpperCase()} ${route.path}`)
+        : [],
+    )
+    assert.deepEqual(
+      routes.filter((route) => !(route in OPERATIONS)),
+      [],
+    )
+    assert.deepEqual(
+      Object.keys(OPERATIONS).filter((operation) => !routes.includes(operation)),
+      [],
+    )
+  })
+
+  it('should serve paths, bearer security and named components', async () => {
+    const response = await fetch(`${base}/api/openapi.json`)
+    assert.equal(response.status, 200)
+    const document = (await response.json()) as any
+
+    assert.equal(document.openapi, '3.1.0')
+    const pinImage = document.paths['/api/pin-image'].post
+    assert.deepEqual(pinImage.security, [{ bearer: [] }])
+    assert.ok(pinImage.requestBody.content['multipart/form-data'])
+    assert.equal(
+      pinImage.responses[200].content['application/json'].schema.$ref,
+      '#/components/schemas/PinImageResponse',
+    )
+    assert.equal(pinImage.responses[429].content['application/json'].schema.$ref, '#/components/schemas/RateLimitError')
+    assert.deepEqual(
+      document.paths['/api/assets/{id}'].get.parameters.map((p: { name: string; in: string }) => `${p.in}:${p.name}`),
+      ['path:id', 'query:network'],
+    )
+    for (const name of ['PinImageResponse', 'PinnedMetadata', 'RegistryAsset', 'ApiError']) {
+      assert.ok(document.components.schemas[name], name)
+    }
+  })
+
+  it('should match what the handlers send', async () => {
+    assert.ok(HealthResponseSchema.safeParse(await (await fetch(`${base}/health`)).json()).success)
+    assert.ok(AssetPageSchema.safeParse(await (await fetch(`${base}/api/assets`)).json()).success)
+  })
+})
+
+describe('parseRequest', () => {
+  const form = PinImageFormSchema.omit({ file: true })
+
+  it('should apply defaults and decode JSON fields', () => {
+    const parsed = parseRequest(form, { metaName: ' ', properties: '{"rwa":{"serial":"1"}}' })
+    assert.deepEqual(parsed, {
+      data: {
+        metaName: 'NFT Example',
+        metaDescription: 'Pinned via TokenizeRWA template',
+        externalUrl: '',
+        properties: { rwa: { serial: '1' } },
+      },
+    })
+  })
+
+  it('should return the first problem as an error body', () => {
+    assert.deepEqual(parseRequest(form, { properties: '{' }), { error: 'properties must be a JSON object' })
+    assert.deepEqual(parseRequest(form, { standard: 'arc99' }), {
+      error: 'standard: Invalid option: expected one of "arc3"|"arc19"|"arc69"',
+    })
+    assert.deepEqual(parseRequest(form, { externalUrl: 'javascript:alert(1)' }), {
+      error: 'externalUrl must be an http(s) URL',
+    })
+  })
+})
@@ -0,0 +1,200 @@
+import assert from 'node:assert/strict'
+import { createHash } from 'node:crypto'
+import type { Server } from 'node:http'
+import { after, before, describe, it } from 'node:test'
+import algosdk from 'algosdk'
+import express, { type RequestHandler } from 'express'
+import type { PinGcReport, PinPage } from '../contract/api.js'
+import { createPinInventory } from '../pins/index.js'
+import type { AssetLookup, CreatedAssetsLookup } from '../registry/algod.js'
+import { createRegistry } from '../registry/index.js'
+import { cidV0FromDigest } from '../storage/cid.js'
+import { createLocalProvider } from '../storage/local.js'
+import { listen, postJson } from './helpers.js'
+
+const ADMIN = 'ADMIN'
+const DAY_MS = 24 * 60 * 60 * 1000
+const creator = algosdk.generateAccount().addr.toString()
+
+// Metadata pinned by Pinata (CIDv0) for an ARC-19 asset: only the reserve address points at it
+const arc19MetadataJson = JSON.stringify({ name: 'Silver bar' })
+const arc19Digest = createHash('sha256').update(arc19MetadataJson).digest()
+const arc19MetadataCid = cidV0FromDigest(arc19Digest)
+
+describe('pin inventory', () => {
+  const storage = createLocalProvider()
+  let metadataCid = ''
+  // Asset 2001 is an ARC-3 NFT pointing at the pinned metadata, 2002 an ARC-19 NFT with a CIDv0
+  // template; nothing else exists
+  const lookupAsset: AssetLookup = async (_network, assetId) =>
+    assetId === 2001
+      ? {
+          name: 'Gold bar',
+          unitName: 'GOLD',
+          url: `ipfs://${metadataCid}#arc3`,
+          total: '1',
+          decimals: 0,
+          creator,
+          manager: null,
+          reserve: null,
+        }
+      : assetId === 2002
+        ? {
+            name: 'Silver bar',
+            unitName: 'SILV',
+            url: 'template-ipfs://{ipfscid:0:dag-pb:reserve:sha2-256}#arc3',
+            total: '1',
+            decimals: 0,
+            creator,
+            manager: null,
+            reserve: algosdk.encodeAddress(arc19Digest),
+          }
+        : null
+  const registry = createRegistry({ REGISTRY_DB_PATH: ':memory:' }, lookupAsset)
+  let clock = Date.now()
+  const cids = { image: '', thumbnail: '', orphan: '', othersOrphan: '', unregistered: '', unverifiable: '' }
+  // The indexer: B created an ARC-69 NFT on testnet that was never registered; C cannot be checked
+  const lookupCreatedAssets: CreatedAssetsLookup = async (network, address) => {
+    if (address === 'C') throw new Error('indexer unavailable')
+    if (address !== 'B' || network !== 'testnet') return []
+    return [
+      {
+        name: 'Unregistered',
+        unitName: 'UNREG',
+        url: `ipfs://${cids.unregistered}#i`,
+        total: '1',
+        decimals: 0,
+        creator: 'B',
+        manager: null,
+        reserve: null,
+      },
+    ]
+  }
+  let server: Server
+  let base: string
+
+  const pin = async (text: string, kind: 'image' | 'thumbnail', address: string) => {
+    const { cid } = await storage.pinFile(Buffer.from(text))
+    registry.recordPin({ cid, kind, address })
+    return cid
+  }
+
+  before(async () => {
+    cids.image = await pin('image', 'image', 'A')
+    cids.thumbnail = await pin('thumbnail', 'thumbnail', 'A')
+    cids.orphan = await pin('failed mint', 'image', 'A')
+    cids.othersOrphan = await pin('abandoned upload', 'image', 'B')
+    // D pinned it first, then B reused the same bytes for the asset it created
+    cids.unregistered = await pin('registration failed', 'image', 'D')
+    registry.recordPin({ cid: cids.unregistered, kind: 'image', address: 'B' })
+    cids.unverifiable = await pin('unknown state', 'image', 'C')
+
+    const metadataJson = JSON.stringify({
+      name: 'Gold bar',
+      image: `ipfs://${cids.image}`,
+      properties: { thumbnail: `ipfs://${cids.thumbnail}` },
+    })
+    ;({ cid: metadataCid } = await storage.pinFile(Buffer.from(metadataJson)))
+    registry.recordPin({ cid: metadataCid, kind: 'metadata', address: 'A', metadataJson })
+    await registry.registerAsset({ network: 'testnet', assetId: 2001 })
+    registry.recordPin({ cid: arc19MetadataCid, kind: 'metadata', address: 'B', metadataJson: arc19MetadataJson })
+    await registry.registerAsset({ network: 'testnet', assetId: 2002 })
+
+    const pins = createPinInventory(
+      storage,
+      registry,
+      (address) => address === ADMIN,
+      {},
+      () => clock,
+      lookupCreatedAssets,
+    )
+    // Stand-in for requireAuth: the caller's address comes from a header
+    const fakeAuth: RequestHandler = (req, _res, next) => {
+      req.auth = { address: String(req.headers['x-address']) }
+      next()
+    }
+    const app = express()
+    app.use(express.json())
+    pins.routes(app, fakeAuth)
+    ;({ server, base } = await listen(app))
+  })
+
+  after(() => {
+    server.close()
+    registry.close()
+  })
+
+  const list = async (address: string, query = '') =>
+    (await fetch(`${base}/api/pins${query}`, { headers: { 'x-address': address } })).json() as Promise<PinPage>
+  const unpin = (address: string, cid: string) =>
+    fetch(`${base}/api/pins/${cid}`, { method: 'DELETE', headers: { 'x-address': address } })
+  const gc = (address: string, body: object) => postJson(`${base}/api/admin/pins/gc`, body, { 'x-address': address })
+
+  it('should list own pins and flag the ones a registered asset references', async () => {
+    const own = await list('A')
+    assert.equal(own.total, 4)
+    const referenced = Object.fromEntries(own.pins.map((p) => [p.cid, p.referenced]))
+    assert.deepEqual(referenced, {
+      [metadataCid]: true,
+      [cids.image]: true,
+      [cids.thumbnail]: true,
+      [cids.orphan]: false,
+    })
+
+    assert.deepEqual(
+      (await list('A', '?referenced=false')).pins.map((p) => p.cid),
+      [cids.orphan],
+    )
+    assert.equal((await list(ADMIN)).total, 8)
+    assert.equal((await list(ADMIN, '?address=B')).total, 3)
+    assert.deepEqual(
+      (await list(ADMIN, '?address=B&referenced=true')).pins.map((p) => p.cid),
+      [arc19MetadataCid],
+    )
+    assert.equal((await fetch(`${base}/api/pins?address=B`, { headers: { 'x-address': 'A' } })).status, 403)
+    assert.deepEqual(
+      (await list('D')).pins.map((p) => [p.address, p.uploaders]),
+      [['D', ['B', 'D']]],
+    )
+  })
+
+  it('should let the uploader or an admin unpin orphans only', async () => {
+    assert.equal((await unpin('B', cids.orphan)).status, 403)
+    assert.equal((await unpin('A', cids.image)).status, 409)
+    assert.equal((await unpin('A', 'not-a-cid')).status, 400)
+    // B may still need the bytes D uploaded first
+    assert.equal((await unpin('D', cids.unregistered)).status, 403)
+
+    assert.equal((await unpin('A', cids.orphan)).status, 200)
+    assert.equal(await storage.getFile(cids.orphan), null)
+    assert.equal((await unpin('A', cids.orphan)).status, 404)
+  })
+
+  it('should garbage-collect old orphans that no asset uses on-chain', async () => {
+    assert.equal((await gc('A', {})).status, 403)
+    assert.deepEqual(((await (await gc(ADMIN, {})).json()) as PinGcReport).unpinned, [])
+
+    clock += 8 * DAY_MS
+    const dryRun = (await (await gc(ADMIN, { dryRun: true })).json()) as PinGcReport
+    assert.deepEqual(dryRun.unpinned, [cids.othersOrphan])
+    assert.ok(await storage.getFile(cids.othersOrphan))
+
+    const report = (await (await gc(ADMIN, {})).json()) as PinGcReport
+    assert.deepEqual(report, {
+      olderThan: report.olderThan,
+      dryRun: false,
+      unpinned: [cids.othersOrphan],
+      kept: [cids.unregistered],
+      failed: [{ cid: cids.unverifiable, error: 'indexer unavailable' }],
+    })
+    assert.equal(await storage.getFile(cids.othersOrphan), null)
+    assert.ok(await storage.getFile(cids.unregistered))
+    assert.ok(await storage.getFile(cids.unverifiable))
+    assert.ok(await storage.getFile(cids.image))
+    assert.deepEqual(
+      (await list(ADMIN)).pins.map((p) => p.cid).sort(),
+      [metadataCid, cids.image, cids.thumbnail, arc19MetadataCid, cids.unregistered, cids.unverifiable].sort(),
+    )
+    assert.equal((await gc(ADMIN, { olderThanDays: -1 })).status, 400)
+  })
+})
@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict'
+import { createHash } from 'node:crypto'
+import type { Server } from 'node:http'
+import { after, before, describe, it } from 'node:test'
+import algosdk from 'algosdk'
+import express from 'express'
+import type { AssetPage, RegistryAsset } from '../contract/api.js'
+import { type AssetLookup, assetCid, assetStandard } from '../registry/algod.js'
+import { createRegistry } from '../registry/index.js'
+import { rawCidV1 } from '../storage/cid.js'
+import { listen, postJson } from './helpers.js'
+
+const creator = algosdk.generateAccount().addr.toString()
+const metadataJson = JSON.stringify({ name: 'Gold bar', description: 'LBMA good delivery bar', image: 'ipfs://img' })
+const metadataCid = rawCidV1(Buffer.from(metadataJson))
+
+// Stand-in for algod: asset 1001 is an ARC-3 NFT, 1002 a plain ASA, anything else does not exist
+const CHAIN: Record<
+  number,
+  { name: string; unitName: string; url: string; total: string; decimals: number; creator: string }
+> = {
+  1001: { name: 'Gold bar', unitName: 'GOLD', url: `ipfs://${metadataCid}#arc3`, total: '1', decimals: 0, creator },
+  1002: { name: 'Carbon credit', unitName: 'CO2', url: '', total: '1000', decimals: 2, creator },
+}
+const lookupAsset: AssetLookup = async (_network, assetId) =>
+  CHAIN[assetId] ? { manager: null, reserve: null, ...CHAIN[assetId] } : null
+
+describe('asset registry', () => {
+  const registry = createRegistry({ REGISTRY_DB_PATH: ':memory:' }, lookupAsset)
+  let server: Server
+  let base: string
+
+  before(async () => {
+    const app = express()
+    app.use(express.json())
+    registry.routes(app)
+    ;({ server, base } = await listen(app))
+    registry.recordPin({ cid: metadataCid, kind: 'metadata', address: creator, metadataJson })
+  })
+
+  after(() => {
+    server.close()
+    registry.close()
+  })
+
+  const register = (assetId: number, network = 'testnet') =>
+    postJson(`${base}/api/assets`, { network, assetId, txId: `TX${assetId}` })
+
+  it('should register mints from on-chain params and join pinned metadata', async () => {
+    const response = await register(1001)
+    assert.equal(response.status, 200)
+    const asset = (await response.json()) as RegistryAsset
+    assert.equal(asset.creator, creator)
+    assert.equal(asset.standard, 'arc3')
+    assert.equal(asset.metadataCid, metadataCid)
+    assert.equal(asset.metadata?.description, 'LBMA good delivery bar')
+
+    assert.equal((await register(1002)).status, 200)
+    assert.equal((await register(999)).status, 404)
+    assert.equal((await register(1001, 'custom')).status, 400)
+  })
+
+  it('should list, fetch and search the catalog', async () => {
+    const list = (await (await fetch(`${base}/api/assets?network=testnet&creator=${creator}`)).json()) as AssetPage
+    assert.equal(list.total, 2)
+
+    const one = (await (await fetch(`${base}/api/assets/1002`)).json()) as RegistryAsset
+    assert.equal(one.unitName, 'CO2')
+    assert.equal((await fetch(`${base}/api/assets/1002?network=mainnet`)).status, 404)
+
+    const byMetadata = (await (await fetch(`${base}/api/assets/search?q=good%20delivery`)).json()) as AssetPage
+    assert.deepEqual(
+      byMetadata.assets.map((a) => a.assetId),
+      ['1001'],
+    )
+    const literal = (await (await fetch(`${base}/api/assets/search?q=${encodeURIComponent('%')}`)).json()) as AssetPage
+    assert.equal(literal.total, 0)
+  })
+})
+
+describe('assetCid', () => {
+  it('should resolve ARC-19 reserve addresses and ipfs:// URLs', () => {
+    const bytes = Buffer.from('{"name":"x"}')
+    const reserve = algosdk.encodeAddress(createHash('sha256').update(bytes).digest())
+    const url = 'template-ipfs://{ipfscid:1:raw:reserve:sha2-256}#arc3'
+    assert.equal(assetCid({ url, reserve }), rawCidV1(bytes))
+    assert.equal(assetStandard({ url, name: 'x' }), 'arc19')
+    assert.equal(assetCid({ url: 'ipfs://bafkreiabc#i', reserve: null }), 'bafkreiabc')
+  })
+
+  it('should resolve CIDv0 ARC-19 templates to Qm CIDs', () => {
+    const reserve = algosdk.encodeAddress(createHash('sha256').update('{"name":"x"}').digest())
+    const url = 'template-ipfs://{ipfscid:0:dag-pb:reserve:sha2-256}'
+    assert.equal(assetCid({ url, reserve }), 'QmNV6Wti2g7GDEWRUnoUGTutunPKMeK3gjZPFNsVEUK112')
+    assert.equal(assetStandard({ url, name: 'x' }), 'arc19')
+    assert.equal(assetCid({ url: 'template-ipfs://{ipfscid:0:raw:reserve:sha2-256}', reserve }), null)
+    assert.equal(assetCid({ url: 'https://example.com', reserve: null }), null)
+  })
+})
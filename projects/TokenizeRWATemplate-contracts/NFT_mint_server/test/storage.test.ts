@@ -0,0 +1,138 @@
+import assert from 'node:assert/strict'
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { createServer } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { after, describe, it } from 'node:test'
+import { rawCidV1 } from '../storage/cid.js'
+import { createStorageProvider } from '../storage/index.js'
+import { createKuboProvider } from '../storage/kubo.js'
+import { createLocalProvider } from '../storage/local.js'
+import { createPinataProvider } from '../storage/pinata.js'
+
+const HELLO = Buffer.from('hello world')
+// `ipfs add --cid-version=1 --raw-leaves` of "hello world"
+const HELLO_CID = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e'
+
+describe('rawCidV1', () => {
+  it('should match the CID IPFS computes for a single-chunk file', () => {
+    assert.equal(rawCidV1(HELLO), HELLO_CID)
+  })
+})
+
+describe('createStorageProvider', () => {
+  it('should fall back to memory without Pinata credentials only under test', () => {
+    assert.equal(createStorageProvider({ CI: 'true' }).name, 'memory')
+    assert.equal(createStorageProvider({ NODE_ENV: 'test' }).name, 'memory')
+    assert.throws(() => createStorageProvider({}), /No storage provider configured/)
+    assert.equal(createStorageProvider({ STORAGE_PROVIDER: 'memory' }).name, 'memory')
+    assert.equal(createStorageProvider({ PINATA_JWT: 'jwt' }).name, 'pinata')
+    assert.equal(createStorageProvider({ STORAGE_PROVIDER: 'Kubo', PINATA_JWT: 'jwt' }).name, 'kubo')
+  })
+
+  it('should reject unknown providers', () => {
+    assert.throws(() => createStorageProvider({ STORAGE_PROVIDER: 's3' }), /Unknown STORAGE_PROVIDER/)
+  })
+})
+
+describe('local provider', () => {
+  let dir: string | undefined
+
+  after(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true })
+  })
+
+  it('should keep pinned bytes in memory', async () => {
+    const storage = createLocalProvider()
+    const { cid } = await storage.pinFile(HELLO, { name: 'hello' })
+    assert.equal(cid, HELLO_CID)
+    assert.deepEqual(await storage.getFile(cid), HELLO)
+    assert.equal(await storage.getFile('bafkreimissing'), null)
+
+    await storage.unpin(cid)
+    assert.equal(await storage.getFile(cid), null)
+  })
+
+  it('should write pinned bytes and their name to the directory', async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'mint-store-'))
+    const storage = createLocalProvider({ dir })
+    const { cid } = await storage.pinFile(HELLO, { name: 'hello' })
+    assert.deepEqual(await readFile(path.join(dir, cid)), HELLO)
+    assert.equal(JSON.parse(await readFile(path.join(dir, `${cid}.json`), 'utf8')).name, 'hello')
+    assert.deepEqual(await storage.getFile(cid), HELLO)
+  })
+})
+
+describe('kubo provider', () => {
+  it('should add with pinning and CIDv1 raw leaves', async () => {
+    const requests: { url?: string; auth?: string; body: string }[] = []
+    const server = createServer((req, res) => {
+      let body = ''
+      req.on('data', (c) => (body += c))
+      req.on('end', () => {
+        requests.push({ url: req.url, auth: req.headers.authorization, body })
+        res.setHeader('Content-Type', 'application/json')
+        res.end(JSON.stringify({ Name: 'hello.txt', Hash: HELLO_CID, Size: '11' }))
+      })
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+
+    try {
+      const storage = createKuboProvider({
+        apiUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/`,
+        authorization: 'Basic abc',
+      })
+      const { cid } = await storage.pinFile(HELLO, { fileName: 'hello.txt' })
+
+      assert.equal(cid, HELLO_CID)
+      assert.equal(requests[0].url, '/api/v0/add?pin=true&cid-version=1&raw-leaves=true')
+      assert.equal(requests[0].auth, 'Basic abc')
+      assert.match(requests[0].body, /filename="hello.txt"/)
+      assert.match(requests[0].body, /hello world/)
+    } finally {
+      server.close()
+    }
+  })
+})
+
+describe('pinata provider', () => {
+  it('should pin through the SDK client', async () => {
+    const calls: unknown[] = []
+    const client = {
+      pinFileToIPFS: async (stream: { path: string }, options: unknown) => {
+        calls.push({ path: stream.path, options })
+        return { IpfsHash: 'QmPinned', PinSize: HELLO.length, Timestamp: new Date().toISOString() }
+      },
+      unpin: async (hash: string) => calls.push({ unpin: hash }),
+      testAuthentication: async () => ({ authenticated: true }),
+    }
+    const storage = createPinataProvider({ client })
+
+    assert.deepEqual(await storage.pinFile(HELLO, { fileName: 'hello.txt', name: 'Hello' }), { cid: 'QmPinned' })
+    await storage.unpin('QmPinned')
+    assert.deepEqual(calls, [
+      { path: 'hello.txt', options: { pinataMetadata: { name: 'Hello' } } },
+      { unpin: 'QmPinned' },
+    ])
+  })
+
+  it('should treat CIDs that are not pinned as unpinned and rethrow anything else', async () => {
+    const errors: Record<string, unknown> = {
+      QmGone: { reason: 'CURRENT_USER_HAS_NOT_PINNED_CID', details: 'The current user has not pinned the cid: QmGone' },
+      QmDown: new Error('Request failed with status code 503'),
+    }
+    const storage = createPinataProvider({
+      client: {
+        pinFileToIPFS: async () => ({ IpfsHash: 'QmPinned', PinSize: 0, Timestamp: '' }),
+        unpin: async (hash: string) => {
+          throw errors[hash]
+        },
+        testAuthentication: async () => ({ authenticated: true }),
+      },
+    })
+
+    await storage.unpin('QmGone')
+    await assert.rejects(storage.unpin('QmDown'), /503/)
+  })
+})
@@ -0,0 +1,128 @@
+import assert from 'node:assert/strict'
+import { randomBytes } from 'node:crypto'
+import type { Server } from 'node:http'
+import { after, before, describe, it } from 'node:test'
+import algosdk from 'algosdk'
+import express from 'express'
+import multer from 'multer'
+import { createAuth } from '../auth/index.js'
+import type { VaultDocumentResponse } from '../contract/api.js'
+import type { AssetLookup, HoldingLookup } from '../registry/algod.js'
+import { createLocalProvider } from '../storage/local.js'
+import { createVault } from '../vault/index.js'
+import { listen, postJson, signIn } from './helpers.js'
+
+const owner = algosdk.generateAccount()
+const holder = algosdk.generateAccount()
+const stranger = algosdk.generateAccount()
+const seller = algosdk.generateAccount()
+
+// Asset 7 was created by the owner and is held by `holder` only; asset 8 belongs to someone else
+const OWN_ASSET = 7
+const OTHER_ASSET = 8
+const lookupAsset: AssetLookup = async (_network, assetId) =>
+  assetId === OWN_ASSET || assetId === OTHER_ASSET
+    ? {
+        name: 'Deed',
+        unitName: 'DEED',
+        url: 'ipfs://bafy#arc3',
+        total: '1',
+        decimals: 0,
+        creator: assetId === OWN_ASSET ? owner.addr.toString() : stranger.addr.toString(),
+        manager: null,
+        reserve: null,
+      }
+    : null
+const lookupHolding: HoldingLookup = async (_network, address) => (address === holder.addr.toString() ? 1n : 0n)
+// Ciphertext CIDs listed in the metadata of asset 7 (ipfs://bafy)
+const listed: string[] = []
+const metadataReferences = (metadataCid: string) => (metadataCid === 'bafy' ? listed : [])
+
+describe('document vault', () => {
+  const storage = createLocalProvider()
+  let server: Server
+  let base: string
+  const tokens: Record<string, string> = {}
+
+  before(async () => {
+    const app = express()
+    app.use(express.json())
+    const auth = createAuth({ AUTH_SECRET: 'test-secret' })
+    auth.routes(app)
+    createVault(
+      storage,
+      { VAULT_SECRET: 'vault-secret' },
+      undefined,
+      metadataReferences,
+      lookupAsset,
+      lookupHolding,
+    ).routes(app, {
+      upload: [auth.requireAuth, multer({ storage: multer.memoryStorage() }).single('file')],
+      key: [auth.requireAuth],
+    })
+    ;({ server, base } = await listen(app))
+    for (const [name, account] of Object.entries({ owner, holder, stranger, seller }))
+      tokens[name] = await signIn(base, account)
+  })
+
+  after(() => server.close())
+
+  const authHeader = (name: string) => ({ Authorization: `Bearer ${tokens[name]}` })
+  const requestKey = (name: string, envelope: string, assetId = OWN_ASSET) =>
+    postJson(`${base}/api/vault/key`, { envelope, network: 'testnet', assetId }, authHeader(name))
+
+  async function upload(ciphertext: Buffer, key: Buffer, recipients: string[]) {
+    const form = new FormData()
+    form.append('file', new Blob([ciphertext]), 'document.enc')
+    form.append('key', key.toString('base64'))
+    form.append('recipients', JSON.stringify(recipients))
+    return fetch(`${base}/api/vault/documents`, { method: 'POST', headers: authHeader('owner'), body: form })
+  }
+
+  it('should pin the ciphertext and release the key to recipients only', async () => {
+    const ciphertext = randomBytes(64)
+    const key = randomBytes(32)
+    const response = await upload(ciphertext, key, [holder.addr.toString()])
+    assert.equal(response.status, 200)
+    const { cid, envelope, recipients } = (await response.json()) as VaultDocumentResponse
+
+    assert.ok((await storage.getFile(cid))?.equals(ciphertext))
+    assert.deepEqual(recipients, [owner.addr.toString(), holder.addr.toString()])
+    assert.ok(!envelope.includes(key.toString('base64url')))
+    listed.push(cid)
+
+    for (const name of ['owner', 'holder']) {
+      const released = await (await requestKey(name, envelope)).json()
+      assert.deepEqual(released, { key: key.toString('base64'), cid })
+    }
+    assert.equal((await requestKey('stranger', envelope)).status, 403)
+  })
+
+  it('should release the key to other recipients only while they hold an uploader asset listing it', async () => {
+    const recipients = [holder.addr.toString(), seller.addr.toString()]
+    const { cid, envelope } = (await (
+      await upload(randomBytes(8), randomBytes(32), recipients)
+    ).json()) as VaultDocumentResponse
+
+    // Not in the asset's metadata yet: holding asset 7 does not open it
+    assert.equal((await requestKey('holder', envelope)).status, 403)
+    listed.push(cid)
+    assert.equal((await requestKey('holder', envelope)).status, 200)
+
+    assert.equal((await requestKey('seller', envelope)).status, 403)
+    assert.equal((await requestKey('holder', envelope, OTHER_ASSET)).status, 403)
+    assert.equal((await requestKey('holder', envelope, 404)).status, 403)
+    assert.equal((await requestKey('owner', envelope, 404)).status, 200)
+    assert.equal((await postJson(`${base}/api/vault/key`, { envelope }, authHeader('holder'))).status, 400)
+  })
+
+  it('should reject tampered envelopes, bad keys and bad recipients', async () => {
+    const { envelope } = (await (await upload(randomBytes(8), randomBytes(32), [])).json()) as VaultDocumentResponse
+    const parts = envelope.split('.')
+    parts[2] = `A${parts[2].slice(1)}`
+    assert.equal((await requestKey('owner', parts.join('.'))).status, 400)
+
+    assert.equal((await upload(randomBytes(8), randomBytes(16), [])).status, 400)
+    assert.equal((await upload(randomBytes(8), randomBytes(32), ['not-an-address'])).status, 400)
+  })
+})
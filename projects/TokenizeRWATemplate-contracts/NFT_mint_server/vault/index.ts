@@ -0,0 +1,176 @@
+// vault/index.ts
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+import type { Express, RequestHandler, Response } from 'express'
+import type { ApiError, VaultDocumentResponse, VaultKeyResponse } from '../contract/api.js'
+import { parseRequest, VaultDocumentFormSchema, VaultKeyRequestSchema } from '../contract/schemas.js'
+import {
+  assetCid,
+  type AssetLookup,
+  createAlgodLookup,
+  createHoldingLookup,
+  type HoldingLookup,
+} from '../registry/algod.js'
+import type { createRegistry, RecordPin } from '../registry/index.js'
+import type { StorageProvider } from '../storage/index.js'
+
+const ENVELOPE_VERSION = 'v1'
+const MAX_RECIPIENTS = 16
+
+// k: base64 document key, r: recipients, c: CID of the ciphertext, o: uploader
+type Envelope = { k: string; r: string[]; c: string; o: string }
+
+type MetadataReferences = ReturnType<typeof createRegistry>['metadataReferences']
+
+/**
+ * Encrypted document vault
+ *
+ * Documents are encrypted in the browser (AES-256-GCM); the pinning service and IPFS only see
+ * the ciphertext. The document key is sealed together with the recipient addresses into an
+ * "envelope" that only this server can open (AES-256-GCM under VAULT_SECRET). The envelope is
+ * stored in the asset metadata next to the CID.
+ *
+ * This is key escrow: whoever runs the server with VAULT_SECRET can open every envelope and
+ * decrypt every document. Wallets do not expose their keys for decryption, so the key cannot
+ * be wrapped per recipient in the browser; trust the server operator as you would a custodian.
+ *
+ * The key is released to the uploader, and to other recipients only while they hold the asset
+ * on-chain (checked on every request, so selling the asset revokes access). The envelope is tied
+ * to an asset through its ciphertext CID: the asset's metadata, pinned through this server, must
+ * list that CID (`properties.documents`), so holding another asset of the same uploader does not
+ * open it:
+ *
+ * POST /api/vault/documents (multipart: file = ciphertext, key = base64 key, recipients = JSON array)
+ *   -> { cid, url, envelope, recipients }   (the uploader is always a recipient)
+ * POST /api/vault/key { envelope, network, assetId } -> { key, cid }
+ *   (403 unless the caller is a recipient and the uploader, or holds `assetId` created by the
+ *   uploader whose metadata lists the document)
+ *
+ * `recordPin` is told about every pinned ciphertext, `metadataReferences` lists the CIDs in pinned
+ * metadata (asset registry).
+ */
+export function createVault(
+  storage: StorageProvider,
+  env: NodeJS.ProcessEnv = process.env,
+  recordPin: RecordPin = () => {},
+  metadataReferences: MetadataReferences = () => [],
+  lookupAsset: AssetLookup = createAlgodLookup(env),
+  lookupHolding: HoldingLookup = createHoldingLookup(env),
+) {
+  const secret = env.VAULT_SECRET?.trim()
+  if (!secret) console.warn('VAULT_SECRET is not set: the document vault is disabled.')
+  const sealKey = secret ? createHash('sha256').update(`vault:${secret}`).digest() : null
+
+  function seal(key: Buffer, data: Envelope): string {
+    const iv = randomBytes(12)
+    const cipher = createCipheriv('aes-256-gcm', key, iv)
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(data), 'utf8'), cipher.final()])
+    return [ENVELOPE_VERSION, iv, ciphertext, cipher.getAuthTag()]
+      .map((part) => (typeof part === 'string' ? part : part.toString('base64url')))
+      .join('.')
+  }
+
+  // Envelope contents, or null when it was not sealed by this server (or was tampered with)
+  function open(key: Buffer, envelope: string): Envelope | null {
+    const [version, iv, ciphertext, tag] = envelope.split('.')
+    if (version !== ENVELOPE_VERSION || !iv || !ciphertext || !tag) return null
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64url'))
+      decipher.setAuthTag(Buffer.from(tag, 'base64url'))
+      const plaintext = Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()])
+      return JSON.parse(plaintext.toString('utf8')) as Envelope
+    } catch {
+      return null
+    }
+  }
+
+  const requireConfigured: RequestHandler = (_req, res, next) => {
+    if (!sealKey) return res.status(503).json({ error: 'The document vault is not configured (set VAULT_SECRET)' })
+    return next()
+  }
+
+  /**
+   * `guards.upload` runs before the upload handler (auth, limits, multer `file`);
+   * `guards.key` before the key release (auth, rate limit)
+   */
+  function routes(app: Express, guards: { upload: RequestHandler[]; key: RequestHandler[] }) {
+    app.post(
+      '/api/vault/documents',
+      requireConfigured,
+      ...guards.upload,
+      async (req, res: Response<VaultDocumentResponse | ApiError>) => {
+        try {
+          const file = req.file
+          if (!file) return res.status(400).json({ error: 'No file uploaded' })
+
+          const body = parseRequest(VaultDocumentFormSchema.omit({ file: true }), req.body)
+          if ('error' in body) return res.status(400).json(body)
+
+          const owner = req.auth!.address
+          const recipients = [...new Set([owner, ...body.data.recipients])]
+          if (recipients.length > MAX_RECIPIENTS) {
+            return res.status(400).json({ error: `At most ${MAX_RECIPIENTS} recipients per document` })
+          }
+
+          // Generic name: the pinning service should not learn what the document is
+          const { cid } = await storage.pinFile(file.buffer, { fileName: 'document.enc', name: 'Encrypted document' })
+          recordPin({
+            cid,
+            kind: 'document',
+            mimetype: 'application/octet-stream',
+            size: file.buffer.length,
+            address: owner,
+          })
+          const key = Buffer.from(body.data.key, 'base64').toString('base64')
+          const envelope = seal(sealKey!, { k: key, r: recipients, c: cid, o: owner })
+          return res.status(200).json({ cid, url: `ipfs://${cid}`, envelope, recipients })
+        } catch (error) {
+          return res.status(500).json({ error: (error as Error)?.message || 'Failed to store the document' })
+        }
+      },
+    )
+
+    app.post(
+      '/api/vault/key',
+      requireConfigured,
+      ...guards.key,
+      async (req, res: Response<VaultKeyResponse | ApiError>) => {
+        const body = parseRequest(VaultKeyRequestSchema, req.body)
+        if ('error' in body) return res.status(400).json(body)
+        const data = open(sealKey!, body.data.envelope)
+        if (!data)
+          return res.status(400).json({ error: 'Document envelope is invalid or was sealed by another server' })
+
+        const { address } = req.auth!
+        if (!Array.isArray(data.r) || !data.r.includes(address)) {
+          return res.status(403).json({ error: 'This address is not authorized to open the document' })
+        }
+
+        if (address !== data.o) {
+          const { network, assetId } = body.data
+          try {
+            // The asset must be the uploader's, or holding any asset would do
+            const asset = await lookupAsset(network, assetId)
+            if (!asset || asset.creator !== data.o) {
+              return res.status(403).json({ error: 'That asset was not created by the uploader of this document' })
+            }
+            const metadataCid = assetCid(asset)
+            if (!metadataCid || !metadataReferences(metadataCid).includes(data.c)) {
+              return res.status(403).json({ error: 'The metadata of that asset does not list this document' })
+            }
+            if ((await lookupHolding(network, address, assetId)) <= 0n) {
+              return res.status(403).json({ error: 'Only current holders of the asset can open its documents' })
+            }
+          } catch (error) {
+            const message = (error as Error)?.message || String(error)
+            return res.status(502).json({ error: `Could not check holdings on ${network}: ${message}` })
+          }
+        }
+
+        res.set('Cache-Control', 'no-store')
+        return res.status(200).json({ key: data.k, cid: data.c })
+      },
+    )
+  }
+
+  return { routes }
+}
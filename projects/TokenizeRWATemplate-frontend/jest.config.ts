@@ -1,20 +0,0 @@
-import type { Config } from '@jest/types'
-
-const config: Config.InitialOptions = {
-  preset: 'ts-jest',
-  testEnvironment: 'node',
-  testMatch: ['**/*.spec.ts', '**/*.spec.tsx'],
-  moduleDirectories: ['node_modules', 'src'],
-  transform: {
-    '<regex_match_files>': [
-      'ts-jest',
-      {
-        tsconfig: 'tsconfig.test.json',
-      },
-    ],
-  },
-  coveragePathIgnorePatterns: ['tests'],
-  testPathIgnorePatterns: ['/tests/'],
-  }
-
-export default config
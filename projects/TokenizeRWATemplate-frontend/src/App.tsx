@@ -1,23 +1,28 @@
-import { SupportedWallet, WalletId, WalletManager, WalletProvider } from '@txnlab/use-wallet-react'
+import { DEFAULT_NETWORK_CONFIG, NetworkConfig, SupportedWallet, WalletId, WalletManager, WalletProvider } from '@txnlab/use-wallet-react'
 import { Analytics } from '@vercel/analytics/react'
 import { SnackbarProvider } from 'notistack'
 import { useMemo } from 'react'
 import { BrowserRouter, Route, Routes } from 'react-router-dom'
+import AssetDetailPage from './AssetDetailPage'
+import HistoryPage from './HistoryPage'
 import Home from './Home'
 import Layout from './Layout'
+import PortfolioPage from './PortfolioPage'
 import TokenizePage from './TokenizePage'
-import { getAlgodConfigFromViteEnvironment, getKmdConfigFromViteEnvironment } from './utils/network/getAlgoClientConfigs'
+import { AppNetwork } from './interfaces/network'
+import { NetworkProvider, useAppNetwork } from './utils/network/NetworkContext'
 
 // Get Web3Auth client ID from environment
 const web3AuthClientId = (import.meta.env.VITE_WEB3AUTH_CLIENT_ID ?? '').trim()
 
 /**
- * Build supported wallets list based on env/network.
- * NOTE: Web3Auth defaults to sapphire_mainnet unless web3AuthNetwork is provided.
+ * Build supported wallets list for the active network.
+ * NOTE: Web3Auth defaults to sapphire_mainnet unless web3AuthNetwork is provided,
+ * so it is taken from the network registry.
  */
-function buildSupportedWallets(): SupportedWallet[] {
-  if (import.meta.env.VITE_ALGOD_NETWORK === 'localnet') {
-    const kmdConfig = getKmdConfigFromViteEnvironment()
+function buildSupportedWallets(network: AppNetwork): SupportedWallet[] {
+  if (network.kmd) {
+    const kmdConfig = network.kmd
     return [
       {
         id: WalletId.KMD,
@@ -41,7 +46,7 @@ function buildSupportedWallets(): SupportedWallet[] {
       id: WalletId.WEB3AUTH,
       options: {
         clientId: web3AuthClientId,
-        web3AuthNetwork: 'sapphire_devnet', // Use 'sapphire_mainnet' for production
+        web3AuthNetwork: network.web3AuthNetwork,
         uiConfig: {
           appName: 'Tokenize RWA Template',
           mode: 'auto', // 'auto' | 'light' | 'dark'
@@ -53,42 +58,69 @@ function buildSupportedWallets(): SupportedWallet[] {
   return wallets
 }
 
-export default function App() {
-  const algodConfig = getAlgodConfigFromViteEnvironment()
+/**
+ * Register every network from the registry with use-wallet.
+ * Built-in ids keep use-wallet's genesis info (needed by Pera/Defly); only the node differs.
+ */
+function buildWalletNetworks(networks: AppNetwork[]): Record<string, NetworkConfig> {
+  return Object.fromEntries(
+    networks.map((n) => [
+      n.id,
+      {
+        ...DEFAULT_NETWORK_CONFIG[n.id],
+        algod: {
+          baseServer: n.algod.server,
+          port: n.algod.port,
+          token: String(n.algod.token),
+        },
+        isTestnet: n.id !== 'mainnet',
+      },
+    ]),
+  )
+}
+
+/**
+ * Wallet manager for the active network; re-created when the network is switched
+ * so the wallet list (KMD on LocalNet) and Web3Auth network follow it.
+ */
+function WalletRoot() {
+  const { network, networks } = useAppNetwork()
 
-  const supportedWallets = useMemo(() => buildSupportedWallets(), [])
   const walletManager = useMemo(() => {
     return new WalletManager({
-      wallets: supportedWallets,
-      defaultNetwork: algodConfig.network,
-      networks: {
-        [algodConfig.network]: {
-          algod: {
-            baseServer: algodConfig.server,
-            port: algodConfig.port,
-            token: String(algodConfig.token),
-          },
-        },
-      },
+      wallets: buildSupportedWallets(network),
+      defaultNetwork: network.id,
+      networks: buildWalletNetworks(networks),
       options: {
         resetNetwork: true,
       },
     })
-  }, [algodConfig.network, algodConfig.server, algodConfig.port, algodConfig.token, supportedWallets])
+  }, [network, networks])
 
+  return (
+    <WalletProvider manager={walletManager}>
+      <BrowserRouter>
+        <Analytics />
+        <Routes>
+          <Route element={<Layout />}>
+            <Route path="/" element={<Home />} />
+            <Route path="/tokenize" element={<TokenizePage />} />
+            <Route path="/portfolio" element={<PortfolioPage />} />
+            <Route path="/history" element={<HistoryPage />} />
+            <Route path="/asset/:id" element={<AssetDetailPage />} />
+          </Route>
+        </Routes>
+      </BrowserRouter>
+    </WalletProvider>
+  )
+}
+
+export default function App() {
   return (
     <SnackbarProvider maxSnack={3}>
-      <WalletProvider manager={walletManager}>
-        <BrowserRouter>
-          <Analytics />
-          <Routes>
-            <Route element={<Layout />}>
-              <Route path="/" element={<Home />} />
-              <Route path="/tokenize" element={<TokenizePage />} />
-            </Route>
-          </Routes>
-        </BrowserRouter>
-      </WalletProvider>
+      <NetworkProvider>
+        <WalletRoot />
+      </NetworkProvider>
     </SnackbarProvider>
   )
 }
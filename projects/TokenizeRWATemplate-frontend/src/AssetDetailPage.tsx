@@ -0,0 +1,25 @@
+import { useParams } from 'react-router-dom'
+import AssetDetail from './components/AssetDetail'
+
+/**
+ * Asset Detail Page
+ * On-chain configuration, holders and transfer history for one ASA (`/asset/:id`)
+ */
+export default function AssetDetailPage() {
+  const { id = '' } = useParams()
+  const isValidId = /^\d+$/.test(id)
+
+  return (
+    <div className="bg-white dark:bg-slate-950 min-h-screen py-12">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+        {isValidId ? (
+          <AssetDetail key={id} assetId={BigInt(id)} />
+        ) : (
+          <div className="rounded-xl border border-red-200 bg-red-50 dark:bg-red-900/20 dark:border-red-800 p-4 text-sm text-red-700 dark:text-red-400">
+            Invalid asset id: <span className="font-mono">{id}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
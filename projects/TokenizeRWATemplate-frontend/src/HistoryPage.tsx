@@ -0,0 +1,15 @@
+import History from './components/History'
+
+/**
+ * History Page
+ * Transaction history of the connected account (`/history`)
+ */
+export default function HistoryPage() {
+  return (
+    <div className="bg-white dark:bg-slate-950 min-h-screen py-12">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+        <History />
+      </div>
+    </div>
+  )
+}
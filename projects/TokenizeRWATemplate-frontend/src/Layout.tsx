@@ -2,6 +2,7 @@ import { useWallet } from '@txnlab/use-wallet-react'
 import { useState } from 'react'
 import { NavLink, Outlet } from 'react-router-dom'
 import ConnectWallet from './components/ConnectWallet'
+import NetworkSwitcher from './components/NetworkSwitcher'
 import ThemeToggle from './components/ThemeToggle'
 import { ellipseAddress } from './utils/ellipseAddress'
 
@@ -29,7 +30,7 @@ export default function Layout() {
 
           {/* Desktop Navigation */}
           <div className="hidden sm:flex items-center gap-8">
-            {['Home', 'Tokenize'].map((item) => (
+            {['Home', 'Tokenize', 'Portfolio', 'History'].map((item) => (
               <NavLink
                 key={item}
                 to={item === 'Home' ? '/' : `/${item.toLowerCase()}`}
@@ -43,6 +44,7 @@ export default function Layout() {
           </div>
 
           <div className="flex items-center gap-4">
+            <NetworkSwitcher />
             <ThemeToggle />
 
             {/* Sign In / Account Button */}
@@ -0,0 +1,15 @@
+import Portfolio from './components/Portfolio'
+
+/**
+ * Portfolio Page
+ * ALGO and ASA holdings of the connected account (`/portfolio`)
+ */
+export default function PortfolioPage() {
+  return (
+    <div className="bg-white dark:bg-slate-950 min-h-screen py-12">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+        <Portfolio />
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,7 @@
 import { useWallet } from '@txnlab/use-wallet-react'
-import { useMemo, useState } from 'react'
+import { useState } from 'react'
 import { ellipseAddress } from '../utils/ellipseAddress'
-import { getAlgodConfigFromViteEnvironment } from '../utils/network/getAlgoClientConfigs'
+import { useAppNetwork } from '../utils/network/NetworkContext'
 
 /**
  * Account Component
@@ -17,13 +17,10 @@ import { getAlgodConfigFromViteEnvironment } from '../utils/network/getAlgoClien
  */
 const Account = () => {
   const { activeAddress } = useWallet()
-  const algoConfig = getAlgodConfigFromViteEnvironment()
+  const { network } = useAppNetwork()
   const [copied, setCopied] = useState(false)
 
-  // Normalize network name for Lora
-  const networkName = useMemo(() => {
-    return algoConfig.network === '' ? 'localnet' : algoConfig.network.toLowerCase()
-  }, [algoConfig.network])
+  const networkName = network.label
 
   // Normalize address to string safely
   const address = typeof activeAddress === 'string' ? activeAddress : activeAddress ? String(activeAddress) : null
@@ -32,7 +29,7 @@ const Account = () => {
     return null
   }
 
-  const loraUrl = `https://lora.algokit.io/${networkName}/account/${address}/`
+  const loraUrl = `${network.explorerBase}/account/${address}/`
 
   const handleCopy = async () => {
     try {
@@ -4,7 +4,7 @@ import { useWallet } from '@txnlab/use-wallet-react'
 import { useSnackbar } from 'notistack'
 import { useState } from 'react'
 import { HelloWorldFactory } from '../contracts/HelloWorld'
-import { getAlgodConfigFromViteEnvironment, getIndexerConfigFromViteEnvironment } from '../utils/network/getAlgoClientConfigs'
+import { useAppNetwork } from '../utils/network/NetworkContext'
 
 interface AppCallsInterface {
   openModal: boolean
@@ -17,11 +17,10 @@ const AppCalls = ({ openModal, setModalState }: AppCallsInterface) => {
   const { enqueueSnackbar } = useSnackbar()
   const { transactionSigner, activeAddress } = useWallet()
 
-  const algodConfig = getAlgodConfigFromViteEnvironment()
-  const indexerConfig = getIndexerConfigFromViteEnvironment()
+  const { network } = useAppNetwork()
   const algorand = AlgorandClient.fromConfig({
-    algodConfig,
-    indexerConfig,
+    algodConfig: network.algod,
+    indexerConfig: network.indexer,
   })
   if (transactionSigner) {
     // setDefaultSigner exists in algokit-utils v9
@@ -0,0 +1,139 @@
+import { useState } from 'react'
+import { AiOutlineLoading3Quarters } from 'react-icons/ai'
+import { Arc3Verification, verifyArc3Asset } from '../utils/arc3'
+import { useAlgorand } from '../utils/network/NetworkContext'
+
+interface Arc3VerifierProps {
+  /** Prefills the asset id (asset detail page) */
+  defaultAssetId?: bigint
+}
+
+/**
+ * Arc3Verifier Component
+ * Re-fetches an asset's metadata from its URL and checks it against the on-chain
+ * ARC-3 fields (URL marker, metadata hash of the JSON bytes, decimals).
+ */
+export default function Arc3Verifier({ defaultAssetId }: Arc3VerifierProps) {
+  const [assetIdInput, setAssetIdInput] = useState<string>(defaultAssetId !== undefined ? String(defaultAssetId) : '')
+  const [verifying, setVerifying] = useState<boolean>(false)
+  const [error, setError] = useState<string>('')
+  const [result, setResult] = useState<Arc3Verification | null>(null)
+  const [showJson, setShowJson] = useState<boolean>(false)
+
+  const algorand = useAlgorand()
+
+  const handleVerify = async () => {
+    const text = assetIdInput.trim()
+    if (!/^\d+$/.test(text)) {
+      setError('Enter a numeric asset ID.')
+      return
+    }
+
+    setVerifying(true)
+    setError('')
+    setResult(null)
+    setShowJson(false)
+    try {
+      setResult(await verifyArc3Asset(algorand, BigInt(text)))
+    } catch (e: any) {
+      const msg = e?.response?.body?.message || e?.message || String(e)
+      setError(`Could not load asset: ${msg}`)
+    } finally {
+      setVerifying(false)
+    }
+  }
+
+  return (
+    <div className="rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/40 p-4">
+      <div className="text-sm font-semibold text-slate-700 dark:text-slate-200">ARC-3 Metadata Verifier</div>
+      <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+        Fetches the metadata JSON from the asset URL and checks that its hash matches the on-chain metadata hash.
+      </p>
+
+      <div className="mt-3 flex flex-col sm:flex-row gap-3">
+        <input
+          type="text"
+          inputMode="numeric"
+          className="flex-1 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition"
+          placeholder="Asset ID"
+          value={assetIdInput}
+          onChange={(e) => setAssetIdInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleVerify()
+          }}
+        />
+        <button
+          type="button"
+          onClick={handleVerify}
+          disabled={verifying}
+          className="inline-flex items-center justify-center px-4 py-2 rounded-lg font-semibold transition bg-teal-600 hover:bg-teal-700 text-white shadow-md disabled:opacity-50"
+        >
+          {verifying ? (
+            <span className="flex items-center gap-2">
+              <AiOutlineLoading3Quarters className="animate-spin" />
+              Verifying…
+            </span>
+          ) : (
+            'Verify'
+          )}
+        </button>
+      </div>
+
+      {error && <p className="mt-2 text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+      {result && (
+        <div className="mt-4 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 p-4 text-sm">
+          <div className="flex items-center justify-between gap-3">
+            <div className="font-semibold text-slate-900 dark:text-white">
+              {result.assetName || 'Unnamed asset'} <span className="font-mono text-xs text-slate-500">({String(result.assetId)})</span>
+            </div>
+            <span
+              className={`text-xs font-semibold px-2 py-1 rounded ${
+                result.verified
+                  ? 'bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-400'
+                  : 'bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-400'
+              }`}
+            >
+              {result.verified ? 'ARC-3 verified' : 'Not verified'}
+            </span>
+          </div>
+
+          {result.url && <div className="mt-2 font-mono text-[11px] text-slate-500 dark:text-slate-400 break-all">URL: {result.url}</div>}
+
+          <ul className="mt-3 space-y-1 text-xs">
+            {result.checks.map((c) => (
+              <li key={c.label} className={c.ok ? 'text-slate-700 dark:text-slate-300' : 'text-red-600 dark:text-red-400'}>
+                {c.ok ? '✅' : '❌'} {c.label}
+                {c.detail && <span className="ml-1 text-slate-500 dark:text-slate-400 break-all">— {c.detail}</span>}
+              </li>
+            ))}
+          </ul>
+
+          <div className="mt-3 flex flex-wrap gap-3 text-xs">
+            {result.fetchUrl && (
+              <a
+                href={result.fetchUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-teal-600 dark:text-teal-400 hover:underline"
+              >
+                Open metadata ↗
+              </a>
+            )}
+            {result.metadata && (
+              <button type="button" onClick={() => setShowJson(!showJson)} className="text-teal-600 dark:text-teal-400 hover:underline">
+                {showJson ? 'Hide JSON' : 'Show JSON'}
+              </button>
+            )}
+          </div>
+
+          {showJson && result.metadata && (
+            <pre className="mt-2 max-h-64 overflow-auto rounded bg-slate-50 dark:bg-slate-800 p-3 text-[11px] text-slate-700 dark:text-slate-300">
+              {JSON.stringify(result.metadata, null, 2)}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react'
+import { Arc69Metadata, fetchArc69Metadata } from '../utils/arc69'
+import { useAlgorand, useAppNetwork } from '../utils/network/NetworkContext'
+
+interface Arc69SummaryProps {
+  assetId: bigint
+}
+
+// Metadata keyed by network + asset id; list rows reuse it for the session (the detail page always reloads)
+const summaryCache = new Map<string, Arc69Metadata | null>()
+
+/**
+ * Arc69Summary Component
+ * One-line ARC-69 description for list rows, read from the asset's latest config note.
+ */
+export default function Arc69Summary({ assetId }: Arc69SummaryProps) {
+  const { network } = useAppNetwork()
+  const algorand = useAlgorand()
+  const key = `${network.id}:${assetId}`
+  const [metadata, setMetadata] = useState<Arc69Metadata | null | undefined>(summaryCache.get(key))
+
+  useEffect(() => {
+    if (summaryCache.has(key)) {
+      setMetadata(summaryCache.get(key))
+      return
+    }
+
+    let cancelled = false
+    fetchArc69Metadata(algorand.client.indexer, assetId)
+      .then((m) => m ?? null)
+      .catch(() => null)
+      .then((m) => {
+        summaryCache.set(key, m)
+        if (!cancelled) setMetadata(m)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [algorand, assetId, key])
+
+  if (!metadata) return null
+
+  return (
+    <div className="mt-0.5 flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+      <span className="px-1.5 py-0.5 rounded bg-teal-100 dark:bg-teal-900/30 text-teal-700 dark:text-teal-400 text-[10px] font-semibold">
+        ARC-69
+      </span>
+      {metadata.description && <span className="truncate max-w-xs">{metadata.description}</span>}
+    </div>
+  )
+}
@@ -0,0 +1,405 @@
+import { bytesToBase64, indexerModels } from 'algosdk'
+import { ReactNode, useCallback, useEffect, useState } from 'react'
+import { AiOutlineLoading3Quarters } from 'react-icons/ai'
+import { BsCoin } from 'react-icons/bs'
+import { Link } from 'react-router-dom'
+import { baseUnitsToDecimal } from '../utils/amounts'
+import { isArc19Url, resolveArc19Url } from '../utils/arc19'
+import { isArc3Asset } from '../utils/arc3'
+import { Arc69Metadata, fetchArc69Metadata } from '../utils/arc69'
+import { AssetHolder, fetchAsset, fetchAssetHolders, fetchAssetTransfers } from '../utils/assetQueries'
+import { ellipseAddress } from '../utils/ellipseAddress'
+import { ipfsToGatewayUrl } from '../utils/ipfs'
+import { useAlgorand, useAppNetwork } from '../utils/network/NetworkContext'
+import Arc3Verifier from './Arc3Verifier'
+import AssetDocuments from './AssetDocuments'
+import AssetHolders from './AssetHolders'
+import ManageAsset from './ManageAsset'
+import NftImage from './NftImage'
+import UpdateArc19Metadata from './UpdateArc19Metadata'
+import UpdateArc69Metadata from './UpdateArc69Metadata'
+
+interface AssetDetailProps {
+  assetId: bigint
+}
+
+/**
+ * AssetDetail Component
+ * Shows one ASA: on-chain configuration, current holders and paginated transfer history.
+ * All data is read from the indexer. The manager also gets a reconfigure/destroy panel.
+ */
+export default function AssetDetail({ assetId }: AssetDetailProps) {
+  const [asset, setAsset] = useState<indexerModels.Asset | null>(null)
+  const [assetLoading, setAssetLoading] = useState<boolean>(true)
+  const [assetError, setAssetError] = useState<string>('')
+
+  // ARC-69 metadata from the latest acfg note (undefined for ARC-3/ARC-19 or plain ASAs)
+  const [arc69, setArc69] = useState<Arc69Metadata | undefined>(undefined)
+
+  const [holders, setHolders] = useState<AssetHolder[]>([])
+  const [holdersLoading, setHoldersLoading] = useState<boolean>(false)
+
+  // Transfer history pagination: pageTokens[i] is the token used to load page i
+  const [transfers, setTransfers] = useState<indexerModels.Transaction[]>([])
+  const [transfersLoading, setTransfersLoading] = useState<boolean>(false)
+  const [pageTokens, setPageTokens] = useState<(string | undefined)[]>([undefined])
+  const [pageIndex, setPageIndex] = useState<number>(0)
+  const [nextToken, setNextToken] = useState<string | undefined>(undefined)
+
+  const { network } = useAppNetwork()
+  const loraBase = network.explorerBase
+  const algorand = useAlgorand()
+
+  const loadAsset = useCallback(async () => {
+    setAssetLoading(true)
+    setAssetError('')
+    try {
+      const fetched = await fetchAsset(algorand.client.indexer, assetId)
+      setAsset(fetched)
+      const { url, name } = fetched.params
+      const maybeArc69 = !!url && !isArc3Asset({ url, assetName: name }) && !isArc19Url(url)
+      setArc69(maybeArc69 ? await fetchArc69Metadata(algorand.client.indexer, assetId).catch(() => undefined) : undefined)
+    } catch (e: any) {
+      setAsset(null)
+      setArc69(undefined)
+      setAssetError(e?.status === 404 ? 'Asset not found on this network.' : e?.message || 'Indexer request failed')
+    } finally {
+      setAssetLoading(false)
+    }
+  }, [algorand, assetId])
+
+  const loadHolders = useCallback(async () => {
+    setHoldersLoading(true)
+    try {
+      setHolders(await fetchAssetHolders(algorand.client.indexer, assetId))
+    } catch (e) {
+      console.error('[AssetDetail] holders error:', e)
+      setHolders([])
+    } finally {
+      setHoldersLoading(false)
+    }
+  }, [algorand, assetId])
+
+  const loadTransfers = useCallback(
+    async (index: number, token: string | undefined) => {
+      setTransfersLoading(true)
+      try {
+        const page = await fetchAssetTransfers(algorand.client.indexer, assetId, token)
+        setTransfers(page.transactions)
+        setNextToken(page.nextToken)
+        setPageIndex(index)
+      } catch (e) {
+        console.error('[AssetDetail] transfers error:', e)
+      } finally {
+        setTransfersLoading(false)
+      }
+    },
+    [algorand, assetId],
+  )
+
+  useEffect(() => {
+    setPageTokens([undefined])
+    loadAsset()
+    loadHolders()
+    loadTransfers(0, undefined)
+  }, [loadAsset, loadHolders, loadTransfers])
+
+  const goToNextPage = () => {
+    if (!nextToken) return
+    setPageTokens((tokens) => [...tokens.slice(0, pageIndex + 1), nextToken])
+    loadTransfers(pageIndex + 1, nextToken)
+  }
+
+  const goToPreviousPage = () => {
+    if (pageIndex === 0) return
+    loadTransfers(pageIndex - 1, pageTokens[pageIndex - 1])
+  }
+
+  const params = asset?.params
+  const decimals = params?.decimals ?? 0
+  const unit = params?.unitName ?? ''
+
+  const renderAddress = (address?: string) =>
+    address ? (
+      <a
+        href={`${loraBase}/account/${address}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="font-mono text-xs text-slate-700 dark:text-slate-300 hover:text-teal-600 dark:hover:text-teal-400 break-all"
+        title={address}
+      >
+        {address}
+      </a>
+    ) : (
+      <span className="text-xs text-slate-400 dark:text-slate-500">Not set (disabled)</span>
+    )
+
+  // ARC-19: the URL is a template resolved through the reserve address
+  let arc19Url = ''
+  if (params?.url && params.reserve && isArc19Url(params.url)) {
+    try {
+      arc19Url = resolveArc19Url(params.url, params.reserve)
+    } catch {
+      // reserve does not encode a CID
+    }
+  }
+
+  const configRows: { label: string; value: ReactNode }[] = params
+    ? [
+        { label: 'Creator', value: renderAddress(params.creator) },
+        { label: 'Manager', value: renderAddress(params.manager) },
+        { label: 'Reserve', value: renderAddress(params.reserve) },
+        { label: 'Freeze', value: renderAddress(params.freeze) },
+        { label: 'Clawback', value: renderAddress(params.clawback) },
+        { label: 'Total', value: <span className="font-mono">{`${baseUnitsToDecimal(params.total, decimals)} ${unit}`.trim()}</span> },
+        { label: 'Decimals', value: <span className="font-mono">{decimals}</span> },
+        { label: 'Default frozen', value: params.defaultFrozen ? 'Yes' : 'No' },
+        {
+          label: 'URL',
+          value: params.url ? (
+            <span className="font-mono text-xs break-all">
+              {params.url}
+              {arc19Url && <span className="block text-slate-500 dark:text-slate-400">→ {arc19Url}</span>}
+            </span>
+          ) : (
+            <span className="text-xs text-slate-400">—</span>
+          ),
+        },
+        {
+          label: 'Metadata hash',
+          value: params.metadataHash ? (
+            <span className="font-mono text-xs break-all">{bytesToBase64(params.metadataHash)}</span>
+          ) : (
+            <span className="text-xs text-slate-400">—</span>
+          ),
+        },
+      ]
+    : []
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-lg p-6 sm:p-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+        <div className="flex items-start gap-3">
+          <span className="inline-flex h-12 w-12 items-center justify-center rounded-lg bg-teal-100 dark:bg-teal-900/30">
+            <BsCoin className="text-2xl text-teal-600 dark:text-teal-400" />
+          </span>
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold tracking-tight text-slate-900 dark:text-white">
+              {params?.name || `Asset ${assetId}`}
+              {unit && <span className="ml-2 font-mono text-base text-slate-500 dark:text-slate-400">{unit}</span>}
+            </h2>
+            <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+              Asset ID <span className="font-mono">{String(assetId)}</span>
+              {asset?.deleted && (
+                <span className="ml-2 px-2 py-0.5 rounded bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 text-xs font-semibold">
+                  Destroyed
+                </span>
+              )}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <Link
+            to="/tokenize"
+            className="px-4 py-2 rounded-lg text-sm font-semibold bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-800 dark:text-slate-200 border border-slate-200 dark:border-slate-700 transition"
+          >
+            ← Back
+          </Link>
+          <a
+            href={`${loraBase}/asset/${assetId}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="px-4 py-2 rounded-lg text-sm font-semibold bg-teal-600 hover:bg-teal-700 text-white shadow-md transition"
+          >
+            View on Lora ↗
+          </a>
+        </div>
+      </div>
+
+      {assetLoading && (
+        <div className="mt-6 flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400">
+          <AiOutlineLoading3Quarters className="animate-spin" />
+          Loading asset from the indexer…
+        </div>
+      )}
+
+      {assetError && (
+        <div className="mt-6 rounded-xl border border-red-200 bg-red-50 dark:bg-red-900/20 dark:border-red-800 p-3 text-sm text-red-700 dark:text-red-400">
+          {assetError}
+        </div>
+      )}
+
+      {params && (
+        <>
+          {/* ===== CONFIGURATION ===== */}
+          <div className="mt-8">
+            <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-4">On-chain configuration</h3>
+            <div className="rounded-2xl border border-slate-200 dark:border-slate-700 divide-y divide-slate-200 dark:divide-slate-700">
+              {configRows.map((row) => (
+                <div key={row.label} className="grid grid-cols-3 gap-4 px-4 py-3 text-sm">
+                  <div className="font-semibold text-slate-700 dark:text-slate-300">{row.label}</div>
+                  <div className="col-span-2 text-slate-900 dark:text-white">{row.value}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* ===== ARC-69 METADATA ===== */}
+          {arc69 && (
+            <div className="mt-6 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/40 p-4">
+              <div className="text-sm font-semibold text-slate-700 dark:text-slate-200">ARC-69 metadata</div>
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">From the note of the latest asset config transaction.</p>
+              <div className="mt-3 flex flex-col sm:flex-row gap-4">
+                {arc69.media_url && (!arc69.mime_type || arc69.mime_type.startsWith('image/')) && (
+                  <img
+                    src={ipfsToGatewayUrl(arc69.media_url.split('#')[0])}
+                    alt={params.name || 'NFT media'}
+                    className="rounded-lg max-h-48 object-contain shadow-sm bg-white dark:bg-slate-900"
+                  />
+                )}
+                <div className="text-sm space-y-2 min-w-0">
+                  {arc69.description && <p className="text-slate-700 dark:text-slate-300">{arc69.description}</p>}
+                  {arc69.external_url && (
+                    <a
+                      href={arc69.external_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-xs text-teal-600 dark:text-teal-400 hover:underline break-all"
+                    >
+                      {arc69.external_url} ↗
+                    </a>
+                  )}
+                  <pre className="max-h-60 overflow-auto rounded-lg bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 p-3 text-[11px] text-slate-700 dark:text-slate-300">
+                    {JSON.stringify(arc69, null, 2)}
+                  </pre>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* ===== ARC-3 / ARC-19 METADATA ===== */}
+          {params?.url && (isArc3Asset({ url: params.url, assetName: params.name }) || isArc19Url(params.url)) && (
+            <div className="mt-6">
+              <NftImage
+                url={params.url}
+                reserve={params.reserve}
+                name={params.name}
+                className="mb-4 rounded-lg max-h-48 object-contain shadow-sm bg-white dark:bg-slate-900"
+              />
+              <Arc3Verifier key={String(assetId)} defaultAssetId={assetId} />
+            </div>
+          )}
+
+          {/* ===== ENCRYPTED DOCUMENTS (ARC-3 / ARC-19 properties.documents) ===== */}
+          {asset && params.url && (isArc3Asset({ url: params.url, assetName: params.name }) || isArc19Url(params.url)) && (
+            <AssetDocuments key={String(assetId)} asset={asset} />
+          )}
+
+          {/* ===== MANAGE (manager only) ===== */}
+          {asset && <ManageAsset asset={asset} onUpdated={loadAsset} />}
+
+          {/* ===== ARC-19 METADATA UPDATE (manager only) ===== */}
+          {asset && <UpdateArc19Metadata asset={asset} onUpdated={loadAsset} />}
+
+          {/* ===== ARC-69 METADATA UPDATE (manager only) ===== */}
+          {asset && arc69 && <UpdateArc69Metadata asset={asset} metadata={arc69} onUpdated={loadAsset} />}
+
+          {/* ===== HOLDERS (+ freeze controls for the freeze address) ===== */}
+          {asset && <AssetHolders asset={asset} holders={holders} loading={holdersLoading} onUpdated={loadHolders} />}
+
+          {/* ===== TRANSFER HISTORY ===== */}
+          <div className="mt-10">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-bold text-slate-900 dark:text-white">Transfer history</h3>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={goToPreviousPage}
+                  disabled={pageIndex === 0 || transfersLoading}
+                  className="px-3 py-1 text-xs bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition disabled:opacity-50"
+                >
+                  ← Prev
+                </button>
+                <span className="text-xs text-slate-500 dark:text-slate-400">Page {pageIndex + 1}</span>
+                <button
+                  type="button"
+                  onClick={goToNextPage}
+                  disabled={!nextToken || transfersLoading}
+                  className="px-3 py-1 text-xs bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition disabled:opacity-50"
+                >
+                  Next →
+                </button>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800">
+                    <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Round</th>
+                    <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Tx</th>
+                    <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">From</th>
+                    <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">To</th>
+                    <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {transfers.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="text-center px-4 py-6 text-slate-500 dark:text-slate-400">
+                        {transfersLoading ? 'Loading transfers…' : 'No transfers yet.'}
+                      </td>
+                    </tr>
+                  ) : (
+                    transfers.map((t) => {
+                      const axfer = t.assetTransferTransaction
+                      // Clawback transfers carry the revoked account in assetTransferTransaction.sender
+                      const from = axfer?.sender ?? t.sender
+                      const isOptIn = axfer && axfer.amount === 0n && axfer.receiver === t.sender && !axfer.closeTo
+                      return (
+                        <tr key={t.id} className="border-b border-slate-200 dark:border-slate-700">
+                          <td className="font-mono px-4 py-3 text-xs text-slate-700 dark:text-slate-300">
+                            {String(t.confirmedRound ?? '')}
+                            {t.roundTime && (
+                              <span className="block text-[11px] text-slate-500 dark:text-slate-400">
+                                {new Date(t.roundTime * 1000).toLocaleString()}
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-4 py-3">
+                            <a
+                              href={`${loraBase}/transaction/${t.id}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="font-mono text-xs text-teal-600 dark:text-teal-400 hover:underline"
+                            >
+                              {ellipseAddress(t.id ?? '', 6)}
+                            </a>
+                            {isOptIn && <span className="ml-2 text-[11px] text-slate-500 dark:text-slate-400">opt-in</span>}
+                            {axfer?.sender && <span className="ml-2 text-[11px] text-amber-600 dark:text-amber-400">clawback</span>}
+                            {axfer?.closeTo && <span className="ml-2 text-[11px] text-slate-500 dark:text-slate-400">close-out</span>}
+                          </td>
+                          <td className="font-mono px-4 py-3 text-xs text-slate-700 dark:text-slate-300" title={from}>
+                            {ellipseAddress(from, 4)}
+                          </td>
+                          <td className="font-mono px-4 py-3 text-xs text-slate-700 dark:text-slate-300" title={axfer?.receiver}>
+                            {ellipseAddress(axfer?.receiver ?? '', 4)}
+                          </td>
+                          <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">
+                            {baseUnitsToDecimal(axfer?.amount ?? 0n, decimals)}
+                          </td>
+                        </tr>
+                      )
+                    })
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,117 @@
+import { useWallet } from '@txnlab/use-wallet-react'
+import { indexerModels } from 'algosdk'
+import { useSnackbar } from 'notistack'
+import { useEffect, useState } from 'react'
+import { AiOutlineLoading3Quarters } from 'react-icons/ai'
+import { ipfsToGatewayUrl } from '../utils/ipfs'
+import { openVaultDocument } from '../utils/mintServer'
+import { useAlgorand, useAppNetwork } from '../utils/network/NetworkContext'
+import { fetchAssetVaultDocuments, VaultDocument } from '../utils/vault'
+
+interface AssetDocumentsProps {
+  asset: indexerModels.Asset
+}
+
+/**
+ * AssetDocuments Component
+ * Lists the encrypted documents in an asset's ARC-3 / ARC-19 metadata (`properties.documents`).
+ * A connected recipient holding the asset (or its uploader) gets the key from the mint server,
+ * and the file is decrypted and checked against its sha256 in the browser before download.
+ * Renders nothing without documents.
+ */
+export default function AssetDocuments({ asset }: AssetDocumentsProps) {
+  const [documents, setDocuments] = useState<VaultDocument[]>([])
+  const [opening, setOpening] = useState<string | null>(null)
+
+  const { activeAddress, transactionSigner } = useWallet()
+  const algorand = useAlgorand()
+  const { network } = useAppNetwork()
+  const { enqueueSnackbar } = useSnackbar()
+
+  const { url, reserve } = asset.params
+
+  useEffect(() => {
+    let cancelled = false
+    fetchAssetVaultDocuments(asset.index, { url, reserve })
+      .then((found) => !cancelled && setDocuments(found))
+      .catch(() => !cancelled && setDocuments([]))
+    return () => {
+      cancelled = true
+    }
+  }, [asset.index, url, reserve])
+
+  if (documents.length === 0) return null
+
+  const handleOpen = async (document: VaultDocument) => {
+    if (!activeAddress || !transactionSigner) {
+      enqueueSnackbar('Connect an authorized wallet to decrypt documents.', { variant: 'warning' })
+      return
+    }
+
+    try {
+      setOpening(document.cid)
+      const blob = await openVaultDocument(document, network.id, asset.index, {
+        address: activeAddress,
+        signer: transactionSigner,
+        algorand,
+      })
+      const href = URL.createObjectURL(blob)
+      const link = window.document.createElement('a')
+      link.href = href
+      link.download = document.name
+      link.click()
+      setTimeout(() => URL.revokeObjectURL(href), 1000)
+    } catch (e: any) {
+      enqueueSnackbar(`Could not open ${document.name}: ${e?.message || String(e)}`, { variant: 'error' })
+    } finally {
+      setOpening(null)
+    }
+  }
+
+  return (
+    <div className="mt-6 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/40 p-4">
+      <div className="text-sm font-semibold text-slate-700 dark:text-slate-200">Confidential documents</div>
+      <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+        Encrypted on IPFS. Authorized addresses that currently hold this asset sign in to the mint server with their wallet to decrypt; the
+        download is checked against the sha256 in the metadata. The mint server holds the keys, so its operator can read these documents
+        too.
+      </p>
+
+      <ul className="mt-3 divide-y divide-slate-200 dark:divide-slate-700">
+        {documents.map((document) => (
+          <li key={document.cid} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 py-2 text-xs">
+            <div className="min-w-0">
+              <div className="font-mono text-slate-900 dark:text-white truncate">{document.name}</div>
+              <div className="text-slate-500 dark:text-slate-400 break-all">
+                sha256 {document.sha256} ·{' '}
+                <a
+                  href={ipfsToGatewayUrl(document.url)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-teal-600 dark:text-teal-400 hover:underline"
+                >
+                  ciphertext ↗
+                </a>
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={() => handleOpen(document)}
+              disabled={opening !== null}
+              className="shrink-0 px-3 py-1 text-xs bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition"
+            >
+              {opening === document.cid ? (
+                <span className="flex items-center gap-2">
+                  <AiOutlineLoading3Quarters className="animate-spin" />
+                  Decrypting…
+                </span>
+              ) : (
+                'Decrypt & download'
+              )}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
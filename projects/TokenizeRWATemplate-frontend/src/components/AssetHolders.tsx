@@ -0,0 +1,251 @@
+import { useWallet } from '@txnlab/use-wallet-react'
+import { indexerModels } from 'algosdk'
+import { useSnackbar } from 'notistack'
+import { useEffect, useState } from 'react'
+import { AiOutlineLoading3Quarters } from 'react-icons/ai'
+import { baseUnitsToDecimal } from '../utils/amounts'
+import { AssetHolder } from '../utils/assetQueries'
+import { chunk, MAX_GROUP_SIZE } from '../utils/atomicGroups'
+import { useAlgorand, useAppNetwork } from '../utils/network/NetworkContext'
+
+interface AssetHoldersProps {
+  asset: indexerModels.Asset
+  holders: AssetHolder[]
+  loading: boolean
+  /** Called after confirmed freeze changes so the parent can reload holders */
+  onUpdated: () => void
+}
+
+/**
+ * AssetHolders Component
+ * Holder table with balance and frozen state for one ASA.
+ * When the connected account is the asset's freeze address, rows can be
+ * frozen/unfrozen one by one or in bulk (atomic groups of up to 16 assetFreeze txns).
+ */
+export default function AssetHolders({ asset, holders, loading, onUpdated }: AssetHoldersProps) {
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [freezeLoading, setFreezeLoading] = useState<boolean>(false)
+  const [progress, setProgress] = useState<string>('')
+
+  const { transactionSigner, activeAddress } = useWallet()
+  const { enqueueSnackbar } = useSnackbar()
+
+  const { network } = useAppNetwork()
+  const loraBase = network.explorerBase
+  const algorand = useAlgorand()
+
+  const decimals = asset.params.decimals
+  const canFreeze = Boolean(activeAddress) && !asset.deleted && asset.params.freeze === activeAddress
+
+  // Drop selections for accounts that are no longer opted in
+  useEffect(() => {
+    setSelected((prev) => new Set(holders.filter((h) => prev.has(h.address)).map((h) => h.address)))
+  }, [holders])
+
+  const toggleSelected = (address: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(address)) next.delete(address)
+      else next.add(address)
+      return next
+    })
+
+  const allSelected = holders.length > 0 && selected.size === holders.length
+  const toggleAll = () => setSelected(allSelected ? new Set() : new Set(holders.map((h) => h.address)))
+
+  /**
+   * Freeze or unfreeze accounts
+   * Accounts already in the target state are skipped; the rest are sent in
+   * atomic groups of MAX_GROUP_SIZE. Stops at the first failed/rejected group.
+   */
+  const setFrozen = async (addresses: string[], frozen: boolean) => {
+    if (!activeAddress || !transactionSigner) {
+      enqueueSnackbar('Wallet signer not available. Please try reconnecting your wallet.', { variant: 'error' })
+      return
+    }
+
+    const targets = holders.filter((h) => addresses.includes(h.address) && h.isFrozen !== frozen).map((h) => h.address)
+    if (targets.length === 0) {
+      enqueueSnackbar(`Selected accounts are already ${frozen ? 'frozen' : 'unfrozen'}.`, { variant: 'info' })
+      return
+    }
+
+    const groups = chunk(targets, MAX_GROUP_SIZE)
+    const action = frozen ? 'Freezing' : 'Unfreezing'
+    let done = 0
+    let lastTxId: string | undefined
+
+    try {
+      setFreezeLoading(true)
+
+      for (const [i, group] of groups.entries()) {
+        setProgress(`${action} group ${i + 1}/${groups.length} (${group.length} account(s))…`)
+
+        const composer = algorand.newGroup()
+        for (const account of group) {
+          composer.addAssetFreeze({
+            sender: activeAddress,
+            signer: transactionSigner,
+            assetId: asset.index,
+            account,
+            frozen,
+          })
+        }
+
+        const result = await composer.send()
+        lastTxId = result.txIds[0]
+        done += group.length
+      }
+
+      enqueueSnackbar(`✅ ${frozen ? 'Froze' : 'Unfroze'} ${done} account(s).`, {
+        variant: 'success',
+        action: () =>
+          lastTxId ? (
+            <a
+              href={`${loraBase}/transaction/${lastTxId}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              style={{ textDecoration: 'underline', marginLeft: 8 }}
+            >
+              View Tx on Lora ↗
+            </a>
+          ) : null,
+      })
+      setSelected(new Set())
+    } catch (error: any) {
+      const msg = error?.response?.body?.message || error?.response?.text || error?.message || String(error)
+      enqueueSnackbar(`${action} stopped after ${done}/${targets.length} account(s): ${msg}`, { variant: 'error' })
+    } finally {
+      setFreezeLoading(false)
+      setProgress('')
+      if (done > 0) setTimeout(onUpdated, 2000)
+    }
+  }
+
+  const frozenCount = holders.filter((h) => h.isFrozen).length
+  const columns = canFreeze ? 5 : 3
+
+  return (
+    <div className="mt-10">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white">Holders</h3>
+          <span className="text-xs text-slate-500 dark:text-slate-400">
+            {holders.length} opted-in account(s), {frozenCount} frozen
+          </span>
+        </div>
+
+        {canFreeze && (
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => setFrozen(Array.from(selected), true)}
+              disabled={selected.size === 0 || freezeLoading}
+              className="px-3 py-1.5 text-xs rounded-lg font-semibold transition bg-sky-600 hover:bg-sky-700 text-white disabled:opacity-50"
+            >
+              Freeze selected ({selected.size})
+            </button>
+            <button
+              type="button"
+              onClick={() => setFrozen(Array.from(selected), false)}
+              disabled={selected.size === 0 || freezeLoading}
+              className="px-3 py-1.5 text-xs rounded-lg font-semibold transition bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 disabled:opacity-50"
+            >
+              Unfreeze selected
+            </button>
+          </div>
+        )}
+      </div>
+
+      {progress && (
+        <div className="mb-3 flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+          <AiOutlineLoading3Quarters className="animate-spin" />
+          {progress}
+        </div>
+      )}
+
+      <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800">
+              {canFreeze && (
+                <th className="px-4 py-3 w-8">
+                  <input type="checkbox" checked={allSelected} onChange={toggleAll} className="h-4 w-4" title="Select all" />
+                </th>
+              )}
+              <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Address</th>
+              <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Balance</th>
+              <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Status</th>
+              {canFreeze && <th className="text-right px-4 py-3 font-semibold text-slate-900 dark:text-white">Action</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {holders.length === 0 ? (
+              <tr>
+                <td colSpan={columns} className="text-center px-4 py-6 text-slate-500 dark:text-slate-400">
+                  {loading ? 'Loading holders…' : 'No accounts are opted in to this asset.'}
+                </td>
+              </tr>
+            ) : (
+              holders.map((h) => (
+                <tr key={h.address} className="border-b border-slate-200 dark:border-slate-700">
+                  {canFreeze && (
+                    <td className="px-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(h.address)}
+                        onChange={() => toggleSelected(h.address)}
+                        className="h-4 w-4"
+                      />
+                    </td>
+                  )}
+                  <td className="px-4 py-3">
+                    <a
+                      href={`${loraBase}/account/${h.address}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-mono text-xs text-slate-700 dark:text-slate-300 hover:text-teal-600 dark:hover:text-teal-400 break-all"
+                    >
+                      {h.address}
+                    </a>
+                  </td>
+                  <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">{baseUnitsToDecimal(h.amount, decimals)}</td>
+                  <td className="px-4 py-3">
+                    {h.isFrozen ? (
+                      <span className="px-2 py-0.5 rounded bg-sky-100 dark:bg-sky-900/30 text-sky-700 dark:text-sky-300 text-xs font-semibold">
+                        Frozen
+                      </span>
+                    ) : (
+                      <span className="px-2 py-0.5 rounded bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300 text-xs font-semibold">
+                        Active
+                      </span>
+                    )}
+                  </td>
+                  {canFreeze && (
+                    <td className="px-4 py-3 text-right">
+                      <button
+                        type="button"
+                        onClick={() => setFrozen([h.address], !h.isFrozen)}
+                        disabled={freezeLoading}
+                        className="px-2 py-1 text-[11px] rounded border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200 transition disabled:opacity-50"
+                      >
+                        {h.isFrozen ? 'Unfreeze' : 'Freeze'}
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {canFreeze && (
+        <p className="mt-3 text-xs text-slate-500 dark:text-slate-400">
+          You are the freeze address. Bulk actions are sent as atomic groups of up to {MAX_GROUP_SIZE} transactions (one signature per
+          group).
+        </p>
+      )}
+    </div>
+  )
+}
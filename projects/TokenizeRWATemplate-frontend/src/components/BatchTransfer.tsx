@@ -0,0 +1,339 @@
+import type { AssetInformation } from '@algorandfoundation/algokit-utils/types/asset-manager'
+import { useWallet } from '@txnlab/use-wallet-react'
+import { useSnackbar } from 'notistack'
+import { ChangeEvent, useEffect, useState } from 'react'
+import { AiOutlineLoading3Quarters } from 'react-icons/ai'
+import { AirdropRow, airdropReportToCsv, parseAirdropCsv, sendAirdrop, validateAirdropRows } from '../utils/airdrop'
+import { baseUnitsToDecimal } from '../utils/amounts'
+import { MAX_GROUP_SIZE } from '../utils/atomicGroups'
+import { downloadTextFile } from '../utils/csv'
+import { ellipseAddress } from '../utils/ellipseAddress'
+import { useAlgorand } from '../utils/network/NetworkContext'
+
+interface BatchTransferProps {
+  /** Prefilled asset id (e.g. the latest created asset) */
+  defaultAssetId?: string
+  loraBase: string
+}
+
+const STATUS_BADGE: Record<AirdropRow['status'], string> = {
+  invalid: 'bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-400',
+  ready: 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300',
+  sent: 'bg-teal-50 text-teal-700 dark:bg-teal-900/30 dark:text-teal-300',
+  pending: 'bg-sky-50 text-sky-700 dark:bg-sky-900/20 dark:text-sky-400',
+  failed: 'bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-400',
+}
+
+/**
+ * BatchTransfer Component
+ * CSV airdrop of one ASA: upload `address,amount` rows, validate them against algod,
+ * then send in atomic groups of 16 signed in a single wallet request.
+ * Rows whose group fails can be retried on their own; groups whose confirmation is still unknown
+ * are re-submitted as signed, never re-signed.
+ */
+export default function BatchTransfer({ defaultAssetId = '', loraBase }: BatchTransferProps) {
+  const [assetIdText, setAssetIdText] = useState<string>(defaultAssetId)
+  const [asset, setAsset] = useState<AssetInformation | null>(null)
+  const [csvText, setCsvText] = useState<string>('')
+  const [fileName, setFileName] = useState<string>('')
+
+  const [rows, setRows] = useState<AirdropRow[]>([])
+  const [problems, setProblems] = useState<string[]>([])
+  const [validating, setValidating] = useState<boolean>(false)
+  const [sending, setSending] = useState<boolean>(false)
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+
+  const { transactionSigner, activeAddress } = useWallet()
+  const { enqueueSnackbar } = useSnackbar()
+
+  const algorand = useAlgorand()
+
+  useEffect(() => {
+    if (!assetIdText && defaultAssetId) setAssetIdText(defaultAssetId)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [defaultAssetId])
+
+  // Any change to the inputs invalidates the previous validation
+  const resetResults = () => {
+    setRows([])
+    setProblems([])
+    setProgress(null)
+  }
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    setFileName(file.name)
+    setCsvText(await file.text())
+    resetResults()
+  }
+
+  const runValidation = async (input: AirdropRow[], info: AssetInformation) => {
+    const result = await validateAirdropRows(algorand, activeAddress!, info.assetId, input)
+    setRows(result.rows)
+    setProblems(result.problems)
+    return result
+  }
+
+  const handleValidate = async () => {
+    if (!activeAddress) {
+      enqueueSnackbar('Please connect a wallet or continue with Google first.', { variant: 'warning' })
+      return
+    }
+    if (!/^\d+$/.test(assetIdText.trim())) {
+      enqueueSnackbar('Enter a valid Asset ID.', { variant: 'warning' })
+      return
+    }
+    if (!csvText.trim()) {
+      enqueueSnackbar('Upload or paste a CSV of address,amount rows.', { variant: 'warning' })
+      return
+    }
+
+    try {
+      setValidating(true)
+      resetResults()
+      const info = await algorand.asset.getById(BigInt(assetIdText.trim()))
+      setAsset(info)
+
+      const parsed = parseAirdropCsv(csvText, info.decimals)
+      if (parsed.length === 0) {
+        enqueueSnackbar('The CSV has no rows.', { variant: 'warning' })
+        return
+      }
+      await runValidation(parsed, info)
+    } catch (e: any) {
+      enqueueSnackbar(`Validation failed: ${e?.message || 'Unknown error'}`, { variant: 'error' })
+    } finally {
+      setValidating(false)
+    }
+  }
+
+  const send = async (input: AirdropRow[], info: AssetInformation) => {
+    if (!activeAddress || !transactionSigner) {
+      enqueueSnackbar('Wallet signer not available. Please try reconnecting your wallet.', { variant: 'error' })
+      return
+    }
+
+    const readyCount = input.filter((r) => r.status === 'ready').length
+    const pendingGroups = new Set(input.filter((r) => r.status === 'pending').map((r) => r.groupId)).size
+    const sendCount = readyCount + input.filter((r) => r.status === 'pending').length
+    try {
+      setSending(true)
+      setProgress({ done: 0, total: Math.ceil(readyCount / MAX_GROUP_SIZE) + pendingGroups })
+      if (readyCount > 0) enqueueSnackbar(`Signing ${readyCount} transfers...`, { variant: 'info' })
+
+      const result = await sendAirdrop(algorand, activeAddress, transactionSigner, info.assetId, input, (done, total) =>
+        setProgress({ done, total }),
+      )
+      setRows(result)
+
+      const failed = result.filter((r) => r.status === 'failed').length
+      const pending = result.filter((r) => r.status === 'pending').length
+      if (failed === 0 && pending === 0) {
+        enqueueSnackbar(`✅ Airdrop complete: ${sendCount} transfers confirmed.`, { variant: 'success' })
+      } else {
+        enqueueSnackbar(
+          `${sendCount - failed - pending} transfers confirmed, ${failed} failed, ${pending} not confirmed yet. You can retry the rest.`,
+          { variant: 'warning' },
+        )
+      }
+    } catch (e: any) {
+      // Signing was rejected or building failed: nothing was submitted
+      enqueueSnackbar(`Airdrop not sent: ${e?.message || 'Unknown error'}`, { variant: 'error' })
+    } finally {
+      setSending(false)
+    }
+  }
+
+  // Re-check and re-send only the rows whose group failed; pending groups are looked up and re-submitted as signed
+  const handleRetryFailed = async () => {
+    if (!asset) return
+    const retry = rows.map((r) => (r.status === 'failed' ? { ...r, status: 'ready' as const, error: undefined } : r))
+
+    try {
+      setValidating(true)
+      const result = await runValidation(retry, asset)
+      if (result.problems.length > 0) return
+      setValidating(false)
+      await send(result.rows, asset)
+    } catch (e: any) {
+      enqueueSnackbar(`Retry failed: ${e?.message || 'Unknown error'}`, { variant: 'error' })
+    } finally {
+      setValidating(false)
+    }
+  }
+
+  const count = (status: AirdropRow['status']) => rows.filter((r) => r.status === status).length
+  const readyRows = rows.filter((r) => r.status === 'ready')
+  const readyTotal = readyRows.reduce((sum, r) => sum + r.baseUnits, 0n)
+  const canSend = !!asset && readyRows.length > 0 && problems.length === 0 && !sending && !validating
+  const failedCount = count('failed')
+  const pendingCount = count('pending')
+  const busy = sending || validating
+
+  return (
+    <div className="mt-8 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/40 p-4">
+      <div className="text-sm font-semibold text-slate-700 dark:text-slate-200">Batch transfer (CSV airdrop)</div>
+      <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+        Upload <span className="font-mono">address,amount</span> rows (amounts in display units, header optional). Rows are checked for
+        address checksums, receiver opt-in and your balance, then sent in atomic groups of 16 with a single signature request.
+      </p>
+
+      <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-3">
+        <input
+          type="text"
+          inputMode="numeric"
+          className="rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition"
+          placeholder="Asset ID"
+          value={assetIdText}
+          onChange={(e) => {
+            setAssetIdText(e.target.value)
+            setAsset(null)
+            resetResults()
+          }}
+        />
+        <label className="md:col-span-2 flex items-center gap-3 rounded-lg border border-dashed border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 px-4 py-2 text-sm text-slate-600 dark:text-slate-300 cursor-pointer hover:border-teal-500 transition">
+          <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleFileChange} />
+          {fileName ? <span className="font-mono truncate">{fileName}</span> : 'Choose CSV file…'}
+        </label>
+      </div>
+
+      <textarea
+        className="mt-3 w-full h-28 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 font-mono text-xs transition"
+        placeholder={'address,amount\nRECEIVERADDRESS...,10'}
+        value={csvText}
+        onChange={(e) => {
+          setCsvText(e.target.value)
+          setFileName('')
+          resetResults()
+        }}
+      />
+
+      <div className="mt-3 flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={handleValidate}
+          disabled={busy || !activeAddress}
+          className="inline-flex items-center justify-center px-4 py-2 rounded-lg font-semibold transition bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50"
+        >
+          {validating ? (
+            <span className="flex items-center gap-2">
+              <AiOutlineLoading3Quarters className="animate-spin" />
+              Validating…
+            </span>
+          ) : (
+            'Validate'
+          )}
+        </button>
+
+        <button
+          type="button"
+          onClick={() => asset && send(rows, asset)}
+          disabled={!canSend}
+          className="inline-flex items-center justify-center px-4 py-2 rounded-lg font-semibold transition bg-teal-600 hover:bg-teal-700 text-white shadow-md disabled:bg-slate-300 disabled:text-slate-500 disabled:shadow-none dark:disabled:bg-slate-700 dark:disabled:text-slate-400"
+        >
+          {sending ? (
+            <span className="flex items-center gap-2">
+              <AiOutlineLoading3Quarters className="animate-spin" />
+              Sending…
+            </span>
+          ) : (
+            `Send ${readyRows.length} transfers in ${Math.ceil(readyRows.length / MAX_GROUP_SIZE)} groups`
+          )}
+        </button>
+
+        {failedCount + pendingCount > 0 && (
+          <button
+            type="button"
+            onClick={handleRetryFailed}
+            disabled={busy}
+            className="inline-flex items-center justify-center px-4 py-2 rounded-lg font-semibold transition border border-amber-300 bg-amber-50 text-amber-700 hover:bg-amber-100 dark:bg-amber-900/20 dark:border-amber-800 dark:text-amber-400 disabled:opacity-50"
+          >
+            Retry {failedCount + pendingCount} {pendingCount > 0 ? 'failed or pending' : 'failed'}
+          </button>
+        )}
+
+        {rows.length > 0 && (
+          <button
+            type="button"
+            onClick={() => downloadTextFile(`airdrop-${assetIdText.trim()}-report.csv`, airdropReportToCsv(rows))}
+            className="px-3 py-1 text-xs bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition"
+          >
+            Export report
+          </button>
+        )}
+      </div>
+
+      {progress && (
+        <div className="mt-3">
+          <div className="h-2 w-full rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+            <div
+              className="h-full bg-teal-600 transition-all"
+              style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+          <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+            Groups submitted: {progress.done} / {progress.total}
+          </p>
+        </div>
+      )}
+
+      {problems.length > 0 && (
+        <ul className="mt-3 list-disc pl-5 text-xs text-red-600 dark:text-red-400">
+          {problems.map((p) => (
+            <li key={p}>{p}</li>
+          ))}
+        </ul>
+      )}
+
+      {rows.length > 0 && asset && (
+        <>
+          <p className="mt-3 text-xs text-slate-600 dark:text-slate-300">
+            {asset.assetName || 'Asset'} {asset.unitName && `(${asset.unitName})`}: {count('ready')} ready (
+            {baseUnitsToDecimal(readyTotal, asset.decimals)} total), {count('invalid')} invalid, {count('sent')} sent, {pendingCount}{' '}
+            pending, {failedCount} failed
+          </p>
+
+          <div className="mt-2 max-h-80 overflow-auto border border-slate-200 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-900">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800">
+                  <th className="text-left px-3 py-2 font-semibold text-slate-900 dark:text-white">#</th>
+                  <th className="text-left px-3 py-2 font-semibold text-slate-900 dark:text-white">Address</th>
+                  <th className="text-left px-3 py-2 font-semibold text-slate-900 dark:text-white">Amount</th>
+                  <th className="text-left px-3 py-2 font-semibold text-slate-900 dark:text-white">Status</th>
+                  <th className="text-left px-3 py-2 font-semibold text-slate-900 dark:text-white">Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((r) => (
+                  <tr key={r.line} className="border-b border-slate-200 dark:border-slate-700">
+                    <td className="px-3 py-2 text-slate-500">{r.line}</td>
+                    <td className="font-mono px-3 py-2 text-slate-700 dark:text-slate-300" title={r.address}>
+                      {r.address ? ellipseAddress(r.address, 6) : '—'}
+                    </td>
+                    <td className="font-mono px-3 py-2 text-slate-700 dark:text-slate-300">{r.amount || '—'}</td>
+                    <td className="px-3 py-2">
+                      <span className={`inline-block px-2 py-0.5 rounded text-[11px] font-medium ${STATUS_BADGE[r.status]}`}>
+                        {r.status}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 text-slate-600 dark:text-slate-400 break-words max-w-xs">
+                      {r.txId ? (
+                        <a href={`${loraBase}/transaction/${r.txId}`} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                          View Tx ↗
+                        </a>
+                      ) : (
+                        r.error
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+import { ClawbackAuditEntry, clawbackAuditToCsv } from '../utils/clawbackAudit'
+import { downloadTextFile } from '../utils/csv'
+import { ellipseAddress } from '../utils/ellipseAddress'
+
+interface ClawbackAuditLogProps {
+  entries: ClawbackAuditEntry[]
+  loraBase: string
+}
+
+/**
+ * ClawbackAuditLog Component
+ * Lists clawbacks performed from this browser with their recorded reason,
+ * exportable as CSV or JSON for compliance records.
+ */
+export default function ClawbackAuditLog({ entries, loraBase }: ClawbackAuditLogProps) {
+  const stamp = new Date().toISOString().slice(0, 10)
+
+  return (
+    <div className="mt-6 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/40 p-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-3">
+        <div className="text-sm font-semibold text-slate-700 dark:text-slate-200">Clawback audit log ({entries.length})</div>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            disabled={entries.length === 0}
+            onClick={() => downloadTextFile(`clawback-audit-${stamp}.csv`, clawbackAuditToCsv(entries))}
+            className="px-3 py-1 text-xs bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition disabled:opacity-50"
+          >
+            Export CSV
+          </button>
+          <button
+            type="button"
+            disabled={entries.length === 0}
+            onClick={() => downloadTextFile(`clawback-audit-${stamp}.json`, JSON.stringify(entries, null, 2), 'application/json')}
+            className="px-3 py-1 text-xs bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition disabled:opacity-50"
+          >
+            Export JSON
+          </button>
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-xs text-slate-500 dark:text-slate-400">No clawbacks recorded in this browser yet.</p>
+      ) : (
+        <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-900">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800">
+                <th className="text-left px-3 py-2 font-semibold text-slate-900 dark:text-white">When</th>
+                <th className="text-left px-3 py-2 font-semibold text-slate-900 dark:text-white">Asset</th>
+                <th className="text-left px-3 py-2 font-semibold text-slate-900 dark:text-white">Amount</th>
+                <th className="text-left px-3 py-2 font-semibold text-slate-900 dark:text-white">From → To</th>
+                <th className="text-left px-3 py-2 font-semibold text-slate-900 dark:text-white">Reason</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((e) => (
+                <tr key={e.txId} className="border-b border-slate-200 dark:border-slate-700">
+                  <td className="px-3 py-2 text-slate-700 dark:text-slate-300">
+                    <a
+                      href={`${loraBase}/transaction/${e.txId}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="hover:underline"
+                      title={e.txId}
+                    >
+                      {new Date(e.timestamp).toLocaleString()}
+                    </a>
+                    <span className="block text-[11px] text-slate-500 dark:text-slate-400">{e.network}</span>
+                  </td>
+                  <td className="font-mono px-3 py-2 text-slate-700 dark:text-slate-300">{e.assetId}</td>
+                  <td className="font-mono px-3 py-2 text-slate-700 dark:text-slate-300">{e.amount}</td>
+                  <td className="font-mono px-3 py-2 text-slate-700 dark:text-slate-300">
+                    {ellipseAddress(e.revokedFrom, 4)} → {ellipseAddress(e.receiver, 4)}
+                  </td>
+                  <td className="px-3 py-2 text-slate-700 dark:text-slate-300 break-words max-w-xs">{e.reason}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,314 @@
+import { useWallet } from '@txnlab/use-wallet-react'
+import { useSnackbar } from 'notistack'
+import { ChangeEvent, useEffect, useState } from 'react'
+import { AiOutlineLoading3Quarters } from 'react-icons/ai'
+import { MAX_GROUP_SIZE } from '../utils/atomicGroups'
+import {
+  clearCollectionProgress,
+  collectionFingerprint,
+  CollectionItem,
+  CollectionMintParams,
+  loadCollectionProgress,
+  mintCollectionItems,
+  pinCollectionItems,
+  planCollection,
+  restoreCollectionProgress,
+  resumeCollectionItems,
+  saveCollectionProgress,
+  sortCollectionFiles,
+} from '../utils/collection'
+import { CreatedAsset } from '../utils/createdAssets'
+import { useAlgorand, useAppNetwork } from '../utils/network/NetworkContext'
+import { NftMetadataDraft } from '../utils/nftMetadata'
+
+interface CollectionMintProps {
+  /** NFT name from the mint form; items are named `Name #1..#N` */
+  collectionName: string
+  /** Shared ASA settings from the mint form */
+  params: CollectionMintParams
+  /** Shared metadata from the editor (item traits from the CSV are merged over it) */
+  metadata: NftMetadataDraft
+  /** Problems in the shared form fields; minting is blocked while there are any */
+  formProblems: string[]
+  /** Called with the assets created by each confirmed group */
+  onMinted: (assets: CreatedAsset[]) => void
+}
+
+const STATUS_BADGE: Record<CollectionItem['status'], string> = {
+  ready: 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300',
+  pinned: 'bg-sky-50 text-sky-700 dark:bg-sky-900/20 dark:text-sky-400',
+  submitted: 'bg-indigo-50 text-indigo-700 dark:bg-indigo-900/20 dark:text-indigo-400',
+  minted: 'bg-teal-50 text-teal-700 dark:bg-teal-900/30 dark:text-teal-300',
+  failed: 'bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-400',
+}
+
+/**
+ * CollectionMint Component
+ * Mints a numbered series from a folder of images (plus an optional CSV of per-item traits):
+ * images are pinned in small batches via `/api/pin-batch`, then created in atomic groups of 16.
+ * Progress is saved locally, so a failed or interrupted run resumes where it stopped.
+ */
+export default function CollectionMint({ collectionName, params, metadata, formProblems, onMinted }: CollectionMintProps) {
+  const [files, setFiles] = useState<Map<string, File>>(new Map())
+  const [fileNames, setFileNames] = useState<string[]>([])
+  const [csvText, setCsvText] = useState<string>('')
+  const [csvName, setCsvName] = useState<string>('')
+
+  const [items, setItems] = useState<CollectionItem[]>([])
+  const [problems, setProblems] = useState<string[]>([])
+  const [running, setRunning] = useState<'pinning' | 'minting' | null>(null)
+
+  const { transactionSigner, activeAddress } = useWallet()
+  const { enqueueSnackbar } = useSnackbar()
+
+  const { network } = useAppNetwork()
+  const algorand = useAlgorand()
+
+  const fingerprint = collectionFingerprint(params.standard, metadata)
+
+  // Re-plan whenever the inputs change, picking up saved progress for the same folder
+  useEffect(() => {
+    if (running) return
+    const plan = planCollection(collectionName, fileNames, csvText)
+    const saved = activeAddress && fileNames.length > 0 ? loadCollectionProgress(network.id, activeAddress, collectionName) : null
+    setItems(restoreCollectionProgress(plan.items, saved, fingerprint))
+    setProblems(plan.problems)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [collectionName, fileNames, csvText, fingerprint, network.id, activeAddress])
+
+  const handleFolderChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const picked = sortCollectionFiles(Array.from(e.target.files ?? []))
+    setFiles(new Map(picked.map((f) => [f.name, f])))
+    setFileNames(picked.map((f) => f.name))
+  }
+
+  const handleCsvChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    setCsvName(file.name)
+    setCsvText(await file.text())
+  }
+
+  const count = (status: CollectionItem['status']) => items.filter((i) => i.status === status).length
+  const mintedCount = count('minted')
+  const failedCount = count('failed')
+  const submittedCount = count('submitted')
+  const remaining = items.length - mintedCount
+  const started = items.some((i) => i.status !== 'ready')
+  const allProblems = [...problems, ...formProblems]
+  const canRun = !!activeAddress && remaining > 0 && allProblems.length === 0 && !running
+
+  // Every item goes through two steps (pin, mint)
+  const stepsDone = items.reduce((sum, i) => sum + (i.status === 'minted' ? 2 : i.url ? 1 : 0), 0)
+
+  const handleRun = async () => {
+    if (!activeAddress) {
+      enqueueSnackbar('Please connect a wallet or continue with Google first.', { variant: 'warning' })
+      return
+    }
+    if (!transactionSigner) {
+      enqueueSnackbar('Wallet signer not available. Please try reconnecting your wallet.', { variant: 'error' })
+      return
+    }
+    if (allProblems.length > 0) {
+      enqueueSnackbar(`Please fix the collection: ${allProblems[0]}`, { variant: 'warning' })
+      return
+    }
+
+    const persist = (next: CollectionItem[]) => {
+      setItems(next)
+      saveCollectionProgress(network.id, activeAddress, collectionName, { fingerprint, items: next })
+    }
+
+    let current = resumeCollectionItems(items)
+    try {
+      if (current.some((i) => i.status === 'ready')) {
+        setRunning('pinning')
+        enqueueSnackbar('Pinning images and metadata...', { variant: 'info' })
+        const auth = { address: activeAddress, signer: transactionSigner, algorand }
+        current = await pinCollectionItems(current, files, metadata, params.standard, collectionName, auth, persist)
+        if (current.some((i) => i.status === 'failed')) {
+          enqueueSnackbar('Pinning stopped on an error. Fix it and resume; pinned items are kept.', { variant: 'warning' })
+          return
+        }
+      }
+
+      setRunning('minting')
+      enqueueSnackbar('Minting on Algorand (one signature per group of 16)...', { variant: 'info' })
+      const before = new Set(current.filter((i) => i.status === 'minted').map((i) => i.index))
+      current = await mintCollectionItems(algorand, activeAddress, transactionSigner, current, params, persist)
+
+      const newlyMinted = current.filter((i) => i.status === 'minted' && i.assetId && !before.has(i.index))
+      if (newlyMinted.length > 0) {
+        onMinted(
+          newlyMinted.map((i) => ({
+            assetId: i.assetId!,
+            assetName: i.name,
+            unitName: params.unitName,
+            total: String(params.total / 10n ** BigInt(params.decimals)),
+            decimals: String(params.decimals),
+            url: i.url,
+            manager: params.manager,
+            reserve: i.reserve ?? params.reserve,
+            freeze: params.freeze,
+            clawback: params.clawback,
+          })),
+        )
+      }
+
+      const failed = current.filter((i) => i.status === 'failed').length
+      const submitted = current.filter((i) => i.status === 'submitted').length
+      if (failed === 0 && submitted === 0) {
+        enqueueSnackbar(`✅ Collection minted: ${current.length} NFTs.`, { variant: 'success' })
+      } else if (submitted > 0) {
+        enqueueSnackbar(`${submitted} NFTs are submitted but not confirmed yet. Resume to check them before anything is minted again.`, {
+          variant: 'warning',
+        })
+      } else {
+        enqueueSnackbar(`${newlyMinted.length} NFTs minted, ${failed} failed. You can resume the rest.`, { variant: 'warning' })
+      }
+    } catch (e: any) {
+      enqueueSnackbar(`Collection mint stopped: ${e?.message || 'Unknown error'}`, { variant: 'error' })
+    } finally {
+      setRunning(null)
+    }
+  }
+
+  const handleForget = () => {
+    if (activeAddress) clearCollectionProgress(network.id, activeAddress, collectionName)
+    setItems(planCollection(collectionName, fileNames, csvText).items)
+  }
+
+  return (
+    <div className="mt-8 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/40 p-4">
+      <div className="text-sm font-semibold text-slate-700 dark:text-slate-200">Mint a collection</div>
+      <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+        Pick a folder of images to mint <span className="font-mono">{collectionName.trim() || 'Name'} #1..#N</span> with the settings and
+        metadata above. An optional CSV adds per-item traits (header row = trait names; add a <span className="font-mono">file</span> column
+        to match by file name, otherwise rows follow the image order).
+      </p>
+
+      <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-3">
+        <label className="flex items-center gap-3 rounded-lg border border-dashed border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 px-4 py-2 text-sm text-slate-600 dark:text-slate-300 cursor-pointer hover:border-teal-500 transition">
+          {/* webkitdirectory is not in React's input typings */}
+          <input
+            type="file"
+            multiple
+            className="hidden"
+            onChange={handleFolderChange}
+            disabled={!!running}
+            {...({ webkitdirectory: '' } as Record<string, string>)}
+          />
+          {fileNames.length > 0 ? `${fileNames.length} images selected` : 'Choose image folder…'}
+        </label>
+        <label className="flex items-center gap-3 rounded-lg border border-dashed border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 px-4 py-2 text-sm text-slate-600 dark:text-slate-300 cursor-pointer hover:border-teal-500 transition">
+          <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleCsvChange} disabled={!!running} />
+          {csvName ? <span className="font-mono truncate">{csvName}</span> : 'Traits CSV (optional)…'}
+        </label>
+      </div>
+
+      {fileNames.length > 0 && allProblems.length > 0 && (
+        <ul className="mt-3 list-disc pl-5 text-xs text-red-600 dark:text-red-400">
+          {allProblems.map((p) => (
+            <li key={p}>{p}</li>
+          ))}
+        </ul>
+      )}
+
+      {items.length > 0 && (
+        <>
+          <div className="mt-3 flex flex-wrap items-center gap-3">
+            <button
+              type="button"
+              onClick={handleRun}
+              disabled={!canRun}
+              className="inline-flex items-center justify-center px-4 py-2 rounded-lg font-semibold transition bg-teal-600 hover:bg-teal-700 text-white shadow-md disabled:bg-slate-300 disabled:text-slate-500 disabled:shadow-none dark:disabled:bg-slate-700 dark:disabled:text-slate-400"
+            >
+              {running ? (
+                <span className="flex items-center gap-2">
+                  <AiOutlineLoading3Quarters className="animate-spin" />
+                  {running === 'pinning' ? 'Pinning…' : 'Minting…'}
+                </span>
+              ) : started ? (
+                `Resume: ${remaining} remaining`
+              ) : (
+                `Mint ${items.length} NFTs in ${Math.ceil(items.length / MAX_GROUP_SIZE)} groups`
+              )}
+            </button>
+
+            {started && !running && (
+              <button
+                type="button"
+                onClick={handleForget}
+                disabled={submittedCount > 0}
+                className="px-3 py-1 text-xs bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition disabled:opacity-50"
+                title={
+                  submittedCount > 0
+                    ? 'Resume first: submitted groups may still confirm, and forgetting them could mint twice'
+                    : 'Minted assets stay on-chain; only the local progress is cleared'
+                }
+              >
+                Forget progress
+              </button>
+            )}
+          </div>
+
+          <div className="mt-3">
+            <div className="h-2 w-full rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+              <div className="h-full bg-teal-600 transition-all" style={{ width: `${(stepsDone / (items.length * 2)) * 100}%` }} />
+            </div>
+            <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+              Pinned: {items.filter((i) => i.url).length} / {items.length} · Minted: {mintedCount} / {items.length}
+              {submittedCount > 0 && ` · Awaiting confirmation: ${submittedCount}`}
+              {failedCount > 0 && ` · Failed: ${failedCount}`}
+            </p>
+          </div>
+
+          <div className="mt-2 max-h-80 overflow-auto border border-slate-200 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-900">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800">
+                  <th className="text-left px-3 py-2 font-semibold text-slate-900 dark:text-white">Name</th>
+                  <th className="text-left px-3 py-2 font-semibold text-slate-900 dark:text-white">File</th>
+                  <th className="text-left px-3 py-2 font-semibold text-slate-900 dark:text-white">Traits</th>
+                  <th className="text-left px-3 py-2 font-semibold text-slate-900 dark:text-white">Status</th>
+                  <th className="text-left px-3 py-2 font-semibold text-slate-900 dark:text-white">Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((i) => (
+                  <tr key={i.index} className="border-b border-slate-200 dark:border-slate-700">
+                    <td className="px-3 py-2 text-slate-900 dark:text-white">{i.name}</td>
+                    <td className="font-mono px-3 py-2 text-slate-700 dark:text-slate-300">{i.fileName}</td>
+                    <td className="px-3 py-2 text-slate-600 dark:text-slate-400">
+                      {i.traits.length > 0 ? i.traits.map((t) => `${t.key}: ${t.value}`).join(', ') : '—'}
+                    </td>
+                    <td className="px-3 py-2">
+                      <span className={`inline-block px-2 py-0.5 rounded text-[11px] font-medium ${STATUS_BADGE[i.status]}`}>
+                        {i.status}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 text-slate-600 dark:text-slate-400 break-words max-w-xs">
+                      {i.assetId ? (
+                        <a
+                          href={`${network.explorerBase}/asset/${i.assetId}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="hover:underline"
+                        >
+                          Asset {i.assetId} ↗
+                        </a>
+                      ) : (
+                        i.error
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
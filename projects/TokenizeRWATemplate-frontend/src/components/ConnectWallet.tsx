@@ -1,7 +1,7 @@
 import { useWallet, WalletId } from '@txnlab/use-wallet-react'
 import { useMemo, useState } from 'react'
 import { ellipseAddress } from '../utils/ellipseAddress'
-import { getAlgodConfigFromViteEnvironment } from '../utils/network/getAlgoClientConfigs'
+import { useAppNetwork } from '../utils/network/NetworkContext'
 
 interface ConnectWalletProps {
   openModal: boolean
@@ -15,12 +15,8 @@ const ConnectWallet = ({ openModal, closeModal }: ConnectWalletProps) => {
   const [lastError, setLastError] = useState<string>('')
   const [copied, setCopied] = useState(false)
 
-  // Get network config for Lora link
-  const algoConfig = getAlgodConfigFromViteEnvironment()
-  const networkName = useMemo(() => {
-    const n = (algoConfig.network ?? '').toString()
-    return n === '' ? 'localnet' : n.toLowerCase()
-  }, [algoConfig.network])
+  // Active network for Lora link
+  const { network } = useAppNetwork()
 
   const visibleWallets = useMemo(() => (wallets ?? []).filter(Boolean), [wallets])
 
@@ -169,7 +165,7 @@ const ConnectWallet = ({ openModal, closeModal }: ConnectWalletProps) => {
 
                   {activeAddress && (
                     <a
-                      href={`https://lora.algokit.io/${networkName}/account/${activeAddress}/`}
+                      href={`${network.explorerBase}/account/${activeAddress}/`}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="text-xs font-semibold text-teal-600 dark:text-teal-400 hover:text-teal-700 dark:hover:text-teal-300 transition flex items-center gap-1"
@@ -188,7 +184,7 @@ const ConnectWallet = ({ openModal, closeModal }: ConnectWalletProps) => {
                 </div>
 
                 <div className="text-sm text-slate-700 dark:text-slate-200">
-                  Network: <span className="font-semibold">{networkName}</span>
+                  Network: <span className="font-semibold">{network.label}</span>
                 </div>
               </div>
             </div>
@@ -0,0 +1,399 @@
+import type { AssetInformation } from '@algorandfoundation/algokit-utils/types/asset-manager'
+import { useWallet } from '@txnlab/use-wallet-react'
+import { useSnackbar } from 'notistack'
+import { useCallback, useEffect, useState } from 'react'
+import { AiOutlineLoading3Quarters } from 'react-icons/ai'
+import { Link } from 'react-router-dom'
+import { baseUnitsToDecimal } from '../utils/amounts'
+import { downloadTextFile } from '../utils/csv'
+import { ellipseAddress } from '../utils/ellipseAddress'
+import {
+  fetchAccountHistory,
+  fetchAllAccountHistory,
+  HISTORY_TX_TYPES,
+  HistoryEntry,
+  HistoryFilters,
+  historyToCsv,
+  HistoryTxType,
+  MAX_HISTORY_EXPORT,
+  summarizeTransaction,
+} from '../utils/history'
+import { useAlgorand, useAppNetwork } from '../utils/network/NetworkContext'
+import { ALGO_DECIMALS, getAssetParams } from '../utils/portfolio'
+
+const inputClass =
+  'rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-3 py-2 text-sm transition'
+
+const smallButtonClass =
+  'px-3 py-1 text-xs bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition disabled:opacity-50'
+
+const DEFAULT_FILTERS: HistoryFilters = { txType: '' }
+
+/**
+ * History Component
+ * Transactions of the connected account from the indexer: payments, asset transfers,
+ * asset configs and app calls, filterable by type, asset and date range, with decoded notes
+ * and CSV export of everything matching the filters.
+ */
+export default function History() {
+  // Draft filter inputs; applied on "Apply"
+  const [txType, setTxType] = useState<HistoryTxType>('')
+  const [assetIdInput, setAssetIdInput] = useState<string>('')
+  const [fromDate, setFromDate] = useState<string>('')
+  const [toDate, setToDate] = useState<string>('')
+  const [filterError, setFilterError] = useState<string>('')
+  const [filters, setFilters] = useState<HistoryFilters>(DEFAULT_FILTERS)
+
+  // Pagination: pageTokens[i] is the token used to load page i
+  const [entries, setEntries] = useState<HistoryEntry[]>([])
+  const [loading, setLoading] = useState<boolean>(false)
+  const [error, setError] = useState<string>('')
+  const [pageTokens, setPageTokens] = useState<(string | undefined)[]>([undefined])
+  const [pageIndex, setPageIndex] = useState<number>(0)
+  const [nextToken, setNextToken] = useState<string | undefined>(undefined)
+
+  const [assets, setAssets] = useState<Record<string, AssetInformation | null>>({})
+  const [exporting, setExporting] = useState<boolean>(false)
+
+  const { activeAddress } = useWallet()
+  const { enqueueSnackbar } = useSnackbar()
+
+  const { network } = useAppNetwork()
+  const loraBase = network.explorerBase
+  const algorand = useAlgorand()
+
+  /**
+   * Look up decimals/unit for every asset in `rows` that isn't known yet
+   */
+  const resolveAssets = useCallback(
+    async (rows: HistoryEntry[]) => {
+      const ids = Array.from(new Set(rows.filter((r) => r.assetId && r.amount !== undefined).map((r) => String(r.assetId))))
+      const resolved = await Promise.all(
+        ids.map(async (id) => [id, (await getAssetParams(algorand, network.id, BigInt(id))) ?? null] as const),
+      )
+      const map = Object.fromEntries(resolved)
+      setAssets((prev) => ({ ...prev, ...map }))
+      return map
+    },
+    [algorand, network.id],
+  )
+
+  const loadPage = useCallback(
+    async (index: number, token: string | undefined) => {
+      if (!activeAddress) return
+
+      setLoading(true)
+      setError('')
+      try {
+        const page = await fetchAccountHistory(algorand.client.indexer, activeAddress, filters, token)
+        const rows = page.transactions.map((t) => summarizeTransaction(t, activeAddress))
+        setEntries(rows)
+        setNextToken(page.nextToken)
+        setPageIndex(index)
+        resolveAssets(rows)
+      } catch (e: any) {
+        setError(e?.message || 'Could not load transactions')
+      } finally {
+        setLoading(false)
+      }
+    },
+    [activeAddress, algorand, filters, resolveAssets],
+  )
+
+  useEffect(() => {
+    setEntries([])
+    setPageTokens([undefined])
+    loadPage(0, undefined)
+  }, [loadPage])
+
+  const goToNextPage = () => {
+    if (!nextToken) return
+    setPageTokens((tokens) => [...tokens.slice(0, pageIndex + 1), nextToken])
+    loadPage(pageIndex + 1, nextToken)
+  }
+
+  const goToPreviousPage = () => {
+    if (pageIndex === 0) return
+    loadPage(pageIndex - 1, pageTokens[pageIndex - 1])
+  }
+
+  const applyFilters = () => {
+    const assetText = assetIdInput.trim()
+    if (assetText && !/^\d+$/.test(assetText)) {
+      setFilterError('Asset ID must be a whole number.')
+      return
+    }
+    if (fromDate && toDate && fromDate > toDate) {
+      setFilterError('The start date is after the end date.')
+      return
+    }
+    setFilterError('')
+    setFilters({
+      txType,
+      assetId: assetText ? BigInt(assetText) : undefined,
+      fromDate: fromDate || undefined,
+      toDate: toDate || undefined,
+    })
+  }
+
+  const resetFilters = () => {
+    setTxType('')
+    setAssetIdInput('')
+    setFromDate('')
+    setToDate('')
+    setFilterError('')
+    setFilters(DEFAULT_FILTERS)
+  }
+
+  const formatAmount = (entry: HistoryEntry, known: Record<string, AssetInformation | null> = assets) => {
+    if (entry.amount === undefined) return ''
+    if (entry.assetId === 0n) return baseUnitsToDecimal(entry.amount, ALGO_DECIMALS)
+    const asset = known[String(entry.assetId)]
+    return asset ? baseUnitsToDecimal(entry.amount, asset.decimals) : String(entry.amount)
+  }
+
+  const unitOf = (entry: HistoryEntry) => {
+    if (entry.assetId === 0n) return 'ALGO'
+    const asset = assets[String(entry.assetId)]
+    return asset?.unitName || (asset ? '' : 'base units')
+  }
+
+  const handleExport = async () => {
+    if (!activeAddress) return
+
+    setExporting(true)
+    try {
+      const transactions = await fetchAllAccountHistory(algorand.client.indexer, activeAddress, filters)
+      const rows = transactions.map((t) => summarizeTransaction(t, activeAddress))
+      const known = { ...assets, ...(await resolveAssets(rows)) }
+      downloadTextFile(
+        `history-${activeAddress.slice(0, 8)}-${network.id}.csv`,
+        historyToCsv(rows, (e) => formatAmount(e, known)),
+      )
+      if (transactions.length === MAX_HISTORY_EXPORT) {
+        enqueueSnackbar(`Export capped at ${MAX_HISTORY_EXPORT} transactions. Narrow the date range to export the rest.`, {
+          variant: 'warning',
+        })
+      }
+    } catch (e: any) {
+      const msg = e?.response?.body?.message || e?.message || String(e)
+      enqueueSnackbar(`Export failed: ${msg}`, { variant: 'error' })
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const renderAddress = (address?: string) =>
+    address ? (
+      <a
+        href={`${loraBase}/account/${address}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        title={address}
+        className="font-mono text-xs text-teal-600 dark:text-teal-400 hover:underline"
+      >
+        {ellipseAddress(address, 4)}
+      </a>
+    ) : (
+      <span className="text-slate-400">—</span>
+    )
+
+  const renderTarget = (entry: HistoryEntry) => {
+    if (entry.appId !== undefined) {
+      return (
+        <a
+          href={`${loraBase}/application/${entry.appId}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="font-mono text-xs text-teal-600 dark:text-teal-400 hover:underline"
+        >
+          App {String(entry.appId)}
+        </a>
+      )
+    }
+    if (entry.assetId === undefined) return <span className="text-slate-400">—</span>
+    if (entry.assetId === 0n) return <span className="text-xs text-slate-700 dark:text-slate-300">ALGO</span>
+
+    const asset = assets[String(entry.assetId)]
+    return (
+      <Link to={`/asset/${entry.assetId}`} className="font-mono text-xs text-teal-600 dark:text-teal-400 hover:underline">
+        {asset?.assetName || asset?.unitName || 'ASA'} ({String(entry.assetId)})
+      </Link>
+    )
+  }
+
+  if (!activeAddress) {
+    return (
+      <div className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-lg p-6 sm:p-8 text-sm text-slate-600 dark:text-slate-300">
+        Connect a wallet to see your transaction history.
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-lg p-6 sm:p-8">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900 dark:text-white">History</h2>
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            Transactions of the connected account on {network.label}, newest first.
+          </p>
+        </div>
+        <button type="button" onClick={handleExport} disabled={exporting || loading} className={smallButtonClass}>
+          {exporting ? (
+            <span className="flex items-center gap-1">
+              <AiOutlineLoading3Quarters className="animate-spin" />
+              Exporting…
+            </span>
+          ) : (
+            'Export CSV'
+          )}
+        </button>
+      </div>
+
+      {/* ===== Filters ===== */}
+      <div className="rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/40 p-4 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <label className="flex flex-col gap-1 text-xs font-medium text-slate-700 dark:text-slate-300">
+            Type
+            <select className={inputClass} value={txType} onChange={(e) => setTxType(e.target.value as HistoryTxType)}>
+              {HISTORY_TX_TYPES.map((t) => (
+                <option key={t.value} value={t.value}>
+                  {t.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-medium text-slate-700 dark:text-slate-300">
+            Asset ID
+            <input
+              type="text"
+              inputMode="numeric"
+              className={inputClass}
+              placeholder="Any asset"
+              value={assetIdInput}
+              onChange={(e) => setAssetIdInput(e.target.value)}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-medium text-slate-700 dark:text-slate-300">
+            From
+            <input type="date" className={inputClass} value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-medium text-slate-700 dark:text-slate-300">
+            To
+            <input type="date" className={inputClass} value={toDate} onChange={(e) => setToDate(e.target.value)} />
+          </label>
+        </div>
+        {filterError && <p className="mt-2 text-[11px] text-red-600 dark:text-red-400">{filterError}</p>}
+        <div className="mt-3 flex gap-2">
+          <button
+            type="button"
+            onClick={applyFilters}
+            disabled={loading}
+            className="px-4 py-2 rounded-lg text-sm font-semibold transition bg-teal-600 hover:bg-teal-700 text-white shadow-md disabled:bg-slate-300 disabled:text-slate-500 disabled:shadow-none dark:disabled:bg-slate-700 dark:disabled:text-slate-400"
+          >
+            Apply
+          </button>
+          <button type="button" onClick={resetFilters} disabled={loading} className={smallButtonClass}>
+            Reset
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="mb-4 text-xs text-red-600 dark:text-red-400">Could not load history: {error}</p>}
+
+      {/* ===== Transactions ===== */}
+      <div className="flex items-center justify-end gap-2 mb-3">
+        <span className="text-xs text-slate-500 dark:text-slate-400">Page {pageIndex + 1}</span>
+        <button type="button" onClick={goToPreviousPage} disabled={pageIndex === 0 || loading} className={smallButtonClass}>
+          ← Prev
+        </button>
+        <button type="button" onClick={goToNextPage} disabled={!nextToken || loading} className={smallButtonClass}>
+          Next →
+        </button>
+      </div>
+
+      <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800">
+              <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Round</th>
+              <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Tx</th>
+              <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Asset / App</th>
+              <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Counterparty</th>
+              <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Amount</th>
+              <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Note</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="text-center px-4 py-6 text-slate-500 dark:text-slate-400">
+                  {loading ? 'Loading transactions…' : 'No transactions match these filters.'}
+                </td>
+              </tr>
+            ) : (
+              entries.map((entry) => (
+                <tr key={entry.id} className="border-b border-slate-200 dark:border-slate-700 align-top">
+                  <td className="font-mono px-4 py-3 text-xs text-slate-700 dark:text-slate-300">
+                    {String(entry.round ?? '')}
+                    {entry.time && (
+                      <span className="block text-[11px] text-slate-500 dark:text-slate-400">{entry.time.toLocaleString()}</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    <a
+                      href={`${loraBase}/transaction/${entry.id}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-mono text-xs text-teal-600 dark:text-teal-400 hover:underline"
+                    >
+                      {ellipseAddress(entry.id, 6)}
+                    </a>
+                    <span className="block text-[11px] text-slate-500 dark:text-slate-400">
+                      {entry.type}
+                      {entry.detail && ` · ${entry.detail}`}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3">{renderTarget(entry)}</td>
+                  <td className="px-4 py-3">{renderAddress(entry.counterparty)}</td>
+                  <td className="font-mono px-4 py-3 text-xs whitespace-nowrap">
+                    {entry.amount !== undefined ? (
+                      <span
+                        className={
+                          entry.direction === 'in'
+                            ? 'text-green-700 dark:text-green-400'
+                            : entry.direction === 'out'
+                              ? 'text-slate-900 dark:text-white'
+                              : 'text-slate-500 dark:text-slate-400'
+                        }
+                        title={entry.direction === 'operator' ? 'Clawback sent by this account between two other accounts' : undefined}
+                      >
+                        {entry.direction === 'in' ? '+' : entry.direction === 'out' ? '−' : ''}
+                        {formatAmount(entry)} {unitOf(entry)}
+                      </span>
+                    ) : (
+                      <span className="text-slate-400">—</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-xs text-slate-700 dark:text-slate-300 max-w-xs">
+                    {entry.note ? (
+                      <span
+                        className={`break-all ${entry.note.encoding === 'base64' ? 'font-mono text-slate-500 dark:text-slate-400' : ''}`}
+                      >
+                        {entry.note.encoding === 'base64' && <span className="mr-1 text-[10px] uppercase">b64</span>}
+                        {entry.note.text}
+                      </span>
+                    ) : (
+                      <span className="text-slate-400">—</span>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,295 @@
+import { useWallet } from '@txnlab/use-wallet-react'
+import { indexerModels, isValidAddress } from 'algosdk'
+import { useSnackbar } from 'notistack'
+import { useEffect, useMemo, useState } from 'react'
+import { AiOutlineInfoCircle, AiOutlineLoading3Quarters, AiOutlineWarning } from 'react-icons/ai'
+import { useAlgorand, useAppNetwork } from '../utils/network/NetworkContext'
+
+interface ManageAssetProps {
+  asset: indexerModels.Asset
+  /** Called after a confirmed reconfigure/destroy so the parent can reload on-chain state */
+  onUpdated: () => void
+}
+
+type Role = 'manager' | 'reserve' | 'freeze' | 'clawback'
+
+const ROLES: { key: Role; label: string; tip: string }[] = [
+  { key: 'manager', label: 'Manager', tip: 'Can reconfigure these roles and destroy the asset.' },
+  { key: 'reserve', label: 'Reserve', tip: 'Informational: where non-circulating supply is held.' },
+  { key: 'freeze', label: 'Freeze', tip: 'Can freeze/unfreeze holdings of this asset.' },
+  { key: 'clawback', label: 'Clawback', tip: 'Can revoke tokens from any holder.' },
+]
+
+/**
+ * ManageAsset Component
+ * Reconfigure (assetConfig) or destroy (assetDestroy) an ASA.
+ * Only rendered when the connected account is the current manager.
+ *
+ * NOTE: a role that is cleared (set to empty) can NEVER be set again.
+ * Clearing the manager makes the whole asset permanently immutable.
+ */
+export default function ManageAsset({ asset, onUpdated }: ManageAssetProps) {
+  const params = asset.params
+  const current: Record<Role, string> = useMemo(
+    () => ({
+      manager: params.manager ?? '',
+      reserve: params.reserve ?? '',
+      freeze: params.freeze ?? '',
+      clawback: params.clawback ?? '',
+    }),
+    [params.manager, params.reserve, params.freeze, params.clawback],
+  )
+
+  const [roles, setRoles] = useState<Record<Role, string>>(current)
+  const [acknowledged, setAcknowledged] = useState<boolean>(false)
+  const [configLoading, setConfigLoading] = useState<boolean>(false)
+
+  const [destroyConfirm, setDestroyConfirm] = useState<string>('')
+  const [destroyLoading, setDestroyLoading] = useState<boolean>(false)
+
+  const { transactionSigner, activeAddress } = useWallet()
+  const { enqueueSnackbar } = useSnackbar()
+
+  const { network } = useAppNetwork()
+  const loraBase = network.explorerBase
+  const algorand = useAlgorand()
+
+  // Reset the form whenever on-chain params change (e.g. after a reconfigure)
+  useEffect(() => {
+    setRoles(current)
+    setAcknowledged(false)
+  }, [current])
+
+  if (!activeAddress || asset.deleted || !params.manager || params.manager !== activeAddress) {
+    return null
+  }
+
+  // Roles that are currently set but would be cleared by this change
+  const clearedRoles = ROLES.filter((r) => current[r.key] && !roles[r.key].trim())
+  const invalidRoles = ROLES.filter((r) => roles[r.key].trim() && !isValidAddress(roles[r.key].trim()))
+  const hasChanges = ROLES.some((r) => roles[r.key].trim() !== current[r.key])
+  const clearsManager = clearedRoles.some((r) => r.key === 'manager')
+
+  const canReconfigure = hasChanges && invalidRoles.length === 0 && (clearedRoles.length === 0 || acknowledged) && !configLoading
+  const canDestroy = destroyConfirm.trim() === String(asset.index) && !destroyLoading
+
+  const txLink = (txId?: string) => () =>
+    txId ? (
+      <a
+        href={`${loraBase}/transaction/${txId}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        style={{ textDecoration: 'underline', marginLeft: 8 }}
+      >
+        View Tx on Lora ↗
+      </a>
+    ) : null
+
+  /**
+   * Send an assetConfig transaction with the new role addresses.
+   * Every role is always sent explicitly: an omitted role would be cleared on-chain.
+   */
+  const handleReconfigure = async () => {
+    if (!transactionSigner) {
+      enqueueSnackbar('Wallet signer not available. Please try reconnecting your wallet.', { variant: 'error' })
+      return
+    }
+
+    try {
+      setConfigLoading(true)
+      enqueueSnackbar('Reconfiguring asset...', { variant: 'info' })
+
+      const result = await algorand.send.assetConfig({
+        sender: activeAddress,
+        signer: transactionSigner,
+        assetId: asset.index,
+        manager: roles.manager.trim() || undefined,
+        reserve: roles.reserve.trim() || undefined,
+        freeze: roles.freeze.trim() || undefined,
+        clawback: roles.clawback.trim() || undefined,
+      })
+
+      enqueueSnackbar('✅ Asset reconfigured!', { variant: 'success', action: txLink(result.txIds[0]) })
+      setTimeout(onUpdated, 2000)
+    } catch (error: any) {
+      const msg = error?.response?.body?.message || error?.response?.text || error?.message || String(error)
+      enqueueSnackbar(`Reconfigure failed: ${msg}`, { variant: 'error' })
+    } finally {
+      setConfigLoading(false)
+    }
+  }
+
+  /**
+   * Destroy the asset (assetDestroy)
+   * Algod rejects this unless the creator holds the entire supply.
+   */
+  const handleDestroy = async () => {
+    if (!transactionSigner) {
+      enqueueSnackbar('Wallet signer not available. Please try reconnecting your wallet.', { variant: 'error' })
+      return
+    }
+
+    try {
+      setDestroyLoading(true)
+      enqueueSnackbar('Destroying asset...', { variant: 'info' })
+
+      const result = await algorand.send.assetDestroy({
+        sender: activeAddress,
+        signer: transactionSigner,
+        assetId: asset.index,
+      })
+
+      enqueueSnackbar('✅ Asset destroyed.', { variant: 'success', action: txLink(result.txIds[0]) })
+      setDestroyConfirm('')
+      setTimeout(onUpdated, 2000)
+    } catch (error: any) {
+      const msg = error?.response?.body?.message || error?.response?.text || error?.message || String(error)
+      enqueueSnackbar(`Destroy failed: ${msg}. All units must be back in the creator account first.`, { variant: 'error' })
+    } finally {
+      setDestroyLoading(false)
+    }
+  }
+
+  return (
+    <div className="mt-10">
+      <div className="mb-4">
+        <h3 className="text-lg font-bold text-slate-900 dark:text-white">Manage asset</h3>
+        <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+          You are the manager of this asset. Change its roles or destroy it.
+        </p>
+      </div>
+
+      <div className="rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+          {ROLES.map((r) => {
+            // An empty role can never be set again, so there is nothing to edit
+            const locked = !current[r.key]
+            const invalid = invalidRoles.some((i) => i.key === r.key)
+            return (
+              <div key={r.key}>
+                <label className="flex items-center gap-2 text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
+                  <span>{r.label}</span>
+                  <div className="group relative">
+                    <AiOutlineInfoCircle className="text-slate-400 cursor-help hover:text-slate-600 dark:hover:text-slate-300" />
+                    <div className="invisible group-hover:visible bg-slate-900 dark:bg-slate-800 text-white dark:text-slate-200 text-xs rounded px-2 py-1 whitespace-nowrap absolute bottom-full left-0 mb-1 z-10">
+                      {r.tip}
+                    </div>
+                  </div>
+                </label>
+                <input
+                  type="text"
+                  className="w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition disabled:opacity-60"
+                  placeholder={locked ? 'Permanently disabled' : 'Leave empty to clear (irreversible)'}
+                  value={roles[r.key]}
+                  disabled={locked || configLoading}
+                  onChange={(e) => setRoles((prev) => ({ ...prev, [r.key]: e.target.value }))}
+                />
+                {invalid && <p className="mt-1 text-[11px] text-red-600 dark:text-red-400">Not a valid Algorand address.</p>}
+              </div>
+            )
+          })}
+        </div>
+
+        {clearedRoles.length > 0 && (
+          <div className="mt-5 rounded-xl border border-red-200 bg-red-50 dark:bg-red-900/20 dark:border-red-800 p-4 text-sm text-red-700 dark:text-red-400">
+            <div className="flex items-center gap-2 font-semibold">
+              <AiOutlineWarning />
+              This cannot be undone
+            </div>
+            <ul className="mt-2 list-disc list-inside space-y-1">
+              {clearedRoles.map((r) => (
+                <li key={r.key}>
+                  Clearing <span className="font-semibold">{r.label}</span> disables it forever. It can never be set again.
+                </li>
+              ))}
+              {clearsManager && (
+                <li>
+                  Without a manager the asset becomes <span className="font-semibold">permanently immutable</span>: no further
+                  reconfiguration and it can never be destroyed.
+                </li>
+              )}
+            </ul>
+            <label className="mt-3 flex items-center gap-2 font-semibold">
+              <input
+                type="checkbox"
+                checked={acknowledged}
+                onChange={(e) => setAcknowledged(e.target.checked)}
+                className="h-4 w-4 rounded border border-red-300"
+              />
+              I understand these roles will be cleared permanently
+            </label>
+          </div>
+        )}
+
+        <div className="mt-6 flex flex-col sm:flex-row gap-3 sm:justify-end">
+          <button
+            type="button"
+            className="px-6 py-3 rounded-lg font-semibold transition bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-800 dark:text-slate-200 border border-slate-200 dark:border-slate-700"
+            onClick={() => {
+              setRoles(current)
+              setAcknowledged(false)
+            }}
+            disabled={configLoading}
+          >
+            Reset
+          </button>
+          <button
+            type="button"
+            onClick={handleReconfigure}
+            disabled={!canReconfigure}
+            className={`px-6 py-3 rounded-lg font-semibold transition ${
+              canReconfigure
+                ? 'bg-teal-600 hover:bg-teal-700 text-white shadow-md'
+                : 'bg-slate-300 text-slate-500 cursor-not-allowed dark:bg-slate-700 dark:text-slate-400'
+            }`}
+          >
+            {configLoading ? (
+              <span className="flex items-center gap-2">
+                <AiOutlineLoading3Quarters className="animate-spin" />
+                Updating…
+              </span>
+            ) : (
+              'Update roles'
+            )}
+          </button>
+        </div>
+
+        {/* Destroy */}
+        <div className="mt-8 pt-6 border-t border-slate-200 dark:border-slate-700">
+          <h4 className="text-sm font-bold text-red-700 dark:text-red-400">Destroy asset</h4>
+          <p className="text-xs text-slate-600 dark:text-slate-400 mt-1">
+            Removes the asset from the ledger. Only possible when the creator account holds the entire supply.
+          </p>
+          <div className="mt-3 flex flex-col sm:flex-row gap-3">
+            <input
+              type="text"
+              className="flex-1 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-red-500 focus:ring-2 focus:ring-red-200 dark:focus:ring-red-900/30 px-4 py-2 transition"
+              placeholder={`Type ${asset.index} to confirm`}
+              value={destroyConfirm}
+              onChange={(e) => setDestroyConfirm(e.target.value)}
+            />
+            <button
+              type="button"
+              onClick={handleDestroy}
+              disabled={!canDestroy}
+              className={`px-6 py-2 rounded-lg font-semibold transition ${
+                canDestroy
+                  ? 'bg-red-600 hover:bg-red-700 text-white shadow-md'
+                  : 'bg-slate-300 text-slate-500 cursor-not-allowed dark:bg-slate-700 dark:text-slate-400'
+              }`}
+            >
+              {destroyLoading ? (
+                <span className="flex items-center gap-2">
+                  <AiOutlineLoading3Quarters className="animate-spin" />
+                  Destroying…
+                </span>
+              ) : (
+                'Destroy asset'
+              )}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,30 @@
+import { AppNetworkId } from '../interfaces/network'
+import { useAppNetwork } from '../utils/network/NetworkContext'
+
+/**
+ * NetworkSwitcher Component
+ * Navbar dropdown that switches the active network at runtime.
+ * Clients, wallet manager and per-network caches all follow the selection.
+ */
+export default function NetworkSwitcher() {
+  const { network, networks, setNetworkId } = useAppNetwork()
+
+  return (
+    <select
+      aria-label="Network"
+      value={network.id}
+      onChange={(e) => setNetworkId(e.target.value as AppNetworkId)}
+      className={`rounded-lg border px-2 py-1.5 text-xs font-semibold bg-white dark:bg-slate-800 focus:outline-none focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 transition ${
+        network.id === 'mainnet'
+          ? 'border-amber-300 text-amber-700 dark:border-amber-700 dark:text-amber-400'
+          : 'border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200'
+      }`}
+    >
+      {networks.map((n) => (
+        <option key={n.id} value={n.id}>
+          {n.label}
+        </option>
+      ))}
+    </select>
+  )
+}
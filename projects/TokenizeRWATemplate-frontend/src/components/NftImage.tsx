@@ -0,0 +1,70 @@
+import { useEffect, useState } from 'react'
+import { isArc3Asset } from '../utils/arc3'
+import { isArc19Url, resolveArc19Url } from '../utils/arc19'
+import { ipfsToGatewayUrl } from '../utils/ipfs'
+
+interface NftImageProps {
+  /** Asset URL as stored on-chain */
+  url?: string
+  reserve?: string
+  name?: string
+  className?: string
+}
+
+// Image URL per asset URL + reserve; list rows reuse it for the session
+const imageCache = new Map<string, string | null>()
+
+/**
+ * Image (or thumbnail) an asset URL points at: ARC-69 `#i` media directly, ARC-3 / ARC-19
+ * through their metadata JSON. Null for anything else.
+ */
+async function resolveNftImage(url: string, reserve?: string): Promise<string | null> {
+  if (/#i$/.test(url)) return ipfsToGatewayUrl(url)
+
+  let metadataUrl = url
+  if (isArc19Url(url)) {
+    if (!reserve) return null
+    metadataUrl = resolveArc19Url(url, reserve)
+  } else if (!isArc3Asset({ url })) {
+    return null
+  }
+
+  const response = await fetch(ipfsToGatewayUrl(metadataUrl))
+  if (!response.ok) return null
+  const metadata = (await response.json()) as { image?: unknown; thumbnail?: unknown }
+  const image = typeof metadata.thumbnail === 'string' ? metadata.thumbnail : metadata.image
+  return typeof image === 'string' && image ? ipfsToGatewayUrl(image) : null
+}
+
+/**
+ * NftImage Component
+ * NFT image for an asset, read through the mint server's IPFS proxy; renders nothing when the
+ * asset has no image or it cannot be loaded.
+ */
+export default function NftImage({ url, reserve, name, className }: NftImageProps) {
+  const key = `${url ?? ''}|${reserve ?? ''}`
+  const [src, setSrc] = useState<string | null | undefined>(imageCache.get(key))
+
+  useEffect(() => {
+    if (!url) return
+    if (imageCache.has(key)) {
+      setSrc(imageCache.get(key))
+      return
+    }
+
+    let cancelled = false
+    resolveNftImage(url, reserve)
+      .catch(() => null)
+      .then((image) => {
+        imageCache.set(key, image)
+        if (!cancelled) setSrc(image)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [url, reserve, key])
+
+  if (!url || !src) return null
+
+  return <img src={src} alt={name || 'NFT image'} loading="lazy" className={className} onError={() => setSrc(null)} />
+}
@@ -0,0 +1,216 @@
+import { useState } from 'react'
+import { arc69MediaUrl, buildArc69Metadata, estimateArc69NoteBytes, MAX_NOTE_BYTES } from '../utils/arc69'
+import { buildNftMetadataPreview, MAX_DESCRIPTION_LENGTH, MAX_TRAITS, NftMetadataDraft, NftStandard, NftTrait } from '../utils/nftMetadata'
+
+interface NftMetadataEditorProps {
+  /** NFT name from the mint form (pinned as `name`) */
+  name: string
+  value: NftMetadataDraft
+  onChange: (draft: NftMetadataDraft) => void
+  /** Validation messages to show under the editor */
+  problems: string[]
+  /** Already pinned image (metadata updates); a placeholder is shown otherwise */
+  image?: string
+  /** Image MIME type, used for the ARC-69 media URL hint */
+  imageMimetype?: string
+  /** ARC-69 metadata goes in a transaction note instead of being pinned */
+  standard?: NftStandard
+}
+
+const labelClass = 'block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2'
+
+const inputClass =
+  'w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition'
+
+/**
+ * NftMetadataEditor Component
+ * Description, external link, key/value traits and RWA properties (location, serial, valuation)
+ * for the NFT panel, with a live preview of the metadata JSON the server will pin.
+ */
+export default function NftMetadataEditor({ name, value, onChange, problems, image, imageMimetype, standard }: NftMetadataEditorProps) {
+  const [showPreview, setShowPreview] = useState<boolean>(true)
+
+  const set = <K extends keyof NftMetadataDraft>(key: K, v: NftMetadataDraft[K]) => onChange({ ...value, [key]: v })
+
+  const updateTrait = (index: number, patch: Partial<NftTrait>) =>
+    set(
+      'traits',
+      value.traits.map((t, i) => (i === index ? { ...t, ...patch } : t)),
+    )
+
+  const isArc69 = standard === 'arc69'
+  const placeholderImage = image || 'ipfs://<image CID after upload>'
+  const preview = isArc69
+    ? buildArc69Metadata(value, image || arc69MediaUrl(placeholderImage, imageMimetype), imageMimetype)
+    : buildNftMetadataPreview(name, value, placeholderImage)
+  const noteBytes = !isArc69
+    ? 0
+    : image
+      ? new TextEncoder().encode(JSON.stringify(preview)).length
+      : estimateArc69NoteBytes(value, imageMimetype)
+
+  return (
+    <div className="mt-6 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/40 p-4">
+      <div className="text-sm font-semibold text-slate-700 dark:text-slate-200">Metadata</div>
+      <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+        {isArc69
+          ? 'Stored as JSON in the note of the asset config transaction; the ASA URL points at the image.'
+          : 'Pinned to IPFS with the image and referenced by the ASA URL.'}
+      </p>
+
+      <div className="mt-4 space-y-4">
+        <div>
+          <label className={labelClass}>Description</label>
+          <textarea
+            className={`${inputClass} min-h-[72px]`}
+            placeholder="What this token represents"
+            maxLength={MAX_DESCRIPTION_LENGTH}
+            value={value.description}
+            onChange={(e) => set('description', e.target.value)}
+          />
+        </div>
+
+        <div>
+          <label className={labelClass}>External URL</label>
+          <input
+            type="url"
+            className={inputClass}
+            placeholder="https://example.com/asset/123"
+            value={value.externalUrl}
+            onChange={(e) => set('externalUrl', e.target.value)}
+          />
+        </div>
+
+        {/* ===== Traits ===== */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-semibold text-slate-700 dark:text-slate-300">Traits</span>
+            <button
+              type="button"
+              onClick={() => set('traits', [...value.traits, { key: '', value: '' }])}
+              disabled={value.traits.length >= MAX_TRAITS}
+              className="px-3 py-1 text-xs bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition disabled:opacity-50"
+            >
+              + Add trait
+            </button>
+          </div>
+          {value.traits.length === 0 ? (
+            <p className="text-xs text-slate-500 dark:text-slate-400">No traits yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {value.traits.map((t, i) => (
+                <div key={i} className="flex gap-2">
+                  <input
+                    type="text"
+                    className={inputClass}
+                    placeholder="Name (e.g. Color)"
+                    value={t.key}
+                    onChange={(e) => updateTrait(i, { key: e.target.value })}
+                  />
+                  <input
+                    type="text"
+                    className={inputClass}
+                    placeholder="Value (e.g. Red)"
+                    value={t.value}
+                    onChange={(e) => updateTrait(i, { value: e.target.value })}
+                  />
+                  <button
+                    type="button"
+                    onClick={() =>
+                      set(
+                        'traits',
+                        value.traits.filter((_, j) => j !== i),
+                      )
+                    }
+                    className="px-3 text-xs rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200 transition"
+                    aria-label="Remove trait"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* ===== RWA properties ===== */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass}>Location</label>
+            <input
+              type="text"
+              className={inputClass}
+              placeholder="Warehouse 4, Rotterdam"
+              value={value.location}
+              onChange={(e) => set('location', e.target.value)}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Serial number</label>
+            <input
+              type="text"
+              className={inputClass}
+              placeholder="SN-000123"
+              value={value.serialNumber}
+              onChange={(e) => set('serialNumber', e.target.value)}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Valuation</label>
+            <input
+              type="text"
+              inputMode="decimal"
+              className={inputClass}
+              placeholder="250000"
+              value={value.valuationAmount}
+              onChange={(e) => set('valuationAmount', e.target.value)}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Currency</label>
+            <input
+              type="text"
+              className={`${inputClass} uppercase`}
+              placeholder="USD"
+              maxLength={5}
+              value={value.valuationCurrency}
+              onChange={(e) => set('valuationCurrency', e.target.value.toUpperCase())}
+            />
+          </div>
+        </div>
+      </div>
+
+      {problems.length > 0 && (
+        <ul className="mt-3 space-y-1">
+          {problems.map((p) => (
+            <li key={p} className="text-[11px] text-red-600 dark:text-red-400">
+              {p}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* ===== JSON preview ===== */}
+      <button
+        type="button"
+        onClick={() => setShowPreview(!showPreview)}
+        className="mt-4 flex items-center gap-2 text-sm font-medium text-primary hover:underline transition"
+      >
+        <span>{showPreview ? 'Hide metadata JSON' : 'Preview metadata JSON'}</span>
+        <span className={`transition-transform ${showPreview ? 'rotate-180' : ''}`}>▾</span>
+      </button>
+      {showPreview && (
+        <pre className="mt-2 max-h-72 overflow-auto rounded-lg bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 p-3 text-[11px] text-slate-700 dark:text-slate-300">
+          {JSON.stringify(preview, null, 2)}
+        </pre>
+      )}
+      {isArc69 && (
+        <p
+          className={`mt-1 text-[11px] ${noteBytes > MAX_NOTE_BYTES ? 'text-red-600 dark:text-red-400' : 'text-slate-500 dark:text-slate-400'}`}
+        >
+          Note size: {noteBytes} / {MAX_NOTE_BYTES} bytes
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,416 @@
+import type { AssetInformation } from '@algorandfoundation/algokit-utils/types/asset-manager'
+import { useWallet } from '@txnlab/use-wallet-react'
+import { useSnackbar } from 'notistack'
+import { useCallback, useEffect, useState } from 'react'
+import { AiOutlineLoading3Quarters } from 'react-icons/ai'
+import { baseUnitsToDecimal } from '../utils/amounts'
+import { ellipseAddress } from '../utils/ellipseAddress'
+import { useAlgorand } from '../utils/network/NetworkContext'
+import {
+  AccountOptIn,
+  ASSET_OPT_IN_MIN_BALANCE,
+  fetchAccountOptIns,
+  HoldingLookup,
+  lookupHolding,
+  optOutBlocker,
+  optOutOfAsset,
+} from '../utils/optIns'
+
+interface OptInManagerProps {
+  /** Quick-pick assets shown next to the lookup field (e.g. TestNet USDC) */
+  presets?: { label: string; assetId: bigint }[]
+  loraBase: string
+  /** Called after a confirmed opt-in / opt-out so the parent can refresh dependent state */
+  onChange?: (assetId: bigint) => void
+}
+
+const ALGO_DECIMALS = 6
+
+/**
+ * OptInManager Component
+ * Look up any ASA, see its params and the min-balance cost of holding it,
+ * opt in (0-amount transfer to self) or opt out (close-out to the creator),
+ * and list every asset the connected account is currently opted in to.
+ */
+export default function OptInManager({ presets = [], loraBase, onChange }: OptInManagerProps) {
+  const [lookupId, setLookupId] = useState<string>('')
+  const [lookupLoading, setLookupLoading] = useState<boolean>(false)
+  const [lookupError, setLookupError] = useState<string>('')
+  const [lookedUp, setLookedUp] = useState<AssetInformation | null>(null)
+  const [holding, setHolding] = useState<HoldingLookup | null>(null)
+
+  const [optIns, setOptIns] = useState<AccountOptIn[]>([])
+  const [optInsLoading, setOptInsLoading] = useState<boolean>(false)
+  const [spendable, setSpendable] = useState<bigint | null>(null)
+
+  // Asset id with an in-flight opt-in/out, and the one awaiting opt-out confirmation
+  const [actionAssetId, setActionAssetId] = useState<bigint | null>(null)
+  const [confirmOptOutId, setConfirmOptOutId] = useState<bigint | null>(null)
+
+  const { transactionSigner, activeAddress } = useWallet()
+  const { enqueueSnackbar } = useSnackbar()
+
+  const algorand = useAlgorand()
+
+  const refreshOptIns = useCallback(async () => {
+    if (!activeAddress) {
+      setOptIns([])
+      setSpendable(null)
+      return
+    }
+
+    setOptInsLoading(true)
+    try {
+      const [list, info] = await Promise.all([
+        fetchAccountOptIns(algorand, activeAddress),
+        algorand.client.algod.accountInformation(activeAddress).do(),
+      ])
+      setOptIns(list)
+      setSpendable(info.amount - info.minBalance)
+    } catch (e) {
+      console.error('[OptInManager] opt-ins error:', e)
+    } finally {
+      setOptInsLoading(false)
+    }
+  }, [activeAddress, algorand])
+
+  useEffect(() => {
+    refreshOptIns()
+    setHolding(null)
+    setConfirmOptOutId(null)
+  }, [refreshOptIns])
+
+  const handleLookup = async (idText: string = lookupId) => {
+    const id = idText.trim()
+    if (!/^\d+$/.test(id)) {
+      setLookupError('Enter a numeric asset id.')
+      return
+    }
+
+    setLookupId(id)
+    setLookupLoading(true)
+    setLookupError('')
+    setConfirmOptOutId(null)
+    try {
+      const asset = await algorand.asset.getById(BigInt(id))
+      setLookedUp(asset)
+      setHolding(activeAddress ? await lookupHolding(algorand, activeAddress, asset.assetId) : null)
+    } catch (e: any) {
+      setLookedUp(null)
+      setHolding(null)
+      setLookupError(e?.status === 404 || e?.message?.includes('404') ? 'Asset not found on this network.' : e?.message || 'Lookup failed')
+    } finally {
+      setLookupLoading(false)
+    }
+  }
+
+  const txAction = (txId?: string) => () =>
+    txId ? (
+      <a
+        href={`${loraBase}/transaction/${txId}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        style={{ textDecoration: 'underline', marginLeft: 8 }}
+      >
+        View Tx on Lora ↗
+      </a>
+    ) : null
+
+  const afterChange = (assetId: bigint) => {
+    refreshOptIns()
+    if (lookedUp?.assetId === assetId && activeAddress) {
+      lookupHolding(algorand, activeAddress, assetId)
+        .then(setHolding)
+        .catch(() => setHolding(null))
+    }
+    onChange?.(assetId)
+  }
+
+  /**
+   * Opt-in = asset transfer of 0 to self
+   */
+  const handleOptIn = async (assetId: bigint) => {
+    if (!activeAddress) {
+      enqueueSnackbar('Please connect a wallet or continue with Google first.', { variant: 'warning' })
+      return
+    }
+    if (!transactionSigner) {
+      enqueueSnackbar('Wallet signer not available. Please try reconnecting your wallet.', { variant: 'error' })
+      return
+    }
+
+    try {
+      setActionAssetId(assetId)
+      enqueueSnackbar(`Opting into asset ${assetId}...`, { variant: 'info' })
+
+      const result = await algorand.send.assetTransfer({
+        sender: activeAddress,
+        signer: transactionSigner,
+        assetId,
+        receiver: activeAddress,
+        amount: 0n,
+      })
+
+      enqueueSnackbar(`✅ Opted in to asset ${assetId}!`, { variant: 'success', action: txAction(result.txIds[0]) })
+      afterChange(assetId)
+    } catch (e: any) {
+      enqueueSnackbar(`Opt-in failed: ${e?.message || 'Unknown error'}`, { variant: 'error' })
+    } finally {
+      setActionAssetId(null)
+    }
+  }
+
+  /**
+   * Opt-out closes the holding to the creator (see optOutOfAsset)
+   */
+  const handleOptOut = async (assetId: bigint, creator: string) => {
+    if (!activeAddress || !transactionSigner) {
+      enqueueSnackbar('Wallet signer not available. Please try reconnecting your wallet.', { variant: 'error' })
+      return
+    }
+
+    try {
+      setActionAssetId(assetId)
+      setConfirmOptOutId(null)
+      enqueueSnackbar(`Opting out of asset ${assetId}...`, { variant: 'info' })
+
+      const txId = await optOutOfAsset(algorand, { sender: activeAddress, signer: transactionSigner, assetId, creator })
+
+      enqueueSnackbar(`✅ Opted out of asset ${assetId}. Min balance released.`, {
+        variant: 'success',
+        action: txAction(txId),
+      })
+      afterChange(assetId)
+    } catch (e: any) {
+      enqueueSnackbar(`Opt-out failed: ${e?.message || 'Unknown error'}`, { variant: 'error' })
+    } finally {
+      setActionAssetId(null)
+    }
+  }
+
+  // Opt-out with a balance returns it to the creator, so ask for a second click first
+  const requestOptOut = (assetId: bigint, creator: string | undefined, balance: bigint) => {
+    const blocker = optOutBlocker(activeAddress ?? '', creator)
+    if (blocker || !creator) {
+      enqueueSnackbar(`Cannot opt out: ${blocker}.`, { variant: 'warning' })
+      return
+    }
+    if (balance > 0n && confirmOptOutId !== assetId) {
+      setConfirmOptOutId(assetId)
+      return
+    }
+    handleOptOut(assetId, creator)
+  }
+
+  const renderOptOutButton = (assetId: bigint, creator: string | undefined, balance: bigint, decimals: number, unit: string) => {
+    const busy = actionAssetId === assetId
+    const confirming = confirmOptOutId === assetId
+    // e.g. the connected account created the asset: closing out to itself always fails
+    const blocker = activeAddress ? optOutBlocker(activeAddress, creator) : null
+    return (
+      <button
+        type="button"
+        onClick={() => requestOptOut(assetId, creator, balance)}
+        disabled={actionAssetId !== null || blocker !== null}
+        title={blocker ?? undefined}
+        className={`px-2 py-1 text-[11px] rounded border transition disabled:opacity-50 ${
+          confirming
+            ? 'border-red-300 bg-red-50 text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400'
+            : 'border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200'
+        }`}
+      >
+        {busy
+          ? 'Opting out…'
+          : confirming
+            ? `Confirm: return ${baseUnitsToDecimal(balance, decimals)} ${unit} to creator`.replace(/\s+$/, '')
+            : 'Opt out'}
+      </button>
+    )
+  }
+
+  const optInCostAlgo = baseUnitsToDecimal(ASSET_OPT_IN_MIN_BALANCE, ALGO_DECIMALS)
+  const canAffordOptIn = spendable === null || spendable >= ASSET_OPT_IN_MIN_BALANCE
+
+  return (
+    <div className="mb-6 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/40 p-4">
+      <div className="text-sm font-semibold text-slate-700 dark:text-slate-200">Asset Opt-In Manager</div>
+      <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+        An account must opt in to an ASA before it can receive it. Each opt-in locks {optInCostAlgo} ALGO of min balance, released on
+        opt-out.
+      </p>
+
+      {/* Lookup */}
+      <div className="mt-4 flex flex-col sm:flex-row gap-3">
+        <input
+          type="text"
+          inputMode="numeric"
+          className="flex-1 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition"
+          placeholder="Asset ID, e.g. 10458941"
+          value={lookupId}
+          onChange={(e) => setLookupId(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleLookup()
+          }}
+        />
+        <button
+          type="button"
+          onClick={() => handleLookup()}
+          disabled={lookupLoading}
+          className="inline-flex items-center justify-center px-4 py-2 rounded-lg font-semibold transition bg-teal-600 hover:bg-teal-700 text-white shadow-md disabled:opacity-50"
+        >
+          {lookupLoading ? (
+            <span className="flex items-center gap-2">
+              <AiOutlineLoading3Quarters className="animate-spin" />
+              Looking up…
+            </span>
+          ) : (
+            'Look up'
+          )}
+        </button>
+      </div>
+
+      {presets.length > 0 && (
+        <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+          Quick pick:
+          {presets.map((p) => (
+            <button
+              key={p.label}
+              type="button"
+              onClick={() => handleLookup(String(p.assetId))}
+              className="px-2 py-1 rounded border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200 transition"
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {lookupError && <p className="mt-2 text-xs text-red-600 dark:text-red-400">{lookupError}</p>}
+
+      {lookedUp && (
+        <div className="mt-4 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 p-4">
+          <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+            <div className="text-sm text-slate-700 dark:text-slate-200">
+              <div className="font-semibold text-slate-900 dark:text-white">
+                {lookedUp.assetName || 'Unnamed asset'}{' '}
+                {lookedUp.unitName && <span className="font-mono text-slate-500">({lookedUp.unitName})</span>}
+              </div>
+              <div className="mt-1 grid grid-cols-2 gap-x-6 gap-y-1 text-xs">
+                <span>
+                  ID: <span className="font-mono">{String(lookedUp.assetId)}</span>
+                </span>
+                <span>
+                  Decimals: <span className="font-mono">{lookedUp.decimals}</span>
+                </span>
+                <span>
+                  Total: <span className="font-mono">{baseUnitsToDecimal(lookedUp.total, lookedUp.decimals)}</span>
+                </span>
+                <span title={lookedUp.creator}>
+                  Creator: <span className="font-mono">{ellipseAddress(lookedUp.creator, 4)}</span>
+                </span>
+                <span>Freeze: {lookedUp.freeze ? 'enabled' : 'disabled'}</span>
+                <span>Clawback: {lookedUp.clawback ? 'enabled' : 'disabled'}</span>
+                <span>Default frozen: {lookedUp.defaultFrozen ? 'yes' : 'no'}</span>
+              </div>
+              <div className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+                Opt-in cost: {optInCostAlgo} ALGO min balance + network fee.
+                {spendable !== null && <> Available: {baseUnitsToDecimal(spendable > 0n ? spendable : 0n, ALGO_DECIMALS)} ALGO.</>}
+              </div>
+              {holding && (
+                <div className="mt-2 text-xs">
+                  {holding.status === 'opted-in' ? (
+                    <span className="text-teal-700 dark:text-teal-300">
+                      Opted in ✅ Balance {baseUnitsToDecimal(holding.balance, lookedUp.decimals)}
+                      {holding.isFrozen && ' (frozen)'}
+                    </span>
+                  ) : (
+                    <span className="text-slate-600 dark:text-slate-300">Not opted in</span>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {activeAddress &&
+              holding &&
+              (holding.status === 'opted-in' ? (
+                renderOptOutButton(lookedUp.assetId, lookedUp.creator, holding.balance, lookedUp.decimals, lookedUp.unitName ?? '')
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => handleOptIn(lookedUp.assetId)}
+                  disabled={actionAssetId !== null || !canAffordOptIn}
+                  title={canAffordOptIn ? undefined : 'Not enough ALGO to cover the min balance increase'}
+                  className="inline-flex items-center justify-center px-4 py-2 rounded-lg font-semibold transition bg-teal-600 hover:bg-teal-700 text-white shadow-md disabled:bg-slate-300 disabled:text-slate-500 dark:disabled:bg-slate-700 dark:disabled:text-slate-400"
+                >
+                  {actionAssetId === lookedUp.assetId ? (
+                    <span className="flex items-center gap-2">
+                      <AiOutlineLoading3Quarters className="animate-spin" />
+                      Opting in…
+                    </span>
+                  ) : (
+                    'Opt in'
+                  )}
+                </button>
+              ))}
+          </div>
+        </div>
+      )}
+
+      {/* Current opt-ins */}
+      {activeAddress && (
+        <div className="mt-4">
+          <div className="flex items-center justify-between mb-2">
+            <div className="text-xs font-semibold text-slate-700 dark:text-slate-200">Your opt-ins ({optIns.length})</div>
+            <button
+              type="button"
+              onClick={refreshOptIns}
+              disabled={optInsLoading}
+              className="px-3 py-1 text-xs bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition disabled:opacity-50"
+            >
+              {optInsLoading ? 'Loading…' : 'Refresh'}
+            </button>
+          </div>
+
+          <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-900">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800">
+                  <th className="text-left px-3 py-2 font-semibold text-slate-900 dark:text-white">Asset ID</th>
+                  <th className="text-left px-3 py-2 font-semibold text-slate-900 dark:text-white">Name</th>
+                  <th className="text-left px-3 py-2 font-semibold text-slate-900 dark:text-white">Balance</th>
+                  <th className="text-right px-3 py-2 font-semibold text-slate-900 dark:text-white">Action</th>
+                </tr>
+              </thead>
+              <tbody>
+                {optIns.length === 0 ? (
+                  <tr>
+                    <td colSpan={4} className="text-center px-3 py-4 text-slate-500 dark:text-slate-400">
+                      {optInsLoading ? 'Loading opt-ins…' : 'This account is not opted in to any asset.'}
+                    </td>
+                  </tr>
+                ) : (
+                  optIns.map((o) => (
+                    <tr key={String(o.assetId)} className="border-b border-slate-200 dark:border-slate-700">
+                      <td className="font-mono px-3 py-2 text-slate-700 dark:text-slate-300">{String(o.assetId)}</td>
+                      <td className="px-3 py-2 text-slate-900 dark:text-white">
+                        {o.asset?.assetName || '—'}{' '}
+                        {o.asset?.unitName && <span className="font-mono text-slate-500">({o.asset.unitName})</span>}
+                      </td>
+                      <td className="font-mono px-3 py-2 text-slate-700 dark:text-slate-300">
+                        {baseUnitsToDecimal(o.balance, o.asset?.decimals ?? 0)}
+                        {o.isFrozen && <span className="ml-2 text-sky-600 dark:text-sky-400">frozen</span>}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {renderOptOutButton(o.assetId, o.asset?.creator, o.balance, o.asset?.decimals ?? 0, o.asset?.unitName ?? '')}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
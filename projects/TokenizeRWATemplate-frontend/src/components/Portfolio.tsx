@@ -0,0 +1,416 @@
+import { microAlgos } from '@algorandfoundation/algokit-utils'
+import { useWallet } from '@txnlab/use-wallet-react'
+import { isValidAddress } from 'algosdk'
+import { useSnackbar } from 'notistack'
+import { Fragment, useCallback, useEffect, useState } from 'react'
+import { AiOutlineInfoCircle, AiOutlineLoading3Quarters } from 'react-icons/ai'
+import { useNavigate } from 'react-router-dom'
+import { baseUnitsToDecimal, decimalToBaseUnits } from '../utils/amounts'
+import { useAlgorand, useAppNetwork } from '../utils/network/NetworkContext'
+import { optOutBlocker, optOutOfAsset } from '../utils/optIns'
+import { ALGO_DECIMALS, fetchPortfolio, invalidatePortfolio, Portfolio as PortfolioData, PortfolioHolding } from '../utils/portfolio'
+import { runTransferPreflight } from '../utils/preflight'
+
+/** Row key for the inline send form: 'ALGO' or an asset id */
+type RowKey = 'ALGO' | string
+
+/**
+ * Portfolio Component
+ * ALGO and every ASA held by the connected account (balance, frozen flag, created-by-me)
+ * with quick actions: send, opt out and view detail.
+ */
+export default function Portfolio() {
+  const [portfolio, setPortfolio] = useState<PortfolioData | null>(null)
+  const [loading, setLoading] = useState<boolean>(false)
+  const [error, setError] = useState<string>('')
+
+  // Inline send form (one row at a time)
+  const [sendRow, setSendRow] = useState<RowKey | null>(null)
+  const [sendReceiver, setSendReceiver] = useState<string>('')
+  const [sendAmount, setSendAmount] = useState<string>('')
+  const [sendIssues, setSendIssues] = useState<string[]>([])
+
+  const [actionRow, setActionRow] = useState<RowKey | null>(null)
+  const [confirmOptOut, setConfirmOptOut] = useState<string | null>(null)
+
+  const { transactionSigner, activeAddress } = useWallet()
+  const { enqueueSnackbar } = useSnackbar()
+  const navigate = useNavigate()
+
+  const { network } = useAppNetwork()
+  const loraBase = network.explorerBase
+  const algorand = useAlgorand()
+
+  const loadPortfolio = useCallback(async () => {
+    if (!activeAddress) {
+      setPortfolio(null)
+      return
+    }
+
+    setLoading(true)
+    setError('')
+    try {
+      setPortfolio(await fetchPortfolio(algorand, network.id, activeAddress))
+    } catch (e: any) {
+      setError(e?.message || 'Could not load account information')
+    } finally {
+      setLoading(false)
+    }
+  }, [activeAddress, algorand, network.id])
+
+  useEffect(() => {
+    loadPortfolio()
+    setSendRow(null)
+    setConfirmOptOut(null)
+  }, [loadPortfolio])
+
+  const reload = () => {
+    if (activeAddress) invalidatePortfolio(network.id, activeAddress)
+    loadPortfolio()
+  }
+
+  const txAction = (txId?: string) => () =>
+    txId ? (
+      <a
+        href={`${loraBase}/transaction/${txId}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        style={{ textDecoration: 'underline', marginLeft: 8 }}
+      >
+        View Tx on Lora ↗
+      </a>
+    ) : null
+
+  const openSend = (row: RowKey) => {
+    setSendRow(sendRow === row ? null : row)
+    setSendReceiver('')
+    setSendAmount('')
+    setSendIssues([])
+  }
+
+  /**
+   * Send ALGO or an ASA after the same pre-flight checks as the transfer form
+   */
+  const handleSend = async (holding?: PortfolioHolding) => {
+    if (!activeAddress || !transactionSigner) {
+      enqueueSnackbar('Wallet signer not available. Please try reconnecting your wallet.', { variant: 'error' })
+      return
+    }
+
+    const receiver = sendReceiver.trim()
+    if (!isValidAddress(receiver)) {
+      setSendIssues(['Not a valid Algorand address.'])
+      return
+    }
+
+    const decimals = holding ? (holding.asset?.decimals ?? 0) : ALGO_DECIMALS
+    let amount: bigint
+    try {
+      amount = decimalToBaseUnits(sendAmount, decimals)
+    } catch (e: any) {
+      setSendIssues([e?.message || 'Invalid amount'])
+      return
+    }
+    if (amount <= 0n) {
+      setSendIssues(['Amount must be greater than 0.'])
+      return
+    }
+
+    const row: RowKey = holding ? String(holding.assetId) : 'ALGO'
+    try {
+      setActionRow(row)
+      setSendIssues([])
+
+      const issues = await runTransferPreflight(algorand, {
+        sender: activeAddress,
+        receiver,
+        assetId: holding ? holding.assetId : null,
+        amount,
+      })
+      if (issues.length > 0) {
+        setSendIssues(issues.map((i) => i.message))
+        return
+      }
+
+      const result = holding
+        ? await algorand.send.assetTransfer({
+            sender: activeAddress,
+            signer: transactionSigner,
+            assetId: holding.assetId,
+            receiver,
+            amount,
+          })
+        : await algorand.send.payment({
+            sender: activeAddress,
+            signer: transactionSigner,
+            receiver,
+            amount: microAlgos(amount),
+          })
+
+      enqueueSnackbar(`✅ Sent ${sendAmount.trim()} ${holding ? holding.asset?.unitName || 'units' : 'ALGO'}`, {
+        variant: 'success',
+        action: txAction(result.txIds[0]),
+      })
+      setSendRow(null)
+      reload()
+    } catch (e: any) {
+      const msg = e?.response?.body?.message || e?.message || String(e)
+      enqueueSnackbar(`Send failed: ${msg}`, { variant: 'error' })
+    } finally {
+      setActionRow(null)
+    }
+  }
+
+  /**
+   * Opt out = close the holding to the creator; any remaining balance goes with it (see optOutOfAsset)
+   */
+  const handleOptOut = async (holding: PortfolioHolding) => {
+    if (!activeAddress || !transactionSigner) {
+      enqueueSnackbar('Wallet signer not available. Please try reconnecting your wallet.', { variant: 'error' })
+      return
+    }
+    const creator = holding.asset?.creator
+    const blocker = optOutBlocker(activeAddress, creator)
+    if (blocker) {
+      enqueueSnackbar(`Cannot opt out: ${blocker}.`, { variant: 'warning' })
+      return
+    }
+
+    const row = String(holding.assetId)
+    if (holding.amount > 0n && confirmOptOut !== row) {
+      setConfirmOptOut(row)
+      return
+    }
+
+    try {
+      setActionRow(row)
+      setConfirmOptOut(null)
+
+      const txId = await optOutOfAsset(algorand, {
+        sender: activeAddress,
+        signer: transactionSigner,
+        assetId: holding.assetId,
+        creator,
+      })
+
+      enqueueSnackbar(`✅ Opted out of asset ${holding.assetId}. Min balance released.`, {
+        variant: 'success',
+        action: txAction(txId),
+      })
+      reload()
+    } catch (e: any) {
+      const msg = e?.response?.body?.message || e?.message || String(e)
+      enqueueSnackbar(`Opt-out failed: ${msg}`, { variant: 'error' })
+    } finally {
+      setActionRow(null)
+    }
+  }
+
+  const actionButtonClass =
+    'px-2 py-1 text-[11px] rounded border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200 transition disabled:opacity-50'
+
+  const renderSendForm = (holding?: PortfolioHolding) => (
+    <tr className="border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/40">
+      <td colSpan={5} className="px-4 py-3">
+        <div className="flex flex-col md:flex-row gap-3">
+          <input
+            type="text"
+            className="flex-1 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-3 py-2 text-sm transition"
+            placeholder="Recipient address"
+            value={sendReceiver}
+            onChange={(e) => setSendReceiver(e.target.value)}
+          />
+          <input
+            type="text"
+            inputMode="decimal"
+            className="md:w-40 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-3 py-2 text-sm transition"
+            placeholder={`Amount (${holding ? holding.asset?.unitName || 'units' : 'ALGO'})`}
+            value={sendAmount}
+            onChange={(e) => setSendAmount(e.target.value)}
+          />
+          <button
+            type="button"
+            onClick={() => handleSend(holding)}
+            disabled={actionRow !== null || !sendReceiver || !sendAmount}
+            className="px-4 py-2 rounded-lg text-sm font-semibold transition bg-teal-600 hover:bg-teal-700 text-white shadow-md disabled:bg-slate-300 disabled:text-slate-500 disabled:shadow-none dark:disabled:bg-slate-700 dark:disabled:text-slate-400"
+          >
+            {actionRow === (holding ? String(holding.assetId) : 'ALGO') ? 'Sending…' : 'Send'}
+          </button>
+        </div>
+        {sendIssues.map((issue) => (
+          <p key={issue} className="mt-1 text-[11px] text-red-600 dark:text-red-400">
+            {issue}
+          </p>
+        ))}
+      </td>
+    </tr>
+  )
+
+  if (!activeAddress) {
+    return (
+      <div className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-lg p-6 sm:p-8 text-sm text-slate-600 dark:text-slate-300">
+        Connect a wallet to see your portfolio.
+      </div>
+    )
+  }
+
+  const holdings = portfolio?.holdings ?? []
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-lg p-6 sm:p-8">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900 dark:text-white">Portfolio</h2>
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            Everything the connected account holds on {network.label}
+            {portfolio && <> (round {String(portfolio.round)})</>}.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={reload}
+          disabled={loading}
+          className="px-3 py-1 text-xs bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition disabled:opacity-50"
+        >
+          {loading ? (
+            <span className="flex items-center gap-1">
+              <AiOutlineLoading3Quarters className="animate-spin" />
+              Loading…
+            </span>
+          ) : (
+            'Refresh'
+          )}
+        </button>
+      </div>
+
+      {error && <p className="mb-4 text-xs text-red-600 dark:text-red-400">Could not load portfolio: {error}</p>}
+
+      <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800">
+              <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Asset</th>
+              <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Unit</th>
+              <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Balance</th>
+              <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Status</th>
+              <th className="text-right px-4 py-3 font-semibold text-slate-900 dark:text-white">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {portfolio && (
+              <>
+                <tr className="border-b border-slate-200 dark:border-slate-700">
+                  <td className="px-4 py-3 font-medium text-slate-900 dark:text-white">Algorand</td>
+                  <td className="px-4 py-3 font-mono text-slate-700 dark:text-slate-300">ALGO</td>
+                  <td className="px-4 py-3 font-mono text-slate-700 dark:text-slate-300">
+                    {baseUnitsToDecimal(portfolio.algoAmount, ALGO_DECIMALS)}
+                    <span className="block text-[11px] text-slate-500 dark:text-slate-400">
+                      {baseUnitsToDecimal(portfolio.minBalance, ALGO_DECIMALS)} locked as min balance
+                    </span>
+                  </td>
+                  <td className="px-4 py-3" />
+                  <td className="px-4 py-3 text-right">
+                    <button type="button" onClick={() => openSend('ALGO')} disabled={actionRow !== null} className={actionButtonClass}>
+                      Send
+                    </button>
+                  </td>
+                </tr>
+                {sendRow === 'ALGO' && renderSendForm()}
+              </>
+            )}
+
+            {holdings.map((h) => {
+              const row = String(h.assetId)
+              const decimals = h.asset?.decimals ?? 0
+              const optOutBlocked = optOutBlocker(activeAddress ?? '', h.asset?.creator)
+              return (
+                <Fragment key={row}>
+                  <tr className="border-b border-slate-200 dark:border-slate-700">
+                    <td className="px-4 py-3 text-slate-900 dark:text-white">
+                      {h.asset?.assetName || 'Unnamed asset'}
+                      <span className="block font-mono text-[11px] text-slate-500 dark:text-slate-400">#{row}</span>
+                    </td>
+                    <td className="px-4 py-3 font-mono text-slate-700 dark:text-slate-300">{h.asset?.unitName || '—'}</td>
+                    <td className="px-4 py-3 font-mono text-slate-700 dark:text-slate-300">{baseUnitsToDecimal(h.amount, decimals)}</td>
+                    <td className="px-4 py-3">
+                      <div className="flex flex-wrap gap-1">
+                        {h.isFrozen && (
+                          <span className="inline-block px-2 py-0.5 rounded text-[11px] font-medium bg-sky-50 text-sky-700 dark:bg-sky-900/30 dark:text-sky-300">
+                            Frozen
+                          </span>
+                        )}
+                        {h.createdByMe && (
+                          <span className="inline-block px-2 py-0.5 rounded text-[11px] font-medium bg-teal-50 text-teal-700 dark:bg-teal-900/30 dark:text-teal-300">
+                            Created by you
+                          </span>
+                        )}
+                        {!h.asset && (
+                          <span className="inline-block px-2 py-0.5 rounded text-[11px] font-medium bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-400">
+                            Destroyed
+                          </span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex flex-wrap justify-end gap-2">
+                        <button
+                          type="button"
+                          onClick={() => openSend(row)}
+                          disabled={actionRow !== null || h.isFrozen || h.amount === 0n}
+                          className={actionButtonClass}
+                        >
+                          Send
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleOptOut(h)}
+                          disabled={actionRow !== null || optOutBlocked !== null}
+                          title={optOutBlocked ?? undefined}
+                          className={
+                            confirmOptOut === row
+                              ? 'px-2 py-1 text-[11px] rounded border border-red-300 bg-red-50 text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400 transition disabled:opacity-50'
+                              : actionButtonClass
+                          }
+                        >
+                          {actionRow === row && sendRow !== row
+                            ? 'Opting out…'
+                            : confirmOptOut === row
+                              ? `Confirm: return ${baseUnitsToDecimal(h.amount, decimals)} to creator`
+                              : 'Opt out'}
+                        </button>
+                        <button type="button" onClick={() => navigate(`/asset/${row}`)} className={actionButtonClass}>
+                          Detail
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                  {sendRow === row && renderSendForm(h)}
+                </Fragment>
+              )
+            })}
+
+            {portfolio && holdings.length === 0 && (
+              <tr>
+                <td colSpan={5} className="text-center px-4 py-6 text-slate-500 dark:text-slate-400">
+                  No ASA holdings yet. Opt in to an asset from the Tokenize page to receive it.
+                </td>
+              </tr>
+            )}
+            {!portfolio && (
+              <tr>
+                <td colSpan={5} className="text-center px-4 py-6 text-slate-500 dark:text-slate-400">
+                  {loading ? 'Loading account…' : 'No data.'}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="mt-3 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
+        <AiOutlineInfoCircle />
+        Read from algod account information; reused at newer rounds until the account's balances change.
+      </p>
+    </div>
+  )
+}
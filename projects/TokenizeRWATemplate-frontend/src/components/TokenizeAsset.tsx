@@ -1,124 +1,73 @@
-import { AlgorandClient, microAlgos } from '@algorandfoundation/algokit-utils'
+import { microAlgos } from '@algorandfoundation/algokit-utils'
 import { useWallet } from '@txnlab/use-wallet-react'
-import { sha512_256 } from 'js-sha512'
+import { bytesToBase64, isValidAddress } from 'algosdk'
 import { useSnackbar } from 'notistack'
-import { ChangeEvent, useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { ChangeEvent, useCallback, useEffect, useRef, useState } from 'react'
 import { AiOutlineCloudUpload, AiOutlineInfoCircle, AiOutlineLoading3Quarters } from 'react-icons/ai'
 import { BsCoin } from 'react-icons/bs'
-import { getAlgodConfigFromViteEnvironment } from '../utils/network/getAlgoClientConfigs'
-
-/**
- * Type for created assets stored in browser localStorage
- * Captures ASA configuration including compliance fields
- */
-type CreatedAsset = {
-  assetId: string
-  assetName: string
-  unitName: string
-  total: string
-  decimals: string
-  url?: string
-  manager?: string
-  reserve?: string
-  freeze?: string
-  clawback?: string
-  createdAt: string
-}
-
-/**
- * Tri-state for USDC opt-in status
- * - 'loading': blockchain query in progress, UI should show spinner/loading
- * - 'opted-in': confirmed on-chain that user has opted in
- * - 'not-opted-in': confirmed on-chain that user has NOT opted in
- */
-type UsdcStatus = 'loading' | 'opted-in' | 'not-opted-in'
-
-const STORAGE_KEY = 'tokenize_assets'
-const LORA_BASE = 'https://lora.algokit.io/testnet'
-
-// Circle USDC on Algorand TestNet (ASA)
-const TESTNET_USDC_ASSET_ID = 10458941
+import { useNavigate } from 'react-router-dom'
+import { decimalToBaseUnits } from '../utils/amounts'
+import { arc19TemplateUrl, cidToReserveAddress } from '../utils/arc19'
+import { computeArc3MetadataHash, toArc3Url } from '../utils/arc3'
+import {
+  arc69MediaUrl,
+  buildArc69Metadata,
+  encodeArc69Note,
+  estimateArc69NoteBytes,
+  hasArc69MediaHint,
+  MAX_NOTE_BYTES,
+} from '../utils/arc69'
+import {
+  appendClawbackAudit,
+  buildClawbackNote,
+  ClawbackAuditEntry,
+  clawbackNoteBytes,
+  loadClawbackAudit,
+  MAX_CLAWBACK_NOTE_BYTES,
+} from '../utils/clawbackAudit'
+import { CollectionMintParams } from '../utils/collection'
+import {
+  clearCachedAssets,
+  CreatedAsset,
+  fetchCreatedAssets,
+  loadCachedAssets,
+  rememberCreatedAsset,
+  syncCachedAssets,
+} from '../utils/createdAssets'
+import {
+  MEDIA_UPLOAD_ACCEPT,
+  MintServerAuth,
+  pinImageOnly,
+  pinImageWithMetadata,
+  pinVaultDocument,
+  registerMintedAsset,
+} from '../utils/mintServer'
+import { useAlgorand, useAppNetwork } from '../utils/network/NetworkContext'
+import { EMPTY_NFT_METADATA, NFT_STANDARDS, NftMetadataDraft, NftStandard, validateNftMetadata } from '../utils/nftMetadata'
+import { lookupHolding, OptInStatus } from '../utils/optIns'
+import { PreflightIssue, runTransferPreflight } from '../utils/preflight'
+import { MAX_VAULT_DOCUMENTS, parseVaultRecipients, VaultDocument } from '../utils/vault'
+import Arc3Verifier from './Arc3Verifier'
+import Arc69Summary from './Arc69Summary'
+import BatchTransfer from './BatchTransfer'
+import ClawbackAuditLog from './ClawbackAuditLog'
+import CollectionMint from './CollectionMint'
+import NftImage from './NftImage'
+import NftMetadataEditor from './NftMetadataEditor'
+import OptInManager from './OptInManager'
+import VaultDocumentsInput from './VaultDocumentsInput'
+
+// Circle USDC (ASA id per network comes from the network registry)
 const USDC_DECIMALS = 6
 const ALGO_DECIMALS = 6
 
-type TransferMode = 'manual' | 'algo' | 'usdc'
-
-function resolveBackendBase(): string {
-  // 1) Respect explicit env (Vercel or custom)
-  const env = import.meta.env.VITE_API_URL?.trim()
-  if (env) {
-    const cleaned = env.replace(/\/$/, '')
-    // If someone pastes "my-backend.vercel.app" (no protocol),
-    // the browser will treat it as a relative path. Force https.
-    return cleaned.startsWith('http://') || cleaned.startsWith('https://') ? cleaned : `https://${cleaned}`
-  }
-
-  // 2) Codespaces: convert current host to port 3001
-  // e.g. https://abc-5173.app.github.dev -> https://abc-3001.app.github.dev
-  const host = window.location.host
-  if (host.endsWith('.app.github.dev')) {
-    const base = host.replace(/-\d+\.app\.github\.dev$/, '-3001.app.github.dev')
-    return `https://${base}`
-  }
-
-  // 3) Plain local fallback
-  return 'http://localhost:3001'
-}
-
-/**
- * Load created assets from browser localStorage
- */
-function loadAssets(): CreatedAsset[] {
-  try {
-    const raw = localStorage.getItem(STORAGE_KEY)
-    return raw ? (JSON.parse(raw) as CreatedAsset[]) : []
-  } catch {
-    return []
-  }
-}
-
-/**
- * Save a newly created asset to localStorage
- * Returns updated asset list with new asset at the top
- */
-function persistAsset(asset: CreatedAsset): CreatedAsset[] {
-  const existing = loadAssets()
-  const next = [asset, ...existing]
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
-  return next
-}
-
-/**
- * Convert a decimal string (e.g. "1.23") into base units bigint given decimals.
- * - Supports up to `decimals` fractional digits.
- * - Rejects negatives and invalid formats.
- */
-function decimalToBaseUnits(value: string, decimals: number): bigint {
-  const v = value.trim()
-  if (!v) throw new Error('Amount is required')
-
-  // Allow: "1", "1.", "1.0", ".5" ? We'll keep it simple: must start with digit.
-  // (Users can type 0.5)
-  if (!/^\d+(\.\d+)?$/.test(v)) throw new Error('Invalid amount format')
-
-  const [wholeRaw, fracRaw = ''] = v.split('.')
-  const whole = wholeRaw || '0'
-  const frac = fracRaw || ''
-
-  if (frac.length > decimals) {
-    throw new Error(`Too many decimal places (max ${decimals})`)
-  }
-
-  const fracPadded = frac.padEnd(decimals, '0')
-  const combined = `${whole}${fracPadded}`.replace(/^0+(?=\d)/, '') // keep at least one digit
-  return BigInt(combined || '0')
-}
+type TransferMode = 'manual' | 'algo' | 'usdc' | 'clawback'
 
 /**
  * TokenizeAsset Component
  * Main form for creating Algorand Standard Assets (ASAs)
  * + NFT minting panel (ASA mint with IPFS metadata)
- * Persists created assets to localStorage for tracking
+ * Lists created assets from the indexer (cached locally per account)
  */
 export default function TokenizeAsset() {
   // ===== ASA (original) state =====
@@ -136,6 +85,8 @@ export default function TokenizeAsset() {
 
   const [loading, setLoading] = useState<boolean>(false)
   const [createdAssets, setCreatedAssets] = useState<CreatedAsset[]>([])
+  const [createdAssetsLoading, setCreatedAssetsLoading] = useState<boolean>(false)
+  const [createdAssetsError, setCreatedAssetsError] = useState<string>('')
 
   // ===== Transfer state =====
   const [transferMode, setTransferMode] = useState<TransferMode>('manual')
@@ -144,12 +95,22 @@ export default function TokenizeAsset() {
   const [transferAmount, setTransferAmount] = useState<string>('1')
   const [transferLoading, setTransferLoading] = useState<boolean>(false)
 
+  // ===== Clawback state (compliance recovery) =====
+  // Target holder to revoke from + mandatory reason (tx note + audit log)
+  const [clawbackTarget, setClawbackTarget] = useState<string>('')
+  const [clawbackReason, setClawbackReason] = useState<string>('')
+  const [clawbackLog, setClawbackLog] = useState<ClawbackAuditEntry[]>(() => loadClawbackAudit())
+
+  // ===== Transfer pre-flight state =====
+  // Live checks (opt-in, balances, freeze, min balance) shown inline; submit stays disabled until clear
+  const [preflightIssues, setPreflightIssues] = useState<PreflightIssue[]>([])
+  const [preflightChecking, setPreflightChecking] = useState<boolean>(false)
+
   // ===== USDC opt-in state =====
   // Uses tri-state ('loading' | 'opted-in' | 'not-opted-in') to prevent infinite re-renders
   // Refs are used to track state without causing callback recreations
-  const [usdcStatus, setUsdcStatus] = useState<UsdcStatus>('loading')
+  const [usdcStatus, setUsdcStatus] = useState<OptInStatus>('loading')
   const [usdcBalance, setUsdcBalance] = useState<bigint>(0n)
-  const [usdcOptInLoading, setUsdcOptInLoading] = useState<boolean>(false)
 
   // Track if we've completed at least one successful blockchain check for this address
   const [hasCheckedUsdcOnChain, setHasCheckedUsdcOnChain] = useState<boolean>(false)
@@ -180,6 +141,28 @@ export default function TokenizeAsset() {
   const [nftFreeze, setNftFreeze] = useState<string>('')
   const [nftClawback, setNftClawback] = useState<string>('')
 
+  // NFT metadata (description, link, traits, RWA properties)
+  const [nftMetadata, setNftMetadata] = useState<NftMetadataDraft>(EMPTY_NFT_METADATA)
+  const [nftStandard, setNftStandard] = useState<NftStandard>('arc3')
+  const nftNoteBytes = nftStandard === 'arc69' ? estimateArc69NoteBytes(nftMetadata, selectedFile?.type) : 0
+  const nftMetadataProblems = [
+    ...validateNftMetadata(nftMetadata),
+    ...(nftNoteBytes > MAX_NOTE_BYTES ? [`ARC-69 metadata is too large for a note (${nftNoteBytes} / ${MAX_NOTE_BYTES} bytes).`] : []),
+  ]
+
+  // Confidential documents, encrypted client-side and listed in properties.documents
+  const [vaultFiles, setVaultFiles] = useState<File[]>([])
+  const [vaultRecipients, setVaultRecipients] = useState<string>('')
+  const vaultRecipientList = parseVaultRecipients(vaultRecipients)
+  const vaultProblems =
+    vaultFiles.length === 0
+      ? []
+      : [
+          ...vaultRecipientList.problems,
+          ...(vaultFiles.length > MAX_VAULT_DOCUMENTS ? [`At most ${MAX_VAULT_DOCUMENTS} documents per NFT.`] : []),
+          ...(nftStandard === 'arc69' ? ['Encrypted documents need ARC-3 or ARC-19 metadata (ARC-69 notes are limited to 1KB).'] : []),
+        ]
+
   // ===== use-wallet (Web3Auth OR WalletConnect) =====
   // Use transactionSigner (not signer) - this is the correct property name from use-wallet
   const { transactionSigner, activeAddress } = useWallet()
@@ -190,21 +173,24 @@ export default function TokenizeAsset() {
   // ===== Notifications =====
   const { enqueueSnackbar } = useSnackbar()
 
-  // ===== Algorand client =====
-  const algodConfig = getAlgodConfigFromViteEnvironment()
-  const algorand = useMemo(() => AlgorandClient.fromConfig({ algodConfig }), [algodConfig])
+  const navigate = useNavigate()
+
+  // ===== Algorand client (active network) =====
+  const { network: activeNetwork } = useAppNetwork()
+  const network = activeNetwork.id
+  const loraBase = activeNetwork.explorerBase
+  const usdcAssetId = activeNetwork.usdcAssetId
+  const algorand = useAlgorand()
 
   // Derived booleans for convenience (only valid when hasCheckedUsdcOnChain is true)
   const usdcOptedIn = usdcStatus === 'opted-in'
-  const usdcStatusLoading = usdcStatus === 'loading'
 
   /**
-   * Fetch USDC opt-in status from blockchain
-   * Uses asset-specific API for reliable opt-in detection
-   * Falls back to account information API if needed
+   * Fetch USDC opt-in status from blockchain (see lookupHolding)
+   * Keeps the tri-state used by the USDC transfer mode; opting in/out is handled by OptInManager
    */
   const checkUsdcOptInStatus = useCallback(async () => {
-    if (!activeAddress) {
+    if (!activeAddress || usdcAssetId === undefined) {
       setUsdcStatus('not-opted-in')
       setUsdcBalance(0n)
       setHasCheckedUsdcOnChain(false)
@@ -226,64 +212,9 @@ export default function TokenizeAsset() {
     }
 
     try {
-      // Method 1: Use asset-specific API (most reliable)
-      // Returns holding if opted in, throws if not opted in
-      let holding: any = null
-      let apiCallSucceeded = false
-
-      try {
-        holding = await algorand.asset.getAccountInformation(activeAddress, BigInt(TESTNET_USDC_ASSET_ID))
-        apiCallSucceeded = true
-      } catch (assetApiError: unknown) {
-        // API call failed - account is likely not opted in
-        const error = assetApiError as any
-
-        // Check if it's a 404/not found error (definitely not opted in)
-        // vs a network error (should fall through to method 2)
-        const isNotFoundError =
-          error?.message?.includes('not found') ||
-          error?.message?.includes('404') ||
-          error?.status === 404 ||
-          error?.response?.status === 404
-
-        if (isNotFoundError) {
-          setUsdcStatus('not-opted-in')
-          setUsdcBalance(0n)
-          setHasCheckedUsdcOnChain(true)
-          hasCheckedUsdcOnChainRef.current = true
-          return
-        }
-        // Non-404 error - fall through to method 2 for verification
-      }
-
-      // Process successful API call result
-      if (apiCallSucceeded && holding) {
-        const holdingAny = holding as any
-        const amount = holdingAny?.amount ?? holdingAny?.balance ?? 0
-        const balance = typeof amount === 'bigint' ? amount : BigInt(amount ?? 0)
-
-        setUsdcStatus('opted-in')
-        setUsdcBalance(balance)
-        setHasCheckedUsdcOnChain(true)
-        hasCheckedUsdcOnChainRef.current = true
-        return
-      }
-
-      // Method 2: Fallback to account information API
-      // Used when method 1 has non-404 errors or for verification
-      const info = await algorand.client.algod.accountInformation(activeAddress).do()
-      const assets: Array<{ assetId: bigint; amount?: number | bigint }> = info?.assets ?? []
-
-      const usdcHolding = assets.find((a) => a.assetId === BigInt(TESTNET_USDC_ASSET_ID))
-
-      if (usdcHolding) {
-        const balance = BigInt(usdcHolding.amount ?? 0)
-        setUsdcStatus('opted-in')
-        setUsdcBalance(balance)
-      } else {
-        setUsdcStatus('not-opted-in')
-        setUsdcBalance(0n)
-      }
+      const holding = await lookupHolding(algorand, activeAddress, usdcAssetId)
+      setUsdcStatus(holding.status)
+      setUsdcBalance(holding.balance)
 
       // Mark that we've successfully completed a blockchain check
       setHasCheckedUsdcOnChain(true)
@@ -300,9 +231,9 @@ export default function TokenizeAsset() {
     }
     // Note: hasCheckedUsdcOnChain is read from closure, not needed in deps
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [activeAddress, algorand])
+  }, [activeAddress, algorand, usdcAssetId])
 
-  // Effect: Check USDC status when address changes or on mount
+  // Effect: Check USDC status when address or network changes, or on mount
   // Small delay allows wallet state to stabilize after reconnect
   useEffect(() => {
     // Reset state when address changes
@@ -311,7 +242,7 @@ export default function TokenizeAsset() {
     hasShownUsdcWarningRef.current = false
     isCheckingUsdcRef.current = false
 
-    if (!activeAddress) {
+    if (!activeAddress || usdcAssetId === undefined) {
       setUsdcStatus('not-opted-in')
       setUsdcBalance(0n)
       return
@@ -326,7 +257,12 @@ export default function TokenizeAsset() {
 
     return () => clearTimeout(timeoutId)
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [activeAddress])
+  }, [activeAddress, algorand, usdcAssetId])
+
+  // Effect: Leave USDC mode when switching to a network without USDC (e.g. LocalNet)
+  useEffect(() => {
+    if (usdcAssetId === undefined && transferMode === 'usdc') setTransferMode('manual')
+  }, [usdcAssetId, transferMode])
 
   // Effect: Handle transfer mode changes and show appropriate warnings
   // Only shows warnings after blockchain state is confirmed (not during loading)
@@ -339,7 +275,7 @@ export default function TokenizeAsset() {
     if (transferMode === 'algo') {
       setTransferAssetId('ALGO')
     } else if (transferMode === 'usdc') {
-      setTransferAssetId(String(TESTNET_USDC_ASSET_ID))
+      setTransferAssetId(String(usdcAssetId ?? ''))
 
       // Show warnings only when:
       // 1. Actually switching TO usdc mode (not just re-render)
@@ -362,7 +298,7 @@ export default function TokenizeAsset() {
       }
     } else {
       // Manual mode - reset asset ID if it was set to ALGO or USDC
-      if (transferAssetId === 'ALGO' || transferAssetId === String(TESTNET_USDC_ASSET_ID)) {
+      if (transferAssetId === 'ALGO' || (usdcAssetId !== undefined && transferAssetId === String(usdcAssetId))) {
         setTransferAssetId('')
       }
       // Prefill with latest created asset if available
@@ -381,79 +317,34 @@ export default function TokenizeAsset() {
   }, [transferMode, hasCheckedUsdcOnChain, enqueueSnackbar])
 
   /**
-   * Opt-in to TestNet USDC
-   * Opt-in is an asset transfer of 0 USDC to self
+   * Load created assets for the connected account
+   * Shows the local cache immediately, then replaces it with live indexer data
    */
-  const handleOptInUsdc = async () => {
-    // Check for activeAddress first (primary indicator of connection)
-    // transactionSigner might be available even if not explicitly set
+  const refreshCreatedAssets = useCallback(async () => {
     if (!activeAddress) {
-      enqueueSnackbar('Please connect a wallet or continue with Google first.', { variant: 'warning' })
-      return
-    }
-
-    if (!signer) {
-      enqueueSnackbar('Wallet signer not available. Please try reconnecting your wallet.', { variant: 'error' })
+      setCreatedAssets([])
+      setCreatedAssetsError('')
       return
     }
 
-    // Prevent duplicate transactions if already opted in
-    if (usdcOptedIn) {
-      enqueueSnackbar('You are already opted in to USDC ✅', { variant: 'info' })
-      return
-    }
+    setCreatedAssets(loadCachedAssets(network, activeAddress)?.assets ?? [])
+    setCreatedAssetsLoading(true)
+    setCreatedAssetsError('')
 
     try {
-      setUsdcOptInLoading(true)
-      enqueueSnackbar('Opting into USDC...', { variant: 'info' })
-
-      // Opt-in = asset transfer of 0 to self
-      const result = await algorand.send.assetTransfer({
-        sender: activeAddress,
-        signer,
-        assetId: BigInt(TESTNET_USDC_ASSET_ID),
-        receiver: activeAddress,
-        amount: 0n,
-      })
-
-      const txId = (result as { txId?: string }).txId
-
-      // Optimistically update status immediately after successful transaction
-      setUsdcStatus('opted-in')
-      setUsdcBalance(0n)
-      setHasCheckedUsdcOnChain(true)
-      hasCheckedUsdcOnChainRef.current = true
-      hasShownUsdcWarningRef.current = true // Prevent warning since we just opted in
-
-      enqueueSnackbar('✅ USDC opted in!', {
-        variant: 'success',
-        action: () =>
-          txId ? (
-            <a
-              href={`${LORA_BASE}/transaction/${txId}`}
-              target="_blank"
-              rel="noopener noreferrer"
-              style={{ textDecoration: 'underline', marginLeft: 8 }}
-            >
-              View Tx on Lora ↗
-            </a>
-          ) : null,
-      })
-
-      // Verify with blockchain after delay to confirm opt-in
-      setTimeout(() => {
-        checkUsdcOptInStatus()
-      }, 2000)
-    } catch (e) {
-      enqueueSnackbar('USDC opt-in failed.', { variant: 'error' })
+      const fresh = await fetchCreatedAssets(algorand.client.indexer, activeAddress)
+      setCreatedAssets(syncCachedAssets(network, activeAddress, fresh))
+    } catch (e: any) {
+      console.error('[Created assets] indexer error:', e)
+      setCreatedAssetsError(e?.message || 'Indexer request failed')
     } finally {
-      setUsdcOptInLoading(false)
+      setCreatedAssetsLoading(false)
     }
-  }
+  }, [activeAddress, algorand, network])
 
   useEffect(() => {
-    setCreatedAssets(loadAssets())
-  }, [])
+    refreshCreatedAssets()
+  }, [refreshCreatedAssets])
 
   useEffect(() => {
     if (activeAddress && !manager) setManager(activeAddress)
@@ -472,6 +363,75 @@ export default function TokenizeAsset() {
     }
   }, [createdAssets, transferAssetId, transferMode])
 
+  // Effect: Re-run transfer pre-flight checks (debounced) whenever the transfer inputs change
+  useEffect(() => {
+    setPreflightIssues([])
+    setPreflightChecking(false)
+
+    const receiver = receiverAddress.trim()
+    const amountText = transferAmount.trim()
+    const isAsa = transferMode === 'manual' || transferMode === 'clawback'
+    if (!activeAddress || !receiver || !amountText) return
+    if (isAsa && !isWholeNumber(transferAssetId)) return
+    if (transferMode === 'usdc' && usdcAssetId === undefined) return
+
+    if (!isValidAddress(receiver)) {
+      setPreflightIssues([{ field: 'receiver', message: 'Not a valid Algorand address.' }])
+      return
+    }
+    if (transferMode === 'clawback') {
+      if (!clawbackTarget.trim()) return
+      if (!isValidAddress(clawbackTarget.trim())) {
+        setPreflightIssues([{ field: 'holder', message: 'Not a valid Algorand address.' }])
+        return
+      }
+    }
+
+    let cancelled = false
+    setPreflightChecking(true)
+
+    const timeoutId = setTimeout(async () => {
+      try {
+        const assetId = transferMode === 'algo' ? null : transferMode === 'usdc' ? usdcAssetId! : BigInt(transferAssetId)
+
+        // Manual ASA amounts are base units; clawback amounts use the asset's decimals
+        let decimals = 0
+        if (transferMode === 'algo') decimals = ALGO_DECIMALS
+        if (transferMode === 'usdc') decimals = USDC_DECIMALS
+        if (transferMode === 'clawback') decimals = (await algorand.asset.getById(assetId!)).decimals
+
+        let amount: bigint
+        try {
+          amount = decimalToBaseUnits(amountText, decimals)
+        } catch (e: any) {
+          if (!cancelled) setPreflightIssues([{ field: 'amount', message: e?.message || 'Invalid amount' }])
+          return
+        }
+
+        const issues = await runTransferPreflight(algorand, {
+          sender: activeAddress,
+          receiver,
+          assetId,
+          amount,
+          clawbackTarget: transferMode === 'clawback' ? clawbackTarget.trim() : undefined,
+        })
+        if (!cancelled) setPreflightIssues(issues)
+      } catch (e: any) {
+        if (!cancelled) {
+          setPreflightIssues([{ field: 'sender', message: `Could not run pre-flight checks: ${e?.message || 'Unknown error'}` }])
+        }
+      } finally {
+        if (!cancelled) setPreflightChecking(false)
+      }
+    }, 400)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeoutId)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeAddress, algorand, usdcAssetId, transferMode, transferAssetId, receiverAddress, transferAmount, clawbackTarget])
+
   const resetDefaults = () => {
     setAssetName('Tokenized Coffee Membership')
     setUnitName('COFFEE')
@@ -501,6 +461,11 @@ export default function TokenizeAsset() {
     setNftReserve('')
     setNftFreeze('')
     setNftClawback('')
+
+    setNftMetadata(EMPTY_NFT_METADATA)
+    setVaultFiles([])
+    setVaultRecipients('')
+    setNftStandard('arc3')
   }
 
   const isWholeNumber = (v: string) => /^\d+$/.test(v)
@@ -518,7 +483,7 @@ export default function TokenizeAsset() {
 
   /**
    * Handle ASA creation with validation and on-chain transaction
-   * Adjusts total supply by decimals and saves asset to localStorage
+   * Adjusts total supply by decimals and adds the asset to the local cache until indexed
    */
   const handleTokenize = async () => {
     // Check for activeAddress first (primary indicator of connection)
@@ -573,6 +538,7 @@ export default function TokenizeAsset() {
       })
 
       const assetId = createResult.assetId
+      const confirmedRound = createResult.confirmation.confirmedRound
 
       const newEntry: CreatedAsset = {
         assetId: String(assetId),
@@ -585,18 +551,18 @@ export default function TokenizeAsset() {
         reserve: reserve ? String(reserve) : undefined,
         freeze: freeze ? String(freeze) : undefined,
         clawback: clawback ? String(clawback) : undefined,
-        createdAt: new Date().toISOString(),
+        createdAtRound: confirmedRound !== undefined ? String(confirmedRound) : undefined,
       }
 
-      const next = persistAsset(newEntry)
-      setCreatedAssets(next)
+      setCreatedAssets(rememberCreatedAsset(network, activeAddress, newEntry))
+      registerMintedAsset(network, assetId, createResult.txIds[0])
 
       enqueueSnackbar(`✅ Success! Asset ID: ${assetId}`, {
         variant: 'success',
         action: () =>
           assetId ? (
             <a
-              href={`${LORA_BASE}/asset/${assetId}`}
+              href={`${loraBase}/asset/${assetId}`}
               target="_blank"
               rel="noopener noreferrer"
               style={{ textDecoration: 'underline', marginLeft: 8 }}
@@ -619,7 +585,7 @@ export default function TokenizeAsset() {
   }
 
   /**
-   * Transfer assets (Manual ASA / USDC ASA / ALGO payment)
+   * Transfer assets (Manual ASA / USDC ASA / ALGO payment / clawback)
    * Handles validation, amount conversion, and transaction submission
    */
   const handleTransferAsset = async () => {
@@ -656,6 +622,35 @@ export default function TokenizeAsset() {
       }
     }
 
+    // Clawback: validate Asset ID, holder to revoke from and the mandatory reason
+    if (transferMode === 'clawback') {
+      if (!transferAssetId || !isWholeNumber(transferAssetId)) {
+        enqueueSnackbar('Please enter a valid Asset ID (number).', { variant: 'warning' })
+        return
+      }
+      if (!clawbackTarget.trim()) {
+        enqueueSnackbar('Please enter the holder address to revoke tokens from.', { variant: 'warning' })
+        return
+      }
+      if (!clawbackReason.trim()) {
+        enqueueSnackbar('A reason is required for clawback. It is recorded in the transaction note and audit log.', {
+          variant: 'warning',
+        })
+        return
+      }
+      const noteBytes = clawbackNoteBytes(clawbackReason.trim())
+      if (noteBytes > MAX_CLAWBACK_NOTE_BYTES) {
+        enqueueSnackbar(`Reason is too long: the note would be ${noteBytes} bytes (max ${MAX_CLAWBACK_NOTE_BYTES} bytes).`, {
+          variant: 'warning',
+        })
+        return
+      }
+      if (!/^\d+(\.\d+)?$/.test(transferAmount.trim())) {
+        enqueueSnackbar('Amount must be a valid number (decimals allowed).', { variant: 'warning' })
+        return
+      }
+    }
+
     // USDC + ALGO: allow decimals up to 6 places
     if (transferMode === 'algo' || transferMode === 'usdc') {
       if (!/^\d+(\.\d+)?$/.test(transferAmount.trim())) {
@@ -664,6 +659,11 @@ export default function TokenizeAsset() {
       }
     }
 
+    if (transferMode === 'usdc' && usdcAssetId === undefined) {
+      enqueueSnackbar(`USDC is not available on ${activeNetwork.label}.`, { variant: 'warning' })
+      return
+    }
+
     // USDC: block transfer if not opted in (only if status is confirmed, not during loading)
     if (transferMode === 'usdc' && hasCheckedUsdcOnChain && !usdcOptedIn) {
       enqueueSnackbar('You must opt-in to USDC before you can send/receive it.', { variant: 'warning' })
@@ -690,7 +690,7 @@ export default function TokenizeAsset() {
           action: () =>
             txId ? (
               <a
-                href={`${LORA_BASE}/transaction/${txId}`}
+                href={`${loraBase}/transaction/${txId}`}
                 target="_blank"
                 rel="noopener noreferrer"
                 style={{ textDecoration: 'underline', marginLeft: 8 }}
@@ -699,7 +699,7 @@ export default function TokenizeAsset() {
               </a>
             ) : null,
         })
-      } else if (transferMode === 'usdc') {
+      } else if (transferMode === 'usdc' && usdcAssetId !== undefined) {
         // Double-check opt-in status (in case it changed)
         if (hasCheckedUsdcOnChain && !usdcOptedIn) {
           enqueueSnackbar('You are not opted in to USDC yet. Please opt in first.', { variant: 'warning' })
@@ -722,7 +722,7 @@ export default function TokenizeAsset() {
         const result = await algorand.send.assetTransfer({
           sender: activeAddress,
           signer,
-          assetId: BigInt(TESTNET_USDC_ASSET_ID),
+          assetId: usdcAssetId,
           receiver: receiverAddress,
           amount: usdcAmount,
         })
@@ -734,7 +734,7 @@ export default function TokenizeAsset() {
           action: () =>
             txId ? (
               <a
-                href={`${LORA_BASE}/transaction/${txId}`}
+                href={`${loraBase}/transaction/${txId}`}
                 target="_blank"
                 rel="noopener noreferrer"
                 style={{ textDecoration: 'underline', marginLeft: 8 }}
@@ -748,6 +748,65 @@ export default function TokenizeAsset() {
         setTimeout(() => {
           checkUsdcOptInStatus()
         }, 2000)
+      } else if (transferMode === 'clawback') {
+        const assetId = BigInt(transferAssetId)
+        const assetInfo = await algorand.asset.getById(assetId)
+
+        if (assetInfo.clawback !== activeAddress) {
+          enqueueSnackbar('Only the clawback address of this asset can revoke tokens.', { variant: 'warning' })
+          return
+        }
+
+        const reason = clawbackReason.trim()
+        const target = clawbackTarget.trim()
+        const amount = decimalToBaseUnits(transferAmount, assetInfo.decimals)
+
+        enqueueSnackbar('Revoking tokens (clawback)...', { variant: 'info' })
+
+        // Clawback = asset transfer sent by the clawback account on behalf of the holder (assetSender)
+        const result = await algorand.send.assetTransfer({
+          sender: activeAddress,
+          signer,
+          assetId,
+          clawbackTarget: target,
+          receiver: receiverAddress,
+          amount,
+          note: buildClawbackNote(reason),
+        })
+
+        const txId = result.txIds[0]
+
+        setClawbackLog(
+          appendClawbackAudit({
+            txId,
+            assetId: String(assetId),
+            amount: transferAmount.trim(),
+            revokedFrom: target,
+            receiver: receiverAddress,
+            operator: activeAddress,
+            reason,
+            network,
+            timestamp: new Date().toISOString(),
+          }),
+        )
+
+        enqueueSnackbar('✅ Tokens revoked and recorded in the audit log.', {
+          variant: 'success',
+          action: () =>
+            txId ? (
+              <a
+                href={`${loraBase}/transaction/${txId}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                style={{ textDecoration: 'underline', marginLeft: 8 }}
+              >
+                View Tx on Lora ↗
+              </a>
+            ) : null,
+        })
+
+        setClawbackTarget('')
+        setClawbackReason('')
       } else {
         // manual ASA
         enqueueSnackbar('Transferring asset...', { variant: 'info' })
@@ -767,7 +826,7 @@ export default function TokenizeAsset() {
           action: () =>
             txId ? (
               <a
-                href={`${LORA_BASE}/transaction/${txId}`}
+                href={`${loraBase}/transaction/${txId}`}
                 target="_blank"
                 rel="noopener noreferrer"
                 style={{ textDecoration: 'underline', marginLeft: 8 }}
@@ -780,9 +839,12 @@ export default function TokenizeAsset() {
 
       setReceiverAddress('')
       setTransferAmount('1')
-    } catch (error) {
+    } catch (error: any) {
       if (transferMode === 'algo') {
         enqueueSnackbar('ALGO send failed.', { variant: 'error' })
+      } else if (transferMode === 'clawback') {
+        const msg = error?.response?.body?.message || error?.message || String(error)
+        enqueueSnackbar(`Clawback failed: ${msg}`, { variant: 'error' })
       } else {
         enqueueSnackbar('Transfer failed. If sending an ASA (incl. USDC), make sure the recipient has opted in.', {
           variant: 'error',
@@ -841,33 +903,68 @@ export default function TokenizeAsset() {
       return
     }
 
+    if (nftMetadataProblems.length > 0) {
+      enqueueSnackbar(`Please fix the NFT metadata: ${nftMetadataProblems[0]}`, { variant: 'warning' })
+      return
+    }
+
+    if (vaultProblems.length > 0) {
+      enqueueSnackbar(`Please fix the documents: ${vaultProblems[0]}`, { variant: 'warning' })
+      return
+    }
+
+    if (nftStandard === 'arc19' && !nftManager) {
+      enqueueSnackbar('ARC-19 needs a manager address, otherwise the metadata can never be updated.', { variant: 'warning' })
+      return
+    }
+
     setNftLoading(true)
     enqueueSnackbar('Uploading and preparing NFT...', { variant: 'info' })
 
     let metadataUrl = ''
+    let metadataHash: Uint8Array | undefined
+    let note: Uint8Array | undefined
+    let reserve = nftReserve || undefined
+    const mintAuth: MintServerAuth = { address: activeAddress, signer, algorand }
     try {
-      const backendBase = resolveBackendBase()
-      const backendApiUrl = `${backendBase.replace(/\/$/, '')}/api/pin-image`
-
-      const formData = new FormData()
-      formData.append('file', selectedFile)
-
-      const response = await fetch(backendApiUrl, {
-        method: 'POST',
-        body: formData,
-        mode: 'cors',
-      })
+      if (nftStandard === 'arc69') {
+        // ARC-69: only the image is pinned; the metadata JSON travels in the acfg note
+        const pinnedImage = await pinImageOnly(selectedFile, nftName, mintAuth)
+        if (pinnedImage.gpsRemoved) enqueueSnackbar('GPS location was removed from the photo before pinning.', { variant: 'info' })
+        const mimeType = pinnedImage.imageMimetype || selectedFile.type
+        metadataUrl = arc69MediaUrl(pinnedImage.imageUrl, mimeType)
+        note = encodeArc69Note(buildArc69Metadata(nftMetadata, metadataUrl, mimeType))
+      } else {
+        // Encrypted documents first: their vault entries go into properties.documents
+        const documents: VaultDocument[] = []
+        for (const file of vaultFiles) {
+          enqueueSnackbar(`Encrypting ${file.name}...`, { variant: 'info' })
+          documents.push(await pinVaultDocument(file, vaultRecipientList.addresses, mintAuth))
+        }
 
-      if (!response.ok) {
-        const errorText = await response.text()
-        throw new Error(`Backend request failed: ${response.status} - ${errorText}`)
+        const draft = documents.length > 0 ? { ...nftMetadata, documents } : nftMetadata
+        const pinned = await pinImageWithMetadata(selectedFile, nftName, draft, mintAuth)
+        if (pinned.gpsRemoved) enqueueSnackbar('GPS location was removed from the photo before pinning.', { variant: 'info' })
+
+        if (nftStandard === 'arc19') {
+          // ARC-19: the URL is a template resolved through the reserve address, which carries the CID.
+          // No metadata hash: it is immutable and would stop matching after the first update.
+          metadataUrl = toArc3Url(arc19TemplateUrl(pinned.metadataCid))
+          reserve = cidToReserveAddress(pinned.metadataCid)
+        } else {
+          // ARC-3: hash the exact JSON bytes that were pinned, and cross-check the server's hash
+          metadataHash = await computeArc3MetadataHash(new TextEncoder().encode(pinned.metadataJson))
+          if (pinned.metadataHash && pinned.metadataHash !== bytesToBase64(metadataHash)) {
+            throw new Error('Metadata hash from the backend does not match the pinned JSON')
+          }
+          metadataUrl = toArc3Url(pinned.metadataUrl)
+        }
       }
-
-      const data = await response.json()
-      metadataUrl = data.metadataUrl
-      if (!metadataUrl) throw new Error('Backend did not return a valid metadata URL')
     } catch (e: any) {
-      enqueueSnackbar('Error uploading to backend. If in Codespaces, make port 3001 Public.', { variant: 'error' })
+      console.error('[TokenizeAsset] pin-image error:', e)
+      enqueueSnackbar(`Error uploading to backend: ${e?.message || 'Unknown error'}. If in Codespaces, make port 3001 Public.`, {
+        variant: 'error',
+      })
       setNftLoading(false)
       return
     }
@@ -875,9 +972,6 @@ export default function TokenizeAsset() {
     try {
       enqueueSnackbar('Minting NFT on Algorand...', { variant: 'info' })
 
-      // Demo shortcut: hash the metadata URL string (ARC-3 would hash JSON bytes)
-      const metadataHash = Uint8Array.from(sha512_256.digest(metadataUrl))
-
       const onChainTotal = BigInt(nftSupply) * 10n ** BigInt(d)
 
       const createNFTResult = await algorand.send.assetCreate({
@@ -889,14 +983,16 @@ export default function TokenizeAsset() {
         unitName: nftUnit,
         url: metadataUrl,
         metadataHash,
+        note,
         defaultFrozen: nftDefaultFrozen,
         manager: nftManager || undefined,
-        reserve: nftReserve || undefined,
+        reserve,
         freeze: nftFreeze || undefined,
         clawback: nftClawback || undefined,
       })
 
       const assetId = createNFTResult.assetId
+      const confirmedRound = createNFTResult.confirmation.confirmedRound
 
       // ✅ Persist minted NFT into SAME history list (NFTs are ASAs)
       const nftEntry: CreatedAsset = {
@@ -907,14 +1003,14 @@ export default function TokenizeAsset() {
         decimals: String(nftDecimals),
         url: metadataUrl ? String(metadataUrl) : undefined,
         manager: nftManager ? String(nftManager) : undefined,
-        reserve: nftReserve ? String(nftReserve) : undefined,
+        reserve,
         freeze: nftFreeze ? String(nftFreeze) : undefined,
         clawback: nftClawback ? String(nftClawback) : undefined,
-        createdAt: new Date().toISOString(),
+        createdAtRound: confirmedRound !== undefined ? String(confirmedRound) : undefined,
       }
 
-      const next = persistAsset(nftEntry)
-      setCreatedAssets(next)
+      setCreatedAssets(rememberCreatedAsset(network, activeAddress, nftEntry))
+      registerMintedAsset(network, assetId, createNFTResult.txIds[0])
 
       // QoL: switch to manual mode + prefill transfer section with minted asset id
       setTransferMode('manual')
@@ -925,7 +1021,7 @@ export default function TokenizeAsset() {
         action: () =>
           assetId ? (
             <a
-              href={`${LORA_BASE}/asset/${assetId}`}
+              href={`${loraBase}/asset/${assetId}`}
               target="_blank"
               rel="noopener noreferrer"
               style={{ textDecoration: 'underline', marginLeft: 8 }}
@@ -939,6 +1035,7 @@ export default function TokenizeAsset() {
       setSelectedFile(null)
       setPreviewUrl('')
       if (fileInputRef.current) fileInputRef.current.value = ''
+      setVaultFiles([])
     } catch (e: any) {
       enqueueSnackbar(`Failed to mint NFT: ${e?.message || 'Unknown error'}`, { variant: 'error' })
     } finally {
@@ -948,46 +1045,62 @@ export default function TokenizeAsset() {
 
   const canSubmit = !!assetName && !!unitName && !!total && !loading && !!activeAddress
 
-  const canMintNft = !!nftName && !!nftUnit && !!nftSupply && !!nftDecimals && !!selectedFile && !!activeAddress && !nftLoading
+  const canMintNft =
+    !!nftName &&
+    !!nftUnit &&
+    !!nftSupply &&
+    !!nftDecimals &&
+    !!selectedFile &&
+    !!activeAddress &&
+    !nftLoading &&
+    nftMetadataProblems.length === 0 &&
+    vaultProblems.length === 0
+
+  // Collection minting reuses the NFT form: unit, supply, roles, standard and shared metadata
+  const nftDecimalsNumber = isWholeNumber(nftDecimals) ? Number(nftDecimals) : 0
+  const collectionParams: CollectionMintParams = {
+    standard: nftStandard,
+    unitName: nftUnit,
+    total: isWholeNumber(nftSupply) ? BigInt(nftSupply) * 10n ** BigInt(nftDecimalsNumber) : 0n,
+    decimals: nftDecimalsNumber,
+    defaultFrozen: nftDefaultFrozen,
+    manager: nftManager || undefined,
+    reserve: nftStandard === 'arc19' ? undefined : nftReserve || undefined,
+    freeze: nftFreeze || undefined,
+    clawback: nftClawback || undefined,
+  }
+  const collectionFormProblems = [
+    ...(!nftUnit ? ['Enter a unit/symbol.'] : []),
+    ...(!isWholeNumber(nftSupply) || !isWholeNumber(nftDecimals) || nftDecimalsNumber > 19
+      ? ['Supply must be a whole number and decimals 0–19.']
+      : []),
+    ...(nftStandard === 'arc19' && !nftManager ? ['ARC-19 needs a manager address.'] : []),
+    ...validateNftMetadata(nftMetadata),
+  ]
+
+  const handleCollectionMinted = (assets: CreatedAsset[]) => {
+    if (!activeAddress) return
+    let list: CreatedAsset[] = []
+    for (const asset of assets) list = rememberCreatedAsset(network, activeAddress, asset)
+    setCreatedAssets(list)
+    for (const asset of assets) registerMintedAsset(network, asset.assetId)
+  }
 
   const transferAmountLabel = transferMode === 'algo' ? 'Amount (ALGO)' : transferMode === 'usdc' ? 'Amount (USDC)' : 'Amount'
 
   const transferAssetIdLabel = transferMode === 'algo' ? 'Asset (ALGO)' : transferMode === 'usdc' ? 'Asset (USDC)' : 'Asset ID'
 
-  // Helper to render USDC status text
-  const renderUsdcStatusText = () => {
-    if (usdcStatusLoading) {
-      return <span className="text-slate-500 dark:text-slate-400">Checking status...</span>
-    }
-    if (usdcOptedIn) {
-      return <span className="text-teal-700 dark:text-teal-300">Already opted in ✅</span>
-    }
-    return <span className="text-slate-600 dark:text-slate-300">Required before you can receive TestNet USDC.</span>
-  }
+  // Helper to render pre-flight issues under the field they concern
+  const renderPreflightIssues = (field: PreflightIssue['field']) =>
+    preflightIssues
+      .filter((i) => i.field === field)
+      .map((i) => (
+        <p key={i.message} className="mt-1 text-[11px] text-red-600 dark:text-red-400">
+          {i.message}
+        </p>
+      ))
 
-  // Helper to render opt-in button text
-  const renderOptInButtonText = () => {
-    if (usdcOptInLoading) {
-      return (
-        <span className="flex items-center gap-2">
-          <AiOutlineLoading3Quarters className="animate-spin" />
-          Opting in…
-        </span>
-      )
-    }
-    if (usdcStatusLoading) {
-      return (
-        <span className="flex items-center gap-2">
-          <AiOutlineLoading3Quarters className="animate-spin" />
-          Checking…
-        </span>
-      )
-    }
-    if (usdcOptedIn) {
-      return 'USDC opted in ✅'
-    }
-    return 'Opt in USDC'
-  }
+  const transferBlocked = preflightChecking || preflightIssues.length > 0
 
   return (
     <div className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-lg p-6 sm:p-8">
@@ -1215,7 +1328,7 @@ export default function TokenizeAsset() {
             <div className="mb-4">
               <h3 className="text-lg font-bold text-slate-900 dark:text-white">Tokenize an NFT (Mint ASA)</h3>
               <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
-                Upload an image → backend pins to IPFS → mint an ASA with metadata.
+                Upload an image → backend pins to IPFS → mint an ARC-3 ASA (metadata hash + #arc3 URL).
               </p>
             </div>
 
@@ -1321,9 +1434,10 @@ export default function TokenizeAsset() {
                       {
                         label: 'Reserve',
                         tip: 'Reserve can hold non-circulating supply depending on design. Leave blank to disable.',
-                        value: nftReserve,
+                        value: nftStandard === 'arc19' ? '' : nftReserve,
                         setValue: setNftReserve,
-                        placeholder: 'Optional address',
+                        placeholder: nftStandard === 'arc19' ? 'Set to the metadata CID (ARC-19)' : 'Optional address',
+                        disabled: nftStandard === 'arc19',
                       },
                       {
                         label: 'Freeze',
@@ -1352,9 +1466,10 @@ export default function TokenizeAsset() {
                         </label>
                         <input
                           type="text"
-                          className="w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition"
+                          className="w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition disabled:opacity-50"
                           placeholder={f.placeholder}
                           value={f.value}
+                          disabled={f.disabled}
                           onChange={(e) => f.setValue(e.target.value)}
                         />
                       </div>
@@ -1363,15 +1478,51 @@ export default function TokenizeAsset() {
                 )}
               </div>
 
+              {/* Metadata standard */}
+              <div className="mt-6">
+                <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Metadata standard</label>
+                <div className="flex flex-wrap gap-4">
+                  {NFT_STANDARDS.map((std) => (
+                    <label key={std.value} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                      <input
+                        type="radio"
+                        name="nftStandard"
+                        checked={nftStandard === std.value}
+                        onChange={() => setNftStandard(std.value)}
+                        className="h-4 w-4"
+                      />
+                      {std.label}
+                    </label>
+                  ))}
+                </div>
+                <p className="mt-1 text-[11px] text-slate-500 dark:text-slate-400">
+                  {NFT_STANDARDS.find((std) => std.value === nftStandard)?.description}
+                </p>
+              </div>
+
+              {/* Metadata (description, traits, RWA properties) */}
+              <NftMetadataEditor
+                name={nftName}
+                value={nftMetadata}
+                onChange={setNftMetadata}
+                problems={nftMetadataProblems}
+                imageMimetype={selectedFile?.type}
+                standard={nftStandard}
+              />
+
               {/* Image upload */}
               <div className="mt-6">
-                <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Select an image</label>
+                <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Select an image, video or PDF</label>
 
                 <div
                   className="flex flex-col items-center justify-center p-6 border-2 border-dashed border-slate-200 dark:border-slate-700 rounded-xl cursor-pointer bg-slate-50 dark:bg-slate-800/40 hover:border-teal-200 dark:hover:border-teal-700 transition-colors"
                   onClick={handleDivClick}
                 >
-                  {previewUrl ? (
+                  {previewUrl && selectedFile?.type.startsWith('video/') ? (
+                    <video src={previewUrl} muted controls className="rounded-lg max-h-48 shadow-sm bg-white dark:bg-slate-900" />
+                  ) : previewUrl && selectedFile && !selectedFile.type.startsWith('image/') ? (
+                    <p className="text-sm text-slate-700 dark:text-slate-200">{selectedFile.name}</p>
+                  ) : previewUrl ? (
                     <img
                       src={previewUrl}
                       alt="NFT preview"
@@ -1381,20 +1532,26 @@ export default function TokenizeAsset() {
                     <div className="text-center">
                       <AiOutlineCloudUpload className="mx-auto h-12 w-12 text-slate-400" />
                       <p className="mt-2 text-sm text-slate-700 dark:text-slate-200">Drag and drop or click to upload</p>
-                      <p className="text-xs text-slate-500 dark:text-slate-400">PNG, JPG, GIF up to 10MB</p>
+                      <p className="text-xs text-slate-500 dark:text-slate-400">
+                        Images up to 10MB, MP4 / WebM / MOV video up to 25MB, PDF up to 10MB
+                      </p>
                     </div>
                   )}
 
-                  <input
-                    type="file"
-                    ref={fileInputRef}
-                    className="sr-only"
-                    onChange={handleFileChange}
-                    accept="image/png, image/jpeg, image/gif"
-                  />
+                  <input type="file" ref={fileInputRef} className="sr-only" onChange={handleFileChange} accept={MEDIA_UPLOAD_ACCEPT} />
                 </div>
               </div>
 
+              {/* Confidential documents (encrypted vault) */}
+              <VaultDocumentsInput
+                files={vaultFiles}
+                onFilesChange={setVaultFiles}
+                recipients={vaultRecipients}
+                onRecipientsChange={setVaultRecipients}
+                problems={vaultProblems}
+                disabled={nftLoading}
+              />
+
               {/* Buttons */}
               <div className="mt-6 flex flex-col sm:flex-row gap-3 sm:justify-end">
                 <button
@@ -1429,8 +1586,23 @@ export default function TokenizeAsset() {
 
               <p className="mt-3 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
                 <AiOutlineInfoCircle />
-                Uses backend <span className="font-mono">/api/pin-image</span>. In Codespaces, make port 3001 Public.
+                Uses backend <span className="font-mono">/api/pin-image</span>. The first upload asks your wallet to sign a login
+                transaction that can never be submitted. In Codespaces, make port 3001 Public.
               </p>
+
+              {/* Collection (folder of images → Name #1..#N) */}
+              <CollectionMint
+                collectionName={nftName}
+                params={collectionParams}
+                metadata={nftMetadata}
+                formProblems={collectionFormProblems}
+                onMinted={handleCollectionMinted}
+              />
+            </div>
+
+            {/* ARC-3 verifier (any asset id) */}
+            <div className="mt-6">
+              <Arc3Verifier />
             </div>
           </div>
         </div>
@@ -1442,12 +1614,21 @@ export default function TokenizeAsset() {
             <button
               type="button"
               className="px-3 py-1 text-xs bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition"
+              disabled={!activeAddress || createdAssetsLoading}
               onClick={() => {
-                localStorage.removeItem(STORAGE_KEY)
-                setCreatedAssets([])
+                if (!activeAddress) return
+                clearCachedAssets(network, activeAddress)
+                refreshCreatedAssets()
               }}
             >
-              Clear
+              {createdAssetsLoading ? (
+                <span className="flex items-center gap-1">
+                  <AiOutlineLoading3Quarters className="animate-spin" />
+                  Loading…
+                </span>
+              ) : (
+                'Refresh'
+              )}
             </button>
           </div>
 
@@ -1466,16 +1647,20 @@ export default function TokenizeAsset() {
                 {createdAssets.length === 0 ? (
                   <tr>
                     <td colSpan={5} className="text-center px-4 py-6 text-slate-500 dark:text-slate-400">
-                      No assets created yet. Mint one to see it here.
+                      {!activeAddress
+                        ? 'Connect a wallet to see the assets it created.'
+                        : createdAssetsLoading
+                          ? 'Loading assets from the indexer…'
+                          : 'No assets created yet. Mint one to see it here.'}
                     </td>
                   </tr>
                 ) : (
                   createdAssets.map((a) => (
                     <tr
-                      key={`${a.assetId}-${a.createdAt}`}
+                      key={a.assetId}
                       className="border-b border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800/50 cursor-pointer transition"
-                      onClick={() => window.open(`${LORA_BASE}/asset/${a.assetId}`, '_blank', 'noopener,noreferrer')}
-                      title="Open in Lora explorer"
+                      onClick={() => navigate(`/asset/${a.assetId}`)}
+                      title="Open asset details"
                     >
                       <td className="px-4 py-3">
                         <div className="flex items-center gap-2">
@@ -1493,7 +1678,18 @@ export default function TokenizeAsset() {
                           </button>
                         </div>
                       </td>
-                      <td className="px-4 py-3 text-slate-900 dark:text-white">{a.assetName}</td>
+                      <td className="px-4 py-3 text-slate-900 dark:text-white">
+                        <div className="flex items-center gap-2">
+                          <NftImage
+                            url={a.url}
+                            reserve={a.reserve}
+                            name={a.assetName}
+                            className="h-8 w-8 rounded object-cover bg-slate-100 dark:bg-slate-800"
+                          />
+                          <span>{a.assetName}</span>
+                        </div>
+                        {hasArc69MediaHint(a.url) && <Arc69Summary assetId={BigInt(a.assetId)} />}
+                      </td>
                       <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">{a.unitName}</td>
                       <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">{a.total}</td>
                       <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">{a.decimals}</td>
@@ -1504,9 +1700,13 @@ export default function TokenizeAsset() {
             </table>
           </div>
 
+          {createdAssetsError && (
+            <p className="mt-3 text-xs text-red-600 dark:text-red-400">Could not refresh from the indexer: {createdAssetsError}</p>
+          )}
+
           <p className="mt-3 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
             <AiOutlineInfoCircle />
-            This list is stored locally in your browser (localStorage) to keep the template simple.
+            Built from the indexer (assets created by the connected account). A local cache only speeds up loading.
           </p>
         </div>
 
@@ -1515,49 +1715,37 @@ export default function TokenizeAsset() {
           <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-2">Transfer</h3>
           <p className="text-sm text-slate-600 dark:text-slate-400 mb-6">Send ALGO, USDC, or any ASA (including NFTs) to another wallet.</p>
 
-          {/* USDC Opt-in (only relevant for receiving USDC) */}
-          <div className="mb-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/40 p-4">
-            <div className="text-sm text-slate-700 dark:text-slate-200">
-              <span className="font-semibold">USDC Opt-In:</span> {renderUsdcStatusText()}
-              <div className="text-xs text-slate-500 dark:text-slate-400 mt-1">
-                Asset ID: <span className="font-mono">{TESTNET_USDC_ASSET_ID}</span>
-              </div>
-            </div>
-
-            <button
-              type="button"
-              onClick={handleOptInUsdc}
-              disabled={!activeAddress || usdcOptedIn || usdcOptInLoading || usdcStatusLoading}
-              className={`inline-flex items-center justify-center px-4 py-2 rounded-lg font-semibold transition ${
-                !activeAddress || usdcOptedIn || usdcOptInLoading || usdcStatusLoading
-                  ? 'bg-slate-300 text-slate-500 cursor-not-allowed dark:bg-slate-700 dark:text-slate-400'
-                  : 'bg-teal-600 hover:bg-teal-700 text-white shadow-md'
-              }`}
-            >
-              {renderOptInButtonText()}
-            </button>
-          </div>
+          {/* Opt-in manager (any ASA, USDC preset) */}
+          <OptInManager
+            presets={usdcAssetId !== undefined ? [{ label: `USDC (${activeNetwork.label})`, assetId: usdcAssetId }] : []}
+            loraBase={loraBase}
+            onChange={(assetId) => {
+              if (assetId === usdcAssetId) checkUsdcOptInStatus()
+            }}
+          />
 
           {/* TestNet USDC helper */}
-          <div className="mb-6 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/40 p-4">
-            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
-              <div className="text-sm text-slate-700 dark:text-slate-200">
-                Need TestNet USDC? Use Circle&apos;s faucet, then transfer it like any ASA.
-                <span className="block text-xs text-slate-500 dark:text-slate-400 mt-1">
-                  Note: you may need to opt-in to the USDC asset before receiving it.
-                </span>
-              </div>
+          {network === 'testnet' && (
+            <div className="mb-6 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/40 p-4">
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <div className="text-sm text-slate-700 dark:text-slate-200">
+                  Need TestNet USDC? Use Circle&apos;s faucet, then transfer it like any ASA.
+                  <span className="block text-xs text-slate-500 dark:text-slate-400 mt-1">
+                    Note: you may need to opt-in to the USDC asset before receiving it.
+                  </span>
+                </div>
 
-              <a
-                href="https://faucet.circle.com/"
-                target="_blank"
-                rel="noopener noreferrer"
-                className="inline-flex items-center justify-center px-4 py-2 rounded-lg font-semibold bg-teal-600 hover:bg-teal-700 text-white shadow-md transition"
-              >
-                Open USDC Faucet ↗
-              </a>
+                <a
+                  href="https://faucet.circle.com/"
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center justify-center px-4 py-2 rounded-lg font-semibold bg-teal-600 hover:bg-teal-700 text-white shadow-md transition"
+                >
+                  Open USDC Faucet ↗
+                </a>
+              </div>
             </div>
-          </div>
+          )}
 
           {/* Mode selector */}
           <div className="mb-5">
@@ -1585,19 +1773,68 @@ export default function TokenizeAsset() {
                 ALGO
               </label>
 
+              {usdcAssetId !== undefined && (
+                <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                  <input
+                    type="radio"
+                    name="transferMode"
+                    checked={transferMode === 'usdc'}
+                    onChange={() => setTransferMode('usdc')}
+                    className="h-4 w-4"
+                  />
+                  USDC ({activeNetwork.label})
+                </label>
+              )}
+
               <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
                 <input
                   type="radio"
                   name="transferMode"
-                  checked={transferMode === 'usdc'}
-                  onChange={() => setTransferMode('usdc')}
+                  checked={transferMode === 'clawback'}
+                  onChange={() => setTransferMode('clawback')}
                   className="h-4 w-4"
                 />
-                USDC (TestNet)
+                Clawback (revoke)
               </label>
             </div>
           </div>
 
+          {transferMode === 'clawback' && (
+            <div className="mb-5 rounded-xl border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 p-4">
+              <p className="text-sm text-amber-800 dark:text-amber-300">
+                Clawback moves tokens out of a holder&apos;s account without their signature. Only the asset&apos;s clawback address can do
+                this. Use it for court orders or lost-key recovery.
+              </p>
+              <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Revoke from (holder)</label>
+                  <input
+                    type="text"
+                    className="w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition"
+                    placeholder="Holder address"
+                    value={clawbackTarget}
+                    onChange={(e) => setClawbackTarget(e.target.value)}
+                  />
+                  {renderPreflightIssues('holder')}
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Reason (required)</label>
+                  <input
+                    type="text"
+                    className="w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition"
+                    placeholder="e.g. Court order #2024-118, lost key recovery"
+                    value={clawbackReason}
+                    onChange={(e) => setClawbackReason(e.target.value)}
+                  />
+                  <p className="mt-1 text-[11px] text-slate-500 dark:text-slate-400">
+                    Recorded in the transaction note and the audit log ({clawbackNoteBytes(clawbackReason.trim())}/{MAX_CLAWBACK_NOTE_BYTES}{' '}
+                    bytes).
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div>
               <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">{transferAssetIdLabel}</label>
@@ -1611,13 +1848,15 @@ export default function TokenizeAsset() {
               />
               {transferMode === 'usdc' && (
                 <p className="mt-1 text-[11px] text-slate-500 dark:text-slate-400">
-                  USDC TestNet Asset ID: <span className="font-mono">{TESTNET_USDC_ASSET_ID}</span>
+                  USDC {activeNetwork.label} Asset ID: <span className="font-mono">{String(usdcAssetId)}</span>
                 </p>
               )}
             </div>
 
             <div>
-              <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Recipient Address</label>
+              <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
+                {transferMode === 'clawback' ? 'Receiver (revoked tokens go to)' : 'Recipient Address'}
+              </label>
               <input
                 type="text"
                 className="w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition"
@@ -1625,6 +1864,7 @@ export default function TokenizeAsset() {
                 value={receiverAddress}
                 onChange={(e) => setReceiverAddress(e.target.value)}
               />
+              {renderPreflightIssues('receiver')}
             </div>
 
             <div>
@@ -1643,16 +1883,28 @@ export default function TokenizeAsset() {
               {(transferMode === 'algo' || transferMode === 'usdc') && (
                 <p className="mt-1 text-[11px] text-slate-500 dark:text-slate-400">Decimals allowed (up to 6 places).</p>
               )}
+              {transferMode === 'clawback' && (
+                <p className="mt-1 text-[11px] text-slate-500 dark:text-slate-400">In whole units (decimals allowed per the asset).</p>
+              )}
+              {renderPreflightIssues('amount')}
             </div>
           </div>
 
-          <div className="mt-6 flex flex-col sm:flex-row gap-3 sm:justify-end">
+          {renderPreflightIssues('sender')}
+
+          <div className="mt-6 flex flex-col sm:flex-row gap-3 sm:items-center sm:justify-end">
+            {preflightChecking && (
+              <span className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+                <AiOutlineLoading3Quarters className="animate-spin" />
+                Checking opt-in and balances…
+              </span>
+            )}
             <button
               type="button"
               onClick={handleTransferAsset}
-              disabled={transferLoading || !activeAddress}
+              disabled={transferLoading || !activeAddress || transferBlocked}
               className={`px-6 py-3 rounded-lg font-semibold transition ${
-                transferLoading || !activeAddress
+                transferLoading || !activeAddress || transferBlocked
                   ? 'bg-slate-300 text-slate-500 cursor-not-allowed dark:bg-slate-700 dark:text-slate-400'
                   : 'bg-teal-600 hover:bg-teal-700 text-white shadow-md'
               }`}
@@ -1663,7 +1915,9 @@ export default function TokenizeAsset() {
                   ? 'Send ALGO'
                   : transferMode === 'usdc'
                     ? 'Send USDC'
-                    : 'Transfer Asset'}
+                    : transferMode === 'clawback'
+                      ? 'Revoke Tokens'
+                      : 'Transfer Asset'}
             </button>
           </div>
 
@@ -1673,6 +1927,10 @@ export default function TokenizeAsset() {
               ? 'ALGO payments do not require opt-in.'
               : 'For ASAs (including USDC and NFTs), the recipient must opt-in to the asset before receiving it.'}
           </p>
+
+          {(transferMode === 'clawback' || clawbackLog.length > 0) && <ClawbackAuditLog entries={clawbackLog} loraBase={loraBase} />}
+
+          <BatchTransfer defaultAssetId={createdAssets.length > 0 ? String(createdAssets[0].assetId) : ''} loraBase={loraBase} />
         </div>
       </div>
     </div>
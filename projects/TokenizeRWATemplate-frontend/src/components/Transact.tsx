@@ -1,8 +1,8 @@
-import { algo, AlgorandClient } from '@algorandfoundation/algokit-utils'
+import { algo } from '@algorandfoundation/algokit-utils'
 import { useWallet } from '@txnlab/use-wallet-react'
 import { useSnackbar } from 'notistack'
 import { useState } from 'react'
-import { getAlgodConfigFromViteEnvironment } from '../utils/network/getAlgoClientConfigs'
+import { useAlgorand } from '../utils/network/NetworkContext'
 
 interface TransactInterface {
   openModal: boolean
@@ -13,8 +13,7 @@ const Transact = ({ openModal, setModalState }: TransactInterface) => {
   const [loading, setLoading] = useState<boolean>(false)
   const [receiverAddress, setReceiverAddress] = useState<string>('')
 
-  const algodConfig = getAlgodConfigFromViteEnvironment()
-  const algorand = AlgorandClient.fromConfig({ algodConfig })
+  const algorand = useAlgorand()
 
   const { enqueueSnackbar } = useSnackbar()
 
@@ -0,0 +1,164 @@
+import { useWallet } from '@txnlab/use-wallet-react'
+import { indexerModels } from 'algosdk'
+import { useSnackbar } from 'notistack'
+import { useCallback, useEffect, useState } from 'react'
+import { AiOutlineLoading3Quarters } from 'react-icons/ai'
+import { cidToReserveAddress, isArc19Url, resolveArc19Url } from '../utils/arc19'
+import { ipfsToGatewayUrl } from '../utils/ipfs'
+import { pinMetadataForImage, registerMintedAsset } from '../utils/mintServer'
+import { useAlgorand, useAppNetwork } from '../utils/network/NetworkContext'
+import { draftFromMetadata, EMPTY_NFT_METADATA, mediaFieldsFromMetadata, NftMetadataDraft, validateNftMetadata } from '../utils/nftMetadata'
+import NftMetadataEditor from './NftMetadataEditor'
+
+interface UpdateArc19MetadataProps {
+  asset: indexerModels.Asset
+  /** Called after the reserve change is confirmed so the parent can reload on-chain state */
+  onUpdated: () => void
+}
+
+/**
+ * UpdateArc19Metadata Component
+ * For ARC-19 assets managed by the connected account: edit the current metadata,
+ * re-pin it via the mint server and point the asset at the new CID with an
+ * assetConfig that changes only the reserve address.
+ */
+export default function UpdateArc19Metadata({ asset, onUpdated }: UpdateArc19MetadataProps) {
+  const params = asset.params
+  const [current, setCurrent] = useState<Record<string, unknown> | null>(null)
+  const [currentUrl, setCurrentUrl] = useState<string>('')
+  const [loadError, setLoadError] = useState<string>('')
+  const [draft, setDraft] = useState<NftMetadataDraft>(EMPTY_NFT_METADATA)
+  const [updating, setUpdating] = useState<boolean>(false)
+
+  const { transactionSigner, activeAddress } = useWallet()
+  const { enqueueSnackbar } = useSnackbar()
+
+  const { network } = useAppNetwork()
+  const loraBase = network.explorerBase
+  const algorand = useAlgorand()
+
+  const isEditable = !!activeAddress && !asset.deleted && params.manager === activeAddress && isArc19Url(params.url) && !!params.reserve
+
+  const loadCurrent = useCallback(async () => {
+    if (!params.url || !params.reserve || !isArc19Url(params.url)) return
+
+    setLoadError('')
+    try {
+      const resolved = resolveArc19Url(params.url, params.reserve)
+      setCurrentUrl(resolved)
+      const response = await fetch(ipfsToGatewayUrl(resolved))
+      if (!response.ok) throw new Error(`HTTP ${response.status}`)
+      const metadata = (await response.json()) as Record<string, unknown>
+      setCurrent(metadata)
+      setDraft(draftFromMetadata(metadata))
+    } catch (e: any) {
+      setCurrent(null)
+      setLoadError(e?.message || String(e))
+    }
+  }, [params.url, params.reserve])
+
+  useEffect(() => {
+    if (isEditable) loadCurrent()
+  }, [isEditable, loadCurrent])
+
+  if (!isEditable) return null
+
+  const problems = validateNftMetadata(draft)
+  const name = typeof current?.name === 'string' ? current.name : (params.name ?? '')
+  const image = typeof current?.image === 'string' ? current.image : ''
+
+  /**
+   * Re-pin the edited metadata (same image, integrity and thumbnail), then assetConfig with the new reserve.
+   * Manager, freeze and clawback are sent unchanged: an omitted role would be cleared on-chain.
+   */
+  const handleUpdate = async () => {
+    if (!activeAddress || !transactionSigner) {
+      enqueueSnackbar('Wallet signer not available. Please try reconnecting your wallet.', { variant: 'error' })
+      return
+    }
+    if (!image) {
+      enqueueSnackbar('Current metadata has no image to keep.', { variant: 'warning' })
+      return
+    }
+
+    try {
+      setUpdating(true)
+      enqueueSnackbar('Pinning updated metadata...', { variant: 'info' })
+
+      const pinned = await pinMetadataForImage(image, mediaFieldsFromMetadata(current ?? {}), name, draft, {
+        address: activeAddress,
+        signer: transactionSigner,
+        algorand,
+      })
+      const reserve = cidToReserveAddress(pinned.metadataCid)
+      if (reserve === params.reserve) {
+        enqueueSnackbar('Metadata is unchanged; nothing to update.', { variant: 'info' })
+        return
+      }
+
+      const result = await algorand.send.assetConfig({
+        sender: activeAddress,
+        signer: transactionSigner,
+        assetId: asset.index,
+        manager: params.manager,
+        reserve,
+        freeze: params.freeze || undefined,
+        clawback: params.clawback || undefined,
+      })
+
+      const txId = result.txIds[0]
+      registerMintedAsset(network.id, asset.index)
+      enqueueSnackbar('✅ Metadata updated!', {
+        variant: 'success',
+        action: () => (
+          <a
+            href={`${loraBase}/transaction/${txId}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            style={{ textDecoration: 'underline', marginLeft: 8 }}
+          >
+            View Tx on Lora ↗
+          </a>
+        ),
+      })
+      setTimeout(onUpdated, 2000)
+    } catch (e: any) {
+      const msg = e?.response?.body?.message || e?.message || String(e)
+      enqueueSnackbar(`Metadata update failed: ${msg}`, { variant: 'error' })
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  return (
+    <div className="mt-10">
+      <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-2">Update metadata (ARC-19)</h3>
+      <p className="text-sm text-slate-600 dark:text-slate-400">
+        Pins a new metadata JSON and moves the reserve address to its CID. Current:{' '}
+        <span className="font-mono text-xs break-all">{currentUrl || '—'}</span>
+      </p>
+
+      {loadError && <p className="mt-2 text-xs text-red-600 dark:text-red-400">Could not load current metadata: {loadError}</p>}
+
+      <NftMetadataEditor name={name} value={draft} onChange={setDraft} problems={problems} image={image} />
+
+      <div className="mt-4 flex justify-end">
+        <button
+          type="button"
+          onClick={handleUpdate}
+          disabled={updating || problems.length > 0 || !current}
+          className="px-6 py-3 rounded-lg font-semibold transition bg-teal-600 hover:bg-teal-700 text-white shadow-md disabled:bg-slate-300 disabled:text-slate-500 disabled:shadow-none dark:disabled:bg-slate-700 dark:disabled:text-slate-400"
+        >
+          {updating ? (
+            <span className="flex items-center gap-2">
+              <AiOutlineLoading3Quarters className="animate-spin" />
+              Updating…
+            </span>
+          ) : (
+            'Update metadata'
+          )}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,140 @@
+import { useWallet } from '@txnlab/use-wallet-react'
+import { indexerModels } from 'algosdk'
+import { useSnackbar } from 'notistack'
+import { useEffect, useState } from 'react'
+import { AiOutlineLoading3Quarters } from 'react-icons/ai'
+import { Arc69Metadata, buildArc69Metadata, draftFromArc69, encodeArc69Note, MAX_NOTE_BYTES } from '../utils/arc69'
+import { registerMintedAsset } from '../utils/mintServer'
+import { useAlgorand, useAppNetwork } from '../utils/network/NetworkContext'
+import { NftMetadataDraft, validateNftMetadata } from '../utils/nftMetadata'
+import NftMetadataEditor from './NftMetadataEditor'
+
+interface UpdateArc69MetadataProps {
+  asset: indexerModels.Asset
+  /** Current ARC-69 metadata (note of the latest acfg transaction) */
+  metadata: Arc69Metadata
+  /** Called after the config transaction is confirmed so the parent can reload on-chain state */
+  onUpdated: () => void
+}
+
+/**
+ * UpdateArc69Metadata Component
+ * For ARC-69 assets managed by the connected account: edit the current metadata and
+ * publish it as the note of an assetConfig that leaves every role unchanged.
+ */
+export default function UpdateArc69Metadata({ asset, metadata, onUpdated }: UpdateArc69MetadataProps) {
+  const params = asset.params
+  const [draft, setDraft] = useState<NftMetadataDraft>(() => draftFromArc69(metadata))
+  const [updating, setUpdating] = useState<boolean>(false)
+
+  const { transactionSigner, activeAddress } = useWallet()
+  const { enqueueSnackbar } = useSnackbar()
+
+  const { network } = useAppNetwork()
+  const loraBase = network.explorerBase
+  const algorand = useAlgorand()
+
+  useEffect(() => {
+    setDraft(draftFromArc69(metadata))
+  }, [metadata])
+
+  const isEditable = !!activeAddress && !asset.deleted && params.manager === activeAddress
+  if (!isEditable) return null
+
+  const mediaUrl = metadata.media_url || params.url || ''
+  const updated = buildArc69Metadata(draft, mediaUrl, metadata.mime_type)
+  const noteBytes = new TextEncoder().encode(JSON.stringify(updated)).length
+  const problems = [
+    ...validateNftMetadata(draft),
+    ...(noteBytes > MAX_NOTE_BYTES ? [`ARC-69 metadata is too large for a note (${noteBytes} / ${MAX_NOTE_BYTES} bytes).`] : []),
+  ]
+
+  /**
+   * assetConfig carrying the new metadata in its note.
+   * Manager, reserve, freeze and clawback are sent unchanged: an omitted role would be cleared on-chain.
+   */
+  const handleUpdate = async () => {
+    if (!activeAddress || !transactionSigner) {
+      enqueueSnackbar('Wallet signer not available. Please try reconnecting your wallet.', { variant: 'error' })
+      return
+    }
+    if (JSON.stringify(updated) === JSON.stringify(buildArc69Metadata(draftFromArc69(metadata), mediaUrl, metadata.mime_type))) {
+      enqueueSnackbar('Metadata is unchanged; nothing to update.', { variant: 'info' })
+      return
+    }
+
+    try {
+      setUpdating(true)
+
+      const result = await algorand.send.assetConfig({
+        sender: activeAddress,
+        signer: transactionSigner,
+        assetId: asset.index,
+        manager: params.manager,
+        reserve: params.reserve || undefined,
+        freeze: params.freeze || undefined,
+        clawback: params.clawback || undefined,
+        note: encodeArc69Note(updated),
+      })
+
+      const txId = result.txIds[0]
+      registerMintedAsset(network.id, asset.index)
+      enqueueSnackbar('✅ Metadata updated!', {
+        variant: 'success',
+        action: () => (
+          <a
+            href={`${loraBase}/transaction/${txId}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            style={{ textDecoration: 'underline', marginLeft: 8 }}
+          >
+            View Tx on Lora ↗
+          </a>
+        ),
+      })
+      setTimeout(onUpdated, 2000)
+    } catch (e: any) {
+      const msg = e?.response?.body?.message || e?.message || String(e)
+      enqueueSnackbar(`Metadata update failed: ${msg}`, { variant: 'error' })
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  return (
+    <div className="mt-10">
+      <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-2">Update metadata (ARC-69)</h3>
+      <p className="text-sm text-slate-600 dark:text-slate-400">
+        Sends an asset config transaction with the new metadata in its note. The media URL stays the same.
+      </p>
+
+      <NftMetadataEditor
+        name={params.name ?? ''}
+        value={draft}
+        onChange={setDraft}
+        problems={problems}
+        image={mediaUrl}
+        imageMimetype={metadata.mime_type}
+        standard="arc69"
+      />
+
+      <div className="mt-4 flex justify-end">
+        <button
+          type="button"
+          onClick={handleUpdate}
+          disabled={updating || problems.length > 0}
+          className="px-6 py-3 rounded-lg font-semibold transition bg-teal-600 hover:bg-teal-700 text-white shadow-md disabled:bg-slate-300 disabled:text-slate-500 disabled:shadow-none dark:disabled:bg-slate-700 dark:disabled:text-slate-400"
+        >
+          {updating ? (
+            <span className="flex items-center gap-2">
+              <AiOutlineLoading3Quarters className="animate-spin" />
+              Updating…
+            </span>
+          ) : (
+            'Update metadata'
+          )}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,97 @@
+import { ChangeEvent } from 'react'
+import { MAX_VAULT_DOCUMENTS } from '../utils/vault'
+
+interface VaultDocumentsInputProps {
+  files: File[]
+  onFilesChange: (files: File[]) => void
+  /** Recipient addresses as typed (one per line or comma-separated) */
+  recipients: string
+  onRecipientsChange: (recipients: string) => void
+  problems: string[]
+  disabled?: boolean
+}
+
+const formatSize = (bytes: number) => (bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`)
+
+/**
+ * VaultDocumentsInput Component
+ * Confidential documents (deeds, appraisals, contracts) for the NFT being minted. They are
+ * encrypted in the browser before upload; only the minter, and listed addresses while they hold
+ * the asset, can get the key from the mint server (which escrows it) and decrypt them on the asset page.
+ */
+export default function VaultDocumentsInput({
+  files,
+  onFilesChange,
+  recipients,
+  onRecipientsChange,
+  problems,
+  disabled,
+}: VaultDocumentsInputProps) {
+  const handleFilesChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(e.target.files ?? [])
+    onFilesChange([...files, ...picked.filter((f) => !files.some((g) => g.name === f.name && g.size === f.size))])
+    e.target.value = ''
+  }
+
+  return (
+    <div className="mt-6 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/40 p-4">
+      <div className="text-sm font-semibold text-slate-700 dark:text-slate-200">Confidential documents (optional)</div>
+      <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+        Encrypted in your browser before pinning; the metadata only lists each file&apos;s name, sha256 and encrypted CID. You, and the
+        addresses below while they hold the asset, can decrypt them from the asset page. The mint server keeps the keys, so its operator can
+        decrypt them too. Up to {MAX_VAULT_DOCUMENTS} files.
+      </p>
+
+      <label className="mt-3 flex items-center gap-3 rounded-lg border border-dashed border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 px-4 py-2 text-sm text-slate-600 dark:text-slate-300 cursor-pointer hover:border-teal-500 transition">
+        <input type="file" multiple className="hidden" onChange={handleFilesChange} disabled={disabled} />
+        Add documents…
+      </label>
+
+      {files.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {files.map((file) => (
+            <li
+              key={`${file.name}:${file.size}`}
+              className="flex items-center justify-between gap-3 text-xs text-slate-700 dark:text-slate-300"
+            >
+              <span className="font-mono truncate">{file.name}</span>
+              <span className="flex items-center gap-2 shrink-0">
+                <span className="text-slate-500 dark:text-slate-400">{formatSize(file.size)}</span>
+                <button
+                  type="button"
+                  onClick={() => onFilesChange(files.filter((f) => f !== file))}
+                  disabled={disabled}
+                  className="px-3 py-1 text-xs bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition"
+                >
+                  Remove
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {files.length > 0 && (
+        <div className="mt-3">
+          <label className="block text-xs font-semibold text-slate-700 dark:text-slate-300 mb-1">Authorized holder addresses</label>
+          <textarea
+            value={recipients}
+            onChange={(e) => onRecipientsChange(e.target.value)}
+            rows={3}
+            disabled={disabled}
+            placeholder="One address per line (you are always included)"
+            className="w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 font-mono text-xs transition"
+          />
+        </div>
+      )}
+
+      {problems.length > 0 && (
+        <ul className="mt-2 list-disc pl-5 text-xs text-red-600 dark:text-red-400">
+          {problems.map((p) => (
+            <li key={p}>{p}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -24,3 +24,23 @@ export interface AlgoViteKMDConfig extends AlgoClientConfig {
   /** KMD wallet password */
   password: string
 }
+
+/** Networks the app can switch between at runtime */
+export type AppNetworkId = 'localnet' | 'testnet' | 'mainnet' | 'custom'
+
+export interface AppNetwork {
+  /** Registry key; also scopes per-network local caches (created assets, audit log) */
+  id: AppNetworkId
+  /** Name shown in the network switcher */
+  label: string
+  algod: AlgoViteClientConfig
+  indexer: AlgoViteClientConfig
+  /** KMD dev wallet, LocalNet only */
+  kmd?: AlgoViteKMDConfig
+  /** Circle USDC ASA id, or undefined when USDC doesn't exist on this network */
+  usdcAssetId?: bigint
+  /** Lora explorer base URL without trailing slash, e.g. https://lora.algokit.io/testnet */
+  explorerBase: string
+  /** Web3Auth network matching this chain (devnet keys for test networks) */
+  web3AuthNetwork: 'sapphire_devnet' | 'sapphire_mainnet'
+}
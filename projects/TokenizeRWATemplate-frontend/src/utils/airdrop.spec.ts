@@ -0,0 +1,84 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import { encodeUnsignedTransaction, makeAssetTransferTxnWithSuggestedParamsFromObject, type TransactionSigner } from 'algosdk'
+import { parseAirdropCsv, sendAirdrop } from './airdrop'
+
+const ADDR_A = 'CZSSO7QIACMGK2AADV47W6FAGOV6NZO42RIYEOYNUUWYYBW36TGQX6JFHA'
+const ADDR_B = 'D56K5FM5VZX7JXY5EMWGBZSNJZQCXO5GZD3NXS3AKTZVINEMVAGYKIVDPU'
+
+describe('parseAirdropCsv', () => {
+  it('should skip a header row and scale amounts by decimals', () => {
+    const rows = parseAirdropCsv(`address,amount\r\n${ADDR_A},1.5\r\n${ADDR_B},2\r\n`, 2)
+    expect(rows.map((r) => [r.line, r.status, r.baseUnits])).toEqual([
+      [1, 'ready', 150n],
+      [2, 'ready', 200n],
+    ])
+  })
+
+  it('should reject bad checksums, duplicates and invalid amounts', () => {
+    const badChecksum = `${ADDR_A.slice(0, 10)}B${ADDR_A.slice(11)}`
+    const rows = parseAirdropCsv(`${badChecksum},1\n${ADDR_A},1\n${ADDR_A},1\n${ADDR_B},0.001`, 2)
+    expect(rows.map((r) => r.error)).toEqual([
+      'Invalid address or checksum',
+      undefined,
+      'Duplicate address',
+      'Too many decimal places (max 2)',
+    ])
+  })
+})
+
+describe('sendAirdrop', () => {
+  const suggestedParams = {
+    fee: 1000n,
+    minFee: 1000n,
+    firstValid: 1n,
+    lastValid: 1001n,
+    genesisHash: new Uint8Array(32),
+    genesisID: 'test',
+  }
+
+  // algod that accepts every submission; `confirmedRound` decides what the pending pool reports
+  const fakeAlgorand = (state: { confirmedRound?: bigint; submitted: number }) => {
+    const call = <T>(value: () => T) => ({ do: async () => value() })
+    return {
+      createTransaction: {
+        assetTransfer: async ({ sender, assetId, receiver, amount }: any) =>
+          makeAssetTransferTxnWithSuggestedParamsFromObject({ sender, receiver, assetIndex: assetId, amount, suggestedParams }),
+      },
+      client: {
+        algod: {
+          sendRawTransaction: () => call(() => state.submitted++),
+          status: () => call(() => ({ lastRound: 1n })),
+          statusAfterBlock: () => call(() => ({})),
+          pendingTransactionInformation: () => call(() => ({ confirmedRound: state.confirmedRound, poolError: '' })),
+        },
+        indexer: {
+          lookupTransactionByID: () => call(() => Promise.reject(new Error('not found'))),
+        },
+      },
+    } as unknown as AlgorandClient
+  }
+
+  it('should keep a timed-out group pending and re-submit it without signing again', async () => {
+    const state: { confirmedRound?: bigint; submitted: number } = { submitted: 0 }
+    const algorand = fakeAlgorand(state)
+    let signatures = 0
+    const signer: TransactionSigner = async (txns) => {
+      signatures++
+      return txns.map((t) => encodeUnsignedTransaction(t))
+    }
+    const rows = parseAirdropCsv(`${ADDR_A},1\n${ADDR_B},2`, 0)
+
+    const first = await sendAirdrop(algorand, ADDR_A, signer, 1n, rows)
+    expect(first.map((r) => r.status)).toEqual(['pending', 'pending'])
+    expect(first[0].txId).toBeDefined()
+
+    state.confirmedRound = 7n
+    const second = await sendAirdrop(algorand, ADDR_A, signer, 1n, first)
+    expect(second.map((r) => [r.status, r.txId])).toEqual([
+      ['sent', first[0].txId],
+      ['sent', first[1].txId],
+    ])
+    expect(signatures).toBe(1)
+    expect(state.submitted).toBe(1)
+  })
+})
@@ -0,0 +1,239 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import { assignGroupID, bytesToBase64, isValidAddress, Transaction, TransactionSigner } from 'algosdk'
+import { decimalToBaseUnits } from './amounts'
+import { chunk, submitSignedGroup } from './atomicGroups'
+import { parseCsv, toCsv } from './csv'
+import { lookupHolding } from './optIns'
+
+/**
+ * Lifecycle of one airdrop row
+ * - 'invalid': rejected by validation, never sent
+ * - 'ready': validated, waiting to be sent (or re-sent after a failure)
+ * - 'sent': confirmed on-chain
+ * - 'pending': its atomic group was submitted but not seen confirming; a retry checks the chain
+ *   and re-submits the same signed bytes, so the group can never land twice
+ * - 'failed': its atomic group was rejected; can be retried
+ */
+export type AirdropRowStatus = 'invalid' | 'ready' | 'sent' | 'pending' | 'failed'
+
+export type AirdropRow = {
+  /** 1-based data row in the uploaded CSV (header and blank lines not counted) */
+  line: number
+  address: string
+  /** Amount as written in the CSV (display units) */
+  amount: string
+  baseUnits: bigint
+  status: AirdropRowStatus
+  error?: string
+  txId?: string
+  /** 'pending' rows: the signed transfer as submitted, and its group (base64 group id) */
+  signedTxn?: Uint8Array
+  groupId?: string
+}
+
+/** One atomic group on its way to algod */
+type SubmitGroup = {
+  rows: AirdropRow[]
+  txIds: string[]
+  blobs: Uint8Array[]
+  groupId: string
+  resubmit: boolean
+}
+
+/** Flat fee per transfer (microALGO) used for the sender's ALGO check */
+const MIN_TXN_FEE = 1_000n
+
+/** Parallel algod lookups while validating receivers */
+const LOOKUP_CONCURRENCY = 8
+
+/**
+ * Parse `address,amount` CSV text into airdrop rows
+ * - A first row whose amount isn't numeric is treated as a header and skipped
+ * - Address checksums and amount precision are validated here; chain state in `validateAirdropRows`
+ * - Repeated addresses are rejected (identical transfers would collide inside a group)
+ */
+export function parseAirdropCsv(text: string, decimals: number): AirdropRow[] {
+  const records = parseCsv(text)
+  if (records.length > 0 && !/^\s*\d*\.?\d+\s*$/.test(records[0][1] ?? '')) {
+    records.shift()
+  }
+
+  const seen = new Set<string>()
+  return records.map((record, i) => {
+    const line = i + 1
+    const address = (record[0] ?? '').trim()
+    const amount = (record[1] ?? '').trim()
+    const row: AirdropRow = { line, address, amount, baseUnits: 0n, status: 'ready' }
+
+    if (record.length !== 2) {
+      return { ...row, status: 'invalid', error: 'Expected 2 columns: address,amount' }
+    }
+    if (!isValidAddress(address)) {
+      return { ...row, status: 'invalid', error: 'Invalid address or checksum' }
+    }
+    if (seen.has(address)) {
+      return { ...row, status: 'invalid', error: 'Duplicate address' }
+    }
+    seen.add(address)
+
+    try {
+      row.baseUnits = decimalToBaseUnits(amount, decimals)
+    } catch (e: any) {
+      return { ...row, status: 'invalid', error: e?.message || 'Invalid amount' }
+    }
+    if (row.baseUnits <= 0n) {
+      return { ...row, status: 'invalid', error: 'Amount must be greater than 0' }
+    }
+
+    return row
+  })
+}
+
+/**
+ * Check receivers against algod (opted in, not frozen) and the sender's asset/ALGO balances.
+ * Only 'ready' rows are checked; failing receivers become 'invalid'.
+ * Sender-level problems are returned separately since they block the whole batch.
+ */
+export async function validateAirdropRows(
+  algorand: AlgorandClient,
+  sender: string,
+  assetId: bigint,
+  rows: AirdropRow[],
+): Promise<{ rows: AirdropRow[]; problems: string[] }> {
+  const checked = [...rows]
+  const indexes = rows.map((r, i) => (r.status === 'ready' ? i : -1)).filter((i) => i >= 0)
+
+  for (const batch of chunk(indexes, LOOKUP_CONCURRENCY)) {
+    await Promise.all(
+      batch.map(async (i) => {
+        const row = checked[i]
+        try {
+          const holding = await lookupHolding(algorand, row.address, assetId)
+          if (holding.status !== 'opted-in') {
+            checked[i] = { ...row, status: 'invalid', error: 'Receiver has not opted in to this asset' }
+          } else if (holding.isFrozen) {
+            checked[i] = { ...row, status: 'invalid', error: "Receiver's holding is frozen" }
+          }
+        } catch (e: any) {
+          checked[i] = { ...row, status: 'invalid', error: `Could not check receiver: ${e?.message || 'unknown error'}` }
+        }
+      }),
+    )
+  }
+
+  const ready = checked.filter((r) => r.status === 'ready')
+  const problems: string[] = []
+  if (ready.length === 0) return { rows: checked, problems }
+
+  const needed = ready.reduce((sum, r) => sum + r.baseUnits, 0n)
+  const [senderHolding, senderInfo] = await Promise.all([
+    lookupHolding(algorand, sender, assetId),
+    algorand.client.algod.accountInformation(sender).do(),
+  ])
+
+  if (senderHolding.status !== 'opted-in') {
+    problems.push('Your account is not opted in to this asset.')
+  } else if (senderHolding.isFrozen) {
+    problems.push('Your holding of this asset is frozen.')
+  } else if (senderHolding.balance < needed) {
+    problems.push(`Insufficient asset balance: need ${needed} base units, have ${senderHolding.balance}.`)
+  }
+
+  const fees = MIN_TXN_FEE * BigInt(ready.length)
+  if (senderInfo.amount - senderInfo.minBalance < fees) {
+    problems.push(`Not enough ALGO for fees: ${ready.length} transfers need ${fees} microALGO above your min balance.`)
+  }
+
+  return { rows: checked, problems }
+}
+
+/**
+ * Send every 'ready' row as asset transfers chunked into atomic groups of 16.
+ * All new groups are signed in one wallet request, then submitted group by group;
+ * a rejected group marks only its own rows 'failed' so they can be retried.
+ * A group whose confirmation wait runs out is looked up before anything else happens: if its
+ * outcome is still unknown its rows become 'pending', and the next call re-submits the same
+ * signed bytes (a duplicate is harmless) instead of signing new transfers that could pay twice.
+ */
+export async function sendAirdrop(
+  algorand: AlgorandClient,
+  sender: string,
+  signer: TransactionSigner,
+  assetId: bigint,
+  rows: AirdropRow[],
+  onProgress?: (groupsDone: number, groupsTotal: number) => void,
+): Promise<AirdropRow[]> {
+  const pendingGroups = new Map<string, AirdropRow[]>()
+  for (const r of rows) {
+    if (r.status === 'pending' && r.signedTxn && r.groupId) pendingGroups.set(r.groupId, [...(pendingGroups.get(r.groupId) ?? []), r])
+  }
+  const groups: SubmitGroup[] = [...pendingGroups].map(([groupId, group]) => ({
+    rows: group,
+    txIds: group.map((r) => r.txId!),
+    blobs: group.map((r) => r.signedTxn!),
+    groupId,
+    resubmit: true,
+  }))
+
+  const fresh = chunk(rows.filter((r) => r.status === 'ready'))
+  const built: Transaction[][] = []
+  for (const group of fresh) {
+    const txns = await Promise.all(
+      group.map((r) => algorand.createTransaction.assetTransfer({ sender, assetId, receiver: r.address, amount: r.baseUnits })),
+    )
+    built.push(assignGroupID(txns))
+  }
+
+  const flat = built.flat()
+  if (flat.length > 0) {
+    const signed = await signer(
+      flat,
+      flat.map((_, i) => i),
+    )
+    let offset = 0
+    fresh.forEach((group, g) => {
+      const txns = built[g]
+      groups.push({
+        rows: group,
+        txIds: txns.map((t) => t.txID()),
+        blobs: signed.slice(offset, offset + txns.length),
+        groupId: bytesToBase64(txns[0].group!),
+        resubmit: false,
+      })
+      offset += txns.length
+    })
+  }
+
+  const results = new Map<number, AirdropRow>()
+  for (let g = 0; g < groups.length; g++) {
+    const group = groups[g]
+    const outcome = await submitSignedGroup(algorand, group)
+
+    group.rows.forEach((r, i) => {
+      if (outcome.status === 'confirmed') {
+        results.set(r.line, { ...r, status: 'sent', error: undefined, txId: group.txIds[i], signedTxn: undefined, groupId: undefined })
+      } else if (outcome.status === 'rejected') {
+        results.set(r.line, { ...r, status: 'failed', error: outcome.error, txId: undefined, signedTxn: undefined, groupId: undefined })
+      } else {
+        results.set(r.line, {
+          ...r,
+          status: 'pending',
+          error: 'Submitted but not confirmed yet; retrying checks it and re-submits the same transaction',
+          txId: group.txIds[i],
+          signedTxn: group.blobs[i],
+          groupId: group.groupId,
+        })
+      }
+    })
+    onProgress?.(g + 1, groups.length)
+  }
+
+  return rows.map((r) => results.get(r.line) ?? r)
+}
+
+export function airdropReportToCsv(rows: AirdropRow[]): string {
+  return toCsv([
+    ['line', 'address', 'amount', 'status', 'tx_id', 'error'],
+    ...rows.map((r) => [r.line, r.address, r.amount, r.status, r.txId, r.error]),
+  ])
+}
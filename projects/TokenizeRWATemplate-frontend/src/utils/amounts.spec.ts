@@ -0,0 +1,20 @@
+import { baseUnitsToDecimal, decimalToBaseUnits } from './amounts'
+
+describe('decimalToBaseUnits', () => {
+  it('should scale a decimal string by the given decimals', () => {
+    expect(decimalToBaseUnits('1.5', 6)).toBe(1500000n)
+    expect(decimalToBaseUnits('42', 0)).toBe(42n)
+  })
+
+  it('should reject too many decimal places', () => {
+    expect(() => decimalToBaseUnits('0.123', 2)).toThrow('Too many decimal places (max 2)')
+  })
+})
+
+describe('baseUnitsToDecimal', () => {
+  it('should format base units without trailing zeros', () => {
+    expect(baseUnitsToDecimal(1500000n, 6)).toBe('1.5')
+    expect(baseUnitsToDecimal(1000n, 0)).toBe('1000')
+    expect(baseUnitsToDecimal(5n, 3)).toBe('0.005')
+  })
+})
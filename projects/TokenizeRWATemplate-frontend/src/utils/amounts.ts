@@ -0,0 +1,39 @@
+/**
+ * Convert a decimal string (e.g. "1.23") into base units bigint given decimals.
+ * - Supports up to `decimals` fractional digits.
+ * - Rejects negatives and invalid formats.
+ */
+export function decimalToBaseUnits(value: string, decimals: number): bigint {
+  const v = value.trim()
+  if (!v) throw new Error('Amount is required')
+
+  // Allow: "1", "1.", "1.0", ".5" ? We'll keep it simple: must start with digit.
+  // (Users can type 0.5)
+  if (!/^\d+(\.\d+)?$/.test(v)) throw new Error('Invalid amount format')
+
+  const [wholeRaw, fracRaw = ''] = v.split('.')
+  const whole = wholeRaw || '0'
+  const frac = fracRaw || ''
+
+  if (frac.length > decimals) {
+    throw new Error(`Too many decimal places (max ${decimals})`)
+  }
+
+  const fracPadded = frac.padEnd(decimals, '0')
+  const combined = `${whole}${fracPadded}`.replace(/^0+(?=\d)/, '') // keep at least one digit
+  return BigInt(combined || '0')
+}
+
+/**
+ * Convert base units back into a decimal string for display.
+ * Trailing fractional zeros are dropped (e.g. 1500000n with 6 decimals -> "1.5").
+ */
+export function baseUnitsToDecimal(amount: bigint | number, decimals: number): string {
+  const value = BigInt(amount)
+  if (decimals <= 0) return value.toString()
+
+  const divisor = 10n ** BigInt(decimals)
+  const whole = value / divisor
+  const frac = (value % divisor).toString().padStart(decimals, '0').replace(/0+$/, '')
+  return frac ? `${whole}.${frac}` : whole.toString()
+}
@@ -0,0 +1,26 @@
+import { arc19TemplateUrl, cidToReserveAddress, isArc19Url, resolveArc19Url } from './arc19'
+
+const CID_V0 = 'QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG'
+const CID_V1 = 'bafybeie5nqv6kd3qnfjupgvz34woh3oksc3iau6abmyajn7qvtf6d2ho34'
+const CID_V1_RAW = 'bafkreie5nqv6kd3qnfjupgvz34woh3oksc3iau6abmyajn7qvtf6d2ho34'
+
+describe('arc19TemplateUrl', () => {
+  it('should follow the CID version and codec', () => {
+    expect(arc19TemplateUrl(CID_V0)).toBe('template-ipfs://{ipfscid:0:dag-pb:reserve:sha2-256}')
+    expect(arc19TemplateUrl(CID_V1_RAW)).toBe('template-ipfs://{ipfscid:1:raw:reserve:sha2-256}')
+  })
+})
+
+describe('resolveArc19Url', () => {
+  it('should round-trip a CID through the reserve address', () => {
+    const reserve = cidToReserveAddress(CID_V0)
+    expect(resolveArc19Url(`${arc19TemplateUrl(CID_V0)}#arc3`, reserve)).toBe(`ipfs://${CID_V0}#arc3`)
+    expect(resolveArc19Url(arc19TemplateUrl(CID_V1), reserve)).toBe(`ipfs://${CID_V1}`)
+    expect(resolveArc19Url(arc19TemplateUrl(CID_V1_RAW), reserve)).toBe(`ipfs://${CID_V1_RAW}`)
+  })
+
+  it('should only accept reserve-based sha2-256 templates', () => {
+    expect(isArc19Url('template-ipfs://{ipfscid:1:raw:reserve:sha2-256}#arc3')).toBe(true)
+    expect(isArc19Url('ipfs://bafy#arc3')).toBe(false)
+  })
+})
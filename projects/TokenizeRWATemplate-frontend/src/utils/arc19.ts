@@ -0,0 +1,44 @@
+import { Address, encodeAddress } from 'algosdk'
+import { decodeCid, encodeCid } from './cid'
+
+/**
+ * ARC-19 (https://arc.algorand.foundation/ARCs/arc-0019): the asset URL is a template and the
+ * metadata CID's sha2-256 digest lives in the reserve address, so the manager can point the
+ * asset at new metadata with an assetConfig that only changes the reserve.
+ */
+const TEMPLATE_RE = /^template-ipfs:\/\/\{ipfscid:(\d+):([a-z0-9-]+):reserve:sha2-256\}(.*)$/
+
+export function isArc19Url(url?: string): boolean {
+  return !!url && TEMPLATE_RE.test(url)
+}
+
+/**
+ * `template-ipfs://{ipfscid:<version>:<codec>:reserve:sha2-256}` matching how `cid` was encoded
+ */
+export function arc19TemplateUrl(cid: string): string {
+  const { version, codec } = decodeCid(cid)
+  return `template-ipfs://{ipfscid:${version}:${codec}:reserve:sha2-256}`
+}
+
+/**
+ * Reserve address that carries the CID's 32-byte digest
+ */
+export function cidToReserveAddress(cid: string): string {
+  return encodeAddress(decodeCid(cid).digest)
+}
+
+/**
+ * Resolve an ARC-19 template URL against the current reserve into `ipfs://CID/…`
+ * (anything after the template, e.g. `#arc3`, is kept)
+ */
+export function resolveArc19Url(url: string, reserve: string): string {
+  const match = TEMPLATE_RE.exec(url)
+  if (!match) throw new Error('Not an ARC-19 template URL')
+
+  const [, version, codec, rest] = match
+  if (version !== '0' && version !== '1') throw new Error(`Unsupported CID version ${version}`)
+  if (codec !== 'dag-pb' && codec !== 'raw') throw new Error(`Unsupported CID codec ${codec}`)
+
+  const digest = Address.fromString(reserve).publicKey
+  return `ipfs://${encodeCid({ version: version === '0' ? 0 : 1, codec, digest })}${rest}`
+}
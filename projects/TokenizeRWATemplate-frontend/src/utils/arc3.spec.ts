@@ -0,0 +1,24 @@
+import { bytesToBase64 } from 'algosdk'
+import { computeArc3MetadataHash, isArc3Asset, toArc3Url } from './arc3'
+
+describe('toArc3Url', () => {
+  it('should append #arc3 once', () => {
+    expect(toArc3Url('ipfs://bafy')).toBe('ipfs://bafy#arc3')
+    expect(toArc3Url('ipfs://bafy#arc3')).toBe('ipfs://bafy#arc3')
+  })
+})
+
+describe('isArc3Asset', () => {
+  it('should accept the URL suffix or the @arc3 name suffix', () => {
+    expect(isArc3Asset({ url: 'ipfs://bafy#arc3', assetName: 'Ticket' })).toBe(true)
+    expect(isArc3Asset({ url: 'ipfs://bafy', assetName: 'Ticket@arc3' })).toBe(true)
+    expect(isArc3Asset({ url: 'ipfs://bafy', assetName: 'Ticket' })).toBe(false)
+  })
+})
+
+describe('computeArc3MetadataHash', () => {
+  it('should hash the exact JSON bytes with sha256', async () => {
+    const hash = await computeArc3MetadataHash(new TextEncoder().encode('{"name":"NFT Example"}'))
+    expect(bytesToBase64(hash)).toBe('ObrvZzp5y5dHjVdnor0kW7/G2d5cG9Xiz+TJO0dIvL8=')
+  })
+})
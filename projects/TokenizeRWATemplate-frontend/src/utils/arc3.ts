@@ -0,0 +1,181 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import { base64ToBytes, bytesToBase64 } from 'algosdk'
+import { sha512_256 } from 'js-sha512'
+import { isArc19Url, resolveArc19Url } from './arc19'
+import { ipfsToGatewayUrl } from './ipfs'
+
+/** URL suffix that marks an ASA as ARC-3 (https://arc.algorand.foundation/ARCs/arc-0003) */
+export const ARC3_URL_SUFFIX = '#arc3'
+
+/**
+ * One check made by the verifier; `detail` explains a failure (or the value compared)
+ */
+export type Arc3Check = {
+  label: string
+  ok: boolean
+  detail?: string
+}
+
+export type Arc3Verification = {
+  assetId: bigint
+  assetName?: string
+  /** URL as stored on-chain */
+  url?: string
+  /** HTTPS URL the metadata was fetched from */
+  fetchUrl?: string
+  /** base64 */
+  onChainHash?: string
+  /** base64 */
+  computedHash?: string
+  metadata?: Record<string, unknown>
+  checks: Arc3Check[]
+  verified: boolean
+}
+
+/**
+ * Append `#arc3` to a metadata URL (no-op when already present)
+ */
+export function toArc3Url(url: string): string {
+  return url.endsWith(ARC3_URL_SUFFIX) ? url : `${url}${ARC3_URL_SUFFIX}`
+}
+
+/**
+ * ARC-3 marks an ASA either by the `#arc3` URL suffix or by the asset name (`arc3` / `…@arc3`)
+ */
+export function isArc3Asset(params: { url?: string; assetName?: string }): boolean {
+  const name = params.assetName ?? ''
+  return !!params.url?.endsWith(ARC3_URL_SUFFIX) || name === 'arc3' || name.endsWith('@arc3')
+}
+
+async function sha256(bytes: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', Uint8Array.from(bytes)))
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0))
+  let offset = 0
+  for (const p of parts) {
+    out.set(p, offset)
+    offset += p.length
+  }
+  return out
+}
+
+/**
+ * ARC-3 metadata hash of the exact JSON bytes:
+ * sha256(json), or, when the JSON carries `extra_metadata`,
+ * SHA-512/256("arc0003/am" || SHA-512/256("arc0003/amj" || json) || extra_metadata)
+ */
+export async function computeArc3MetadataHash(jsonBytes: Uint8Array): Promise<Uint8Array> {
+  let extraMetadata: string | undefined
+  try {
+    const parsed = JSON.parse(new TextDecoder().decode(jsonBytes))
+    if (typeof parsed?.extra_metadata === 'string') extraMetadata = parsed.extra_metadata
+  } catch {
+    // not JSON: hash the bytes as-is, the verifier reports the parse error separately
+  }
+
+  if (extraMetadata === undefined) return sha256(jsonBytes)
+
+  const encoder = new TextEncoder()
+  const jsonHash = Uint8Array.from(sha512_256.digest(concatBytes(encoder.encode('arc0003/amj'), jsonBytes)))
+  return Uint8Array.from(sha512_256.digest(concatBytes(encoder.encode('arc0003/am'), jsonHash, base64ToBytes(extraMetadata))))
+}
+
+/**
+ * Re-fetch an asset's metadata from its URL and check it against the on-chain ARC-3 fields:
+ * `#arc3` marker, 32-byte metadata hash, hash of the fetched JSON bytes, and decimals.
+ * ARC-19 URLs are resolved through the reserve address and skip the hash checks.
+ */
+export async function verifyArc3Asset(algorand: AlgorandClient, assetId: bigint): Promise<Arc3Verification> {
+  const asset = await algorand.asset.getById(assetId)
+  const checks: Arc3Check[] = []
+  const result: Arc3Verification = {
+    assetId,
+    assetName: asset.assetName,
+    url: asset.url,
+    onChainHash: asset.metadataHash?.length ? bytesToBase64(asset.metadataHash) : undefined,
+    checks,
+    verified: false,
+  }
+
+  checks.push({
+    label: 'Marked as ARC-3',
+    ok: isArc3Asset(asset),
+    detail: isArc3Asset(asset) ? undefined : 'URL does not end with #arc3 and the name has no @arc3 suffix',
+  })
+
+  // ARC-19 metadata is mutable, so there is no on-chain hash to compare against
+  const isMutable = isArc19Url(asset.url)
+  const hashOk = asset.metadataHash?.length === 32
+  if (!isMutable) {
+    checks.push({
+      label: 'Metadata hash set',
+      ok: hashOk,
+      detail: hashOk
+        ? undefined
+        : asset.metadataHash?.length
+          ? `${asset.metadataHash.length} bytes, expected 32`
+          : 'No metadata hash on-chain',
+    })
+  }
+
+  if (!asset.url) {
+    checks.push({ label: 'Metadata fetched', ok: false, detail: 'Asset has no URL' })
+    return result
+  }
+
+  let url = asset.url
+  if (isMutable) {
+    try {
+      url = resolveArc19Url(asset.url, asset.reserve ?? '')
+      checks.push({ label: 'ARC-19 reserve resolves to a CID', ok: true, detail: url })
+    } catch (e: any) {
+      checks.push({ label: 'ARC-19 reserve resolves to a CID', ok: false, detail: e?.message || String(e) })
+      return result
+    }
+  }
+
+  // ARC-3 URLs may contain {id}, replaced by the asset id
+  result.fetchUrl = ipfsToGatewayUrl(url.replace(/\{id\}/g, String(assetId)))
+
+  let bytes: Uint8Array
+  try {
+    const response = await fetch(result.fetchUrl)
+    if (!response.ok) throw new Error(`HTTP ${response.status}`)
+    bytes = new Uint8Array(await response.arrayBuffer())
+    checks.push({ label: 'Metadata fetched', ok: true, detail: `${bytes.length} bytes` })
+  } catch (e: any) {
+    checks.push({ label: 'Metadata fetched', ok: false, detail: e?.message || String(e) })
+    return result
+  }
+
+  try {
+    result.metadata = JSON.parse(new TextDecoder().decode(bytes))
+    checks.push({ label: 'Metadata is JSON', ok: true })
+  } catch (e: any) {
+    checks.push({ label: 'Metadata is JSON', ok: false, detail: e?.message || String(e) })
+  }
+
+  result.computedHash = bytesToBase64(await computeArc3MetadataHash(bytes))
+  if (!isMutable) {
+    checks.push({
+      label: 'Hash matches metadata',
+      ok: !!result.onChainHash && result.onChainHash === result.computedHash,
+      detail:
+        result.onChainHash === result.computedHash ? undefined : `on-chain ${result.onChainHash ?? '—'}, computed ${result.computedHash}`,
+    })
+  }
+
+  const metaDecimals = result.metadata?.decimals
+  if (metaDecimals !== undefined) {
+    checks.push({
+      label: 'Decimals match',
+      ok: metaDecimals === asset.decimals,
+      detail: metaDecimals === asset.decimals ? undefined : `metadata ${String(metaDecimals)}, asset ${asset.decimals}`,
+    })
+  }
+
+  result.verified = checks.every((c) => c.ok)
+  return result
+}
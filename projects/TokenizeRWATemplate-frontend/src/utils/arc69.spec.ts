@@ -0,0 +1,62 @@
+import {
+  arc69MediaUrl,
+  buildArc69Metadata,
+  draftFromArc69,
+  encodeArc69Note,
+  hasArc69MediaHint,
+  MAX_NOTE_BYTES,
+  parseArc69Note,
+} from './arc69'
+import { EMPTY_NFT_METADATA, NftMetadataDraft } from './nftMetadata'
+
+const DRAFT: NftMetadataDraft = {
+  ...EMPTY_NFT_METADATA,
+  description: 'Gold bar',
+  traits: [{ key: 'Purity', value: '999.9' }],
+  serialNumber: 'GB-001',
+  valuationAmount: '2500',
+}
+
+describe('arc69MediaUrl', () => {
+  it('should add the fragment hint for the MIME type', () => {
+    expect(arc69MediaUrl('ipfs://bafy', 'image/png')).toBe('ipfs://bafy#i')
+    expect(arc69MediaUrl('ipfs://bafy#i', 'video/mp4')).toBe('ipfs://bafy#v')
+    expect(arc69MediaUrl('ipfs://bafy', 'application/pdf')).toBe('ipfs://bafy#p')
+    expect(hasArc69MediaHint('ipfs://bafy#i')).toBe(true)
+    expect(hasArc69MediaHint('ipfs://bafy#arc3')).toBe(false)
+  })
+})
+
+describe('buildArc69Metadata', () => {
+  it('should flatten traits and keep RWA fields grouped', () => {
+    expect(buildArc69Metadata(DRAFT, 'ipfs://bafy#i', 'image/png')).toEqual({
+      standard: 'arc69',
+      description: 'Gold bar',
+      media_url: 'ipfs://bafy#i',
+      mime_type: 'image/png',
+      properties: { Purity: '999.9', rwa: { serial_number: 'GB-001', valuation: { amount: 2500, currency: 'USD' } } },
+    })
+  })
+
+  it('should round-trip through a note and back into a draft', () => {
+    const metadata = buildArc69Metadata(DRAFT, 'ipfs://bafy#i', 'image/png')
+    const parsed = parseArc69Note(encodeArc69Note(metadata))
+    expect(parsed).toEqual(metadata)
+    expect(draftFromArc69(parsed!)).toEqual(DRAFT)
+  })
+})
+
+describe('encodeArc69Note', () => {
+  it('should reject metadata over the note limit', () => {
+    const metadata = buildArc69Metadata({ ...DRAFT, description: 'x'.repeat(MAX_NOTE_BYTES) }, 'ipfs://bafy#i')
+    expect(() => encodeArc69Note(metadata)).toThrow()
+  })
+})
+
+describe('parseArc69Note', () => {
+  it('should ignore notes that are not ARC-69 JSON', () => {
+    expect(parseArc69Note(new TextEncoder().encode('hello'))).toBeUndefined()
+    expect(parseArc69Note(new TextEncoder().encode('{"standard":"arc3"}'))).toBeUndefined()
+    expect(parseArc69Note(undefined)).toBeUndefined()
+  })
+})
@@ -0,0 +1,142 @@
+import type { Indexer } from 'algosdk'
+import { EMPTY_NFT_METADATA, NftMetadataDraft } from './nftMetadata'
+
+/**
+ * ARC-69 (https://arc.algorand.foundation/ARCs/arc-0069): metadata is JSON in the note of the
+ * asset's most recent acfg transaction; the asset URL points straight at the media.
+ */
+export type Arc69Metadata = {
+  standard: 'arc69'
+  description?: string
+  external_url?: string
+  media_url?: string
+  mime_type?: string
+  properties?: Record<string, unknown>
+}
+
+/** Protocol limit on transaction notes */
+export const MAX_NOTE_BYTES = 1024
+
+/** Media URL fragment hints from ARC-69: #i image, #v video, #a audio, #p pdf, #h html */
+export function arc69MediaUrl(url: string, mimeType?: string): string {
+  const base = url.split('#')[0]
+  if (!mimeType) return base
+  if (mimeType.startsWith('image/')) return `${base}#i`
+  if (mimeType.startsWith('video/')) return `${base}#v`
+  if (mimeType.startsWith('audio/')) return `${base}#a`
+  if (mimeType === 'application/pdf') return `${base}#p`
+  if (mimeType === 'text/html') return `${base}#h`
+  return base
+}
+
+/**
+ * Whether an asset URL carries an ARC-69 media hint (only then is the note history worth reading)
+ */
+export function hasArc69MediaHint(url?: string): boolean {
+  return !!url && /#[ivaph]$/.test(url)
+}
+
+/**
+ * ARC-69 JSON for a draft. Traits are flattened into `properties` (as ARC-69 marketplaces
+ * expect); RWA fields stay grouped under `properties.rwa`.
+ */
+export function buildArc69Metadata(draft: NftMetadataDraft, mediaUrl: string, mimeType?: string): Arc69Metadata {
+  const properties: Record<string, unknown> = {}
+  for (const t of draft.traits) {
+    if (t.key.trim() && t.value.trim()) properties[t.key.trim()] = t.value.trim()
+  }
+
+  const rwa: Record<string, unknown> = {}
+  if (draft.location.trim()) rwa.location = draft.location.trim()
+  if (draft.serialNumber.trim()) rwa.serial_number = draft.serialNumber.trim()
+  if (draft.valuationAmount.trim()) {
+    rwa.valuation = { amount: Number(draft.valuationAmount.trim()), currency: draft.valuationCurrency.trim() }
+  }
+  if (Object.keys(rwa).length > 0) properties.rwa = rwa
+
+  return {
+    standard: 'arc69',
+    ...(draft.description.trim() ? { description: draft.description.trim() } : {}),
+    ...(draft.externalUrl.trim() ? { external_url: draft.externalUrl.trim() } : {}),
+    media_url: mediaUrl,
+    ...(mimeType ? { mime_type: mimeType } : {}),
+    ...(Object.keys(properties).length > 0 ? { properties } : {}),
+  }
+}
+
+/**
+ * Note bytes for an acfg transaction; throws when over the 1KB note limit
+ */
+export function encodeArc69Note(metadata: Arc69Metadata): Uint8Array {
+  const note = new TextEncoder().encode(JSON.stringify(metadata))
+  if (note.length > MAX_NOTE_BYTES) {
+    throw new Error(`ARC-69 metadata is ${note.length} bytes; notes are limited to ${MAX_NOTE_BYTES}. Shorten the description or traits.`)
+  }
+  return note
+}
+
+/** Longest media URL a freshly pinned file gets (59-char CIDv1), for sizing the note before upload */
+const MAX_PINNED_MEDIA_URL = `ipfs://${'b'.repeat(59)}#i`
+
+/**
+ * Note size in bytes for a draft whose media is not pinned yet (worst case for the CID length)
+ */
+export function estimateArc69NoteBytes(draft: NftMetadataDraft, mimeType?: string): number {
+  return new TextEncoder().encode(JSON.stringify(buildArc69Metadata(draft, MAX_PINNED_MEDIA_URL, mimeType))).length
+}
+
+/**
+ * Parse a transaction note as ARC-69 metadata (undefined when it isn't one)
+ */
+export function parseArc69Note(note?: Uint8Array): Arc69Metadata | undefined {
+  if (!note || note.length === 0) return undefined
+  try {
+    const parsed = JSON.parse(new TextDecoder('utf-8', { fatal: true }).decode(note))
+    return parsed && typeof parsed === 'object' && parsed.standard === 'arc69' ? (parsed as Arc69Metadata) : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Current ARC-69 metadata of an asset: the note of its most recent acfg transaction that
+ * carries valid ARC-69 JSON (undefined when the asset has none)
+ */
+export async function fetchArc69Metadata(indexer: Indexer, assetId: bigint): Promise<Arc69Metadata | undefined> {
+  let latest: Arc69Metadata | undefined
+  let nextToken: string | undefined
+
+  // Indexer returns transactions oldest first, so the last match wins
+  do {
+    let query = indexer.lookupAssetTransactions(assetId).txType('acfg').limit(100)
+    if (nextToken) query = query.nextToken(nextToken)
+    const page = await query.do()
+    for (const t of page.transactions) {
+      latest = parseArc69Note(t.note) ?? latest
+    }
+    nextToken = page.transactions.length > 0 ? page.nextToken : undefined
+  } while (nextToken)
+
+  return latest
+}
+
+/**
+ * Editor draft from ARC-69 metadata: `rwa` maps back to RWA fields, other properties become traits
+ */
+export function draftFromArc69(metadata: Arc69Metadata): NftMetadataDraft {
+  const str = (v: unknown) => (typeof v === 'string' ? v : typeof v === 'number' ? String(v) : '')
+  const record = (v: unknown) => (v && typeof v === 'object' ? (v as Record<string, unknown>) : {})
+  const { rwa: rwaValue, ...traits } = (metadata.properties ?? {}) as Record<string, unknown>
+  const rwa = record(rwaValue)
+  const valuation = record(rwa.valuation)
+
+  return {
+    description: str(metadata.description),
+    externalUrl: str(metadata.external_url),
+    traits: Object.entries(traits).map(([key, value]) => ({ key, value: typeof value === 'object' ? JSON.stringify(value) : str(value) })),
+    location: str(rwa.location),
+    serialNumber: str(rwa.serial_number),
+    valuationAmount: str(valuation.amount),
+    valuationCurrency: str(valuation.currency) || EMPTY_NFT_METADATA.valuationCurrency,
+  }
+}
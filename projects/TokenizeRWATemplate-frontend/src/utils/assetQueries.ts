@@ -0,0 +1,69 @@
+import type { Indexer, indexerModels } from 'algosdk'
+
+/**
+ * One account opted in to an asset, as reported by the indexer
+ */
+export type AssetHolder = {
+  address: string
+  amount: bigint
+  isFrozen: boolean
+  optedInAtRound?: bigint
+}
+
+/**
+ * One page of asset transfer history
+ * `nextToken` is undefined on the last page
+ */
+export type AssetTransferPage = {
+  transactions: indexerModels.Transaction[]
+  nextToken?: string
+}
+
+const HOLDERS_PAGE_LIMIT = 1000
+export const TRANSFERS_PAGE_LIMIT = 20
+
+/**
+ * Look up an asset by id, including destroyed assets (check `deleted`)
+ */
+export async function fetchAsset(indexer: Indexer, assetId: bigint): Promise<indexerModels.Asset> {
+  const res = await indexer.lookupAssetByID(assetId).includeAll(true).do()
+  return res.asset
+}
+
+/**
+ * All accounts currently opted in to the asset, largest balance first.
+ * Zero balances are kept (an opted-in account can still be frozen or receive).
+ */
+export async function fetchAssetHolders(indexer: Indexer, assetId: bigint): Promise<AssetHolder[]> {
+  const holders: AssetHolder[] = []
+  let nextToken: string | undefined
+
+  do {
+    let query = indexer.lookupAssetBalances(assetId).limit(HOLDERS_PAGE_LIMIT)
+    if (nextToken) query = query.nextToken(nextToken)
+
+    const page = await query.do()
+    holders.push(
+      ...page.balances
+        .filter((b) => !b.deleted)
+        .map((b) => ({ address: b.address, amount: b.amount, isFrozen: b.isFrozen, optedInAtRound: b.optedInAtRound })),
+    )
+    nextToken = page.balances.length > 0 ? page.nextToken : undefined
+  } while (nextToken)
+
+  return holders.sort((a, b) => (a.amount === b.amount ? 0 : a.amount > b.amount ? -1 : 1))
+}
+
+/**
+ * One page of asset transfers (axfer) for the asset, in indexer (round) order
+ */
+export async function fetchAssetTransfers(indexer: Indexer, assetId: bigint, nextToken?: string): Promise<AssetTransferPage> {
+  let query = indexer.lookupAssetTransactions(assetId).txType('axfer').limit(TRANSFERS_PAGE_LIMIT)
+  if (nextToken) query = query.nextToken(nextToken)
+
+  const page = await query.do()
+  return {
+    transactions: page.transactions,
+    nextToken: page.transactions.length === TRANSFERS_PAGE_LIMIT ? page.nextToken : undefined,
+  }
+}
@@ -0,0 +1,77 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import { waitForConfirmation } from 'algosdk'
+
+/** Maximum number of transactions in one Algorand atomic group */
+export const MAX_GROUP_SIZE = 16
+
+/**
+ * Split items into consecutive chunks of at most `size` (one chunk per atomic group)
+ */
+export function chunk<T>(items: T[], size: number = MAX_GROUP_SIZE): T[][] {
+  if (size <= 0) throw new Error('Chunk size must be positive')
+
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
+
+export type SubmittedTxnOutcome =
+  { status: 'confirmed'; round: bigint; assetId?: bigint } | { status: 'rejected'; error: string } | { status: 'unknown' }
+
+/**
+ * What became of a transaction that was submitted but not seen confirming (e.g. the wait timed out).
+ * algod's pending pool answers first (confirmed, dropped with a pool error, or still waiting);
+ * once it has forgotten the transaction the indexer is asked. 'unknown' means it may still
+ * confirm, so its group must not be rebuilt and re-signed.
+ */
+export async function lookupSubmittedTxn(algorand: AlgorandClient, txId: string): Promise<SubmittedTxnOutcome> {
+  try {
+    const pending = await algorand.client.algod.pendingTransactionInformation(txId).do()
+    if (pending.confirmedRound) return { status: 'confirmed', round: pending.confirmedRound, assetId: pending.assetIndex }
+    if (pending.poolError) return { status: 'rejected', error: pending.poolError }
+    return { status: 'unknown' }
+  } catch {
+    // Not in the pool (anymore): fall through to the indexer
+  }
+
+  try {
+    const { transaction } = await algorand.client.indexer.lookupTransactionByID(txId).do()
+    return { status: 'confirmed', round: transaction.confirmedRound ?? 0n, assetId: transaction.createdAssetIndex }
+  } catch {
+    return { status: 'unknown' }
+  }
+}
+
+/**
+ * Submit a signed group and wait for it; a wait that runs out is resolved with `lookupSubmittedTxn`.
+ * With `resubmit` the group was submitted before with an unknown outcome: it is looked up first,
+ * and algod refusing the same bytes as a duplicate is not a rejection.
+ */
+export async function submitSignedGroup(
+  algorand: AlgorandClient,
+  group: { txIds: string[]; blobs: Uint8Array[]; resubmit: boolean },
+): Promise<SubmittedTxnOutcome> {
+  const algod = algorand.client.algod
+  const txId = group.txIds[0]
+
+  if (group.resubmit) {
+    const earlier = await lookupSubmittedTxn(algorand, txId)
+    if (earlier.status !== 'unknown') return earlier
+  }
+
+  try {
+    await algod.sendRawTransaction(group.blobs).do()
+  } catch (e: any) {
+    const error = e?.response?.body?.message || e?.message || String(e)
+    if (!group.resubmit || !/already in (ledger|pool)/i.test(error)) return { status: 'rejected', error }
+  }
+
+  try {
+    const confirmed = await waitForConfirmation(algod, txId, 4)
+    return { status: 'confirmed', round: confirmed.confirmedRound ?? 0n, assetId: confirmed.assetIndex }
+  } catch {
+    return lookupSubmittedTxn(algorand, txId)
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Mint server (NFT_mint_server) base URL
+ */
+export function resolveBackendBase(): string {
+  // 1) Respect explicit env (Vercel or custom)
+  const env = import.meta.env.VITE_API_URL?.trim()
+  if (env) {
+    const cleaned = env.replace(/\/$/, '')
+    // If someone pastes "my-backend.vercel.app" (no protocol),
+    // the browser will treat it as a relative path. Force https.
+    return cleaned.startsWith('http://') || cleaned.startsWith('https://') ? cleaned : `https://${cleaned}`
+  }
+
+  // 2) Codespaces: convert current host to port 3001
+  // e.g. https://abc-5173.app.github.dev -> https://abc-3001.app.github.dev
+  const host = window.location.host
+  if (host.endsWith('.app.github.dev')) {
+    const base = host.replace(/-\d+\.app\.github\.dev$/, '-3001.app.github.dev')
+    return `https://${base}`
+  }
+
+  // 3) Plain local fallback
+  return 'http://localhost:3001'
+}
@@ -0,0 +1,148 @@
+/**
+ * Minimal IPFS CID codec (v0 base58btc / v1 base32) for sha2-256 multihashes,
+ * enough to move a CID in and out of a 32-byte ARC-19 reserve address.
+ */
+
+export type CidCodec = 'dag-pb' | 'raw'
+
+export type DecodedCid = {
+  version: 0 | 1
+  codec: CidCodec
+  /** sha2-256 digest (32 bytes) */
+  digest: Uint8Array
+}
+
+const CODEC_CODES: Record<CidCodec, number> = { 'dag-pb': 0x70, raw: 0x55 }
+const SHA2_256 = 0x12
+const DIGEST_LENGTH = 32
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz'
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567'
+
+function base58Encode(bytes: Uint8Array): string {
+  let n = 0n
+  for (const b of bytes) n = n * 256n + BigInt(b)
+  let out = ''
+  while (n > 0n) {
+    out = BASE58_ALPHABET[Number(n % 58n)] + out
+    n /= 58n
+  }
+  for (const b of bytes) {
+    if (b !== 0) break
+    out = `1${out}`
+  }
+  return out
+}
+
+function base58Decode(text: string): Uint8Array {
+  let n = 0n
+  for (const c of text) {
+    const v = BASE58_ALPHABET.indexOf(c)
+    if (v < 0) throw new Error(`Invalid base58 character "${c}"`)
+    n = n * 58n + BigInt(v)
+  }
+  const bytes: number[] = []
+  while (n > 0n) {
+    bytes.unshift(Number(n % 256n))
+    n /= 256n
+  }
+  for (const c of text) {
+    if (c !== '1') break
+    bytes.unshift(0)
+  }
+  return Uint8Array.from(bytes)
+}
+
+function base32Encode(bytes: Uint8Array): string {
+  let out = ''
+  let buffer = 0
+  let bits = 0
+  for (const b of bytes) {
+    buffer = (buffer << 8) | b
+    bits += 8
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(buffer >> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(buffer << (5 - bits)) & 31]
+  return out
+}
+
+function base32Decode(text: string): Uint8Array {
+  const bytes: number[] = []
+  let buffer = 0
+  let bits = 0
+  for (const c of text.toLowerCase()) {
+    const v = BASE32_ALPHABET.indexOf(c)
+    if (v < 0) throw new Error(`Invalid base32 character "${c}"`)
+    buffer = (buffer << 5) | v
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((buffer >> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+  return Uint8Array.from(bytes)
+}
+
+function readVarint(bytes: Uint8Array, offset: number): [value: number, next: number] {
+  let value = 0
+  let shift = 0
+  for (let i = offset; i < bytes.length; i++) {
+    value |= (bytes[i] & 0x7f) << shift
+    if ((bytes[i] & 0x80) === 0) return [value, i + 1]
+    shift += 7
+  }
+  throw new Error('Truncated varint')
+}
+
+function writeVarint(value: number): number[] {
+  const out: number[] = []
+  while (value >= 0x80) {
+    out.push((value & 0x7f) | 0x80)
+    value >>>= 7
+  }
+  out.push(value)
+  return out
+}
+
+function readSha256Multihash(bytes: Uint8Array, offset: number): Uint8Array {
+  const [code, afterCode] = readVarint(bytes, offset)
+  const [length, afterLength] = readVarint(bytes, afterCode)
+  if (code !== SHA2_256 || length !== DIGEST_LENGTH) throw new Error('Only sha2-256 CIDs are supported')
+  const digest = bytes.slice(afterLength, afterLength + length)
+  if (digest.length !== DIGEST_LENGTH || afterLength + length !== bytes.length) throw new Error('Malformed CID multihash')
+  return digest
+}
+
+/**
+ * Parse a CID string: `Qm…` (v0) or multibase `b…` (v1, base32)
+ */
+export function decodeCid(cid: string): DecodedCid {
+  const text = cid.trim()
+  if (text.startsWith('Qm') && text.length === 46) {
+    return { version: 0, codec: 'dag-pb', digest: readSha256Multihash(base58Decode(text), 0) }
+  }
+  if (!text.startsWith('b')) throw new Error('Unsupported CID encoding (expected Qm… or b…)')
+
+  const bytes = base32Decode(text.slice(1))
+  const [version, afterVersion] = readVarint(bytes, 0)
+  const [codecCode, afterCodec] = readVarint(bytes, afterVersion)
+  const codec = (Object.keys(CODEC_CODES) as CidCodec[]).find((c) => CODEC_CODES[c] === codecCode)
+  if (version !== 1) throw new Error(`Unsupported CID version ${version}`)
+  if (!codec) throw new Error(`Unsupported CID codec 0x${codecCode.toString(16)}`)
+  return { version: 1, codec, digest: readSha256Multihash(bytes, afterCodec) }
+}
+
+/**
+ * Build a CID string from its parts (v0 requires dag-pb)
+ */
+export function encodeCid({ version, codec, digest }: DecodedCid): string {
+  const multihash = [SHA2_256, DIGEST_LENGTH, ...digest]
+  if (version === 0) {
+    if (codec !== 'dag-pb') throw new Error('CIDv0 is always dag-pb')
+    return base58Encode(Uint8Array.from(multihash))
+  }
+  return `b${base32Encode(Uint8Array.from([...writeVarint(1), ...writeVarint(CODEC_CODES[codec]), ...multihash]))}`
+}
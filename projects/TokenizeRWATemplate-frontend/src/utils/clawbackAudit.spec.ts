@@ -0,0 +1,17 @@
+import { buildClawbackNote, clawbackNoteBytes, MAX_CLAWBACK_NOTE_BYTES } from './clawbackAudit'
+
+describe('clawbackNoteBytes', () => {
+  it('should count the UTF-8 bytes of the whole note', () => {
+    expect(clawbackNoteBytes('Court order')).toBe(buildClawbackNote('Court order').length)
+    // 3 bytes per character in UTF-8, one UTF-16 unit each
+    expect(clawbackNoteBytes('裁判所命令')).toBe(buildClawbackNote('').length + 15)
+  })
+
+  it('should exceed the note limit for reasons that fit in characters but not bytes', () => {
+    const reason = 'é'.repeat(512)
+    expect(reason.length).toBeLessThanOrEqual(512)
+    expect(clawbackNoteBytes(reason)).toBeGreaterThan(MAX_CLAWBACK_NOTE_BYTES)
+    // JSON escaping grows the note too
+    expect(clawbackNoteBytes('"'.repeat(512))).toBeGreaterThan(MAX_CLAWBACK_NOTE_BYTES)
+  })
+})
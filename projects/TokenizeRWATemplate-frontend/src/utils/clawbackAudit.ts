@@ -0,0 +1,64 @@
+import { toCsv } from './csv'
+
+/**
+ * One clawback (revocation) performed from this browser
+ * Amount is in display units (decimals applied)
+ */
+export type ClawbackAuditEntry = {
+  txId: string
+  assetId: string
+  amount: string
+  revokedFrom: string
+  receiver: string
+  operator: string
+  reason: string
+  network: string
+  timestamp: string
+}
+
+const STORAGE_KEY = 'tokenize_clawback_audit'
+
+/** Prefix of the on-chain note, so clawbacks can be found with an indexer note-prefix search */
+export const CLAWBACK_NOTE_PREFIX = 'tokenize-rwa:clawback:'
+
+/** Protocol limit on transaction notes, in bytes */
+export const MAX_CLAWBACK_NOTE_BYTES = 1024
+
+/**
+ * Build the transaction note recorded with a clawback
+ */
+export function buildClawbackNote(reason: string): string {
+  return `${CLAWBACK_NOTE_PREFIX}${JSON.stringify({ reason })}`
+}
+
+/**
+ * UTF-8 size of the note for `reason` (prefix and JSON escaping included), to check against MAX_CLAWBACK_NOTE_BYTES
+ */
+export function clawbackNoteBytes(reason: string): number {
+  return new TextEncoder().encode(buildClawbackNote(reason)).length
+}
+
+export function loadClawbackAudit(): ClawbackAuditEntry[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    return raw ? (JSON.parse(raw) as ClawbackAuditEntry[]) : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Append an entry to the audit log (newest first)
+ */
+export function appendClawbackAudit(entry: ClawbackAuditEntry): ClawbackAuditEntry[] {
+  const next = [entry, ...loadClawbackAudit()]
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+  return next
+}
+
+export function clawbackAuditToCsv(entries: ClawbackAuditEntry[]): string {
+  return toCsv([
+    ['timestamp', 'network', 'tx_id', 'asset_id', 'amount', 'revoked_from', 'receiver', 'operator', 'reason'],
+    ...entries.map((e) => [e.timestamp, e.network, e.txId, e.assetId, e.amount, e.revokedFrom, e.receiver, e.operator, e.reason]),
+  ])
+}
@@ -0,0 +1,84 @@
+import { collectionItemDraft, CollectionItem, planCollection, restoreCollectionProgress, resumeCollectionItems } from './collection'
+import { EMPTY_NFT_METADATA } from './nftMetadata'
+
+const FILES = ['1.png', '2.png', '10.png']
+
+describe('planCollection', () => {
+  it('should number items and match CSV rows by position', () => {
+    const { items, problems } = planCollection('Fleet', FILES, 'Color,Year\nRed,2020\n,2021\nBlue,')
+    expect(problems).toEqual([])
+    expect(items.map((i) => i.name)).toEqual(['Fleet #1', 'Fleet #2', 'Fleet #3'])
+    expect(items[0].traits).toEqual([
+      { key: 'Color', value: 'Red' },
+      { key: 'Year', value: '2020' },
+    ])
+    expect(items[1].traits).toEqual([{ key: 'Year', value: '2021' }])
+    expect(items[2].traits).toEqual([{ key: 'Color', value: 'Blue' }])
+  })
+
+  it('should match CSV rows by file name when there is a file column', () => {
+    const { items, problems } = planCollection('Fleet', FILES, 'file,Color\n10.png,Green\nmissing.png,Red')
+    expect(items[2].traits).toEqual([{ key: 'Color', value: 'Green' }])
+    expect(items[0].traits).toEqual([])
+    expect(problems).toEqual(['CSV row 2: no selected image is named "missing.png".'])
+  })
+
+  it('should flag names over the 32-byte asset name limit', () => {
+    const { problems } = planCollection('A very long equipment fleet name', FILES)
+    expect(problems.length).toBe(1)
+  })
+})
+
+describe('collectionItemDraft', () => {
+  it('should let item traits override shared ones', () => {
+    const shared = {
+      ...EMPTY_NFT_METADATA,
+      traits: [
+        { key: 'Color', value: 'Any' },
+        { key: 'Owner', value: 'ACME' },
+      ],
+    }
+    const item = planCollection('Fleet', FILES, 'color\nRed').items[0]
+    expect(collectionItemDraft(shared, item).traits).toEqual([
+      { key: 'Owner', value: 'ACME' },
+      { key: 'color', value: 'Red' },
+    ])
+  })
+})
+
+describe('restoreCollectionProgress', () => {
+  const planned = planCollection('Fleet', FILES).items
+  const saved: CollectionItem[] = [
+    { ...planned[0], status: 'minted', url: 'ipfs://a#arc3', assetId: '1001' },
+    { ...planned[1], status: 'failed', url: 'ipfs://b#arc3', error: 'rejected' },
+    { ...planned[2], status: 'failed', error: 'pin failed' },
+  ]
+
+  it('should resume failed items from the step they reached', () => {
+    const restored = restoreCollectionProgress(planned, { fingerprint: 'f', items: saved }, 'f')
+    expect(restored.map((i) => i.status)).toEqual(['minted', 'pinned', 'ready'])
+  })
+
+  it('should keep minted items but re-pin when the shared metadata changed', () => {
+    const restored = restoreCollectionProgress(planned, { fingerprint: 'old', items: saved }, 'new')
+    expect(restored.map((i) => i.status)).toEqual(['minted', 'ready', 'ready'])
+    expect(restored[1].url).toBeUndefined()
+  })
+
+  it('should clear errors when resuming', () => {
+    expect(resumeCollectionItems(saved)[1].error).toBeUndefined()
+  })
+
+  it('should keep submitted items with their signed group even when the metadata changed', () => {
+    const submitted: CollectionItem = {
+      ...planned[1],
+      status: 'submitted',
+      url: 'ipfs://b#arc3',
+      txId: 'TX2',
+      signedTxn: 'c2lnbmVk',
+      groupId: 'Zw==',
+    }
+    const restored = restoreCollectionProgress(planned, { fingerprint: 'old', items: [saved[0], submitted] }, 'new')
+    expect(restored[1]).toEqual(submitted)
+  })
+})
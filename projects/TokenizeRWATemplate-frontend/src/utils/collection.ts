@@ -0,0 +1,457 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import { assignGroupID, base64ToBytes, bytesToBase64, TransactionSigner } from 'algosdk'
+import { arc19TemplateUrl, cidToReserveAddress } from './arc19'
+import { computeArc3MetadataHash, toArc3Url } from './arc3'
+import { arc69MediaUrl, buildArc69Metadata, encodeArc69Note } from './arc69'
+import { chunk, lookupSubmittedTxn, MAX_GROUP_SIZE, submitSignedGroup } from './atomicGroups'
+import { parseCsv } from './csv'
+import { MintServerAuth, pinImageBatch, PinnedBatchItem } from './mintServer'
+import { buildNftProperties, NftMetadataDraft, NftStandard, NftTrait } from './nftMetadata'
+
+/**
+ * Lifecycle of one collection item
+ * - 'ready': waiting to be pinned
+ * - 'pinned': image (and metadata) pinned, on-chain fields computed; waiting to be minted
+ * - 'submitted': its atomic group was signed and saved, then sent; until the chain says otherwise it
+ *   may still confirm, so resuming looks it up and re-submits the same signed bytes (never re-mints)
+ * - 'minted': asset created
+ * - 'failed': its pin batch or atomic group was rejected; resuming picks it up again
+ */
+export type CollectionItemStatus = 'ready' | 'pinned' | 'submitted' | 'minted' | 'failed'
+
+export type CollectionItem = {
+  /** 1-based position in the series (`Name #index`) */
+  index: number
+  fileName: string
+  name: string
+  /** Per-item traits from the CSV (merged over the shared traits) */
+  traits: NftTrait[]
+  status: CollectionItemStatus
+  error?: string
+  /** Asset URL once pinned */
+  url?: string
+  /** ARC-3: sha256 of the pinned metadata JSON (base64) */
+  metadataHash?: string
+  /** ARC-19: reserve address carrying the metadata CID */
+  reserve?: string
+  /** ARC-69: metadata JSON for the acfg note */
+  note?: string
+  assetId?: string
+  txId?: string
+  /** 'submitted' items: the signed asset creation (base64) and its group (base64 group id) */
+  signedTxn?: string
+  groupId?: string
+}
+
+/**
+ * ASA settings shared by every item of the series
+ */
+export type CollectionMintParams = {
+  standard: NftStandard
+  unitName: string
+  total: bigint
+  decimals: number
+  defaultFrozen: boolean
+  manager?: string
+  reserve?: string
+  freeze?: string
+  clawback?: string
+}
+
+/** Files per `/api/pin-batch` request (serverless request bodies are small) */
+export const PIN_BATCH_SIZE = 4
+
+/** Protocol limit on asset names */
+const MAX_ASSET_NAME_BYTES = 32
+
+const STORAGE_KEY = 'tokenize_collection'
+
+/**
+ * Images of a picked folder in natural order (`2.png` before `10.png`); other files are skipped
+ */
+export function sortCollectionFiles(files: File[]): File[] {
+  return files
+    .filter((f) => f.type.startsWith('image/'))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' }))
+}
+
+/**
+ * Per-item traits from CSV text (first row = trait names)
+ * - With a `file` / `filename` column, rows are matched to images by file name
+ * - Without one, rows are matched to the sorted images by position
+ * Empty cells are skipped, so items can have different traits.
+ */
+export function parseCollectionTraitsCsv(text: string, fileNames: string[]): { traitsByFile: Map<string, NftTrait[]>; problems: string[] } {
+  const traitsByFile = new Map<string, NftTrait[]>()
+  const problems: string[] = []
+
+  const records = parseCsv(text)
+  if (records.length === 0) return { traitsByFile, problems }
+
+  const header = records[0].map((h) => h.trim())
+  const fileColumn = header.findIndex((h) => /^file(name)?$/i.test(h))
+  const rows = records.slice(1)
+  const known = new Set(fileNames)
+
+  if (fileColumn < 0 && rows.length !== fileNames.length) {
+    problems.push(`The CSV has ${rows.length} rows for ${fileNames.length} images. Add a "file" column to match rows by file name.`)
+  }
+
+  rows.forEach((row, i) => {
+    const line = i + 1
+    const fileName = fileColumn >= 0 ? (row[fileColumn] ?? '').trim() : fileNames[i]
+    if (!fileName) return
+    if (!known.has(fileName)) {
+      problems.push(`CSV row ${line}: no selected image is named "${fileName}".`)
+      return
+    }
+    if (traitsByFile.has(fileName)) {
+      problems.push(`CSV row ${line}: "${fileName}" is listed twice.`)
+      return
+    }
+    traitsByFile.set(
+      fileName,
+      header.flatMap((key, c) => (c === fileColumn || !key || !(row[c] ?? '').trim() ? [] : [{ key, value: row[c].trim() }])),
+    )
+  })
+
+  return { traitsByFile, problems }
+}
+
+/**
+ * Numbered items `Name #1..#N` for the sorted file names, plus blocking problems
+ */
+export function planCollection(
+  collectionName: string,
+  fileNames: string[],
+  csvText?: string,
+): { items: CollectionItem[]; problems: string[] } {
+  const problems: string[] = []
+  const name = collectionName.trim()
+
+  if (!name) problems.push('Enter a collection name.')
+  if (fileNames.length === 0) problems.push('Select a folder with at least one image.')
+
+  const lastName = `${name} #${fileNames.length}`
+  if (new TextEncoder().encode(lastName).length > MAX_ASSET_NAME_BYTES) {
+    problems.push(`"${lastName}" is longer than ${MAX_ASSET_NAME_BYTES} bytes; shorten the collection name.`)
+  }
+
+  const traits = csvText?.trim()
+    ? parseCollectionTraitsCsv(csvText, fileNames)
+    : { traitsByFile: new Map<string, NftTrait[]>(), problems: [] }
+  problems.push(...traits.problems)
+
+  const items = fileNames.map((fileName, i) => ({
+    index: i + 1,
+    fileName,
+    name: `${name} #${i + 1}`,
+    traits: traits.traitsByFile.get(fileName) ?? [],
+    status: 'ready' as const,
+  }))
+
+  return { items, problems }
+}
+
+/**
+ * Metadata draft of one item: the shared draft with the item's traits merged over the shared ones
+ */
+export function collectionItemDraft(shared: NftMetadataDraft, item: CollectionItem): NftMetadataDraft {
+  const own = new Set(item.traits.map((t) => t.key.trim().toLowerCase()))
+  return {
+    ...shared,
+    traits: [...shared.traits.filter((t) => !own.has(t.key.trim().toLowerCase())), ...item.traits],
+  }
+}
+
+/**
+ * `properties` of one item: traits and RWA fields plus the collection it belongs to
+ */
+export function collectionItemProperties(shared: NftMetadataDraft, item: CollectionItem, collectionName: string, size: number) {
+  return { ...buildNftProperties(collectionItemDraft(shared, item)), collection: { name: collectionName.trim(), size } }
+}
+
+/**
+ * On-chain fields for a pinned item, following the chosen standard
+ */
+async function onChainFields(
+  pinned: PinnedBatchItem,
+  item: CollectionItem,
+  shared: NftMetadataDraft,
+  standard: NftStandard,
+  collection: { name: string; size: number },
+): Promise<Pick<CollectionItem, 'url' | 'metadataHash' | 'reserve' | 'note'>> {
+  if (standard === 'arc69') {
+    const url = arc69MediaUrl(pinned.imageUrl, pinned.imageMimetype)
+    const metadata = buildArc69Metadata(collectionItemDraft(shared, item), url, pinned.imageMimetype)
+    metadata.properties = { ...metadata.properties, collection }
+    encodeArc69Note(metadata)
+    return { url, note: JSON.stringify(metadata) }
+  }
+
+  if (!pinned.metadataUrl || !pinned.metadataCid || typeof pinned.metadataJson !== 'string') {
+    throw new Error('Backend did not return the pinned metadata (update the mint server)')
+  }
+  if (standard === 'arc19') {
+    return { url: toArc3Url(arc19TemplateUrl(pinned.metadataCid)), reserve: cidToReserveAddress(pinned.metadataCid) }
+  }
+
+  const hash = bytesToBase64(await computeArc3MetadataHash(new TextEncoder().encode(pinned.metadataJson)))
+  if (pinned.metadataHash && pinned.metadataHash !== hash) {
+    throw new Error(`Metadata hash from the backend does not match the pinned JSON of ${item.fileName}`)
+  }
+  return { url: toArc3Url(pinned.metadataUrl), metadataHash: hash }
+}
+
+function replaceItems(items: CollectionItem[], updates: CollectionItem[]): CollectionItem[] {
+  const byIndex = new Map(updates.map((u) => [u.index, u]))
+  return items.map((item) => byIndex.get(item.index) ?? item)
+}
+
+/**
+ * Pin every 'ready' item in batches of PIN_BATCH_SIZE. Stops at the first failed batch
+ * (its items become 'failed') so the run can be resumed from there.
+ */
+export async function pinCollectionItems(
+  items: CollectionItem[],
+  files: Map<string, File>,
+  shared: NftMetadataDraft,
+  standard: NftStandard,
+  collectionName: string,
+  auth: MintServerAuth,
+  onProgress?: (items: CollectionItem[]) => void,
+): Promise<CollectionItem[]> {
+  const collection = { name: collectionName.trim(), size: items.length }
+  let current = items
+
+  for (const batch of chunk(
+    items.filter((i) => i.status === 'ready'),
+    PIN_BATCH_SIZE,
+  )) {
+    try {
+      const pinned = await pinImageBatch(
+        batch.map((item) => {
+          const file = files.get(item.fileName)
+          if (!file) throw new Error(`${item.fileName} is not in the selected folder`)
+          return { file, name: item.name, properties: collectionItemProperties(shared, item, collectionName, items.length) }
+        }),
+        shared,
+        standard,
+        auth,
+      )
+      const updated = await Promise.all(
+        batch.map(async (item, i) => ({
+          ...item,
+          ...(await onChainFields(pinned[i], item, shared, standard, collection)),
+          status: 'pinned' as const,
+          error: undefined,
+        })),
+      )
+      current = replaceItems(current, updated)
+      onProgress?.(current)
+    } catch (e: any) {
+      const error = e?.message || String(e)
+      current = replaceItems(
+        current,
+        batch.map((item) => ({ ...item, status: 'failed', error })),
+      )
+      onProgress?.(current)
+      break
+    }
+  }
+
+  return current
+}
+
+/**
+ * Create every 'pinned' item as an ASA, in atomic groups of 16 (one signature request per group).
+ * Each signed group is saved as 'submitted' (through `onProgress`) before it is sent, so a run
+ * that dies or times out mid-group is reconciled on resume instead of minted twice: 'submitted'
+ * groups are looked up first and re-submitted as signed.
+ * Stops at the first rejected or unconfirmed group so the run can be resumed.
+ */
+export async function mintCollectionItems(
+  algorand: AlgorandClient,
+  sender: string,
+  signer: TransactionSigner,
+  items: CollectionItem[],
+  params: CollectionMintParams,
+  onProgress?: (items: CollectionItem[]) => void,
+): Promise<CollectionItem[]> {
+  let current = items
+
+  const submittedGroups = new Map<string, CollectionItem[]>()
+  for (const item of items) {
+    if (item.status === 'submitted' && item.signedTxn && item.groupId) {
+      submittedGroups.set(item.groupId, [...(submittedGroups.get(item.groupId) ?? []), item])
+    }
+  }
+  const groups = [
+    ...[...submittedGroups.values()].map((group) => ({ group, resubmit: true })),
+    ...chunk(
+      items.filter((i) => i.status === 'pinned'),
+      MAX_GROUP_SIZE,
+    ).map((group) => ({ group, resubmit: false })),
+  ]
+
+  for (const { group: planned, resubmit } of groups) {
+    let group = planned
+    try {
+      if (!resubmit) {
+        const txns = assignGroupID(
+          await Promise.all(
+            group.map((item) =>
+              algorand.createTransaction.assetCreate({
+                sender,
+                total: params.total,
+                decimals: params.decimals,
+                assetName: item.name,
+                unitName: params.unitName,
+                url: item.url,
+                metadataHash: item.metadataHash ? base64ToBytes(item.metadataHash) : undefined,
+                note: item.note ? new TextEncoder().encode(item.note) : undefined,
+                defaultFrozen: params.defaultFrozen,
+                manager: params.manager,
+                reserve: item.reserve ?? params.reserve,
+                freeze: params.freeze,
+                clawback: params.clawback,
+              }),
+            ),
+          ),
+        )
+        const signed = await signer(
+          txns,
+          txns.map((_, i) => i),
+        )
+        const groupId = bytesToBase64(txns[0].group!)
+        group = group.map((item, i) => ({
+          ...item,
+          status: 'submitted',
+          error: undefined,
+          txId: txns[i].txID(),
+          signedTxn: bytesToBase64(signed[i]),
+          groupId,
+        }))
+        current = replaceItems(current, group)
+        onProgress?.(current)
+      }
+    } catch (e: any) {
+      // Not signed: nothing was sent
+      const error = e?.message || String(e)
+      current = replaceItems(
+        current,
+        group.map((item) => ({ ...item, status: 'failed', error })),
+      )
+      onProgress?.(current)
+      break
+    }
+
+    const outcome = await submitSignedGroup(algorand, {
+      txIds: group.map((item) => item.txId!),
+      blobs: group.map((item) => base64ToBytes(item.signedTxn!)),
+      resubmit,
+    })
+
+    if (outcome.status === 'confirmed') {
+      // The outcome carries the first creation's asset id; the others are looked up one by one
+      const assetIds = await Promise.all(
+        group.map(async (item, i) => {
+          if (i === 0 && outcome.assetId) return outcome.assetId
+          const own = await lookupSubmittedTxn(algorand, item.txId!)
+          return own.status === 'confirmed' ? own.assetId : undefined
+        }),
+      )
+      current = replaceItems(
+        current,
+        group.map((item, i) => ({
+          ...item,
+          status: 'minted',
+          error: undefined,
+          assetId: assetIds[i] !== undefined ? String(assetIds[i]) : undefined,
+          signedTxn: undefined,
+          groupId: undefined,
+        })),
+      )
+      onProgress?.(current)
+      continue
+    }
+
+    current = replaceItems(
+      current,
+      group.map((item) =>
+        outcome.status === 'rejected'
+          ? { ...item, status: 'failed', error: outcome.error, txId: undefined, signedTxn: undefined, groupId: undefined }
+          : { ...item, error: 'Submitted but not confirmed yet; resuming checks it and re-submits the same transactions' },
+      ),
+    )
+    onProgress?.(current)
+    break
+  }
+
+  return current
+}
+
+/**
+ * Put failed items back in line: already pinned ones go straight to minting
+ */
+export function resumeCollectionItems(items: CollectionItem[]): CollectionItem[] {
+  return items.map((item) => (item.status === 'failed' ? { ...item, status: item.url ? 'pinned' : 'ready', error: undefined } : item))
+}
+
+/**
+ * Progress of a collection run, saved locally so a reload (or a crash mid-run) can resume.
+ * `fingerprint` identifies what was pinned (standard + shared metadata).
+ */
+export type SavedCollection = {
+  fingerprint: string
+  items: CollectionItem[]
+}
+
+export function collectionFingerprint(standard: NftStandard, shared: NftMetadataDraft): string {
+  return JSON.stringify({ standard, shared })
+}
+
+function progressKey(network: string, address: string, collectionName: string): string {
+  return `${STORAGE_KEY}:${network || 'localnet'}:${address}:${collectionName.trim()}`
+}
+
+export function loadCollectionProgress(network: string, address: string, collectionName: string): SavedCollection | null {
+  try {
+    const raw = localStorage.getItem(progressKey(network, address, collectionName))
+    return raw ? (JSON.parse(raw) as SavedCollection) : null
+  } catch {
+    return null
+  }
+}
+
+export function saveCollectionProgress(network: string, address: string, collectionName: string, saved: SavedCollection) {
+  try {
+    localStorage.setItem(progressKey(network, address, collectionName), JSON.stringify(saved))
+  } catch {
+    // Progress is best-effort only (quota / private mode)
+  }
+}
+
+export function clearCollectionProgress(network: string, address: string, collectionName: string) {
+  localStorage.removeItem(progressKey(network, address, collectionName))
+}
+
+/**
+ * Carry saved progress over to a freshly planned run of the same folder.
+ * Minted and submitted items are always kept (never mint twice); pinned data only while the
+ * fingerprint and the item's own traits are unchanged.
+ */
+export function restoreCollectionProgress(items: CollectionItem[], saved: SavedCollection | null, fingerprint: string): CollectionItem[] {
+  if (!saved) return items
+  const byIndex = new Map(saved.items.map((s) => [s.index, s]))
+
+  return resumeCollectionItems(
+    items.map((item) => {
+      const prev = byIndex.get(item.index)
+      if (!prev || prev.fileName !== item.fileName || prev.name !== item.name) return item
+      if (prev.status === 'minted' || prev.status === 'submitted') return prev
+      const samePins = saved.fingerprint === fingerprint && JSON.stringify(prev.traits) === JSON.stringify(item.traits)
+      return samePins && prev.url ? prev : item
+    }),
+  )
+}
@@ -0,0 +1,133 @@
+import type { Indexer, indexerModels } from 'algosdk'
+import { baseUnitsToDecimal } from './amounts'
+
+/**
+ * Asset created by the connected account, built from live on-chain params (indexer)
+ * Captures ASA configuration including compliance fields
+ */
+export type CreatedAsset = {
+  assetId: string
+  assetName: string
+  unitName: string
+  total: string
+  decimals: string
+  url?: string
+  manager?: string
+  reserve?: string
+  freeze?: string
+  clawback?: string
+  createdAtRound?: string
+}
+
+/**
+ * Local cache of the indexer result for one account on one network.
+ * `round` is the indexer round the list was read at; it decides whether
+ * a freshly minted asset (not indexed yet) should be kept on refresh.
+ */
+type CreatedAssetsCache = {
+  round: string
+  assets: CreatedAsset[]
+}
+
+const STORAGE_KEY = 'tokenize_assets'
+const PAGE_LIMIT = 100
+
+function cacheKey(network: string, address: string): string {
+  return `${STORAGE_KEY}:${network || 'localnet'}:${address}`
+}
+
+/**
+ * Load cached created assets (speeds up first paint; the indexer is the source of truth)
+ */
+export function loadCachedAssets(network: string, address: string): CreatedAssetsCache | null {
+  try {
+    const raw = localStorage.getItem(cacheKey(network, address))
+    return raw ? (JSON.parse(raw) as CreatedAssetsCache) : null
+  } catch {
+    return null
+  }
+}
+
+function saveCachedAssets(network: string, address: string, cache: CreatedAssetsCache) {
+  try {
+    localStorage.setItem(cacheKey(network, address), JSON.stringify(cache))
+  } catch {
+    // Cache is best-effort only (quota / private mode)
+  }
+}
+
+export function clearCachedAssets(network: string, address: string) {
+  localStorage.removeItem(cacheKey(network, address))
+}
+
+/**
+ * Map an indexer asset into the CreatedAsset row shape.
+ * Total is shown in whole units (same as the value entered when minting).
+ */
+export function toCreatedAsset(asset: indexerModels.Asset): CreatedAsset {
+  const p = asset.params
+  return {
+    assetId: String(asset.index),
+    assetName: p.name ?? '',
+    unitName: p.unitName ?? '',
+    total: baseUnitsToDecimal(p.total, p.decimals),
+    decimals: String(p.decimals),
+    url: p.url || undefined,
+    manager: p.manager || undefined,
+    reserve: p.reserve || undefined,
+    freeze: p.freeze || undefined,
+    clawback: p.clawback || undefined,
+    createdAtRound: asset.createdAtRound !== undefined ? String(asset.createdAtRound) : undefined,
+  }
+}
+
+/**
+ * Query the indexer for every (non-destroyed) asset created by `address`.
+ * Follows `nextToken` pagination and returns newest assets first.
+ */
+export async function fetchCreatedAssets(indexer: Indexer, address: string): Promise<CreatedAssetsCache> {
+  const assets: CreatedAsset[] = []
+  let round = 0n
+  let nextToken: string | undefined
+
+  do {
+    let query = indexer.lookupAccountCreatedAssets(address).limit(PAGE_LIMIT)
+    if (nextToken) query = query.nextToken(nextToken)
+
+    const page = await query.do()
+    round = page.currentRound
+    assets.push(...page.assets.filter((a) => !a.deleted).map(toCreatedAsset))
+    nextToken = page.assets.length > 0 ? page.nextToken : undefined
+  } while (nextToken)
+
+  assets.sort((a, b) => Number(BigInt(b.assetId) - BigInt(a.assetId)))
+  return { round: String(round), assets }
+}
+
+/**
+ * Merge a fresh indexer result with the cache and persist it.
+ * Cached entries confirmed AFTER the indexer round are kept (indexer lag);
+ * everything else comes from the indexer, so reconfigured/destroyed assets are reflected.
+ */
+export function syncCachedAssets(network: string, address: string, fresh: CreatedAssetsCache): CreatedAsset[] {
+  const cached = loadCachedAssets(network, address)?.assets ?? []
+  const freshIds = new Set(fresh.assets.map((a) => a.assetId))
+  const pending = cached.filter(
+    (a) => !freshIds.has(a.assetId) && a.createdAtRound !== undefined && BigInt(a.createdAtRound) > BigInt(fresh.round),
+  )
+
+  const assets = [...pending, ...fresh.assets]
+  saveCachedAssets(network, address, { round: fresh.round, assets })
+  return assets
+}
+
+/**
+ * Remember an asset we just created so it shows up before the indexer catches up
+ * Returns updated asset list with new asset at the top
+ */
+export function rememberCreatedAsset(network: string, address: string, asset: CreatedAsset): CreatedAsset[] {
+  const cached = loadCachedAssets(network, address) ?? { round: '0', assets: [] }
+  const assets = [asset, ...cached.assets.filter((a) => a.assetId !== asset.assetId)]
+  saveCachedAssets(network, address, { ...cached, assets })
+  return assets
+}
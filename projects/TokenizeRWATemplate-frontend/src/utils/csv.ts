@@ -0,0 +1,74 @@
+type CsvValue = string | number | bigint | boolean | null | undefined
+
+/**
+ * Quote a field when needed. Text starting with `= + - @`, tab or CR is prefixed with `'` so
+ * spreadsheets show it instead of evaluating it as a formula (on-chain notes are attacker-controlled).
+ * Numbers are written as-is.
+ */
+function escapeCsvValue(value: CsvValue): string {
+  let s = value === null || value === undefined ? '' : String(value)
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(s)) s = `'${s}`
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+/**
+ * Serialize rows (first row = header) into RFC 4180 CSV text
+ */
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map((row) => row.map(escapeCsvValue).join(',')).join('\r\n')
+}
+
+/**
+ * Parse RFC 4180 CSV text into rows of fields (quoted fields, escaped quotes, CRLF or LF)
+ * Blank lines are dropped
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i]
+    if (inQuotes) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (c === '"') {
+        inQuotes = false
+      } else {
+        field += c
+      }
+    } else if (c === '"') {
+      inQuotes = true
+    } else if (c === ',') {
+      row.push(field)
+      field = ''
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += c
+    }
+  }
+  row.push(field)
+  rows.push(row)
+
+  return rows.filter((r) => r.some((f) => f.trim() !== ''))
+}
+
+/**
+ * Trigger a browser download of text content (CSV / JSON exports)
+ */
+export function downloadTextFile(filename: string, content: string, mimeType = 'text/csv') {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,92 @@
+import { indexerModels } from 'algosdk'
+import { decodeNote, historyToCsv, summarizeTransaction } from './history'
+
+const ADDR_A = 'CZSSO7QIACMGK2AADV47W6FAGOV6NZO42RIYEOYNUUWYYBW36TGQX6JFHA'
+const ADDR_B = 'D56K5FM5VZX7JXY5EMWGBZSNJZQCXO5GZD3NXS3AKTZVINEMVAGYKIVDPU'
+
+function txn(fields: Partial<ConstructorParameters<typeof indexerModels.Transaction>[0]>) {
+  return new indexerModels.Transaction({ fee: 1000, firstValid: 1, lastValid: 1000, sender: ADDR_A, id: 'TX', ...fields })
+}
+
+describe('decodeNote', () => {
+  it('should decode printable UTF-8 as text', () => {
+    expect(decodeNote(new TextEncoder().encode('invoice #42 ✅'))).toEqual({ text: 'invoice #42 ✅', encoding: 'utf8' })
+  })
+
+  it('should fall back to base64 for binary notes', () => {
+    expect(decodeNote(new Uint8Array([0xff, 0x00, 0x01]))).toEqual({ text: '/wAB', encoding: 'base64' })
+    expect(decodeNote(new Uint8Array([0x61, 0x00]))).toEqual({ text: 'YQA=', encoding: 'base64' })
+  })
+
+  it('should return undefined for empty notes', () => {
+    expect(decodeNote(undefined)).toBeUndefined()
+    expect(decodeNote(new Uint8Array())).toBeUndefined()
+  })
+})
+
+describe('summarizeTransaction', () => {
+  it('should mark incoming and outgoing payments', () => {
+    const pay = new indexerModels.TransactionPayment({ amount: 5_000_000, receiver: ADDR_B })
+    const out = summarizeTransaction(txn({ txType: 'pay', paymentTransaction: pay }), ADDR_A)
+    const incoming = summarizeTransaction(txn({ txType: 'pay', paymentTransaction: pay }), ADDR_B)
+
+    expect([out.direction, out.counterparty, out.assetId, out.amount]).toEqual(['out', ADDR_B, 0n, 5_000_000n])
+    expect([incoming.direction, incoming.counterparty]).toEqual(['in', ADDR_A])
+  })
+
+  it('should flag opt-ins and clawbacks', () => {
+    const optIn = new indexerModels.TransactionAssetTransfer({ amount: 0, assetId: 7, receiver: ADDR_A })
+    const clawback = new indexerModels.TransactionAssetTransfer({ amount: 3, assetId: 7, receiver: ADDR_A, sender: ADDR_B })
+
+    expect(summarizeTransaction(txn({ txType: 'axfer', assetTransferTransaction: optIn }), ADDR_A)).toMatchObject({
+      detail: 'opt-in',
+      direction: 'self',
+      assetId: 7n,
+    })
+    expect(summarizeTransaction(txn({ txType: 'axfer', assetTransferTransaction: clawback }), ADDR_B)).toMatchObject({
+      detail: 'clawback',
+      direction: 'out',
+      counterparty: ADDR_A,
+    })
+  })
+
+  it('should mark clawbacks the account executed for others as operator', () => {
+    const ADDR_C = 'GD64YIY3TWGDMCNPP553DZPPR6LDUSFQOIJVFDPPXWEG3FVOJCCDBBHU5A'
+    const clawback = new indexerModels.TransactionAssetTransfer({ amount: 3, assetId: 7, receiver: ADDR_C, sender: ADDR_B })
+
+    expect(summarizeTransaction(txn({ txType: 'axfer', assetTransferTransaction: clawback }), ADDR_A)).toMatchObject({
+      detail: 'clawback',
+      direction: 'operator',
+      counterparty: ADDR_B,
+      amount: 3n,
+    })
+    expect(summarizeTransaction(txn({ txType: 'axfer', assetTransferTransaction: clawback }), ADDR_C).direction).toBe('in')
+  })
+
+  it('should use the created index for asset creation', () => {
+    const acfg = new indexerModels.TransactionAssetConfig({
+      assetId: 0,
+      params: new indexerModels.AssetParams({ creator: ADDR_A, decimals: 0, total: 1 }),
+    })
+    expect(summarizeTransaction(txn({ txType: 'acfg', assetConfigTransaction: acfg, createdAssetIndex: 99 }), ADDR_A)).toMatchObject({
+      assetId: 99n,
+      detail: 'create',
+    })
+  })
+})
+
+describe('historyToCsv', () => {
+  it('should neutralize notes that spreadsheets would run as formulas', () => {
+    const entry = summarizeTransaction(
+      txn({ txType: 'pay', paymentTransaction: new indexerModels.TransactionPayment({ amount: 1, receiver: ADDR_B }) }),
+      ADDR_A,
+    )
+    const csv = (text: string) => historyToCsv([{ ...entry, note: { text, encoding: 'utf8' } }], () => '0.000001')
+    const noteCell = (text: string) => csv(text).split('\r\n')[1].split(',').slice(12, -1).join(',')
+
+    expect(noteCell('=HYPERLINK("http://evil")')).toBe(`"'=HYPERLINK(""http://evil"")"`)
+    expect(noteCell('@SUM(A1)')).toBe("'@SUM(A1)")
+    expect(noteCell('\tcmd')).toBe("'\tcmd")
+    expect(noteCell('gm')).toBe('gm')
+  })
+})
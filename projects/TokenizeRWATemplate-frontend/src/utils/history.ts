@@ -0,0 +1,234 @@
+import { bytesToBase64, type Indexer, type indexerModels } from 'algosdk'
+import { toCsv } from './csv'
+
+/** Transaction types the history page filters on ('' = all types) */
+export type HistoryTxType = '' | 'pay' | 'axfer' | 'acfg' | 'appl'
+
+export const HISTORY_TX_TYPES: { value: HistoryTxType; label: string }[] = [
+  { value: '', label: 'All types' },
+  { value: 'pay', label: 'Payments' },
+  { value: 'axfer', label: 'Asset transfers' },
+  { value: 'acfg', label: 'Asset configs' },
+  { value: 'appl', label: 'App calls' },
+]
+
+/**
+ * History filters. Dates are `YYYY-MM-DD` (as produced by `<input type="date">`)
+ * and are interpreted in the browser's local time zone, both ends inclusive.
+ */
+export type HistoryFilters = {
+  txType: HistoryTxType
+  assetId?: bigint
+  fromDate?: string
+  toDate?: string
+}
+
+export type HistoryPage = {
+  transactions: indexerModels.Transaction[]
+  nextToken?: string
+}
+
+/** Decoded transaction note: UTF-8 text when printable, base64 otherwise */
+export type DecodedNote = {
+  text: string
+  encoding: 'utf8' | 'base64'
+}
+
+/**
+ * One transaction flattened for display / export, from the point of view of `address`
+ * `amount` is in base units (microALGO for payments); `direction` is only set for value transfers
+ */
+export type HistoryEntry = {
+  id: string
+  round?: bigint
+  time?: Date
+  type: string
+  /** Short qualifier: opt-in, clawback, close-out, create, destroy, app on-completion, … */
+  detail: string
+  /** 'operator': a clawback this account sent, moving assets between two other accounts */
+  direction?: 'in' | 'out' | 'self' | 'operator'
+  counterparty?: string
+  /** 0n = ALGO */
+  assetId?: bigint
+  appId?: bigint
+  amount?: bigint
+  fee: bigint
+  note?: DecodedNote
+}
+
+export const HISTORY_PAGE_LIMIT = 25
+
+/** Cap on CSV exports so an active account doesn't page through the whole indexer */
+export const MAX_HISTORY_EXPORT = 5000
+
+const EXPORT_PAGE_LIMIT = 1000
+
+function buildQuery(indexer: Indexer, address: string, filters: HistoryFilters, limit: number, nextToken?: string) {
+  let query = indexer.lookupAccountTransactions(address).limit(limit)
+  if (filters.txType) query = query.txType(filters.txType)
+  if (filters.assetId !== undefined) query = query.assetID(filters.assetId)
+  if (filters.fromDate) query = query.afterTime(new Date(`${filters.fromDate}T00:00:00`))
+  if (filters.toDate) query = query.beforeTime(new Date(`${filters.toDate}T23:59:59.999`))
+  if (nextToken) query = query.nextToken(nextToken)
+  return query
+}
+
+/**
+ * One page of the account's transactions (newest first), with the filters applied by the indexer
+ */
+export async function fetchAccountHistory(
+  indexer: Indexer,
+  address: string,
+  filters: HistoryFilters,
+  nextToken?: string,
+): Promise<HistoryPage> {
+  const page = await buildQuery(indexer, address, filters, HISTORY_PAGE_LIMIT, nextToken).do()
+  return {
+    transactions: page.transactions,
+    nextToken: page.transactions.length === HISTORY_PAGE_LIMIT ? page.nextToken : undefined,
+  }
+}
+
+/**
+ * Every matching transaction (up to `MAX_HISTORY_EXPORT`) for a CSV export
+ */
+export async function fetchAllAccountHistory(
+  indexer: Indexer,
+  address: string,
+  filters: HistoryFilters,
+): Promise<indexerModels.Transaction[]> {
+  const transactions: indexerModels.Transaction[] = []
+  let nextToken: string | undefined
+
+  do {
+    const page = await buildQuery(indexer, address, filters, EXPORT_PAGE_LIMIT, nextToken).do()
+    transactions.push(...page.transactions)
+    nextToken = page.transactions.length === EXPORT_PAGE_LIMIT ? page.nextToken : undefined
+  } while (nextToken && transactions.length < MAX_HISTORY_EXPORT)
+
+  return transactions.slice(0, MAX_HISTORY_EXPORT)
+}
+
+/**
+ * Decode a note for display. Anything that isn't valid, printable UTF-8 is shown as base64.
+ */
+export function decodeNote(note?: Uint8Array): DecodedNote | undefined {
+  if (!note || note.length === 0) return undefined
+
+  try {
+    const text = new TextDecoder('utf-8', { fatal: true }).decode(note)
+    // eslint-disable-next-line no-control-regex
+    if (!/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/.test(text)) return { text, encoding: 'utf8' }
+  } catch {
+    // not UTF-8
+  }
+  return { text: bytesToBase64(note), encoding: 'base64' }
+}
+
+function directionOf(address: string, from: string, to: string | undefined): HistoryEntry['direction'] {
+  if (from === address && to === address) return 'self'
+  if (from === address) return 'out'
+  return 'in'
+}
+
+/**
+ * Flatten an indexer transaction into a history row for `address`
+ */
+export function summarizeTransaction(t: indexerModels.Transaction, address: string): HistoryEntry {
+  const entry: HistoryEntry = {
+    id: t.id ?? '',
+    round: t.confirmedRound,
+    time: t.roundTime ? new Date(t.roundTime * 1000) : undefined,
+    type: t.txType ?? '',
+    detail: '',
+    fee: t.fee,
+    note: decodeNote(t.note),
+  }
+
+  const pay = t.paymentTransaction
+  if (t.txType === 'pay' && pay) {
+    const receivedClose = pay.closeRemainderTo === address && t.sender !== address
+    entry.assetId = 0n
+    entry.amount = receivedClose ? (pay.closeAmount ?? 0n) : pay.amount
+    entry.direction = receivedClose ? 'in' : directionOf(address, t.sender, pay.receiver)
+    entry.counterparty = entry.direction === 'in' ? t.sender : pay.receiver
+    if (pay.closeRemainderTo) entry.detail = 'close-out'
+    return entry
+  }
+
+  const axfer = t.assetTransferTransaction
+  if (t.txType === 'axfer' && axfer) {
+    // Clawback transfers carry the revoked account in assetTransferTransaction.sender
+    const from = axfer.sender ?? t.sender
+    const receivedClose = axfer.closeTo === address && from !== address
+    const operated = !!axfer.sender && t.sender === address && from !== address && axfer.receiver !== address
+    entry.assetId = axfer.assetId
+    entry.amount = receivedClose ? (axfer.closeAmount ?? 0n) : axfer.amount
+    entry.direction = receivedClose ? 'in' : operated ? 'operator' : directionOf(address, from, axfer.receiver)
+    // The revoked account for clawbacks this account executed
+    entry.counterparty = entry.direction === 'in' || operated ? from : axfer.receiver
+    if (axfer.amount === 0n && axfer.receiver === t.sender && !axfer.closeTo) entry.detail = 'opt-in'
+    else if (axfer.sender) entry.detail = 'clawback'
+    else if (axfer.closeTo) entry.detail = 'close-out'
+    return entry
+  }
+
+  const acfg = t.assetConfigTransaction
+  if (t.txType === 'acfg' && acfg) {
+    entry.assetId = acfg.assetId || t.createdAssetIndex
+    entry.detail = t.createdAssetIndex ? 'create' : acfg.params ? 'reconfigure' : 'destroy'
+    if (t.sender !== address) entry.counterparty = t.sender
+    return entry
+  }
+
+  const appl = t.applicationTransaction
+  if (t.txType === 'appl' && appl) {
+    entry.appId = appl.applicationId || t.createdApplicationIndex
+    entry.detail = t.createdApplicationIndex ? 'create' : (appl.onCompletion ?? 'noop')
+    if (t.sender !== address) entry.counterparty = t.sender
+    return entry
+  }
+
+  if (t.sender !== address) entry.counterparty = t.sender
+  return entry
+}
+
+/**
+ * CSV export of history rows. `formatAmount` turns base units into display units
+ * (decimals depend on the asset, which the caller has looked up).
+ */
+export function historyToCsv(entries: HistoryEntry[], formatAmount: (entry: HistoryEntry) => string): string {
+  const header = [
+    'tx_id',
+    'round',
+    'time',
+    'type',
+    'detail',
+    'direction',
+    'counterparty',
+    'asset_id',
+    'app_id',
+    'amount',
+    'amount_base_units',
+    'fee_microalgo',
+    'note',
+    'note_encoding',
+  ]
+  const rows = entries.map((e) => [
+    e.id,
+    e.round,
+    e.time?.toISOString(),
+    e.type,
+    e.detail,
+    e.direction,
+    e.counterparty,
+    e.assetId,
+    e.appId,
+    e.amount !== undefined ? formatAmount(e) : '',
+    e.amount,
+    e.fee,
+    e.note?.text,
+    e.note?.encoding,
+  ])
+  return toCsv([header, ...rows])
+}
@@ -0,0 +1,20 @@
+import { resolveBackendBase } from './backend'
+
+/**
+ * Gateway prefix (ends with `/`) used to read `ipfs://` content over HTTPS: the mint server's
+ * proxy (`/api/ipfs/`: cached, with fallback across public gateways) unless VITE_IPFS_GATEWAY is set
+ */
+export function ipfsGatewayBase(): string {
+  const gateway = import.meta.env.VITE_IPFS_GATEWAY?.trim()
+  return gateway ? gateway.replace(/\/?$/, '/') : `${resolveBackendBase()}/api/ipfs/`
+}
+
+/**
+ * Turn an `ipfs://CID/path` URL into a gateway URL; http(s) URLs are returned as-is.
+ * Any `#fragment` (e.g. ARC-3's `#arc3`) is dropped.
+ */
+export function ipfsToGatewayUrl(url: string): string {
+  const withoutFragment = url.split('#')[0]
+  if (withoutFragment.startsWith('ipfs://')) return `${ipfsGatewayBase()}${withoutFragment.slice('ipfs://'.length).replace(/^ipfs\//, '')}`
+  return withoutFragment
+}
@@ -0,0 +1,310 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import type {
+  MetadataFields,
+  MintServerEndpoint,
+  MintServerEndpoints,
+  PinnedBatchItem,
+  PinnedImage,
+  PinnedMetadata,
+} from '@mint-server/api'
+import { base64ToBytes, bytesToBase64, makePaymentTxnWithSuggestedParamsFromObject, TransactionSigner } from 'algosdk'
+import { resolveBackendBase } from './backend'
+import { ipfsToGatewayUrl } from './ipfs'
+import { NftMetadataDraft, nftMetadataFields, NftStandard } from './nftMetadata'
+import { decryptDocument, encryptDocument, sha256Base64, VAULT_ENCRYPTION, VaultDocument } from './vault'
+
+/**
+ * Connected account used to sign in to the mint server (pin endpoints need a bearer token)
+ */
+export type MintServerAuth = {
+  address: string
+  signer: TransactionSigner
+  algorand: AlgorandClient
+}
+
+type StoredToken = { token: string; expiresAt: number }
+
+const TOKEN_STORAGE_KEY = 'tokenize_mint_server_token'
+
+/** Sign in again when the token has less than this left (ms) */
+const TOKEN_REFRESH_MARGIN = 60_000
+
+function tokenKey(address: string): string {
+  return `${TOKEN_STORAGE_KEY}:${resolveBackendBase()}:${address}`
+}
+
+function loadToken(address: string): string | undefined {
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(tokenKey(address)) ?? 'null') as StoredToken | null
+    return stored && stored.expiresAt - TOKEN_REFRESH_MARGIN > Date.now() ? stored.token : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Challenge/response login: the server's challenge goes in the note of a 0-ALGO payment to
+ * ourselves that is only valid in round 1, so the signed transaction can never be submitted;
+ * it only proves that we hold the account key. The short-lived token is kept for the tab session.
+ */
+async function signIn(auth: MintServerAuth): Promise<string> {
+  const { challenge } = await callMintServer('POST /api/auth/challenge', { json: { address: auth.address } })
+
+  const params = await auth.algorand.getSuggestedParams()
+  const txn = makePaymentTxnWithSuggestedParamsFromObject({
+    sender: auth.address,
+    receiver: auth.address,
+    amount: 0,
+    note: new TextEncoder().encode(challenge),
+    suggestedParams: { ...params, firstValid: 1, lastValid: 1 },
+  })
+  const [signedTxn] = await auth.signer([txn], [0])
+
+  const session = await callMintServer('POST /api/auth/verify', {
+    json: { address: auth.address, challenge, signedTxn: bytesToBase64(signedTxn) },
+  })
+  try {
+    sessionStorage.setItem(tokenKey(auth.address), JSON.stringify({ token: session.token, expiresAt: session.expiresAt }))
+  } catch {
+    // Without storage we simply sign in again next time
+  }
+  return session.token
+}
+
+/**
+ * fetch() against a protected endpoint: signs in when there is no valid token and
+ * retries once with a fresh token when the server rejects the stored one
+ */
+async function authorizedFetch(auth: MintServerAuth, path: string, init: RequestInit): Promise<Response> {
+  const send = (token: string) =>
+    fetch(`${resolveBackendBase()}${path}`, { ...init, headers: { ...init.headers, Authorization: `Bearer ${token}` }, mode: 'cors' })
+
+  const stored = loadToken(auth.address)
+  const response = await send(stored ?? (await signIn(auth)))
+  if (response.status !== 401 || !stored) return response
+
+  sessionStorage.removeItem(tokenKey(auth.address))
+  return send(await signIn(auth))
+}
+
+// Shapes of the mint server API, shared with the server (NFT_mint_server/contract/api.ts)
+export type { PinnedBatchItem, PinnedImage, PinnedMetadata }
+
+/**
+ * File types the mint server accepts (it sniffs the real type and enforces its own allowlist)
+ */
+export const MEDIA_UPLOAD_ACCEPT =
+  'image/png, image/jpeg, image/gif, image/webp, image/avif, video/mp4, video/webm, video/quicktime, application/pdf'
+
+/**
+ * Non-2xx answer from the mint server
+ */
+export class MintServerError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message)
+    this.name = 'MintServerError'
+  }
+}
+
+async function readJsonResponse<T>(response: Response): Promise<T> {
+  if (response.status === 429) {
+    // Rate limit / daily upload quota (see limits/index.ts on the server)
+    const seconds = Number(response.headers.get('Retry-After')) || 0
+    const wait = seconds >= 3600 ? `${Math.ceil(seconds / 3600)}h` : seconds >= 60 ? `${Math.ceil(seconds / 60)}m` : `${seconds}s`
+    const { error } = await response.json().catch(() => ({ error: '' }))
+    throw new MintServerError(`${error || 'Mint server limit reached'}. Try again in ${wait}.`, 429)
+  }
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new MintServerError(`Backend request failed: ${response.status} - ${errorText}`, response.status)
+  }
+  return response.json()
+}
+
+/**
+ * Request parts of an endpoint (`json`, `form`, `query`, `params`) as the server's contract defines them
+ */
+export type MintServerRequest<E extends MintServerEndpoint> = Omit<MintServerEndpoints[E], 'auth' | 'response'>
+
+/** Endpoints marked `auth` take the connected account, to sign in with */
+type AuthArgs<E extends MintServerEndpoint> = MintServerEndpoints[E] extends { auth: true } ? [auth: MintServerAuth] : []
+
+type FormValue = string | Blob | Blob[] | undefined
+
+function toFormData(form: Record<string, FormValue>): FormData {
+  const formData = new FormData()
+  for (const [key, value] of Object.entries(form)) {
+    for (const part of Array.isArray(value) ? value : [value]) if (part !== undefined) formData.append(key, part)
+  }
+  return formData
+}
+
+/**
+ * Call a mint server endpoint. Request and response are typed from the server's contract, so a
+ * breaking change to its API stops this app from compiling instead of failing at runtime.
+ */
+export async function callMintServer<E extends MintServerEndpoint>(
+  endpoint: E,
+  request: MintServerRequest<E>,
+  ...[auth]: AuthArgs<E>
+): Promise<MintServerEndpoints[E]['response']> {
+  const { json, form, query, params } = request as {
+    json?: unknown
+    form?: Record<string, FormValue>
+    query?: Record<string, string | undefined>
+    params?: Record<string, string>
+  }
+  const [method, route] = endpoint.split(' ')
+  const search = new URLSearchParams(Object.entries(query ?? {}).filter((entry): entry is [string, string] => entry[1] !== undefined))
+  const path = `${route.replace(/:(\w+)/g, (_, name: string) => encodeURIComponent(params?.[name] ?? ''))}${search.toString() ? `?${search}` : ''}`
+
+  const init: RequestInit =
+    json !== undefined
+      ? { method, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(json) }
+      : { method, body: form && toFormData(form) }
+  const response = auth ? await authorizedFetch(auth, path, init) : await fetch(`${resolveBackendBase()}${path}`, { ...init, mode: 'cors' })
+  return readJsonResponse(response)
+}
+
+function checkPinnedMetadata(data: Partial<PinnedMetadata>) {
+  if (!data.metadataUrl || !data.metadataCid) throw new Error('Backend did not return a valid metadata URL')
+  if (typeof data.metadataJson !== 'string') throw new Error('Backend did not return the pinned metadata JSON (update the mint server)')
+}
+
+/**
+ * Pin an image plus its metadata JSON (`/api/pin-image`)
+ */
+export async function pinImageWithMetadata(
+  file: File,
+  name: string,
+  draft: NftMetadataDraft,
+  auth: MintServerAuth,
+): Promise<PinnedMetadata & PinnedImage> {
+  const { properties, ...fields } = nftMetadataFields(name, draft)
+  const data = await callMintServer('POST /api/pin-image', { form: { file, ...fields, properties: JSON.stringify(properties) } }, auth)
+  checkPinnedMetadata(data)
+  return data as PinnedMetadata & PinnedImage
+}
+
+/**
+ * Pin only the image (ARC-69 keeps its metadata in the transaction note)
+ */
+export async function pinImageOnly(file: File, name: string, auth: MintServerAuth): Promise<PinnedImage> {
+  const data = await callMintServer('POST /api/pin-image', { form: { file, metaName: name.trim(), standard: 'arc69' } }, auth)
+  if (!data.imageUrl) throw new Error('Backend did not return the pinned image URL (update the mint server)')
+  return data
+}
+
+/**
+ * Pin several images at once (`/api/pin-batch`). Each item brings its own name and
+ * properties; description and external link come from the shared draft.
+ */
+export async function pinImageBatch(
+  items: { file: File; name: string; properties: Record<string, unknown> }[],
+  shared: NftMetadataDraft,
+  standard: NftStandard,
+  auth: MintServerAuth,
+): Promise<PinnedBatchItem[]> {
+  const form = {
+    files: items.map((item) => item.file),
+    items: JSON.stringify(items.map((item): MetadataFields => ({ metaName: item.name.trim(), properties: item.properties }))),
+    metaDescription: shared.description.trim(),
+    externalUrl: shared.externalUrl.trim() || undefined,
+    standard,
+  }
+
+  const data = await callMintServer('POST /api/pin-batch', { form }, auth)
+  if (!Array.isArray(data.items) || data.items.length !== items.length) {
+    throw new Error('Backend did not return one pinned item per file (update the mint server)')
+  }
+  return data.items
+}
+
+/**
+ * Pin new metadata JSON for an image that is already pinned (`/api/pin-metadata`);
+ * `media` keeps the image's ARC-3 media fields (see mediaFieldsFromMetadata)
+ */
+export async function pinMetadataForImage(
+  image: string,
+  media: Record<string, string>,
+  name: string,
+  draft: NftMetadataDraft,
+  auth: MintServerAuth,
+): Promise<PinnedMetadata> {
+  const data = await callMintServer('POST /api/pin-metadata', { json: { image, media, ...nftMetadataFields(name, draft) } }, auth)
+  checkPinnedMetadata(data)
+  return data
+}
+
+/**
+ * Encrypt a file in the browser and store the ciphertext in the vault (`/api/vault/documents`).
+ * The server seals the key into an envelope for `recipients` (the signed-in address is always
+ * one of them) and keeps the means to open it: the mint server operator can decrypt every
+ * document (key escrow). The returned entry goes into `properties.documents`.
+ */
+export async function pinVaultDocument(file: File, recipients: string[], auth: MintServerAuth): Promise<VaultDocument> {
+  const plaintext = new Uint8Array(await file.arrayBuffer())
+  const { ciphertext, key } = await encryptDocument(plaintext)
+
+  const data = await callMintServer(
+    'POST /api/vault/documents',
+    {
+      form: {
+        file: new File([Uint8Array.from(ciphertext)], 'document.enc', { type: 'application/octet-stream' }),
+        key: bytesToBase64(key),
+        recipients: JSON.stringify(recipients),
+      },
+    },
+    auth,
+  )
+  if (!data.cid || !data.envelope) throw new Error('Backend did not return the document envelope (update the mint server)')
+  return {
+    name: file.name,
+    mimetype: file.type || 'application/octet-stream',
+    size: file.size,
+    sha256: await sha256Base64(plaintext),
+    cid: data.cid,
+    url: data.url,
+    envelope: data.envelope,
+    encryption: VAULT_ENCRYPTION,
+  }
+}
+
+/**
+ * Download and decrypt a vault document listed by `assetId` on `network`: the server releases the
+ * key (`/api/vault/key`) to the uploader, or to recipients currently holding the asset, and the
+ * plaintext must match the sha256 recorded in the metadata
+ */
+export async function openVaultDocument(document: VaultDocument, network: string, assetId: bigint, auth: MintServerAuth): Promise<Blob> {
+  const { key } = await callMintServer(
+    'POST /api/vault/key',
+    { json: { envelope: document.envelope, network, assetId: String(assetId) } },
+    auth,
+  ).catch((e) => {
+    throw e instanceof MintServerError && e.status === 403 ? new Error(`Not authorized to open this document: ${e.message}`) : e
+  })
+
+  const encrypted = await fetch(ipfsToGatewayUrl(document.url))
+  if (!encrypted.ok) throw new Error(`Could not fetch the encrypted document: HTTP ${encrypted.status}`)
+  const plaintext = await decryptDocument(new Uint8Array(await encrypted.arrayBuffer()), base64ToBytes(key))
+  if ((await sha256Base64(plaintext)) !== document.sha256) {
+    throw new Error('Decrypted document does not match the sha256 in the asset metadata')
+  }
+  return new Blob([Uint8Array.from(plaintext)], { type: document.mimetype })
+}
+
+/**
+ * Add a freshly minted (or updated) asset to the mint server's shared registry (`POST /api/assets`).
+ * The server reads the asset from algod itself; networks it cannot reach (custom) are refused.
+ * Best-effort: failures are logged and never block the mint flow.
+ */
+export async function registerMintedAsset(network: string, assetId: bigint | string, txId?: string): Promise<void> {
+  try {
+    await callMintServer('POST /api/assets', { json: { network, assetId: String(assetId), txId } })
+  } catch (e) {
+    console.warn('[mintServer] asset registry update failed:', e)
+  }
+}
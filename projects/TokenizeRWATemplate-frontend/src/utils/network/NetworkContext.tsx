@@ -0,0 +1,57 @@
+import { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import { createContext, ReactNode, useCallback, useContext, useMemo, useState } from 'react'
+import { AppNetwork, AppNetworkId } from '../../interfaces/network'
+import { getNetworkRegistry, loadSelectedNetworkId, saveSelectedNetworkId } from './networks'
+
+type NetworkContextValue = {
+  network: AppNetwork
+  networks: AppNetwork[]
+  setNetworkId: (id: AppNetworkId) => void
+  /** Algod + indexer client for the active network; re-created when the network changes */
+  algorand: AlgorandClient
+}
+
+const NetworkContext = createContext<NetworkContextValue | null>(null)
+
+/**
+ * NetworkProvider
+ * Holds the active network (persisted in localStorage) and the matching AlgorandClient.
+ */
+export function NetworkProvider({ children }: { children: ReactNode }) {
+  const networks = useMemo(() => getNetworkRegistry(), [])
+  const [networkId, setNetworkIdState] = useState<AppNetworkId>(() => loadSelectedNetworkId(networks))
+
+  const network = networks.find((n) => n.id === networkId) ?? networks[0]
+
+  const algorand = useMemo(() => AlgorandClient.fromConfig({ algodConfig: network.algod, indexerConfig: network.indexer }), [network])
+
+  const setNetworkId = useCallback((id: AppNetworkId) => {
+    saveSelectedNetworkId(id)
+    setNetworkIdState(id)
+  }, [])
+
+  const value = useMemo(() => ({ network, networks, setNetworkId, algorand }), [network, networks, setNetworkId, algorand])
+
+  return <NetworkContext.Provider value={value}>{children}</NetworkContext.Provider>
+}
+
+function useNetworkContext(): NetworkContextValue {
+  const ctx = useContext(NetworkContext)
+  if (!ctx) throw new Error('useAppNetwork/useAlgorand must be used inside <NetworkProvider>')
+  return ctx
+}
+
+/**
+ * Active network config (USDC id, explorer base, node URLs) plus the switcher
+ */
+export function useAppNetwork() {
+  const { network, networks, setNetworkId } = useNetworkContext()
+  return { network, networks, setNetworkId }
+}
+
+/**
+ * AlgorandClient for the active network
+ */
+export function useAlgorand(): AlgorandClient {
+  return useNetworkContext().algorand
+}
@@ -0,0 +1,122 @@
+import { AppNetwork, AppNetworkId } from '../../interfaces/network'
+import {
+  getAlgodConfigFromViteEnvironment,
+  getIndexerConfigFromViteEnvironment,
+  getKmdConfigFromViteEnvironment,
+} from './getAlgoClientConfigs'
+
+const STORAGE_KEY = 'tokenize_network'
+
+const LOCALNET_TOKEN = 'a'.repeat(64)
+
+/**
+ * Built-in networks. Public nodes are AlgoNode; LocalNet matches `algokit localnet start`.
+ */
+function builtInNetworks(): AppNetwork[] {
+  return [
+    {
+      id: 'localnet',
+      label: 'LocalNet',
+      algod: { server: 'http://localhost', port: 4001, token: LOCALNET_TOKEN, network: 'localnet' },
+      indexer: { server: 'http://localhost', port: 8980, token: LOCALNET_TOKEN, network: 'localnet' },
+      kmd: {
+        server: 'http://localhost',
+        port: 4002,
+        token: LOCALNET_TOKEN,
+        wallet: 'unencrypted-default-wallet',
+        password: '',
+      },
+      explorerBase: 'https://lora.algokit.io/localnet',
+      web3AuthNetwork: 'sapphire_devnet',
+    },
+    {
+      id: 'testnet',
+      label: 'TestNet',
+      algod: { server: 'https://testnet-api.algonode.cloud', port: '', token: '', network: 'testnet' },
+      indexer: { server: 'https://testnet-idx.algonode.cloud', port: '', token: '', network: 'testnet' },
+      // Circle USDC on Algorand TestNet
+      usdcAssetId: 10458941n,
+      explorerBase: 'https://lora.algokit.io/testnet',
+      web3AuthNetwork: 'sapphire_devnet',
+    },
+    {
+      id: 'mainnet',
+      label: 'MainNet',
+      algod: { server: 'https://mainnet-api.algonode.cloud', port: '', token: '', network: 'mainnet' },
+      indexer: { server: 'https://mainnet-idx.algonode.cloud', port: '', token: '', network: 'mainnet' },
+      // Circle USDC on Algorand MainNet
+      usdcAssetId: 31566704n,
+      explorerBase: 'https://lora.algokit.io/mainnet',
+      web3AuthNetwork: 'sapphire_mainnet',
+    },
+  ]
+}
+
+/**
+ * Network registry (localnet/testnet/mainnet, plus custom when configured).
+ * The Vite env (.env) still applies: its node URLs override the built-in network it names,
+ * and any other VITE_ALGOD_NETWORK (private network, betanet, …) becomes the 'custom' entry.
+ */
+export function getNetworkRegistry(): AppNetwork[] {
+  const networks = builtInNetworks()
+  if (!import.meta.env.VITE_ALGOD_SERVER) return networks
+
+  const envNetwork = (import.meta.env.VITE_ALGOD_NETWORK ?? '').trim().toLowerCase() || 'localnet'
+  const algod = getAlgodConfigFromViteEnvironment()
+  const indexer = import.meta.env.VITE_INDEXER_SERVER ? getIndexerConfigFromViteEnvironment() : undefined
+  const usdcAssetId = import.meta.env.VITE_USDC_ASSET_ID ? BigInt(import.meta.env.VITE_USDC_ASSET_ID) : undefined
+
+  const known = networks.find((n) => n.id === envNetwork)
+  if (known) {
+    known.algod = { ...algod, network: known.id }
+    if (indexer) known.indexer = { ...indexer, network: known.id }
+    if (known.id === 'localnet' && import.meta.env.VITE_KMD_SERVER) known.kmd = getKmdConfigFromViteEnvironment()
+    if (usdcAssetId !== undefined) known.usdcAssetId = usdcAssetId
+    return networks
+  }
+
+  if (!indexer) {
+    throw new Error(`Network "${envNetwork}" needs VITE_INDEXER_SERVER in the environment variables`)
+  }
+
+  return [
+    ...networks,
+    {
+      id: 'custom',
+      label: envNetwork,
+      algod: { ...algod, network: envNetwork },
+      indexer: { ...indexer, network: envNetwork },
+      usdcAssetId,
+      explorerBase: (import.meta.env.VITE_EXPLORER_URL ?? `https://lora.algokit.io/${envNetwork}`).replace(/\/$/, ''),
+      web3AuthNetwork: 'sapphire_devnet',
+    },
+  ]
+}
+
+/**
+ * Network used when the user hasn't picked one: the one named by the Vite env, else TestNet
+ */
+export function getDefaultNetworkId(networks: AppNetwork[]): AppNetworkId {
+  if (!import.meta.env.VITE_ALGOD_SERVER) return 'testnet'
+  const envNetwork = (import.meta.env.VITE_ALGOD_NETWORK ?? '').trim().toLowerCase() || 'localnet'
+  return networks.find((n) => n.id === envNetwork)?.id ?? 'custom'
+}
+
+export function loadSelectedNetworkId(networks: AppNetwork[]): AppNetworkId {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    const match = networks.find((n) => n.id === saved)
+    if (match) return match.id
+  } catch {
+    // ignore storage errors (private mode)
+  }
+  return getDefaultNetworkId(networks)
+}
+
+export function saveSelectedNetworkId(id: AppNetworkId) {
+  try {
+    localStorage.setItem(STORAGE_KEY, id)
+  } catch {
+    // ignore storage errors (private mode)
+  }
+}
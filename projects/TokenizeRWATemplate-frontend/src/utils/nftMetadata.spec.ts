@@ -0,0 +1,74 @@
+import { buildNftMetadataPreview, draftFromMetadata, EMPTY_NFT_METADATA, mediaFieldsFromMetadata, validateNftMetadata } from './nftMetadata'
+
+describe('validateNftMetadata', () => {
+  it('should accept an empty draft', () => {
+    expect(validateNftMetadata(EMPTY_NFT_METADATA)).toEqual([])
+  })
+
+  it('should reject bad links, duplicate traits and invalid valuations', () => {
+    const problems = validateNftMetadata({
+      ...EMPTY_NFT_METADATA,
+      externalUrl: 'example.com',
+      traits: [
+        { key: 'Color', value: 'Red' },
+        { key: 'color', value: 'Blue' },
+      ],
+      valuationAmount: '-5',
+    })
+    expect(problems).toEqual([
+      'External URL must be a full http(s):// link.',
+      'Trait "color" is listed twice.',
+      'Valuation must be a positive number.',
+    ])
+  })
+})
+
+describe('buildNftMetadataPreview', () => {
+  it('should match the pinned JSON shape and drop empty sections', () => {
+    const preview = buildNftMetadataPreview(
+      'Forklift #7',
+      {
+        ...EMPTY_NFT_METADATA,
+        externalUrl: 'https://example.com/7',
+        traits: [
+          { key: 'Make', value: 'Toyota' },
+          { key: '', value: '' },
+        ],
+        serialNumber: 'SN-7',
+        valuationAmount: '18500.50',
+      },
+      'ipfs://bafyimage',
+    )
+    expect(preview).toEqual({
+      name: 'Forklift #7',
+      description: 'Pinned via TokenizeRWA template',
+      image: 'ipfs://bafyimage',
+      external_url: 'https://example.com/7',
+      properties: {
+        traits: { Make: 'Toyota' },
+        rwa: { serial_number: 'SN-7', valuation: { amount: 18500.5, currency: 'USD' } },
+      },
+    })
+  })
+})
+
+describe('draftFromMetadata', () => {
+  it('should round-trip the pinned properties', () => {
+    const draft = {
+      ...EMPTY_NFT_METADATA,
+      description: 'Forklift',
+      traits: [{ key: 'Make', value: 'Toyota' }],
+      location: 'Depot 3',
+      valuationAmount: '18500',
+      valuationCurrency: 'EUR',
+    }
+    expect(draftFromMetadata(buildNftMetadataPreview('Forklift #7', draft, 'ipfs://bafyimage'))).toEqual(draft)
+  })
+})
+
+describe('mediaFieldsFromMetadata', () => {
+  it('should keep only the ARC-3 media fields', () => {
+    const metadata = { name: 'Gold bar', image: 'ipfs://a', image_mimetype: 'image/png', thumbnail: 'ipfs://t', thumbnail_integrity: 1 }
+    expect(mediaFieldsFromMetadata(metadata)).toEqual({ image_mimetype: 'image/png', thumbnail: 'ipfs://t' })
+  })
+})
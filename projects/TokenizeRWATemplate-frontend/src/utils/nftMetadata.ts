@@ -0,0 +1,214 @@
+import type { MetadataFields } from '@mint-server/api'
+import { parseVaultDocuments, VaultDocument } from './vault'
+
+/**
+ * One key/value trait shown by marketplaces (e.g. Color = Red)
+ */
+export type NftTrait = {
+  key: string
+  value: string
+}
+
+/**
+ * Editable NFT metadata (everything except name and image, which come from the mint form)
+ * Values are kept as typed; `buildNftProperties` normalizes them.
+ */
+export type NftMetadataDraft = {
+  description: string
+  externalUrl: string
+  traits: NftTrait[]
+  location: string
+  serialNumber: string
+  valuationAmount: string
+  valuationCurrency: string
+  /** Encrypted documents already stored in the vault (`properties.documents`) */
+  documents?: VaultDocument[]
+}
+
+/** How the metadata is referenced on-chain */
+export type NftStandard = 'arc3' | 'arc19' | 'arc69'
+
+export const NFT_STANDARDS: { value: NftStandard; label: string; description: string }[] = [
+  { value: 'arc3', label: 'ARC-3', description: 'Immutable: ipfs:// URL plus the sha256 of the metadata JSON as metadata hash.' },
+  {
+    value: 'arc19',
+    label: 'ARC-19 (mutable)',
+    description: 'The reserve address carries the metadata CID, so the manager can update the metadata later.',
+  },
+  {
+    value: 'arc69',
+    label: 'ARC-69',
+    description: 'Metadata JSON goes in the transaction note (max 1KB); the URL points at the image. Updatable by the manager.',
+  },
+]
+
+export const EMPTY_NFT_METADATA: NftMetadataDraft = {
+  description: '',
+  externalUrl: '',
+  traits: [],
+  location: '',
+  serialNumber: '',
+  valuationAmount: '',
+  valuationCurrency: 'USD',
+}
+
+export const MAX_DESCRIPTION_LENGTH = 1000
+export const MAX_TRAITS = 50
+const MAX_TRAIT_KEY_LENGTH = 64
+const MAX_TRAIT_VALUE_LENGTH = 256
+const MAX_RWA_FIELD_LENGTH = 256
+
+/** Description the mint server uses when none is sent */
+export const DEFAULT_NFT_DESCRIPTION = 'Pinned via TokenizeRWA template'
+
+/**
+ * Validate the draft; returns one message per problem (empty when valid)
+ */
+export function validateNftMetadata(draft: NftMetadataDraft): string[] {
+  const problems: string[] = []
+
+  if (draft.description.length > MAX_DESCRIPTION_LENGTH) {
+    problems.push(`Description is longer than ${MAX_DESCRIPTION_LENGTH} characters.`)
+  }
+
+  const externalUrl = draft.externalUrl.trim()
+  if (externalUrl) {
+    let ok = false
+    try {
+      const parsed = new URL(externalUrl)
+      ok = parsed.protocol === 'https:' || parsed.protocol === 'http:'
+    } catch {
+      ok = false
+    }
+    if (!ok) problems.push('External URL must be a full http(s):// link.')
+  }
+
+  if (draft.traits.length > MAX_TRAITS) problems.push(`At most ${MAX_TRAITS} traits.`)
+
+  const seen = new Set<string>()
+  draft.traits.forEach((t, i) => {
+    const key = t.key.trim()
+    const value = t.value.trim()
+    if (!key && !value) return
+    if (!key) problems.push(`Trait ${i + 1} has a value but no name.`)
+    else if (!value) problems.push(`Trait "${key}" has no value.`)
+    if (key.length > MAX_TRAIT_KEY_LENGTH) problems.push(`Trait name "${key.slice(0, 20)}…" is too long (max ${MAX_TRAIT_KEY_LENGTH}).`)
+    if (value.length > MAX_TRAIT_VALUE_LENGTH) problems.push(`Trait "${key}" value is too long (max ${MAX_TRAIT_VALUE_LENGTH}).`)
+    if (key && seen.has(key.toLowerCase())) problems.push(`Trait "${key}" is listed twice.`)
+    seen.add(key.toLowerCase())
+  })
+
+  for (const [label, value] of [
+    ['Location', draft.location],
+    ['Serial number', draft.serialNumber],
+  ]) {
+    if (value.trim().length > MAX_RWA_FIELD_LENGTH) problems.push(`${label} is too long (max ${MAX_RWA_FIELD_LENGTH}).`)
+  }
+
+  const amount = draft.valuationAmount.trim()
+  if (amount) {
+    if (!/^\d+(\.\d+)?$/.test(amount) || Number(amount) <= 0) problems.push('Valuation must be a positive number.')
+    if (!/^[A-Z]{3,5}$/.test(draft.valuationCurrency.trim())) problems.push('Valuation currency must be a 3–5 letter code (e.g. USD).')
+  }
+
+  return problems
+}
+
+/**
+ * `properties` object pinned with the metadata: `traits` (name → value) and
+ * `rwa` (location, serial_number, valuation), plus vault `documents`. Empty sections are omitted.
+ */
+export function buildNftProperties(draft: NftMetadataDraft): Record<string, unknown> {
+  const properties: Record<string, unknown> = {}
+
+  const traits = draft.traits.filter((t) => t.key.trim() && t.value.trim())
+  if (traits.length > 0) {
+    properties.traits = Object.fromEntries(traits.map((t) => [t.key.trim(), t.value.trim()]))
+  }
+
+  const rwa: Record<string, unknown> = {}
+  if (draft.location.trim()) rwa.location = draft.location.trim()
+  if (draft.serialNumber.trim()) rwa.serial_number = draft.serialNumber.trim()
+  if (draft.valuationAmount.trim()) {
+    rwa.valuation = { amount: Number(draft.valuationAmount.trim()), currency: draft.valuationCurrency.trim() }
+  }
+  if (Object.keys(rwa).length > 0) properties.rwa = rwa
+
+  if (draft.documents?.length) properties.documents = draft.documents
+
+  return properties
+}
+
+/**
+ * The metadata JSON the mint server will pin, in the same key order, for the live preview.
+ * `image` is the ipfs:// URL (a placeholder before upload).
+ */
+export function buildNftMetadataPreview(name: string, draft: NftMetadataDraft, image: string): Record<string, unknown> {
+  const externalUrl = draft.externalUrl.trim()
+  return {
+    name: name.trim() || 'NFT Example',
+    description: draft.description.trim() || DEFAULT_NFT_DESCRIPTION,
+    image,
+    ...(externalUrl ? { external_url: externalUrl } : {}),
+    properties: buildNftProperties(draft),
+  }
+}
+
+/**
+ * Metadata fields of the mint server's pin endpoints
+ */
+export function nftMetadataFields(name: string, draft: NftMetadataDraft): MetadataFields {
+  return {
+    metaName: name.trim(),
+    metaDescription: draft.description.trim(),
+    externalUrl: draft.externalUrl.trim() || undefined,
+    properties: buildNftProperties(draft),
+  }
+}
+
+/**
+ * Editor draft from pinned metadata JSON (for metadata updates); unknown fields are ignored
+ */
+export function draftFromMetadata(metadata: Record<string, unknown>): NftMetadataDraft {
+  const str = (v: unknown) => (typeof v === 'string' ? v : typeof v === 'number' ? String(v) : '')
+  const record = (v: unknown) => (v && typeof v === 'object' ? (v as Record<string, unknown>) : {})
+  const properties = record(metadata.properties)
+  const traits = record(properties.traits)
+  const rwa = record(properties.rwa)
+  const valuation = record(rwa.valuation)
+  const documents = parseVaultDocuments(properties)
+
+  return {
+    description: str(metadata.description) === DEFAULT_NFT_DESCRIPTION ? '' : str(metadata.description),
+    externalUrl: str(metadata.external_url),
+    traits: Object.entries(traits).map(([key, value]) => ({ key, value: str(value) })),
+    location: str(rwa.location),
+    serialNumber: str(rwa.serial_number),
+    valuationAmount: str(valuation.amount),
+    valuationCurrency: str(valuation.currency) || EMPTY_NFT_METADATA.valuationCurrency,
+    ...(documents.length > 0 ? { documents } : {}),
+  }
+}
+
+/**
+ * ARC-3 media fields the mint server adds next to `image` (sniffed type, sha256 integrity, thumbnail)
+ */
+export const NFT_MEDIA_FIELDS = [
+  'image_integrity',
+  'image_mimetype',
+  'animation_url',
+  'animation_url_integrity',
+  'animation_url_mimetype',
+  'thumbnail',
+  'thumbnail_integrity',
+  'thumbnail_mimetype',
+] as const
+
+/**
+ * Media fields of pinned metadata, to carry over when the metadata is re-pinned for the same image
+ */
+export function mediaFieldsFromMetadata(metadata: Record<string, unknown>): Record<string, string> {
+  return Object.fromEntries(
+    NFT_MEDIA_FIELDS.filter((key) => typeof metadata[key] === 'string' && metadata[key]).map((key) => [key, metadata[key] as string]),
+  )
+}
@@ -0,0 +1,118 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import type { AssetInformation } from '@algorandfoundation/algokit-utils/types/asset-manager'
+import type { TransactionSigner } from 'algosdk'
+
+/**
+ * Tri-state for an account's opt-in to an asset
+ * - 'loading': blockchain query in progress, UI should show spinner/loading
+ * - 'opted-in': confirmed on-chain that user has opted in
+ * - 'not-opted-in': confirmed on-chain that user has NOT opted in
+ */
+export type OptInStatus = 'loading' | 'opted-in' | 'not-opted-in'
+
+/**
+ * Confirmed on-chain holding of one asset for one account
+ */
+export type HoldingLookup = {
+  status: Exclude<OptInStatus, 'loading'>
+  balance: bigint
+  isFrozen: boolean
+}
+
+/**
+ * One asset the account is opted in to, with its params for display
+ */
+export type AccountOptIn = {
+  assetId: bigint
+  balance: bigint
+  isFrozen: boolean
+  asset?: AssetInformation
+}
+
+/** Min balance (microALGO) locked per asset opt-in; refunded on opt-out */
+export const ASSET_OPT_IN_MIN_BALANCE = 100_000n
+
+function isNotFoundError(error: any): boolean {
+  return (
+    error?.message?.includes('not found') || error?.message?.includes('404') || error?.status === 404 || error?.response?.status === 404
+  )
+}
+
+/**
+ * Fetch an account's opt-in status for any asset from algod
+ * Uses asset-specific API for reliable opt-in detection
+ * Falls back to account information API on non-404 errors
+ */
+export async function lookupHolding(algorand: AlgorandClient, address: string, assetId: bigint): Promise<HoldingLookup> {
+  try {
+    // Method 1: asset-specific API. Returns holding if opted in, 404 if not
+    const holding = await algorand.asset.getAccountInformation(address, assetId)
+    return { status: 'opted-in', balance: BigInt(holding.balance ?? 0), isFrozen: Boolean(holding.frozen) }
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return { status: 'not-opted-in', balance: 0n, isFrozen: false }
+    }
+    // Non-404 error - fall through to method 2 for verification
+  }
+
+  // Method 2: account information API
+  const info = await algorand.client.algod.accountInformation(address).do()
+  const holding = (info.assets ?? []).find((a) => a.assetId === assetId)
+
+  return holding
+    ? { status: 'opted-in', balance: holding.amount, isFrozen: holding.isFrozen }
+    : { status: 'not-opted-in', balance: 0n, isFrozen: false }
+}
+
+/**
+ * List every asset the account is opted in to, with asset params (name, unit, decimals)
+ * Params lookups that fail (e.g. destroyed asset) leave `asset` undefined
+ */
+export async function fetchAccountOptIns(algorand: AlgorandClient, address: string): Promise<AccountOptIn[]> {
+  const info = await algorand.client.algod.accountInformation(address).do()
+  const holdings = info.assets ?? []
+
+  return Promise.all(
+    holdings.map(async (h) => {
+      let asset: AssetInformation | undefined
+      try {
+        asset = await algorand.asset.getById(h.assetId)
+      } catch {
+        asset = undefined
+      }
+      return { assetId: h.assetId, balance: h.amount, isFrozen: h.isFrozen, asset }
+    }),
+  )
+}
+
+/**
+ * Why `address` cannot opt out of an asset, or null when it can. Opt-out closes the holding to the
+ * creator, so it needs a known creator (destroyed assets have none) other than the account itself.
+ */
+export function optOutBlocker(address: string, creator: string | undefined): string | null {
+  if (!creator) return 'Asset creator unknown (asset may be destroyed)'
+  if (creator === address) return 'The creator cannot opt out while the asset exists'
+  return null
+}
+
+/**
+ * Opt out = 0-amount transfer that closes the holding to the creator (closeAssetTo), which also
+ * returns any remaining balance to the creator. Returns the transaction id.
+ */
+export async function optOutOfAsset(
+  algorand: AlgorandClient,
+  { sender, signer, assetId, creator }: { sender: string; signer: TransactionSigner; assetId: bigint; creator: string | undefined },
+): Promise<string> {
+  const blocker = optOutBlocker(sender, creator)
+  if (blocker) throw new Error(blocker)
+
+  const result = await algorand.send.assetTransfer({
+    sender,
+    signer,
+    assetId,
+    receiver: creator!,
+    amount: 0n,
+    closeAssetTo: creator,
+  })
+  return result.txIds[0]
+}
@@ -0,0 +1,92 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import type { AssetInformation } from '@algorandfoundation/algokit-utils/types/asset-manager'
+
+export const ALGO_DECIMALS = 6
+
+/**
+ * One ASA held by the account, with the params needed for display
+ * `asset` is undefined when the params lookup failed (e.g. destroyed asset)
+ */
+export type PortfolioHolding = {
+  assetId: bigint
+  amount: bigint
+  isFrozen: boolean
+  createdByMe: boolean
+  asset?: AssetInformation
+}
+
+export type Portfolio = {
+  /** Round the account state was read at */
+  round: bigint
+  /** microALGO */
+  algoAmount: bigint
+  /** microALGO locked by opt-ins, apps, etc. */
+  minBalance: bigint
+  holdings: PortfolioHolding[]
+}
+
+// Portfolios keyed by network + address, with the account state they were built from
+const portfolioCache = new Map<string, { state: string; portfolio: Portfolio }>()
+
+// Name, unit, decimals and creator are immutable, so asset params are cached for the session
+const assetParamsCache = new Map<string, AssetInformation>()
+
+/**
+ * Asset params (name, unit, decimals, …) via the session cache; undefined when the lookup fails
+ */
+export async function getAssetParams(algorand: AlgorandClient, network: string, assetId: bigint): Promise<AssetInformation | undefined> {
+  const key = `${network}:${assetId}`
+  const cached = assetParamsCache.get(key)
+  if (cached) return cached
+
+  try {
+    const asset = await algorand.asset.getById(assetId)
+    assetParamsCache.set(key, asset)
+    return asset
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Read ALGO and every ASA holding of an account from algod `accountInformation`,
+ * plus an asset lookup per holding. Results are cached per round: algod reports its
+ * latest round with every read, and the cached portfolio is moved to that round
+ * without new lookups as long as the account's balances, holdings and frozen flags
+ * are what they were at the cached round.
+ */
+export async function fetchPortfolio(algorand: AlgorandClient, network: string, address: string): Promise<Portfolio> {
+  const info = await algorand.client.algod.accountInformation(address).do()
+  const key = `${network}:${address}`
+  const state = [info.amount, info.minBalance, ...(info.assets ?? []).map((h) => `${h.assetId}:${h.amount}:${h.isFrozen}`)].join(',')
+
+  const cached = portfolioCache.get(key)
+  if (cached && cached.state === state && info.round >= cached.portfolio.round) {
+    cached.portfolio = { ...cached.portfolio, round: info.round }
+    return cached.portfolio
+  }
+
+  const holdings = await Promise.all(
+    (info.assets ?? []).map(async (h) => {
+      const asset = await getAssetParams(algorand, network, h.assetId)
+      return {
+        assetId: h.assetId,
+        amount: h.amount,
+        isFrozen: h.isFrozen,
+        createdByMe: asset?.creator === address,
+        asset,
+      }
+    }),
+  )
+
+  const portfolio: Portfolio = { round: info.round, algoAmount: info.amount, minBalance: info.minBalance, holdings }
+  portfolioCache.set(key, { state, portfolio })
+  return portfolio
+}
+
+/**
+ * Drop the cached portfolio after a transaction so the next read rebuilds it
+ */
+export function invalidatePortfolio(network: string, address: string) {
+  portfolioCache.delete(`${network}:${address}`)
+}
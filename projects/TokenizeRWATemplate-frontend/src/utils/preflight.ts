@@ -0,0 +1,91 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import { lookupHolding } from './optIns'
+
+/**
+ * One problem found before signing a transfer, attached to the form field it concerns
+ */
+export type PreflightIssue = {
+  field: 'receiver' | 'amount' | 'sender' | 'holder'
+  message: string
+}
+
+export type TransferPreflightInput = {
+  sender: string
+  receiver: string
+  /** null = ALGO payment */
+  assetId: bigint | null
+  /** Amount in base units (microALGO for ALGO) */
+  amount: bigint
+  /** Clawback: holder the asset is revoked from (freeze does not apply to clawbacks) */
+  clawbackTarget?: string
+}
+
+/** Flat fee (microALGO) the sender must keep above min balance */
+const MIN_TXN_FEE = 1_000n
+
+/** Min balance (microALGO) of a basic account; an ALGO payment can't leave a new receiver below it */
+const ACCOUNT_MIN_BALANCE = 100_000n
+
+/**
+ * Check a transfer against live algod state before it is signed:
+ * receiver opted in, sender (or clawback holder) balance covers the amount,
+ * neither holding frozen, and the sender stays above min balance after fees.
+ * Returns an empty list when the transfer should go through.
+ */
+export async function runTransferPreflight(algorand: AlgorandClient, input: TransferPreflightInput): Promise<PreflightIssue[]> {
+  const { sender, receiver, assetId, amount, clawbackTarget } = input
+  const issues: PreflightIssue[] = []
+  const senderInfo = await algorand.client.algod.accountInformation(sender).do()
+  const spendable = senderInfo.amount - senderInfo.minBalance
+
+  if (assetId === null) {
+    if (spendable < amount + MIN_TXN_FEE) {
+      issues.push({ field: 'amount', message: 'This payment would take your account below its minimum balance (amount + fee).' })
+    }
+    const receiverInfo = await algorand.client.algod.accountInformation(receiver).do()
+    if (receiverInfo.amount + amount < ACCOUNT_MIN_BALANCE) {
+      issues.push({
+        field: 'receiver',
+        message: 'The receiver would stay below the 0.1 ALGO minimum balance; send at least enough to fund it.',
+      })
+    }
+    return issues
+  }
+
+  if (spendable < MIN_TXN_FEE) {
+    issues.push({ field: 'sender', message: 'Not enough ALGO above your minimum balance to pay the transaction fee.' })
+  }
+
+  const isClawback = !!clawbackTarget
+  const from = clawbackTarget || sender
+  const [fromHolding, receiverHolding] = await Promise.all([
+    lookupHolding(algorand, from, assetId),
+    lookupHolding(algorand, receiver, assetId),
+  ])
+
+  if (fromHolding.status !== 'opted-in') {
+    issues.push(
+      isClawback
+        ? { field: 'holder', message: 'This holder is not opted in to the asset.' }
+        : { field: 'sender', message: 'You are not opted in to this asset.' },
+    )
+  } else {
+    if (fromHolding.balance < amount) {
+      issues.push({
+        field: 'amount',
+        message: `${isClawback ? 'Holder' : 'Your'} balance (${fromHolding.balance} base units) does not cover this amount.`,
+      })
+    }
+    if (!isClawback && fromHolding.isFrozen) {
+      issues.push({ field: 'sender', message: 'Your holding of this asset is frozen.' })
+    }
+  }
+
+  if (receiverHolding.status !== 'opted-in') {
+    issues.push({ field: 'receiver', message: 'The receiver has not opted in to this asset yet.' })
+  } else if (!isClawback && receiverHolding.isFrozen) {
+    issues.push({ field: 'receiver', message: "The receiver's holding of this asset is frozen." })
+  }
+
+  return issues
+}
@@ -0,0 +1,43 @@
+import { decryptDocument, encryptDocument, parseVaultDocuments, parseVaultRecipients, VaultDocument } from './vault'
+
+const ADDRESS = 'VCMJKWOY5P5P7SKMZFFOCEROPJCZOTIJMNIYNUCKH7LRO45JMJP6UYBIJA'
+
+describe('encryptDocument', () => {
+  it('should round-trip through decryptDocument with the same key', async () => {
+    const plaintext = new TextEncoder().encode('Deed of title')
+    const { ciphertext, key } = await encryptDocument(plaintext)
+    expect(ciphertext.length).toBe(12 + plaintext.length + 16)
+    expect(new TextDecoder().decode(await decryptDocument(ciphertext, key))).toBe('Deed of title')
+  })
+
+  it('should fail to decrypt with another key', async () => {
+    const { ciphertext } = await encryptDocument(new Uint8Array([1, 2, 3]))
+    const other = await encryptDocument(new Uint8Array([1]))
+    await expect(decryptDocument(ciphertext, other.key)).rejects.toThrow()
+  })
+})
+
+describe('parseVaultRecipients', () => {
+  it('should accept addresses separated by lines or commas and report invalid ones', () => {
+    const { addresses, problems } = parseVaultRecipients(`${ADDRESS},\n${ADDRESS}\nnot-an-address`)
+    expect(addresses).toEqual([ADDRESS])
+    expect(problems).toEqual(['Not a valid Algorand address: not-an-address'])
+  })
+})
+
+describe('parseVaultDocuments', () => {
+  it('should keep only complete encrypted document entries', () => {
+    const document: VaultDocument = {
+      name: 'deed.pdf',
+      mimetype: 'application/pdf',
+      size: 3,
+      sha256: 'abc=',
+      cid: 'bafkrei',
+      url: 'ipfs://bafkrei',
+      envelope: 'v1.a.b.c',
+      encryption: 'AES-256-GCM',
+    }
+    expect(parseVaultDocuments({ documents: [document, { name: 'x' }, null] })).toEqual([document])
+    expect(parseVaultDocuments({ traits: {} })).toEqual([])
+  })
+})
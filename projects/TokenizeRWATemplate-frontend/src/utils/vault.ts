@@ -0,0 +1,96 @@
+import { bytesToBase64, isValidAddress } from 'algosdk'
+import { isArc19Url, resolveArc19Url } from './arc19'
+import { ipfsToGatewayUrl } from './ipfs'
+
+/**
+ * Encrypted document referenced from `properties.documents` of the asset metadata.
+ * `sha256` (base64) is the hash of the plaintext, checked again after decryption;
+ * `envelope` holds the document key sealed by the mint server for the recipient addresses.
+ */
+export type VaultDocument = {
+  name: string
+  mimetype: string
+  size: number
+  sha256: string
+  cid: string
+  url: string
+  envelope: string
+  encryption: typeof VAULT_ENCRYPTION
+}
+
+/** Stored files are a 12-byte IV followed by the AES-GCM ciphertext (tag included) */
+export const VAULT_ENCRYPTION = 'AES-256-GCM'
+
+export const MAX_VAULT_DOCUMENTS = 5
+export const MAX_VAULT_RECIPIENTS = 15
+
+const IV_BYTES = 12
+
+export async function sha256Base64(bytes: Uint8Array): Promise<string> {
+  return bytesToBase64(new Uint8Array(await crypto.subtle.digest('SHA-256', Uint8Array.from(bytes))))
+}
+
+/**
+ * Encrypt with a fresh random AES-256 key; returns IV || ciphertext and the raw key
+ */
+export async function encryptDocument(plaintext: Uint8Array): Promise<{ ciphertext: Uint8Array; key: Uint8Array }> {
+  const key = crypto.getRandomValues(new Uint8Array(32))
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const cryptoKey = await crypto.subtle.importKey('raw', key, 'AES-GCM', false, ['encrypt'])
+  const encrypted = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, cryptoKey, Uint8Array.from(plaintext)))
+
+  const ciphertext = new Uint8Array(IV_BYTES + encrypted.length)
+  ciphertext.set(iv)
+  ciphertext.set(encrypted, IV_BYTES)
+  return { ciphertext, key }
+}
+
+/**
+ * Inverse of encryptDocument; throws when the key is wrong or the ciphertext was altered
+ */
+export async function decryptDocument(ciphertext: Uint8Array, key: Uint8Array): Promise<Uint8Array> {
+  const cryptoKey = await crypto.subtle.importKey('raw', Uint8Array.from(key), 'AES-GCM', false, ['decrypt'])
+  const iv = ciphertext.slice(0, IV_BYTES)
+  return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, cryptoKey, ciphertext.slice(IV_BYTES)))
+}
+
+/**
+ * Recipient addresses from free text (one per line or comma-separated)
+ */
+export function parseVaultRecipients(text: string): { addresses: string[]; problems: string[] } {
+  const entries = text
+    .split(/[\s,]+/)
+    .map((s) => s.trim())
+    .filter(Boolean)
+  const problems = entries.filter((a) => !isValidAddress(a)).map((a) => `Not a valid Algorand address: ${a}`)
+  const addresses = [...new Set(entries.filter((a) => isValidAddress(a)))]
+  if (addresses.length > MAX_VAULT_RECIPIENTS) problems.push(`At most ${MAX_VAULT_RECIPIENTS} recipients (besides yourself).`)
+  return { addresses, problems }
+}
+
+/**
+ * Valid document entries of `properties.documents` (anything malformed is skipped)
+ */
+export function parseVaultDocuments(properties: unknown): VaultDocument[] {
+  const documents = (properties as Record<string, unknown> | undefined)?.documents
+  if (!Array.isArray(documents)) return []
+  return documents.filter(
+    (d): d is VaultDocument =>
+      !!d &&
+      typeof d === 'object' &&
+      d.encryption === VAULT_ENCRYPTION &&
+      ['name', 'sha256', 'cid', 'url', 'envelope'].every((key) => typeof d[key] === 'string' && d[key]),
+  )
+}
+
+/**
+ * Vault documents listed in an asset's ARC-3 / ARC-19 metadata JSON
+ */
+export async function fetchAssetVaultDocuments(assetId: bigint, params: { url?: string; reserve?: string }): Promise<VaultDocument[]> {
+  if (!params.url) return []
+  const url = isArc19Url(params.url) ? resolveArc19Url(params.url, params.reserve ?? '') : params.url
+  const response = await fetch(ipfsToGatewayUrl(url.replace(/\{id\}/g, String(assetId))))
+  if (!response.ok) throw new Error(`HTTP ${response.status}`)
+  const metadata = (await response.json()) as Record<string, unknown>
+  return parseVaultDocuments(metadata.properties)
+}
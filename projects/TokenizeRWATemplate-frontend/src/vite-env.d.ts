@@ -17,6 +17,10 @@ interface ImportMetaEnv {
   readonly VITE_KMD_PORT: string
   readonly VITE_KMD_PASSWORD: string
   readonly VITE_KMD_WALLET: string
+
+  readonly VITE_USDC_ASSET_ID?: string
+  readonly VITE_EXPLORER_URL?: string
+  readonly VITE_IPFS_GATEWAY?: string
 }
 
 interface ImportMeta {
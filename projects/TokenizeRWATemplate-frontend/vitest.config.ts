@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config'
+
+// Unit specs for src/utils (tests/ holds the Playwright end-to-end suite).
+// `globals` keeps the jest-style describe / it / expect the specs are written with.
+export default defineConfig({
+  test: {
+    globals: true,
+    environment: 'node',
+    include: ['src/**/*.spec.ts', 'src/**/*.spec.tsx'],
+  },
+})